@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+
+    return NextResponse.json({
+      success: true,
+      data: enhancedTradingBot.getPerformanceAnalytics(),
+    });
+  } catch (error) {
+    console.error('Error computing performance analytics:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BacktestEngine, findCandleIssue } from '@/lib/backtest-engine';
+import { DEFAULT_BOT_CONFIG, formatBotConfigErrors, validateBotConfigUpdate } from '@/lib/bot-config';
+import { DataValidationIssue, HistoricalDataFeed, parseCsvCandles, parseJsonLinesCandles } from '@/lib/historical-data';
+import { strategyRegistry } from '@/lib/strategies';
+import { TIMEFRAMES } from '@/lib/candles';
+import { MarketDataFeed } from '@/types/broker';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    let candles: MarketDataFeed[] = [];
+    let dataIssues: DataValidationIssue[] = [];
+
+    if (typeof body.csv === 'string' || typeof body.jsonl === 'string') {
+      // Raw file contents plus import options ({ symbol, timeframe, timezone, timestampFormat, columns, ... })
+      if (!body.options?.symbol || !body.options?.timeframe) {
+        return NextResponse.json({
+          success: false,
+          message: 'Missing import options',
+          error: 'options.symbol and options.timeframe are required for csv/jsonl input',
+        }, { status: 400 });
+      }
+      if (!TIMEFRAMES.includes(body.options.timeframe)) {
+        return NextResponse.json({
+          success: false,
+          message: 'Invalid timeframe',
+          error: `options.timeframe must be one of ${TIMEFRAMES.join(', ')}`,
+        }, { status: 400 });
+      }
+
+      const dataset = typeof body.csv === 'string'
+        ? parseCsvCandles(body.csv, body.options)
+        : parseJsonLinesCandles(body.jsonl, body.options);
+      candles = new HistoricalDataFeed(dataset.candles).toMarketDataFeeds();
+      dataIssues = dataset.issues;
+    } else if (Array.isArray(body.candles)) {
+      // Anything that is not an object is left for findCandleIssue to report by index
+      candles = body.candles.map((candle: MarketDataFeed) => typeof candle === 'object' && candle !== null ? {
+        ...candle,
+        timestamp: new Date(candle.timestamp),
+      } : candle);
+    }
+
+    if (candles.length === 0) {
+      return NextResponse.json({
+        success: false,
+        message: 'Missing historical candles',
+        error: 'Provide candles as a non-empty array of OHLCV bars, or csv/jsonl file contents',
+        dataIssues,
+      }, { status: 400 });
+    }
+
+    const candleIssue = findCandleIssue(candles);
+    if (candleIssue) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid historical candles',
+        error: candleIssue,
+        dataIssues,
+      }, { status: 400 });
+    }
+
+    // Overrides are checked against the defaults the backtest bot starts from
+    const validation = validateBotConfigUpdate(DEFAULT_BOT_CONFIG, body.config ?? {});
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid configuration',
+        error: formatBotConfigErrors(validation.errors),
+        errors: validation.errors,
+      }, { status: 400 });
+    }
+    if (body.strategy !== undefined && (typeof body.strategy !== 'string' || !strategyRegistry.has(body.strategy))) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unknown strategy',
+        error: `strategy must be one of ${strategyRegistry.list().map(s => s.id).join(', ')}`,
+      }, { status: 400 });
+    }
+
+    const engine = new BacktestEngine({
+      config: validation.changes,
+      strategy: body.strategy,
+      stopOnTarget: body.stopOnTarget,
+      closeOpenPositions: body.closeOpenPositions,
+    });
+    const result = await engine.run(candles);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      dataIssues,
+    });
+  } catch (error) {
+    console.error('Backtest error:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Backtest failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
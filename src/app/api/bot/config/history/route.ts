@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+// Config versions newest first, with the results of the trades opened under each
+export async function GET(request: NextRequest) {
+  try {
+    const rawLimit = request.nextUrl.searchParams.get('limit');
+    const limit = rawLimit === null ? undefined : Number(rawLimit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid limit',
+        error: 'limit must be a positive integer',
+      }, { status: 400 });
+    }
+
+    await enhancedTradingBot.whenReady();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        current: enhancedTradingBot.getCurrentConfigVersion(),
+        versions: enhancedTradingBot.getConfigVersions(limit),
+        performance: enhancedTradingBot.getConfigPerformance(),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting config history:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { getChangedBy } from '@/lib/bot-config';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Switches the bot to the profile's config and strategy, recorded as a new config version
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    await enhancedTradingBot.whenReady();
+
+    if (!enhancedTradingBot.getConfigProfiles().some(p => p.name === name)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Profile not found',
+        error: `No config profile named ${name}`,
+      }, { status: 404 });
+    }
+
+    let version;
+    try {
+      version = await enhancedTradingBot.applyConfigProfile(name, getChangedBy(request.headers));
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Profile not applied',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Applied profile ${name} (config v${version.version})`,
+      data: { config: enhancedTradingBot.getConfig(), version },
+    });
+  } catch (error) {
+    console.error('Error applying config profile:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
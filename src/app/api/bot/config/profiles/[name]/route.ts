@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { getChangedBy } from '@/lib/bot-config';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    await enhancedTradingBot.whenReady();
+
+    const profile = enhancedTradingBot.getConfigProfiles().find(p => p.name === name);
+    if (!profile) {
+      return NextResponse.json({
+        success: false,
+        message: 'Profile not found',
+        error: `No config profile named ${name}`,
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { profile },
+    });
+  } catch (error) {
+    console.error('Error getting config profile:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    await enhancedTradingBot.whenReady();
+
+    if (!enhancedTradingBot.getConfigProfiles().some(p => p.name === name)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Profile not found',
+        error: `No config profile named ${name}`,
+      }, { status: 404 });
+    }
+    await enhancedTradingBot.deleteConfigProfile(name, getChangedBy(request.headers));
+
+    return NextResponse.json({
+      success: true,
+      message: `Deleted profile ${name}`,
+    });
+  } catch (error) {
+    console.error('Error deleting config profile:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
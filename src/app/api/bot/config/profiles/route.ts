@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { formatBotConfigErrors, getChangedBy, validateBotConfigUpdate } from '@/lib/bot-config';
+import { strategyRegistry } from '@/lib/strategies';
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        profiles: enhancedTradingBot.getConfigProfiles(),
+        active: enhancedTradingBot.getCurrentConfigVersion().profile ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('Error getting config profiles:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Saves the current settings as a named profile; config and strategyId override parts of them
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    await enhancedTradingBot.whenReady();
+
+    if (typeof body.name !== 'string' || body.name.trim() === '' || body.name.trim().length > 64 ||
+        (body.description !== undefined && typeof body.description !== 'string')) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid profile',
+        error: 'name must be 1-64 characters and description a string when given',
+      }, { status: 400 });
+    }
+    if (body.strategyId !== undefined && (typeof body.strategyId !== 'string' || !strategyRegistry.has(body.strategyId))) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unknown strategy',
+        error: `strategyId must be one of ${strategyRegistry.list().map(s => s.id).join(', ')}`,
+      }, { status: 400 });
+    }
+    if (body.config !== undefined) {
+      const validation = validateBotConfigUpdate(enhancedTradingBot.getConfig(), body.config);
+      if (!validation.success) {
+        return NextResponse.json({
+          success: false,
+          message: 'Invalid configuration',
+          error: formatBotConfigErrors(validation.errors),
+          errors: validation.errors,
+        }, { status: 400 });
+      }
+    }
+
+    let profile;
+    try {
+      profile = await enhancedTradingBot.saveConfigProfile(body.name, {
+        description: body.description,
+        config: body.config,
+        strategyId: body.strategyId,
+      }, getChangedBy(request.headers));
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Profile not saved',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Saved profile ${profile.name}`,
+      data: { profile },
+    });
+  } catch (error) {
+    console.error('Error saving config profile:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
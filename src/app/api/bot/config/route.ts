@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { formatBotConfigErrors, getChangedBy, validateBotConfigUpdate } from '@/lib/bot-config';
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        config: enhancedTradingBot.getConfig(),
+        version: enhancedTradingBot.getCurrentConfigVersion(),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting bot config:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Partial update, recorded as a new config version; errors lists the messages per field
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    await enhancedTradingBot.whenReady();
+
+    const validation = validateBotConfigUpdate(enhancedTradingBot.getConfig(), body);
+    if (!validation.success) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid configuration',
+        error: formatBotConfigErrors(validation.errors),
+        errors: validation.errors,
+      }, { status: 400 });
+    }
+
+    let config;
+    try {
+      config = await enhancedTradingBot.updateConfig(validation.changes, getChangedBy(request.headers));
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Cannot update configuration',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    const changed = Object.keys(validation.changes);
+    return NextResponse.json({
+      success: true,
+      message: changed.length > 0 ? `Updated ${changed.join(', ')}` : 'Configuration unchanged',
+      data: { config, version: enhancedTradingBot.getCurrentConfigVersion() },
+    });
+  } catch (error) {
+    console.error('Error updating bot config:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -4,7 +4,7 @@ import { BrokerConfig } from '@/types/broker';
 
 export async function POST(request: NextRequest) {
   try {
-    const brokerConfig: BrokerConfig = await request.json();
+    const { failover, ...brokerConfig }: BrokerConfig & { failover?: BrokerConfig } = await request.json();
     
     // Validate required fields
     if (!brokerConfig.name || !brokerConfig.apiKey || !brokerConfig.serverUrl) {
@@ -14,11 +14,21 @@ export async function POST(request: NextRequest) {
         error: 'name, apiKey, and serverUrl are required',
       }, { status: 400 });
     }
+    if (failover && (!failover.name || !failover.apiKey || !failover.serverUrl)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Missing required failover broker configuration fields',
+        error: 'failover.name, failover.apiKey, and failover.serverUrl are required',
+      }, { status: 400 });
+    }
 
     // Configure broker
     const success = await enhancedTradingBot.configureBroker(brokerConfig);
     
     if (success) {
+      if (failover) {
+        enhancedTradingBot.configureFailoverBroker(failover);
+      }
       const accountInfo = await enhancedTradingBot.getBrokerAccountInfo();
       
       return NextResponse.json({
@@ -27,6 +37,7 @@ export async function POST(request: NextRequest) {
         data: {
           brokerConnected: true,
           accountInfo,
+          brokerHealth: enhancedTradingBot.getBrokerHealth(),
           status: enhancedTradingBot.getStatus(),
         },
       });
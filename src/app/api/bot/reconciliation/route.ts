@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        brokerConnected: enhancedTradingBot.getBrokerConnection(),
+        report: enhancedTradingBot.getReconciliationReport() || null,
+      },
+    });
+  } catch (error) {
+    console.error('Error getting reconciliation report:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Runs a reconciliation pass immediately instead of waiting for the next scheduled one
+export async function POST() {
+  try {
+    await enhancedTradingBot.whenReady();
+
+    if (!enhancedTradingBot.getBrokerConnection()) {
+      return NextResponse.json({
+        success: false,
+        message: 'Cannot reconcile positions',
+        error: 'No broker connected',
+      }, { status: 409 });
+    }
+
+    const report = await enhancedTradingBot.reconcilePositions();
+    return NextResponse.json({
+      success: true,
+      message: `Reconciled ${report.matched} position(s): ${report.adopted.length} adopted, ${report.closed.length} closed, ${report.mismatches.length} mismatch(es)`,
+      data: { report },
+    });
+  } catch (error) {
+    console.error('Error reconciling positions:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,9 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
 
-export async function POST(_request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
-    const success = await enhancedTradingBot.start();
+    const body = await request.json().catch(() => ({}));
+
+    // Optional seed to replay a previously reported simulated session
+    if (body.seed !== undefined) {
+      if (!Number.isInteger(body.seed) || body.seed < 0) {
+        return NextResponse.json({
+          success: false,
+          message: 'Invalid simulation seed',
+          error: 'seed must be a non-negative integer',
+        }, { status: 400 });
+      }
+      // The running session keeps its price paths; stop the bot first to replay a seed
+      if (enhancedTradingBot.getStatus().isRunning) {
+        return NextResponse.json({
+          success: false,
+          message: 'Bot is already running',
+          error: `Cannot apply seed ${body.seed} while the bot is running; stop it first`,
+        }, { status: 409 });
+      }
+      enhancedTradingBot.setSimulationSeed(body.seed);
+    }
+
+    const success = await enhancedTradingBot.start({ overrideDailyLoss: body.overrideDailyLoss === true });
     
     if (success) {
       return NextResponse.json({
@@ -15,7 +37,7 @@ export async function POST(_request: NextRequest) {
       return NextResponse.json({
         success: false,
         message: 'Failed to start trading bot',
-        error: 'Bot may already be running or target already reached',
+        error: enhancedTradingBot.getStatus().lastAction,
       }, { status: 400 });
     }
   } catch (error) {
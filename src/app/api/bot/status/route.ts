@@ -1,27 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { getBotStatusPayload } from '@/lib/bot-status';
 
 export async function GET(_request: NextRequest) {
   try {
-    const state = enhancedTradingBot.getState();
-        const brokerConnected = enhancedTradingBot.getBrokerConnection();
-        const accountInfo = brokerConnected ? await enhancedTradingBot.getBrokerAccountInfo() : null;
-    
     return NextResponse.json({
       success: true,
-      data: {
-        status: state.status,
-        positions: state.positions,
-        trades: state.trades.slice(-10), // Last 10 trades
-        marketData: state.marketData,
-        analysis: state.analysis,
-        indicators: state.indicators,
-        riskMetrics: state.riskMetrics,
-        actions: state.actions.slice(0, 10), // Last 10 actions
-        config: state.config, // Add config to response
-        brokerConnected,
-        accountInfo,
-      },
+      data: await getBotStatusPayload(),
     });
   } catch (error) {
     console.error('Error getting bot status:', error);
@@ -36,7 +21,7 @@ export async function GET(_request: NextRequest) {
 export async function POST(_request: NextRequest) {
   try {
     // Reset bot to initial state
-    enhancedTradingBot.reset();
+    await enhancedTradingBot.reset();
     
     return NextResponse.json({
       success: true,
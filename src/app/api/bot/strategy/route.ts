@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { strategyRegistry } from '@/lib/strategies';
+import { getChangedBy } from '@/lib/bot-config';
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        active: enhancedTradingBot.getStrategy(),
+        available: strategyRegistry.list(),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting strategies:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.strategyId !== 'string' || !strategyRegistry.has(body.strategyId)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unknown strategy',
+        error: `strategyId must be one of ${strategyRegistry.list().map(s => s.id).join(', ')}`,
+      }, { status: 400 });
+    }
+
+    try {
+      await enhancedTradingBot.setStrategy(body.strategyId, getChangedBy(request.headers));
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Cannot switch strategy',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Strategy switched to ${enhancedTradingBot.getStrategy().name}`,
+      data: { active: enhancedTradingBot.getStrategy() },
+    });
+  } catch (error) {
+    console.error('Error switching strategy:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { getBotStatusPayload } from '@/lib/bot-status';
+import { BotEvent, CLIENT_STATE_EVENTS, STATE_REPLACING_EVENTS } from '@/lib/bot-events';
+
+export const dynamic = 'force-dynamic';
+
+const KEEPALIVE_INTERVAL = 15000; // Comment lines keep proxies from closing an idle stream
+const RETRY_DELAY = 3000;
+
+// Opens with a full snapshot, or with the missed events when resuming. EventSource sends
+// Last-Event-ID on its own reconnects; clients reconnecting by hand pass ?lastEventId=
+export async function GET(request: NextRequest) {
+  await enhancedTradingBot.whenReady();
+  const bus = enhancedTradingBot.getEventBus();
+  const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId');
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let held: BotEvent[] | null = null; // Events raised while a snapshot is being built
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const sendEvent = (type: string, id: string | null, data: unknown) => {
+        send(`${id ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const sendSnapshot = async () => {
+        held = [];
+        let snapshotId: string | null = null;
+        try {
+          const payload = await getBotStatusPayload();
+          snapshotId = payload.lastEventId;
+          sendEvent('snapshot', snapshotId, payload);
+        } catch (error) {
+          sendEvent('snapshot-error', null, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        const pending: BotEvent[] = held;
+        held = null;
+        // Events up to the snapshot's id are already part of it
+        const snapshotIndex = pending.findIndex(event => event.id === snapshotId);
+        pending.slice(snapshotIndex + 1).forEach(handleEvent);
+      };
+
+      // A replaced state is answered with a fresh snapshot; only events the client folds in are forwarded
+      const handleEvent = (event: BotEvent) => {
+        if (held) {
+          held.push(event);
+        } else if (STATE_REPLACING_EVENTS.includes(event.type)) {
+          void sendSnapshot();
+        } else if (CLIENT_STATE_EVENTS.includes(event.type)) {
+          const { id, ...data } = event;
+          sendEvent(event.type, id, data);
+        }
+      };
+
+      const unsubscribe = bus.subscribe(handleEvent);
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_INTERVAL);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(keepalive);
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+
+      send(`retry: ${RETRY_DELAY}\n\n`);
+      const missed = lastEventId ? bus.getEventsSince(lastEventId) : null;
+      if (missed) {
+        missed.forEach(handleEvent);
+      } else {
+        void sendSnapshot();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+    const state = enhancedTradingBot.getState();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        watchlist: state.watchlist,
+        symbols: state.symbols,
+      },
+    });
+  } catch (error) {
+    console.error('Error getting watchlist:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (!Array.isArray(body.symbols) || body.symbols.length === 0 || !body.symbols.every((s: unknown) => typeof s === 'string')) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid watchlist',
+        error: 'symbols must be a non-empty array of symbol strings',
+      }, { status: 400 });
+    }
+
+    try {
+      await enhancedTradingBot.setWatchlist(body.symbols);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Cannot update watchlist',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Watchlist set to ${enhancedTradingBot.getWatchlist().join(', ')}`,
+      data: { watchlist: enhancedTradingBot.getWatchlist() },
+    });
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
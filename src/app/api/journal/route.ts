@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+import { JournalQuery, TradeOutcome } from '@/lib/trade-journal';
+
+const OUTCOMES: TradeOutcome[] = ['WIN', 'LOSS', 'BREAKEVEN', 'OPEN'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const journal = enhancedTradingBot.getJournal();
+
+    // Full audit trail of a single position
+    const positionId = params.get('positionId');
+    if (positionId) {
+      const record = await journal.getRecord(positionId);
+      if (!record) {
+        return NextResponse.json({
+          success: false,
+          message: 'Position not found in journal',
+          error: `No journal entries for ${positionId}`,
+        }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, data: record });
+    }
+
+    const query: JournalQuery = {};
+    const from = params.get('from');
+    const to = params.get('to');
+    const outcome = params.get('outcome');
+    const limit = params.get('limit');
+
+    if (from) query.from = new Date(from);
+    if (to) query.to = new Date(to);
+    if (params.get('symbol')) query.symbol = params.get('symbol')!;
+    if (limit) query.limit = parseInt(limit);
+
+    if ((query.from && isNaN(query.from.getTime())) || (query.to && isNaN(query.to.getTime()))) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid date range',
+        error: 'from and to must be ISO dates',
+      }, { status: 400 });
+    }
+    if (outcome) {
+      if (!OUTCOMES.includes(outcome as TradeOutcome)) {
+        return NextResponse.json({
+          success: false,
+          message: 'Invalid outcome',
+          error: `outcome must be one of ${OUTCOMES.join(', ')}`,
+        }, { status: 400 });
+      }
+      query.outcome = outcome as TradeOutcome;
+    }
+    if (query.limit !== undefined && (isNaN(query.limit) || query.limit < 0)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid limit',
+        error: 'limit must be a non-negative integer',
+      }, { status: 400 });
+    }
+
+    const records = await journal.query(query);
+
+    return NextResponse.json({
+      success: true,
+      data: records,
+    });
+  } catch (error) {
+    console.error('Error querying trade journal:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+export async function GET() {
+  try {
+    const { candles, analysis } = await enhancedTradingBot.getMultiTimeframeAnalysis();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        symbol: enhancedTradingBot.getState().marketData.symbol,
+        candles,
+        analysis,
+      },
+    });
+  } catch (error) {
+    console.error('Error getting multi-timeframe data:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const isPrice = (value: unknown) => value === undefined || (typeof value === 'number' && value > 0);
+
+function findPosition(id: string) {
+  return enhancedTradingBot.getState().positions.find(p => p.id === id && p.status !== 'CLOSED');
+}
+
+function notFound(id: string) {
+  return NextResponse.json({
+    success: false,
+    message: 'Position not found',
+    error: `No open position with id ${id}`,
+  }, { status: 404 });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    await enhancedTradingBot.whenReady();
+
+    if ((body.stopLoss === undefined && body.takeProfit === undefined) || !isPrice(body.stopLoss) || !isPrice(body.takeProfit)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid modification',
+        error: 'stopLoss and/or takeProfit must be given as positive prices',
+      }, { status: 400 });
+    }
+    if (!findPosition(id)) return notFound(id);
+
+    let position;
+    try {
+      position = await enhancedTradingBot.modifyPosition(id, { stopLoss: body.stopLoss, takeProfit: body.takeProfit });
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Position not modified',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${position.symbol} ${position.type} SL ${position.stopLoss.toFixed(2)}, TP ${position.takeProfit.toFixed(2)}`,
+      data: { position },
+    });
+  } catch (error) {
+    console.error('Error modifying position:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Closes the whole position, or part of it with ?quantity=
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const rawQuantity = request.nextUrl.searchParams.get('quantity');
+    const quantity = rawQuantity === null ? undefined : Number(rawQuantity);
+    await enhancedTradingBot.whenReady();
+
+    if (quantity !== undefined && !(quantity > 0)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid quantity',
+        error: 'quantity must be a positive number',
+      }, { status: 400 });
+    }
+    const position = findPosition(id);
+    if (!position) return notFound(id);
+    const partial = quantity !== undefined && quantity < position.quantity;
+
+    try {
+      await enhancedTradingBot.closePositionById(id, quantity);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Position not closed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: partial
+        ? `Closed ${quantity} of ${position.symbol} ${position.type}; ${position.quantity} remaining`
+        : `Closed ${position.symbol} ${position.type} position`,
+      data: { position: findPosition(id) ?? null },
+    });
+  } catch (error) {
+    console.error('Error closing position:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enhancedTradingBot } from '@/lib/enhanced-trading-bot';
+
+const isPrice = (value: unknown) => value === undefined || (typeof value === 'number' && value > 0);
+
+export async function GET() {
+  try {
+    await enhancedTradingBot.whenReady();
+    const state = enhancedTradingBot.getState();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        positions: state.positions.filter(p => p.status !== 'CLOSED'),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting positions:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    await enhancedTradingBot.whenReady();
+
+    if (typeof body.symbol !== 'string' || !enhancedTradingBot.getWatchlist().includes(body.symbol) ||
+        (body.side !== 'LONG' && body.side !== 'SHORT') ||
+        typeof body.quantity !== 'number' || !(body.quantity > 0) ||
+        !isPrice(body.stopLoss) || !isPrice(body.takeProfit)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid position',
+        error: 'symbol must be on the watchlist, side LONG or SHORT, quantity a positive number, and stopLoss/takeProfit positive prices when given',
+      }, { status: 400 });
+    }
+
+    let position;
+    try {
+      position = await enhancedTradingBot.openManualPosition({
+        symbol: body.symbol,
+        side: body.side,
+        quantity: body.quantity,
+        stopLoss: body.stopLoss,
+        takeProfit: body.takeProfit,
+      });
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Position not opened',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: position.status === 'PENDING'
+        ? `${position.symbol} ${position.type} order accepted, awaiting fill`
+        : `${position.symbol} ${position.type} position opened at ${position.entryPrice.toFixed(2)}`,
+      data: { position },
+    });
+  } catch (error) {
+    console.error('Error opening position:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    await enhancedTradingBot.whenReady();
+    const count = enhancedTradingBot.getState().positions.filter(p => p.status !== 'CLOSED').length;
+    try {
+      await enhancedTradingBot.closeAllPositions('Manual close all');
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: 'Positions not closed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Closed ${count} position${count === 1 ? '' : 's'}`,
+      data: { closed: count },
+    });
+  } catch (error) {
+    console.error('Error closing positions:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
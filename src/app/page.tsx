@@ -124,7 +124,7 @@ export default function HomePage() {
         </div>
       </div>
       
-      <TradingDashboard />
+      <TradingDashboard user={userCredentials?.username} />
     </div>
   );
 }
\ No newline at end of file
@@ -2,6 +2,13 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export interface StrategyOption {
+  id: string;
+  name: string;
+  description: string;
+}
 
 interface BotControlsProps {
   isRunning: boolean;
@@ -10,6 +17,9 @@ interface BotControlsProps {
   onStop: () => void;
   onReset: () => void;
   loading: boolean;
+  strategies?: StrategyOption[];
+  activeStrategy?: string;
+  onStrategyChange?: (strategyId: string) => void;
 }
 
 export function BotControls({
@@ -18,14 +28,45 @@ export function BotControls({
   onStart,
   onStop,
   onReset,
-  loading
+  loading,
+  strategies = [],
+  activeStrategy,
+  onStrategyChange
 }: BotControlsProps) {
+  const selectedStrategy = strategies.find(s => s.id === activeStrategy);
+
   return (
     <Card className="bg-slate-800/50 border-slate-700">
       <CardHeader>
         <CardTitle className="text-white">Bot Controls</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Strategy Selector */}
+        {strategies.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-300">Strategy</p>
+            <Select
+              value={activeStrategy}
+              onValueChange={(value) => onStrategyChange?.(value)}
+              disabled={loading}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue placeholder="Select strategy" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                {strategies.map(strategy => (
+                  <SelectItem key={strategy.id} value={strategy.id}>
+                    {strategy.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedStrategy && (
+              <p className="text-xs text-slate-400">{selectedStrategy.description}</p>
+            )}
+          </div>
+        )}
+
         {/* Main Control Buttons */}
         <div className="grid grid-cols-2 gap-3">
           <Button
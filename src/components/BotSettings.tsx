@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { BotConfig } from '@/types/trading';
+import { BotConfigErrors, botConfigSchema } from '@/lib/bot-config';
+
+export type BotConfigSaveResult =
+  | { success: true }
+  | { success: false; error: string; errors?: BotConfigErrors };
+
+type NumberField = Exclude<keyof BotConfig, 'tradingDayStart' | 'tradingDayTimezone' | 'flattenOnDailyLoss'>;
+
+const NUMBER_FIELDS: { name: NumberField; label: string; description: string; step: string }[] = [
+  { name: 'initialCapital', label: 'Initial Capital', description: 'Only before the first trade', step: '1' },
+  { name: 'targetProfit', label: 'Target Profit', description: 'Bot stops once reached', step: '1' },
+  { name: 'maxRiskPerTrade', label: 'Risk per Trade', description: 'Fraction of balance (0.01 = 1%)', step: '0.001' },
+  { name: 'maxPortfolioRisk', label: 'Portfolio Risk', description: 'Combined open risk, fraction', step: '0.001' },
+  { name: 'maxDailyLoss', label: 'Max Daily Loss', description: 'Fraction of the day\'s starting balance', step: '0.01' },
+  { name: 'maxDrawdown', label: 'Max Drawdown', description: 'Entries pause this far below peak equity', step: '0.01' },
+  { name: 'riskRewardRatio', label: 'Risk/Reward', description: 'Default take profit distance', step: '0.1' },
+  { name: 'minConfidence', label: 'Min Confidence', description: 'Signal confidence, 0-100', step: '1' },
+  { name: 'minProbability', label: 'Min Probability', description: 'Win probability, 0-1', step: '0.01' },
+  { name: 'maxOpenPositions', label: 'Max Positions', description: 'Across all symbols', step: '1' },
+  { name: 'maxPositionsPerSymbol', label: 'Max per Symbol', description: 'Open positions per symbol', step: '1' },
+];
+
+interface BotSettingsProps {
+  config: BotConfig;
+  onSave: (changes: Partial<BotConfig>) => Promise<BotConfigSaveResult>;
+}
+
+export function BotSettings({ config, onSave }: BotSettingsProps) {
+  const form = useForm<BotConfig>({
+    resolver: zodResolver(botConfigSchema),
+    defaultValues: config,
+  });
+  const { isDirty, isSubmitting, errors } = form.formState;
+
+  // Follow changes made elsewhere unless the user is editing
+  useEffect(() => {
+    if (!isDirty) form.reset(config);
+  }, [config, isDirty, form]);
+
+  const handleSubmit = async (values: BotConfig) => {
+    const changes: Partial<BotConfig> = {};
+    (Object.keys(values) as (keyof BotConfig)[])
+      .filter(key => values[key] !== config[key])
+      .forEach(key => Object.assign(changes, { [key]: values[key] }));
+
+    const result = await onSave(changes);
+    if (result.success) {
+      form.reset(values);
+      return;
+    }
+
+    Object.entries(result.errors?.fieldErrors ?? {}).forEach(([field, messages]) => {
+      form.setError(field as keyof BotConfig, { message: (messages as string[])[0] });
+    });
+    const formError = result.errors?.formErrors[0] ?? (result.errors ? undefined : result.error);
+    if (formError) form.setError('root', { message: formError });
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">Bot Settings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {NUMBER_FIELDS.map(({ name, label, description, step }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-slate-300">{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step={step}
+                          name={field.name}
+                          ref={field.ref}
+                          value={Number.isNaN(field.value) ? '' : field.value}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          onBlur={field.onBlur}
+                          className="bg-slate-700 border-slate-600 text-white"
+                        />
+                      </FormControl>
+                      <FormDescription className="text-xs text-slate-400">{description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <FormField
+                control={form.control}
+                name="tradingDayStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-slate-300">Trading Day Start</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="00:00" className="bg-slate-700 border-slate-600 text-white" />
+                    </FormControl>
+                    <FormDescription className="text-xs text-slate-400">Daily loss resets, HH:mm</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tradingDayTimezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-slate-300">Timezone</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="UTC" className="bg-slate-700 border-slate-600 text-white" />
+                    </FormControl>
+                    <FormDescription className="text-xs text-slate-400">UTC, -05:00 or IANA zone</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="flattenOnDailyLoss"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between p-3 rounded-lg bg-slate-700/30">
+                  <div>
+                    <FormLabel className="text-slate-300">Flatten on Daily Loss</FormLabel>
+                    <FormDescription className="text-xs text-slate-400">Close positions and stop when the limit is hit</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {errors.root && <p className="text-sm text-red-400">{errors.root.message}</p>}
+
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!isDirty || isSubmitting}
+                onClick={() => form.reset(config)}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                Discard
+              </Button>
+              <Button type="submit" disabled={!isDirty || isSubmitting} className="bg-blue-600 hover:bg-blue-700">
+                {isSubmitting ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
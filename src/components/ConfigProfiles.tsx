@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ConfigFieldChange, ConfigProfile, ConfigVersion, ConfigVersionPerformance } from '@/lib/config-history';
+
+interface ConfigProfilesProps {
+  profiles: ConfigProfile[];
+  activeProfile?: string | null;
+  versions: ConfigVersion[];
+  performance: ConfigVersionPerformance[];
+  onSaveProfile: (name: string, description?: string) => Promise<string | null>; // Resolves to an error message
+  onApplyProfile: (name: string) => Promise<void>;
+  onDeleteProfile: (name: string) => Promise<void>;
+}
+
+const formatValue = (value: ConfigFieldChange['value'] | undefined) =>
+  value === undefined ? '—' : String(value);
+
+export function ConfigProfiles({
+  profiles,
+  activeProfile,
+  versions,
+  performance,
+  onSaveProfile,
+  onApplyProfile,
+  onDeleteProfile,
+}: ConfigProfilesProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const performanceByVersion = new Map(performance.map(p => [p.version, p]));
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const error = await onSaveProfile(name.trim(), description.trim() || undefined);
+    setSaveError(error);
+    if (!error) {
+      setName('');
+      setDescription('');
+    }
+  });
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">Profiles & History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {profiles.length === 0 && <p className="text-sm text-slate-400">No saved profiles</p>}
+          {profiles.map(profile => (
+            <div key={profile.name} className="flex items-center justify-between p-3 rounded-lg bg-slate-700/30">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-medium truncate">{profile.name}</span>
+                  {profile.name === activeProfile && <Badge className="bg-green-600">Active</Badge>}
+                </div>
+                <p className="text-xs text-slate-400 truncate">
+                  {profile.description ? `${profile.description} · ` : ''}{profile.strategyId}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => run(() => onApplyProfile(profile.name))}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Apply
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => run(() => onDeleteProfile(profile.name))}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Profile name"
+              maxLength={64}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+          {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+          <Button
+            disabled={busy || name.trim() === ''}
+            onClick={handleSave}
+            className="w-full bg-blue-600 hover:bg-blue-700"
+          >
+            Save Current Settings as Profile
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-slate-300">Recent Versions</h4>
+          {versions.map(version => {
+            const stats = performanceByVersion.get(version.version);
+            return (
+              <div key={version.version} className="p-3 rounded-lg bg-slate-700/30 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">v{version.version} · {version.reason}</span>
+                  <span className="text-slate-400">{new Date(version.changedAt).toLocaleString()}</span>
+                </div>
+                <p className="text-slate-400">
+                  by {version.changedBy}{version.profile ? ` · profile ${version.profile}` : ''}
+                </p>
+                {version.changes.filter(change => change.previous !== undefined).map(change => (
+                  <p key={change.field} className="text-slate-300 font-mono">
+                    {change.field}: {formatValue(change.previous)} → {formatValue(change.value)}
+                  </p>
+                ))}
+                {stats && (
+                  <p className={stats.totalProfit >= 0 ? 'text-green-400' : 'text-red-400'}>
+                    {stats.trades} trades · {stats.winRate.toFixed(0)}% win · ${stats.totalProfit.toFixed(2)}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -66,9 +66,9 @@ export function LoginPage({ onLogin, onSkipToDemo, isLoading, error }: LoginPage
     },
     INTERACTIVE_BROKERS: {
       name: 'Interactive Brokers',
-      defaultServer: 'api.interactivebrokers.com',
-      description: 'Professional trading platform',
-      ports: '4001, 4002',
+      defaultServer: 'localhost:5000',
+      description: 'Professional trading platform (Client Portal gateway)',
+      ports: '5000',
     },
     ALPACA: {
       name: 'Alpaca',
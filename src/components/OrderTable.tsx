@@ -0,0 +1,88 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ManagedOrder, OrderStatus } from '@/types/trading';
+
+interface OrderTableProps {
+  orders: ManagedOrder[];
+}
+
+export function OrderTable({ orders }: OrderTableProps) {
+  const recentOrders = [...orders].reverse().slice(0, 10); // Newest first
+  const workingCount = orders.filter(o => o.status === 'NEW' || o.status === 'ACCEPTED' || o.status === 'PARTIALLY_FILLED').length;
+
+  const getStatusColor = (status: OrderStatus) => {
+    switch (status) {
+      case 'FILLED': return 'bg-green-600 text-white';
+      case 'PARTIALLY_FILLED': return 'bg-yellow-600 text-white';
+      case 'ACCEPTED':
+      case 'NEW': return 'bg-blue-600 text-white';
+      case 'REJECTED': return 'bg-red-600 text-white';
+      default: return 'bg-slate-600 text-white';
+    }
+  };
+
+  const formatTime = (timestamp: Date) => {
+    return new Date(timestamp).toLocaleTimeString(undefined, {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <span>Orders</span>
+          <Badge variant="outline" className="text-slate-300">
+            {workingCount} Working
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {recentOrders.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-600 text-slate-400">
+                  <th className="text-left py-2">Time</th>
+                  <th className="text-left py-2">Symbol</th>
+                  <th className="text-left py-2">Side</th>
+                  <th className="text-right py-2">Filled / Qty</th>
+                  <th className="text-right py-2">Avg Price</th>
+                  <th className="text-center py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentOrders.map((order) => (
+                  <tr key={order.id} className="border-b border-slate-700/50">
+                    <td className="py-3 text-slate-400 text-xs">{formatTime(order.updatedAt)}</td>
+                    <td className="py-3 text-white font-medium">{order.symbol}</td>
+                    <td className={`py-3 ${order.side === 'BUY' ? 'text-green-400' : 'text-red-400'}`}>
+                      {order.side} {order.type}
+                    </td>
+                    <td className="text-right py-3 text-slate-300">
+                      {order.filledQuantity.toFixed(4)} / {order.quantity.toFixed(4)}
+                    </td>
+                    <td className="text-right py-3 text-slate-300">
+                      {order.filledQuantity > 0 ? `$${order.averageFillPrice.toFixed(2)}` : '—'}
+                    </td>
+                    <td className="text-center py-3">
+                      <Badge className={getStatusColor(order.status)} title={order.rejectReason}>
+                        {order.status.replace('_', ' ')}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-slate-400 text-center py-4">No orders yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
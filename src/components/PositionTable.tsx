@@ -1,17 +1,59 @@
 "use client";
 
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Position } from '@/types/trading';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ManualPositionRequest, Position } from '@/types/trading';
 
 interface PositionTableProps {
   positions: Position[];
-  currentPrice: number;
+  currentPrices: Record<string, number>; // Latest price per symbol
+  symbols?: string[]; // Offered by the manual order form
+  onOpen?: (request: ManualPositionRequest) => Promise<void>;
+  onModify?: (positionId: string, changes: { stopLoss?: number; takeProfit?: number }) => Promise<void>;
+  onClose?: (positionId: string, quantity?: number) => Promise<void>;
+  onCloseAll?: () => Promise<void>;
 }
 
-export function PositionTable({ positions, currentPrice }: PositionTableProps) {
+const parsePrice = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export function PositionTable({ positions, currentPrices, symbols = [], onOpen, onModify, onClose, onCloseAll }: PositionTableProps) {
   const openPositions = positions.filter(p => p.status === 'OPEN');
   const closedPositions = positions.filter(p => p.status === 'CLOSED').slice(-5); // Last 5 closed
+  const [busy, setBusy] = useState(false);
+  const [order, setOrder] = useState({ symbol: '', side: 'LONG' as Position['type'], quantity: '', stopLoss: '', takeProfit: '' });
+  const [editing, setEditing] = useState<{ id: string; stopLoss: string; takeProfit: string } | null>(null);
+  const orderSymbol = order.symbol || symbols[0] || '';
+  const hasControls = Boolean(onModify || onClose);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = () => run(async () => {
+    await onOpen?.({
+      symbol: orderSymbol,
+      side: order.side,
+      quantity: Number(order.quantity),
+      stopLoss: parsePrice(order.stopLoss),
+      takeProfit: parsePrice(order.takeProfit),
+    });
+    setOrder({ ...order, quantity: '', stopLoss: '', takeProfit: '' });
+  });
+
+  const handleSave = () => run(async () => {
+    if (!editing) return;
+    await onModify?.(editing.id, { stopLoss: parsePrice(editing.stopLoss), takeProfit: parsePrice(editing.takeProfit) });
+    setEditing(null);
+  });
 
   const calculatePnL = (position: Position, price: number) => {
     const priceChange = price - position.entryPrice;
@@ -48,9 +90,73 @@ export function PositionTable({ positions, currentPrice }: PositionTableProps) {
           <Badge variant="outline" className="text-slate-300">
             {openPositions.length} Open
           </Badge>
+          {onCloseAll && openPositions.length > 0 && (
+            <Button
+              size="sm"
+              variant="destructive"
+              className="ml-auto"
+              disabled={busy}
+              onClick={() => run(onCloseAll)}
+            >
+              Close All
+            </Button>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {/* Manual Order Entry */}
+        {onOpen && symbols.length > 0 && (
+          <div className="mb-6 grid grid-cols-2 md:grid-cols-6 gap-2">
+            <Select value={orderSymbol} onValueChange={(symbol) => setOrder({ ...order, symbol })} disabled={busy}>
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue placeholder="Symbol" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                {symbols.map(symbol => (
+                  <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={order.side} onValueChange={(side) => setOrder({ ...order, side: side as Position['type'] })} disabled={busy}>
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                <SelectItem value="LONG">Long</SelectItem>
+                <SelectItem value="SHORT">Short</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              placeholder="Qty"
+              value={order.quantity}
+              onChange={(e) => setOrder({ ...order, quantity: e.target.value })}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+            <Input
+              type="number"
+              placeholder="SL (2%)"
+              value={order.stopLoss}
+              onChange={(e) => setOrder({ ...order, stopLoss: e.target.value })}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+            <Input
+              type="number"
+              placeholder="TP (auto)"
+              value={order.takeProfit}
+              onChange={(e) => setOrder({ ...order, takeProfit: e.target.value })}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+            <Button
+              onClick={handleOpen}
+              disabled={busy || !orderSymbol || !(Number(order.quantity) > 0)}
+              className={order.side === 'LONG' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}
+            >
+              {order.side === 'LONG' ? 'Buy' : 'Sell'}
+            </Button>
+          </div>
+        )}
+
         {/* Open Positions */}
         {openPositions.length > 0 && (
           <div className="mb-6">
@@ -59,6 +165,7 @@ export function PositionTable({ positions, currentPrice }: PositionTableProps) {
               <table className="w-full text-sm">
                 <thead>
                   <tr className="border-b border-slate-600 text-slate-400">
+                    <th className="text-left py-2">Symbol</th>
                     <th className="text-left py-2">Type</th>
                     <th className="text-right py-2">Entry</th>
                     <th className="text-right py-2">Current</th>
@@ -67,15 +174,19 @@ export function PositionTable({ positions, currentPrice }: PositionTableProps) {
                     <th className="text-right py-2">SL</th>
                     <th className="text-right py-2">TP</th>
                     <th className="text-right py-2">Duration</th>
+                    {hasControls && <th className="text-right py-2">Actions</th>}
                   </tr>
                 </thead>
                 <tbody>
                   {openPositions.map((position) => {
+                    const currentPrice = currentPrices[position.symbol] ?? position.currentPrice;
                     const pnl = calculatePnL(position, currentPrice);
                     const pnlPercent = (pnl / (position.entryPrice * position.quantity)) * 100;
+                    const isEditing = editing?.id === position.id;
                     
                     return (
                       <tr key={position.id} className="border-b border-slate-700/50">
+                        <td className="py-3 text-white font-medium">{position.symbol}</td>
                         <td className="py-3">
                           <Badge 
                             variant={position.type === 'LONG' ? "default" : "secondary"}
@@ -105,14 +216,73 @@ export function PositionTable({ positions, currentPrice }: PositionTableProps) {
                           </div>
                         </td>
                         <td className="text-right py-3 text-red-400 text-xs">
-                          {formatCurrency(position.stopLoss)}
+                          {isEditing ? (
+                            <Input
+                              type="number"
+                              value={editing.stopLoss}
+                              onChange={(e) => setEditing({ ...editing, stopLoss: e.target.value })}
+                              className="h-7 w-24 ml-auto bg-slate-700 border-slate-600 text-white text-xs"
+                            />
+                          ) : formatCurrency(position.stopLoss)}
                         </td>
                         <td className="text-right py-3 text-green-400 text-xs">
-                          {formatCurrency(position.takeProfit)}
+                          {isEditing ? (
+                            <Input
+                              type="number"
+                              value={editing.takeProfit}
+                              onChange={(e) => setEditing({ ...editing, takeProfit: e.target.value })}
+                              className="h-7 w-24 ml-auto bg-slate-700 border-slate-600 text-white text-xs"
+                            />
+                          ) : formatCurrency(position.takeProfit)}
                         </td>
                         <td className="text-right py-3 text-slate-400 text-xs">
                           {getDuration(position.timestamp)}
                         </td>
+                        {hasControls && (
+                          <td className="text-right py-3">
+                            <div className="flex justify-end gap-1">
+                              {onModify && (isEditing ? (
+                                <>
+                                  <Button size="sm" variant="outline" disabled={busy} onClick={handleSave}>Save</Button>
+                                  <Button size="sm" variant="ghost" disabled={busy} onClick={() => setEditing(null)}>Cancel</Button>
+                                </>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={busy}
+                                  onClick={() => setEditing({
+                                    id: position.id,
+                                    stopLoss: String(position.stopLoss),
+                                    takeProfit: String(position.takeProfit),
+                                  })}
+                                >
+                                  Edit
+                                </Button>
+                              ))}
+                              {onClose && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={busy}
+                                    onClick={() => run(() => onClose(position.id, position.quantity / 2))}
+                                  >
+                                    Close ½
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    disabled={busy}
+                                    onClick={() => run(() => onClose(position.id))}
+                                  >
+                                    Close
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        )}
                       </tr>
                     );
                   })}
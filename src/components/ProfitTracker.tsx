@@ -2,6 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Trade } from '@/types/trading';
+import type { PerformanceAnalytics } from '@/lib/performance-analytics';
 
 interface ProfitTrackerProps {
   currentBalance: number;
@@ -9,14 +10,19 @@ interface ProfitTrackerProps {
   targetProfit: number;
   totalProfit: number;
   trades: Trade[];
+  analytics?: PerformanceAnalytics | null;
 }
 
+const formatRatio = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : value.toFixed(2);
+
 export function ProfitTracker({
   currentBalance,
   initialCapital,
   targetProfit,
   totalProfit,
-  trades
+  trades,
+  analytics
 }: ProfitTrackerProps) {
   const profitPercentage = (totalProfit / initialCapital) * 100;
   const targetProgress = (totalProfit / targetProfit) * 100;
@@ -110,6 +116,52 @@ export function ProfitTracker({
               </p>
             </div>
           </div>
+
+          {/* Risk-adjusted Analytics */}
+          {analytics && analytics.totalTrades > 0 && (
+            <div className="grid grid-cols-4 gap-3 text-center pt-4 border-t border-slate-700">
+              <div>
+                <p className="text-xs text-slate-400">Sharpe</p>
+                <p className="font-medium text-white">{formatRatio(analytics.sharpeRatio)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Sortino</p>
+                <p className="font-medium text-white">{formatRatio(analytics.sortinoRatio)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Calmar</p>
+                <p className="font-medium text-white">{formatRatio(analytics.calmarRatio)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Avg R</p>
+                <p className="font-medium text-white">{formatRatio(analytics.averageRMultiple)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Expectancy</p>
+                <p className={`font-medium ${analytics.expectancy >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  ${analytics.expectancy.toFixed(2)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Max Drawdown</p>
+                <p className="font-medium text-red-400">{(analytics.maxDrawdown * 100).toFixed(1)}%</p>
+                <p className="text-xs text-slate-500">{analytics.maxDrawdownDuration.toFixed(0)}m</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Streaks W/L</p>
+                <p className="font-medium text-white">
+                  {analytics.maxConsecutiveWins}/{analytics.maxConsecutiveLosses}
+                </p>
+                <p className="text-xs text-slate-500">
+                  Now {analytics.currentStreak > 0 ? `${analytics.currentStreak}W` : analytics.currentStreak < 0 ? `${-analytics.currentStreak}L` : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Exposure</p>
+                <p className="font-medium text-white">{(analytics.exposureTime * 100).toFixed(0)}%</p>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,83 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Position, SymbolState } from '@/types/trading';
+
+interface SymbolOverviewProps {
+  watchlist: string[];
+  symbols: Record<string, SymbolState>;
+  positions: Position[];
+}
+
+export function SymbolOverview({ watchlist, symbols, positions }: SymbolOverviewProps) {
+  const formatPrice = (price: number) => price.toFixed(price >= 100 ? 2 : 5);
+
+  const getRecommendationColor = (recommendation: string) => {
+    switch (recommendation) {
+      case 'STRONG_BUY': return 'bg-green-600 text-white';
+      case 'BUY': return 'bg-green-500 text-white';
+      case 'SELL': return 'bg-red-500 text-white';
+      case 'STRONG_SELL': return 'bg-red-600 text-white';
+      default: return 'bg-slate-600 text-white';
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          Watchlist
+          <Badge variant="outline" className="text-slate-300">
+            {watchlist.length} symbol{watchlist.length === 1 ? '' : 's'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-600 text-slate-400">
+                <th className="text-left py-2">Symbol</th>
+                <th className="text-right py-2">Price</th>
+                <th className="text-right py-2">Change</th>
+                <th className="text-right py-2">RSI</th>
+                <th className="text-center py-2">Signal</th>
+                <th className="text-right py-2">Confidence</th>
+                <th className="text-right py-2">Open</th>
+              </tr>
+            </thead>
+            <tbody>
+              {watchlist.map((symbol) => {
+                const symbolState = symbols[symbol];
+                if (!symbolState) return null;
+                const { marketData, analysis, indicators } = symbolState;
+                const openCount = positions.filter(p => p.status === 'OPEN' && p.symbol === symbol).length;
+
+                return (
+                  <tr key={symbol} className="border-b border-slate-700/50">
+                    <td className="py-3 text-white font-medium">{symbol}</td>
+                    <td className="text-right py-3 text-white">
+                      {marketData.price > 0 ? formatPrice(marketData.price) : '—'}
+                    </td>
+                    <td className={`text-right py-3 ${marketData.change24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {marketData.change24h >= 0 ? '+' : ''}{marketData.change24h.toFixed(2)}%
+                    </td>
+                    <td className="text-right py-3 text-slate-300">{indicators.rsi.toFixed(1)}</td>
+                    <td className="text-center py-3">
+                      <Badge className={getRecommendationColor(analysis.recommendation)}>
+                        {analysis.recommendation.replace('_', ' ')}
+                      </Badge>
+                    </td>
+                    <td className="text-right py-3 text-slate-300">{analysis.confidence.toFixed(1)}%</td>
+                    <td className="text-right py-3 text-slate-300">{openCount}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
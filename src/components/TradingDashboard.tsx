@@ -5,17 +5,31 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 
-import { BotControls } from './BotControls';
+import { BotControls, StrategyOption } from './BotControls';
+import { BotSettings, BotConfigSaveResult } from './BotSettings';
+import { ConfigProfiles } from './ConfigProfiles';
 import { PositionTable } from './PositionTable';
+import { OrderTable } from './OrderTable';
 import { ProfitTracker } from './ProfitTracker';
 import { AnalysisChart } from './AnalysisChart';
 import { RiskMetrics } from './RiskMetrics';
+import { SymbolOverview } from './SymbolOverview';
 import { BrokerConfiguration } from './BrokerConfiguration';
 import { SimpleBrokerSetup } from './SimpleBrokerSetup';
-import { BotState } from '@/types/trading';
+import { BotConfig, BotState } from '@/types/trading';
 import { BrokerConfig } from '@/types/broker';
+import { applyBotEvent } from '@/lib/bot-events';
+import { CHANGED_BY_HEADER } from '@/lib/bot-config';
+import type { ConfigProfile, ConfigVersion, ConfigVersionPerformance } from '@/lib/config-history';
+import type { PerformanceAnalytics } from '@/lib/performance-analytics';
+import type { BotStatusPayload } from '@/lib/bot-status';
+import { useBotStream } from '@/hooks/use-bot-stream';
 
-export function TradingDashboard() {
+interface TradingDashboardProps {
+  user?: string; // Recorded as the author of config changes
+}
+
+export function TradingDashboard({ user }: TradingDashboardProps) {
   const [botState, setBotState] = useState<BotState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -24,6 +38,43 @@ export function TradingDashboard() {
   const [showBrokerConfig, setShowBrokerConfig] = useState(false);
   const [showFullBrokerConfig, setShowFullBrokerConfig] = useState(false);
   const [isClient, setIsClient] = useState(false);
+  const [paperTrading, setPaperTrading] = useState(false);
+  const [simulation, setSimulation] = useState<{ seed: number; startTime: string } | null>(null);
+  const [strategies, setStrategies] = useState<StrategyOption[]>([]);
+  const [activeStrategy, setActiveStrategy] = useState<string | undefined>(undefined);
+  const [profiles, setProfiles] = useState<ConfigProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<string | null>(null);
+  const [configVersions, setConfigVersions] = useState<ConfigVersion[]>([]);
+  const [configPerformance, setConfigPerformance] = useState<ConfigVersionPerformance[]>([]);
+  const [analytics, setAnalytics] = useState<PerformanceAnalytics | null>(null);
+
+  const changedByHeaders = user ? { [CHANGED_BY_HEADER]: user } : undefined;
+
+  const applyBotStatus = (payload: BotStatusPayload) => {
+    setBotState(payload);
+    // The built-in paper broker is still simulation as far as the user is concerned
+    setBrokerConnected((payload.brokerConnected && !payload.paperTrading) || false);
+    setPaperTrading(payload.paperTrading || false);
+    setSimulation(payload.simulation ? { seed: payload.simulation.seed, startTime: String(payload.simulation.startTime) } : null);
+    setActiveStrategy(payload.strategy?.id);
+    setError(null);
+  };
+
+  // Live updates replace polling: a snapshot on (re)connect, then incremental events
+  const { connected: streamConnected } = useBotStream({
+    onSnapshot: (payload) => {
+      applyBotStatus(payload);
+      setLoading(false);
+    },
+    onEvent: (event) => {
+      setBotState(previous => (previous ? applyBotEvent(previous, event) : previous));
+      if (event.type === 'config.changed') fetchConfigHistory();
+    },
+    onSnapshotError: (message) => {
+      setError(`Live updates paused, retrying: ${message}`);
+      setLoading(false);
+    },
+  });
 
   const fetchBotStatus = async () => {
     try {
@@ -31,9 +82,7 @@ export function TradingDashboard() {
       const data = await response.json();
       
       if (data.success) {
-        setBotState(data.data);
-        setBrokerConnected(data.data.brokerConnected || false);
-        setError(null);
+        applyBotStatus(data.data);
       } else {
         setError(data.message || 'Failed to fetch bot status');
       }
@@ -72,21 +121,161 @@ export function TradingDashboard() {
     }
   };
 
+  const fetchAnalytics = async () => {
+    try {
+      const response = await fetch('/api/analytics');
+      const data = await response.json();
+      if (data.success) {
+        setAnalytics(data.data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch analytics:', err);
+    }
+  };
+
+  const fetchStrategies = async () => {
+    try {
+      const response = await fetch('/api/bot/strategy');
+      const data = await response.json();
+      if (data.success) {
+        setStrategies(data.data.available);
+      }
+    } catch (err) {
+      console.error('Failed to fetch strategies:', err);
+    }
+  };
+
+  const handleStrategyChange = async (strategyId: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/bot/strategy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...changedByHeaders },
+        body: JSON.stringify({ strategyId }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await Promise.all([fetchBotStatus(), fetchConfigHistory()]);
+      } else {
+        setError(data.error || data.message || 'Failed to switch strategy');
+      }
+    } catch {
+      setError('Network error: Unable to switch strategy');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Manual position controls share one request path; failures surface in the dashboard error banner
+  const sendPositionRequest = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchBotStatus();
+      } else {
+        setError(data.error || data.message || 'Position request failed');
+      }
+    } catch {
+      setError('Network error: Unable to reach the positions API');
+    }
+  };
+
+  const saveBotConfig = async (changes: Partial<BotConfig>): Promise<BotConfigSaveResult> => {
+    try {
+      const response = await fetch('/api/bot/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...changedByHeaders },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        return { success: false, error: data.error || data.message || 'Failed to update settings', errors: data.errors };
+      }
+      setBotState(previous => (previous ? { ...previous, config: data.data.config } : previous));
+      await fetchConfigHistory();
+      return { success: true };
+    } catch {
+      return { success: false, error: 'Network error: Unable to reach the config API' };
+    }
+  };
+
+  const fetchConfigHistory = async () => {
+    try {
+      const [profilesResponse, historyResponse] = await Promise.all([
+        fetch('/api/bot/config/profiles'),
+        fetch('/api/bot/config/history?limit=10'),
+      ]);
+      const [profilesData, historyData] = await Promise.all([profilesResponse.json(), historyResponse.json()]);
+      if (profilesData.success) {
+        setProfiles(profilesData.data.profiles);
+        setActiveProfile(profilesData.data.active);
+      }
+      if (historyData.success) {
+        setConfigVersions(historyData.data.versions);
+        setConfigPerformance(historyData.data.performance);
+      }
+    } catch (err) {
+      console.error('Failed to fetch config history:', err);
+    }
+  };
+
+  const saveConfigProfile = async (name: string, description?: string): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/bot/config/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...changedByHeaders },
+        body: JSON.stringify({ name, description }),
+      });
+      const data = await response.json();
+
+      if (!data.success) return data.error || data.message || 'Failed to save profile';
+      await fetchConfigHistory();
+      return null;
+    } catch {
+      return 'Network error: Unable to reach the profiles API';
+    }
+  };
+
+  // Apply and delete share one request path; failures surface in the dashboard error banner
+  const sendProfileRequest = async (url: string, method: string) => {
+    try {
+      const response = await fetch(url, { method, headers: changedByHeaders });
+      const data = await response.json();
+
+      if (data.success) {
+        await Promise.all([fetchBotStatus(), fetchConfigHistory()]);
+      } else {
+        setError(data.error || data.message || 'Profile request failed');
+      }
+    } catch {
+      setError('Network error: Unable to reach the profiles API');
+    }
+  };
+
+  useEffect(() => {
+    fetchStrategies();
+    fetchConfigHistory();
+  }, []);
+
   useEffect(() => {
     setIsClient(true);
-    fetchBotStatus();
-    
-    // Poll for updates every 2 seconds when bot is running
-    const interval = setInterval(() => {
-      if (botState?.status.isRunning) {
-        fetchBotStatus();
-      }
-    }, 2000);
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [botState?.status.isRunning]);
+  // Analytics only change when a trade closes; the status counts every trade, the trade list only the last few
+  const tradeCount = botState?.status.tradesCount;
+  useEffect(() => {
+    if (tradeCount !== undefined) fetchAnalytics();
+  }, [tradeCount]);
 
-  const handleBotAction = async (action: 'start' | 'stop' | 'reset') => {
+  const handleBotAction = async (action: 'start' | 'stop' | 'reset', body?: Record<string, unknown>) => {
     setLoading(true);
     try {
       let endpoint = '';
@@ -104,13 +293,19 @@ export function TradingDashboard() {
           break;
       }
       
-      const response = await fetch(endpoint, { method });
+      const response = await fetch(endpoint, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
       const data = await response.json();
       
       if (data.success) {
         await fetchBotStatus();
+        if (action === 'reset') await fetchConfigHistory();
       } else {
-        setError(data.message || `Failed to ${action} bot`);
+        setError(data.error || data.message || `Failed to ${action} bot`);
+        await fetchBotStatus();
       }
     } catch (err) {
       setError(`Network error: Unable to ${action} bot`);
@@ -173,6 +368,35 @@ export function TradingDashboard() {
           </Card>
         )}
 
+        {/* Daily Loss Circuit Breaker */}
+        {botState.dailyLoss?.halted && (
+          <Card className="bg-red-900/20 border-red-500">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-semibold text-red-400">Daily loss limit reached</p>
+                  <p className="text-xs text-slate-300 mt-1">
+                    Today&apos;s P&L ${(botState.dailyLoss.realizedPnL + botState.dailyLoss.unrealizedPnL).toFixed(2)} exceeded
+                    the ${botState.dailyLoss.limit.toFixed(2)} limit. New entries are halted until{' '}
+                    {new Date(botState.dailyLoss.sessionEnd).toLocaleString()}.
+                  </p>
+                </div>
+                {!botState.status.isRunning && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={loading}
+                    onClick={() => handleBotAction('start', { overrideDailyLoss: true })}
+                    className="border-red-400 text-red-400 hover:bg-red-400 hover:text-black"
+                  >
+                    Override &amp; Start
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Broker Status */}
         <Card className={`${brokerConnected ? 'bg-green-900/20 border-green-500' : 'bg-yellow-900/20 border-yellow-500'}`}>
           <CardContent className="p-4">
@@ -185,8 +409,15 @@ export function TradingDashboard() {
                 <p className="text-xs text-slate-400 mt-1">
                   {brokerConnected 
                     ? 'Connected to real broker - Real money trading' 
-                    : 'Using simulated data - No real money at risk'}
+                    : paperTrading
+                      ? 'Paper broker with simulated fills - No real money at risk'
+                      : 'Using simulated data - No real money at risk'}
                 </p>
+                {!brokerConnected && simulation && (
+                  <p className="text-xs text-slate-500 mt-1 font-mono">
+                    Seed {simulation.seed} • Started {new Date(simulation.startTime).toLocaleString()}
+                  </p>
+                )}
               </div>
               <Button
                 variant={brokerConnected ? "outline" : "default"}
@@ -218,6 +449,11 @@ export function TradingDashboard() {
                   {botState.status.isRunning ? 'Running' : 
                    botState.status.targetReached ? 'Target Reached' : 'Stopped'}
                 </span>
+                {!streamConnected && (
+                  <Badge variant="outline" className="ml-auto text-yellow-400 border-yellow-400 text-xs">
+                    Reconnecting
+                  </Badge>
+                )}
               </div>
               <p className="text-xs text-slate-400 mt-1">
                 {botState.status.lastAction}
@@ -313,6 +549,21 @@ export function TradingDashboard() {
               onStop={() => handleBotAction('stop')}
               onReset={() => handleBotAction('reset')}
               loading={loading}
+              strategies={strategies}
+              activeStrategy={activeStrategy}
+              onStrategyChange={handleStrategyChange}
+            />
+
+            <BotSettings config={botState.config} onSave={saveBotConfig} />
+
+            <ConfigProfiles
+              profiles={profiles}
+              activeProfile={activeProfile}
+              versions={configVersions}
+              performance={configPerformance}
+              onSaveProfile={saveConfigProfile}
+              onApplyProfile={(name) => sendProfileRequest(`/api/bot/config/profiles/${encodeURIComponent(name)}/apply`, 'POST')}
+              onDeleteProfile={(name) => sendProfileRequest(`/api/bot/config/profiles/${encodeURIComponent(name)}`, 'DELETE')}
             />
 
             <AnalysisChart
@@ -335,13 +586,32 @@ export function TradingDashboard() {
               targetProfit={botState.config.targetProfit}
               totalProfit={botState.status.totalProfit}
               trades={botState.trades}
+              analytics={analytics}
+            />
+
+            <SymbolOverview
+              watchlist={botState.watchlist}
+              symbols={botState.symbols}
+              positions={botState.positions}
             />
 
             <PositionTable
               positions={botState.positions}
-              currentPrice={botState.marketData.price}
+              currentPrices={Object.fromEntries(
+                Object.values(botState.symbols).map(s => [s.symbol, s.marketData.price])
+              )}
+              symbols={botState.watchlist}
+              onOpen={(request) => sendPositionRequest('/api/positions', 'POST', request)}
+              onModify={(id, changes) => sendPositionRequest(`/api/positions/${encodeURIComponent(id)}`, 'PATCH', changes)}
+              onClose={(id, quantity) => sendPositionRequest(
+                `/api/positions/${encodeURIComponent(id)}${quantity === undefined ? '' : `?quantity=${quantity}`}`,
+                'DELETE'
+              )}
+              onCloseAll={() => sendPositionRequest('/api/positions', 'DELETE')}
             />
 
+            <OrderTable orders={botState.orders || []} />
+
             {/* Recent Actions */}
             <Card className="bg-slate-800/50 border-slate-700">
               <CardHeader>
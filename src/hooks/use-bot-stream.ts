@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { BotStatusPayload } from '@/lib/bot-status';
+import { BotEvent, CLIENT_STATE_EVENTS } from '@/lib/bot-events';
+
+export interface BotStreamHandlers {
+  onSnapshot: (payload: BotStatusPayload) => void; // Full state, sent on connect and whenever the bot state was replaced
+  onEvent: (event: BotEvent) => void;
+  onSnapshotError?: (error: string) => void; // The server could not build a snapshot; the hook reconnects for a fresh one
+}
+
+export interface BotStreamOptions {
+  initialRetryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+// Follows /api/bot/stream. EventSource retries dropped connections itself and resumes with
+// Last-Event-ID; when it gives up (HTTP errors, server restarts) the hook reopens with backoff
+// and resumes from the last event id it saw. A failed snapshot leaves the client without a base
+// to fold events into, so the hook reopens without an event id to ask for a new one.
+export function useBotStream(handlers: BotStreamHandlers, options: BotStreamOptions = {}): { connected: boolean } {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  const { initialRetryDelay = 1000, maxRetryDelay = 30000 } = options;
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let retryDelay = initialRetryDelay;
+    let resyncDelay = initialRetryDelay; // Reset by a snapshot rather than by the connection opening
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const track = (message: Event) => {
+      const { data, lastEventId: id } = message as MessageEvent<string>;
+      if (id) lastEventId = id;
+      return JSON.parse(data);
+    };
+
+    const open = () => {
+      const stream = new EventSource(lastEventId ? `/api/bot/stream?lastEventId=${encodeURIComponent(lastEventId)}` : '/api/bot/stream');
+      source = stream;
+
+      stream.onopen = () => {
+        retryDelay = initialRetryDelay;
+        setConnected(true);
+      };
+      stream.onerror = () => {
+        setConnected(false);
+        if (disposed || stream.readyState !== EventSource.CLOSED) return; // The browser is already retrying
+        retryTimer = setTimeout(open, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, maxRetryDelay);
+      };
+
+      stream.addEventListener('snapshot', (message) => {
+        resyncDelay = initialRetryDelay;
+        handlersRef.current.onSnapshot(track(message));
+      });
+      stream.addEventListener('snapshot-error', (message) => {
+        const { error } = JSON.parse((message as MessageEvent<string>).data);
+        handlersRef.current.onSnapshotError?.(error);
+        stream.close();
+        setConnected(false);
+        lastEventId = null;
+        retryTimer = setTimeout(open, resyncDelay);
+        resyncDelay = Math.min(resyncDelay * 2, maxRetryDelay);
+      });
+      CLIENT_STATE_EVENTS.forEach(type => stream.addEventListener(type, (message) => {
+        handlersRef.current.onEvent({ ...track(message), id: (message as MessageEvent).lastEventId });
+      }));
+    };
+
+    open();
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [initialRetryDelay, maxRetryDelay]);
+
+  return { connected };
+}
@@ -1,7 +1,9 @@
 // Advanced AI-Powered Market Analysis Engine
 
-import { TechnicalIndicators, MarketAnalysis } from '@/types/trading';
+import { TechnicalIndicators, MarketAnalysis, MultiTimeframeCandles } from '@/types/trading';
 import { MarketDataFeed, EconomicEvent, NewsItem, TradingSession } from '@/types/broker';
+import { Clock, systemClock } from './clock';
+import { MarketAnalyzer } from './market-analysis';
 
 export interface AIAnalysisResult {
   prediction: {
@@ -60,8 +62,10 @@ export class AdvancedAIAnalyzer {
   private _newsData: NewsItem[] = [];
   private _economicEvents: EconomicEvent[] = [];
   private _tradingHistory: any[] = [];
+  private clock: Clock;
 
-  constructor() {
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
     this.initializeMLModels();
   }
 
@@ -109,6 +113,27 @@ export class AdvancedAIAnalyzer {
     return this.generateFinalAnalysis(combinedScore, marketData);
   }
 
+  async analyzeMultiTimeframe(candles: MultiTimeframeCandles): Promise<MultiTimeframeAnalysis> {
+    // Each timeframe gets its own analyzer so rolling histories don't mix
+    const analyze = async (series: MultiTimeframeCandles[keyof MultiTimeframeCandles]) =>
+      (await new MarketAnalyzer().analyzeCandles(series)).analysis;
+
+    const m1 = await analyze(candles.m1);
+    const m5 = await analyze(candles.m5);
+    const m15 = await analyze(candles.m15);
+    const h1 = await analyze(candles.h1);
+    const h4 = await analyze(candles.h4);
+    const d1 = await analyze(candles.d1);
+
+    // Confluence: share of timeframes agreeing with the dominant directional trend
+    const trends = [m1, m5, m15, h1, h4, d1].map(a => a.trend);
+    const bullish = trends.filter(t => t === 'BULLISH').length;
+    const bearish = trends.filter(t => t === 'BEARISH').length;
+    const confluence = Math.max(bullish, bearish) / trends.length;
+
+    return { m1, m5, m15, h1, h4, d1, confluence };
+  }
+
   private updateHistoricalData(marketData: MarketDataFeed) {
     this.priceHistory.push(marketData.close);
     this.volumeHistory.push(marketData.volume);
@@ -288,7 +313,7 @@ export class AdvancedAIAnalyzer {
     let score = 0.5;
     let totalWeight = 0;
 
-    const now = new Date();
+    const now = this.clock.now();
     const nextHour = new Date(now.getTime() + 60 * 60 * 1000);
 
     // Analyze upcoming events in the next hour
@@ -333,7 +358,7 @@ export class AdvancedAIAnalyzer {
     let totalWeight = 0;
 
     // Analyze recent news (last 4 hours)
-    const now = new Date();
+    const now = this.clock.now();
     const cutoff = new Date(now.getTime() - 4 * 60 * 60 * 1000);
     
     const recentNews = news.filter(item => item.timestamp >= cutoff);
@@ -439,7 +464,7 @@ export class AdvancedAIAnalyzer {
   }
 
   private async analyzeMarketSession(sessions: TradingSession[]): Promise<number> {
-    const now = new Date();
+    const now = this.clock.now();
     const _currentTime = now.toLocaleTimeString('en-US', { 
       hour12: false, 
       hour: '2-digit', 
@@ -0,0 +1,304 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrokerConfig } from '@/types/broker';
+import { MockHttpServer, MockRequest } from '@/test/mock-http-server';
+import { AlpacaAdapter } from './alpaca-broker';
+
+interface StandInOrder {
+  id: string;
+  client_order_id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: string;
+  order_class: string;
+  qty: string;
+  filled_qty: string;
+  filled_avg_price: string | null;
+  limit_price: string | null;
+  stop_price: string | null;
+  status: string;
+  created_at: string;
+  filled_at: string | null;
+  canceled_at: string | null;
+  expired_at: string | null;
+  legs: StandInOrder[] | null;
+}
+
+const NOW = '2026-03-02T15:00:00Z';
+const PRICES: Record<string, number> = { AAPL: 200, 'BTC/USD': 60000 };
+
+// Alpaca Trading and Market Data APIs: market orders fill at once at the last price, bracket and OTO legs stay held
+function createAlpacaStandIn(server: MockHttpServer) {
+  const orders: StandInOrder[] = [];
+  let nextId = 1;
+
+  const newOrder = (fields: Partial<StandInOrder>): StandInOrder => ({
+    id: `order-${nextId++}`,
+    client_order_id: `client-${nextId}`,
+    symbol: '',
+    side: 'buy',
+    type: 'market',
+    order_class: 'simple',
+    qty: '0',
+    filled_qty: '0',
+    filled_avg_price: null,
+    limit_price: null,
+    stop_price: null,
+    status: 'new',
+    created_at: NOW,
+    filled_at: null,
+    canceled_at: null,
+    expired_at: null,
+    legs: null,
+    ...fields,
+  });
+
+  const positions = () => {
+    const net = new Map<string, { qty: number; cost: number }>();
+    orders.flatMap(order => [order, ...(order.legs || [])])
+      .filter(order => parseFloat(order.filled_qty) > 0)
+      .forEach(order => {
+        const symbol = order.symbol.replace('/', '');
+        const entry = net.get(symbol) || { qty: 0, cost: 0 };
+        const qty = parseFloat(order.filled_qty) * (order.side === 'buy' ? 1 : -1);
+        entry.qty += qty;
+        entry.cost += qty * parseFloat(order.filled_avg_price || '0');
+        net.set(symbol, entry);
+      });
+    return Array.from(net.entries())
+      .filter(([, entry]) => entry.qty !== 0)
+      .map(([symbol, entry]) => ({
+        symbol,
+        qty: Math.abs(entry.qty).toString(),
+        side: entry.qty > 0 ? 'long' : 'short',
+        avg_entry_price: (entry.cost / entry.qty).toString(),
+        current_price: (PRICES[symbol] ?? PRICES[`${symbol.slice(0, 3)}/${symbol.slice(3)}`]).toString(),
+        unrealized_pl: '0',
+      }));
+  };
+
+  const findOrder = (id: string) => orders.flatMap(order => [order, ...(order.legs || [])]).find(order => order.id === id);
+  const quote = (symbol: string) => ({ ap: PRICES[symbol] + 0.5, bp: PRICES[symbol] - 0.5, t: NOW });
+  const bar = (symbol: string) => ({ o: PRICES[symbol] - 2, h: PRICES[symbol] + 3, l: PRICES[symbol] - 4, c: PRICES[symbol], v: 1200, t: NOW });
+
+  server
+    .route('GET', '/v2/account', () => ({
+      body: { account_number: 'PA123', status: 'ACTIVE', currency: 'USD', cash: '9000', equity: '10000', initial_margin: '2000', multiplier: '2' },
+    }))
+    .route('GET', '/v2/stocks/:symbol/quotes/latest', ({ params }) => ({ body: { quote: quote(params.symbol) } }))
+    .route('GET', '/v2/stocks/:symbol/bars/latest', ({ params }) => ({ body: { bar: bar(params.symbol) } }))
+    .route('GET', '/v1beta3/crypto/us/latest/quotes', ({ query }) => ({ body: { quotes: { [query.get('symbols')!]: quote(query.get('symbols')!) } } }))
+    .route('GET', '/v1beta3/crypto/us/latest/bars', ({ query }) => ({ body: { bars: { [query.get('symbols')!]: bar(query.get('symbols')!) } } }))
+    .route('POST', '/v2/orders', ({ body }: MockRequest) => {
+      const request = body as Record<string, string & Record<string, string>>;
+      const isMarket = request.type === 'market';
+      const order = newOrder({
+        symbol: request.symbol,
+        side: request.side as 'buy' | 'sell',
+        type: request.type,
+        order_class: request.order_class || 'simple',
+        qty: request.qty,
+        client_order_id: request.client_order_id || `client-${nextId}`,
+        limit_price: request.limit_price ?? null,
+        stop_price: request.stop_price ?? null,
+        status: isMarket ? 'filled' : 'new',
+        filled_qty: isMarket ? request.qty : '0',
+        filled_avg_price: isMarket ? PRICES[request.symbol].toString() : null,
+        filled_at: isMarket ? NOW : null,
+      });
+      const exitSide = order.side === 'buy' ? 'sell' : 'buy';
+      const legs: StandInOrder[] = [];
+      if (request.take_profit) {
+        legs.push(newOrder({ symbol: order.symbol, side: exitSide, type: 'limit', qty: order.qty, limit_price: request.take_profit.limit_price, status: 'held' }));
+      }
+      if (request.stop_loss) {
+        legs.push(newOrder({ symbol: order.symbol, side: exitSide, type: 'stop', qty: order.qty, stop_price: request.stop_loss.stop_price, status: 'held' }));
+      }
+      order.legs = legs.length > 0 ? legs : null;
+      orders.push(order);
+      return { body: order };
+    })
+    .route('GET', '/v2/orders/:id', ({ params }) => {
+      const order = findOrder(params.id);
+      return order ? { body: order } : { status: 404, body: { message: 'order not found' } };
+    })
+    .route('DELETE', '/v2/orders/:id', ({ params }) => {
+      const order = findOrder(params.id);
+      if (!order) return { status: 404, body: { message: 'order not found' } };
+      order.status = 'canceled';
+      order.canceled_at = NOW;
+      return { status: 204 };
+    })
+    .route('GET', '/v2/orders', () => ({ body: [...orders].reverse() }))
+    .route('GET', '/v2/positions', () => ({ body: positions() }));
+
+  return { orders, findOrder };
+}
+
+const config = (serverUrl: string, testMode = true): BrokerConfig => ({
+  id: 'alpaca',
+  name: 'Alpaca',
+  type: 'ALPACA',
+  apiKey: 'key-id',
+  secretKey: 'secret',
+  serverUrl,
+  testMode,
+  maxLeverage: 2,
+  minOrderSize: 1,
+  supportedSymbols: ['AAPL', 'BTC/USD'],
+});
+
+describe('AlpacaAdapter against a local stand-in', () => {
+  let server: MockHttpServer;
+  let standIn: ReturnType<typeof createAlpacaStandIn>;
+  let adapter: AlpacaAdapter;
+
+  beforeEach(async () => {
+    server = new MockHttpServer();
+    standIn = createAlpacaStandIn(server);
+    await server.listen();
+    adapter = new AlpacaAdapter(config(server.url));
+    expect(await adapter.connect()).toBe(true);
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await server.close();
+  });
+
+  it('authenticates with the API key headers and maps the account', async () => {
+    const account = await adapter.getAccountInfo();
+
+    expect(server.requests[0].headers['apca-api-key-id']).toBe('key-id');
+    expect(server.requests[0].headers['apca-api-secret-key']).toBe('secret');
+    expect(account).toMatchObject({
+      balance: 9000,
+      equity: 10000,
+      margin: 2000,
+      freeMargin: 8000,
+      marginLevel: 500,
+      currency: 'USD',
+      leverage: 2,
+      accountNumber: 'PA123',
+      serverName: 'Alpaca Paper',
+    });
+  });
+
+  it('combines the latest stock quote and bar', async () => {
+    const data = await adapter.getMarketData('AAPL');
+
+    expect(data).toMatchObject({ symbol: 'AAPL', bid: 199.5, ask: 200.5, spread: 1, open: 198, high: 203, low: 196, close: 200, volume: 1200 });
+    expect(data.timestamp).toEqual(new Date(NOW));
+  });
+
+  it('reads crypto quotes and bars from the crypto endpoints', async () => {
+    const data = await adapter.getMarketData('BTC/USD');
+
+    expect(data).toMatchObject({ symbol: 'BTC/USD', bid: 59999.5, ask: 60000.5, close: 60000 });
+    expect(server.find('GET', '/v1beta3/crypto/us/latest/quotes')[0].query.get('symbols')).toBe('BTC/USD');
+  });
+
+  it('sends SL and TP together as a bracket order', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY', volume: 5, stopLoss: 190, takeProfit: 220 });
+
+    expect(server.find('POST', '/v2/orders')[0].body).toEqual({
+      symbol: 'AAPL',
+      qty: '5',
+      side: 'buy',
+      type: 'market',
+      time_in_force: 'gtc',
+      order_class: 'bracket',
+      take_profit: { limit_price: '220' },
+      stop_loss: { stop_price: '190' },
+    });
+    const [order] = await adapter.getOpenOrders();
+    expect(order).toMatchObject({ ticket, type: 'BUY', volume: 5, filledVolume: 5, openPrice: 200, stopLoss: 190, takeProfit: 220, status: 'OPEN' });
+  });
+
+  it('sends a single exit as a one-triggers-other order', async () => {
+    await adapter.placeOrder({ symbol: 'AAPL', type: 'SELL_LIMIT', volume: 2, price: 210, stopLoss: 215 });
+
+    expect(server.find('POST', '/v2/orders')[0].body).toEqual({
+      symbol: 'AAPL',
+      qty: '2',
+      side: 'sell',
+      type: 'limit',
+      time_in_force: 'gtc',
+      limit_price: '210',
+      order_class: 'oto',
+      stop_loss: { stop_price: '215' },
+    });
+    const [order] = await adapter.getOpenOrders();
+    expect(order).toMatchObject({ type: 'SELL', openPrice: 210, stopLoss: 215, takeProfit: undefined, status: 'PENDING' });
+  });
+
+  it('cancels a working entry instead of closing it', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY_LIMIT', volume: 1, price: 190 });
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+    expect(server.find('DELETE', `/v2/orders/${ticket}`)).toHaveLength(1);
+    expect(server.find('POST', '/v2/orders')).toHaveLength(1);
+    expect(await adapter.getOpenOrders()).toEqual([]);
+    expect((await adapter.getOrderHistory())[0]).toMatchObject({ ticket, status: 'CANCELLED', filledVolume: 0 });
+  });
+
+  it('closes a filled entry by cancelling its legs and sending an opposite market order', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY', volume: 3, stopLoss: 190, takeProfit: 220 });
+    const legIds = standIn.findOrder(ticket)!.legs!.map(leg => leg.id);
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+
+    legIds.forEach(id => expect(server.find('DELETE', `/v2/orders/${id}`)).toHaveLength(1));
+    expect(server.find('POST', '/v2/orders')[1].body).toEqual({
+      symbol: 'AAPL',
+      qty: '3',
+      side: 'sell',
+      type: 'market',
+      time_in_force: 'gtc',
+      client_order_id: `close_${ticket}`,
+    });
+    expect(await adapter.getOpenOrders()).toEqual([]);
+    expect(await adapter.getOrderHistory()).toEqual([
+      expect.objectContaining({ ticket, status: 'CLOSED', openPrice: 200, currentPrice: 200, profit: 0 }),
+    ]);
+  });
+
+  it('does not close an entry that neither works nor filled', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY_STOP', volume: 1, price: 210 });
+    standIn.findOrder(ticket)!.status = 'expired';
+
+    expect(await adapter.closeOrder(ticket)).toBe(false);
+    expect((await adapter.getOrderHistory())[0]).toMatchObject({ ticket, status: 'EXPIRED' });
+  });
+
+  it('surfaces API errors with the Alpaca message', async () => {
+    await expect(adapter.closeOrder('missing')).rejects.toThrow('Alpaca GET /v2/orders/missing failed: order not found (404)');
+  });
+});
+
+describe('AlpacaAdapter endpoint selection', () => {
+  const account = { account_number: 'A1', status: 'ACTIVE', currency: 'USD', cash: '1', equity: '1', initial_margin: '0', multiplier: '1' };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const connectedUrl = async (serverUrl: string, testMode: boolean) => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify(account)));
+    expect(await new AlpacaAdapter(config(serverUrl, testMode)).connect()).toBe(true);
+    return String(fetchMock.mock.lastCall?.[0]);
+  };
+
+  it('uses the paper trading API in test mode', async () => {
+    expect(await connectedUrl('', true)).toBe('https://paper-api.alpaca.markets/v2/account');
+    expect(await connectedUrl('api.alpaca.markets', true)).toBe('https://paper-api.alpaca.markets/v2/account');
+  });
+
+  it('uses the live trading API otherwise', async () => {
+    expect(await connectedUrl('', false)).toBe('https://api.alpaca.markets/v2/account');
+    expect(await connectedUrl('https://paper-api.alpaca.markets/', false)).toBe('https://api.alpaca.markets/v2/account');
+  });
+
+  it('sends everything to a non-Alpaca server', async () => {
+    expect(await connectedUrl('http://localhost:9000/', true)).toBe('http://localhost:9000/v2/account');
+  });
+});
@@ -0,0 +1,417 @@
+// Alpaca Broker Adapter (Trading API v2 + Market Data API)
+
+import { BrokerAccountInfo, BrokerConfig, BrokerOrder, MarketDataFeed, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+
+const LIVE_TRADING_URL = 'https://api.alpaca.markets';
+const PAPER_TRADING_URL = 'https://paper-api.alpaca.markets';
+const DATA_URL = 'https://data.alpaca.markets';
+const STREAM_URL = 'wss://stream.data.alpaca.markets';
+
+const WORKING_STATUSES = ['new', 'accepted', 'pending_new', 'accepted_for_bidding', 'partially_filled', 'held', 'pending_replace', 'replaced', 'calculated'];
+const CLOSE_PREFIX = 'close_'; // client_order_id of the order that closes an entry, so closes survive restarts
+
+interface AlpacaOrder {
+  id: string;
+  client_order_id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
+  order_class: '' | 'simple' | 'bracket' | 'oco' | 'oto';
+  qty: string | null;
+  filled_qty: string;
+  filled_avg_price: string | null;
+  limit_price: string | null;
+  stop_price: string | null;
+  status: string;
+  created_at: string;
+  filled_at: string | null;
+  canceled_at: string | null;
+  expired_at: string | null;
+  legs?: AlpacaOrder[] | null;
+}
+
+interface AlpacaPosition {
+  symbol: string;
+  qty: string;
+  side: 'long' | 'short';
+  avg_entry_price: string;
+  current_price: string;
+  unrealized_pl: string;
+}
+
+interface AlpacaAccount {
+  account_number: string;
+  status: string;
+  currency: string;
+  cash: string;
+  equity: string;
+  initial_margin: string;
+  multiplier: string;
+}
+
+interface AlpacaQuote {
+  ap: number;
+  bp: number;
+  t: string;
+}
+
+interface AlpacaBar {
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  t: string;
+}
+
+// Stream frames: control messages (success/error/subscription) and quote (q) or bar (b) updates
+type AlpacaStreamMessage =
+  | { T: 'success' | 'error' | 'subscription'; msg?: string; code?: number }
+  | ({ T: 'q'; S: string } & AlpacaQuote)
+  | ({ T: 'b'; S: string } & AlpacaBar);
+
+export interface AlpacaAdapterOptions {
+  dataUrl?: string; // Market data base URL; defaults to Alpaca's, or to serverUrl for a local stand-in
+  streamUrl?: string; // Quote stream base URL (ws/wss)
+  pollInterval?: number; // Used for subscriptions when WebSocket is unavailable
+}
+
+export class AlpacaAdapter implements BrokerAdapter {
+  private config: BrokerConfig;
+  private tradingUrl: string;
+  private dataUrl: string;
+  private streamUrl: string;
+  private pollInterval: number;
+  private isConnected = false;
+  private subscriptions: Map<string, { stop: () => void }> = new Map();
+
+  constructor(config: BrokerConfig, options: AlpacaAdapterOptions = {}) {
+    this.config = config;
+
+    // serverUrl may point at Alpaca itself (as the login form suggests) or at a stand-in serving both APIs
+    const server = config.serverUrl ? this.normalizeUrl(config.serverUrl) : '';
+    const isAlpacaHost = !server || /(^|\.)alpaca\.markets$/.test(new URL(server).hostname);
+    this.tradingUrl = isAlpacaHost ? (config.testMode ? PAPER_TRADING_URL : LIVE_TRADING_URL) : server;
+    this.dataUrl = options.dataUrl || (isAlpacaHost ? DATA_URL : server);
+    this.streamUrl = options.streamUrl || (isAlpacaHost ? STREAM_URL : server.replace(/^http/, 'ws'));
+    this.pollInterval = options.pollInterval ?? 1000;
+  }
+
+  async connect(): Promise<boolean> {
+    try {
+      const account = await this.request<AlpacaAccount>(this.tradingUrl, '/v2/account');
+      if (account.status !== 'ACTIVE') {
+        throw new Error(`Alpaca account is ${account.status}`);
+      }
+      this.isConnected = true;
+      return true;
+    } catch (error) {
+      console.error('Alpaca connection failed:', error);
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<boolean> {
+    this.subscriptions.forEach(subscription => subscription.stop());
+    this.subscriptions.clear();
+    this.isConnected = false;
+    return true;
+  }
+
+  async getAccountInfo(): Promise<BrokerAccountInfo> {
+    this.ensureConnected();
+
+    const account = await this.request<AlpacaAccount>(this.tradingUrl, '/v2/account');
+    const equity = parseFloat(account.equity);
+    const margin = parseFloat(account.initial_margin || '0');
+
+    return {
+      balance: parseFloat(account.cash),
+      equity,
+      margin,
+      freeMargin: equity - margin,
+      marginLevel: margin > 0 ? (equity / margin) * 100 : 0,
+      currency: account.currency || 'USD',
+      leverage: parseFloat(account.multiplier || '1'),
+      accountNumber: account.account_number,
+      serverName: this.config.testMode ? 'Alpaca Paper' : 'Alpaca',
+    };
+  }
+
+  async getMarketData(symbol: string): Promise<MarketDataFeed> {
+    this.ensureConnected();
+
+    const [quote, bar] = this.isCrypto(symbol)
+      ? await Promise.all([
+          this.request<{ quotes: Record<string, AlpacaQuote> }>(this.dataUrl, `/v1beta3/crypto/us/latest/quotes?symbols=${encodeURIComponent(symbol)}`)
+            .then(data => data.quotes[symbol]),
+          this.request<{ bars: Record<string, AlpacaBar> }>(this.dataUrl, `/v1beta3/crypto/us/latest/bars?symbols=${encodeURIComponent(symbol)}`)
+            .then(data => data.bars[symbol]),
+        ])
+      : await Promise.all([
+          this.request<{ quote: AlpacaQuote }>(this.dataUrl, `/v2/stocks/${encodeURIComponent(symbol)}/quotes/latest`).then(data => data.quote),
+          this.request<{ bar: AlpacaBar }>(this.dataUrl, `/v2/stocks/${encodeURIComponent(symbol)}/bars/latest`).then(data => data.bar),
+        ]);
+
+    if (!quote || !bar) {
+      throw new Error(`No Alpaca market data for ${symbol}`);
+    }
+    return this.toMarketData(symbol, quote, bar);
+  }
+
+  // SL and TP together go out as a bracket order; a single one as a one-triggers-other order
+  async placeOrder(order: OrderRequest): Promise<string> {
+    this.ensureConnected();
+
+    const type = order.type.endsWith('LIMIT') ? 'limit' : order.type.endsWith('STOP') ? 'stop' : 'market';
+    const body: Record<string, unknown> = {
+      symbol: order.symbol,
+      qty: order.volume.toString(),
+      side: order.type.startsWith('BUY') ? 'buy' : 'sell',
+      type,
+      time_in_force: 'gtc', // Alpaca has no good-till-date; expiration is not supported
+    };
+    if (type === 'limit') body.limit_price = order.price?.toString();
+    if (type === 'stop') body.stop_price = order.price?.toString();
+    if (order.takeProfit || order.stopLoss) {
+      body.order_class = order.takeProfit && order.stopLoss ? 'bracket' : 'oto';
+      if (order.takeProfit) body.take_profit = { limit_price: order.takeProfit.toString() };
+      if (order.stopLoss) body.stop_loss = { stop_price: order.stopLoss.toString() };
+    }
+
+    const result = await this.request<AlpacaOrder>(this.tradingUrl, '/v2/orders', { method: 'POST', body: JSON.stringify(body) });
+    if (result.status === 'rejected') {
+      throw new Error(`Alpaca rejected order for ${order.symbol}`);
+    }
+    return result.id;
+  }
+
+  // Cancels a working entry, or flattens a filled one with an opposite market order after cancelling its legs
+  async closeOrder(ticket: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const order = await this.request<AlpacaOrder>(this.tradingUrl, `/v2/orders/${ticket}?nested=true`);
+    const filled = parseFloat(order.filled_qty || '0');
+
+    if (WORKING_STATUSES.includes(order.status) && filled === 0) {
+      await this.request(this.tradingUrl, `/v2/orders/${ticket}`, { method: 'DELETE' });
+      return true;
+    }
+    if (filled === 0) return false;
+
+    for (const leg of order.legs || []) {
+      if (WORKING_STATUSES.includes(leg.status)) {
+        await this.request(this.tradingUrl, `/v2/orders/${leg.id}`, { method: 'DELETE' });
+      }
+    }
+    if (WORKING_STATUSES.includes(order.status)) {
+      await this.request(this.tradingUrl, `/v2/orders/${ticket}`, { method: 'DELETE' }); // Drop the unfilled remainder
+    }
+
+    await this.request<AlpacaOrder>(this.tradingUrl, '/v2/orders', {
+      method: 'POST',
+      body: JSON.stringify({
+        symbol: order.symbol,
+        qty: filled.toString(),
+        side: order.side === 'buy' ? 'sell' : 'buy',
+        type: 'market',
+        time_in_force: 'gtc',
+        client_order_id: `${CLOSE_PREFIX}${ticket}`,
+      }),
+    });
+    return true;
+  }
+
+  // Working entries plus filled entries whose position Alpaca still holds
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const { entries, orders, positions } = await this.loadOrderBook();
+    return entries
+      .filter(order => this.isWorking(order) ||
+        (parseFloat(order.filled_qty || '0') > 0 && this.getExit(order, orders, positions) === null))
+      .map(order => this.toBrokerOrder(order, positions.get(this.normalizeSymbol(order.symbol))));
+  }
+
+  async getOrderHistory(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const { entries, orders, positions } = await this.loadOrderBook();
+    return entries
+      .filter(order => !this.isWorking(order))
+      .flatMap(order => {
+        const filled = parseFloat(order.filled_qty || '0');
+        if (filled === 0) return [this.toBrokerOrder(order)];
+        const exit = this.getExit(order, orders, positions);
+        return exit === null ? [] : [this.toBrokerOrder(order, undefined, exit)];
+      });
+  }
+
+  // Streams quotes over WebSocket where available, otherwise polls the latest quote
+  subscribeToMarketData(symbol: string, callback: (data: MarketDataFeed) => void): void {
+    this.subscriptions.get(symbol)?.stop();
+
+    if (typeof WebSocket === 'undefined') {
+      const interval = setInterval(async () => {
+        try {
+          callback(await this.getMarketData(symbol));
+        } catch (error) {
+          console.error('Alpaca market data error:', error);
+        }
+      }, this.pollInterval);
+      this.subscriptions.set(symbol, { stop: () => clearInterval(interval) });
+      return;
+    }
+
+    const path = this.isCrypto(symbol) ? '/v1beta3/crypto/us' : (this.config.testMode ? '/v2/iex' : '/v2/sip');
+    const socket = new WebSocket(`${this.streamUrl}${path}`);
+    let lastBar: AlpacaBar | undefined;
+
+    socket.onmessage = (event) => {
+      const messages: AlpacaStreamMessage[] = JSON.parse(typeof event.data === 'string' ? event.data : '[]');
+      for (const message of messages) {
+        if (message.T === 'success' && message.msg === 'connected') {
+          socket.send(JSON.stringify({ action: 'auth', key: this.config.apiKey, secret: this.config.secretKey }));
+        } else if (message.T === 'success' && message.msg === 'authenticated') {
+          socket.send(JSON.stringify({ action: 'subscribe', quotes: [symbol], bars: [symbol] }));
+        } else if (message.T === 'b' && message.S === symbol) {
+          lastBar = message;
+        } else if (message.T === 'q' && message.S === symbol) {
+          callback(this.toMarketData(symbol, message, lastBar || { o: message.bp, h: message.bp, l: message.bp, c: message.bp, v: 0, t: message.t }));
+        } else if (message.T === 'error') {
+          console.error(`Alpaca stream error ${message.code}: ${message.msg}`);
+        }
+      }
+    };
+    this.subscriptions.set(symbol, { stop: () => socket.close() });
+  }
+
+  private async loadOrderBook(): Promise<{ entries: AlpacaOrder[]; orders: AlpacaOrder[]; positions: Map<string, AlpacaPosition> }> {
+    const [orders, positions] = await Promise.all([
+      this.request<AlpacaOrder[]>(this.tradingUrl, '/v2/orders?status=all&nested=true&limit=500&direction=desc'),
+      this.request<AlpacaPosition[]>(this.tradingUrl, '/v2/positions'),
+    ]);
+
+    return {
+      entries: orders.filter(order => !order.client_order_id.startsWith(CLOSE_PREFIX)),
+      orders,
+      positions: new Map(positions.map(position => [this.normalizeSymbol(position.symbol), position])),
+    };
+  }
+
+  // Exit price of a filled entry, or null while its position is still open
+  private getExit(entry: AlpacaOrder, orders: AlpacaOrder[], positions: Map<string, AlpacaPosition>): number | null {
+    const fillPrice = (order: AlpacaOrder) => parseFloat(order.filled_avg_price || '0');
+
+    const closeOrder = orders.find(order => order.client_order_id === `${CLOSE_PREFIX}${entry.id}`);
+    if (closeOrder) return closeOrder.status === 'filled' ? fillPrice(closeOrder) : fillPrice(entry);
+
+    const filledLeg = (entry.legs || []).find(leg => leg.status === 'filled');
+    if (filledLeg) return fillPrice(filledLeg);
+
+    const position = positions.get(this.normalizeSymbol(entry.symbol));
+    if (position && position.side === (entry.side === 'buy' ? 'long' : 'short')) return null;
+
+    // Closed outside the bot; take the first opposite fill after the entry
+    const opposite = orders
+      .filter(order => this.normalizeSymbol(order.symbol) === this.normalizeSymbol(entry.symbol) &&
+        order.side !== entry.side && order.status === 'filled' && order.filled_at && entry.filled_at &&
+        order.filled_at >= entry.filled_at)
+      .sort((a, b) => a.filled_at!.localeCompare(b.filled_at!))[0];
+    return opposite ? fillPrice(opposite) : fillPrice(entry);
+  }
+
+  private toBrokerOrder(order: AlpacaOrder, position?: AlpacaPosition, exitPrice?: number): BrokerOrder {
+    const filled = parseFloat(order.filled_qty || '0');
+    const openPrice = order.filled_avg_price
+      ? parseFloat(order.filled_avg_price)
+      : parseFloat(order.limit_price || order.stop_price || '0');
+    const currentPrice = exitPrice ?? (position ? parseFloat(position.current_price) : openPrice);
+    const direction = order.side === 'buy' ? 1 : -1;
+    const legs = order.legs || [];
+    const stopLeg = legs.find(leg => leg.type === 'stop' || leg.type === 'stop_limit');
+    const profitLeg = legs.find(leg => leg.type === 'limit');
+
+    return {
+      ticket: order.id,
+      symbol: order.symbol,
+      type: order.side === 'buy' ? 'BUY' : 'SELL',
+      volume: parseFloat(order.qty || order.filled_qty || '0'),
+      filledVolume: filled,
+      openPrice,
+      currentPrice,
+      stopLoss: stopLeg?.stop_price ? parseFloat(stopLeg.stop_price) : undefined,
+      takeProfit: profitLeg?.limit_price ? parseFloat(profitLeg.limit_price) : undefined,
+      profit: (currentPrice - openPrice) * filled * direction,
+      commission: 0, // Alpaca is commission-free
+      swap: 0,
+      comment: order.client_order_id,
+      openTime: new Date(order.filled_at || order.created_at),
+      closeTime: order.canceled_at ? new Date(order.canceled_at) : order.expired_at ? new Date(order.expired_at) : undefined,
+      status: this.toBrokerStatus(order, filled, exitPrice),
+    };
+  }
+
+  private toBrokerStatus(order: AlpacaOrder, filled: number, exitPrice?: number): BrokerOrder['status'] {
+    if (exitPrice !== undefined) return 'CLOSED';
+    if (filled > 0) return 'OPEN';
+    if (this.isWorking(order)) return 'PENDING';
+    return order.status === 'expired' ? 'EXPIRED' : 'CANCELLED'; // canceled, rejected, done_for_day
+  }
+
+  private toMarketData(symbol: string, quote: AlpacaQuote, bar: AlpacaBar): MarketDataFeed {
+    return {
+      symbol,
+      bid: quote.bp,
+      ask: quote.ap,
+      spread: quote.ap - quote.bp,
+      volume: bar.v,
+      timestamp: new Date(quote.t),
+      high: bar.h,
+      low: bar.l,
+      open: bar.o,
+      close: bar.c,
+    };
+  }
+
+  private isWorking(order: AlpacaOrder): boolean {
+    return WORKING_STATUSES.includes(order.status);
+  }
+
+  private isCrypto(symbol: string): boolean {
+    return symbol.includes('/');
+  }
+
+  // Positions report crypto as BTCUSD while orders use BTC/USD
+  private normalizeSymbol(symbol: string): string {
+    return symbol.replace('/', '');
+  }
+
+  private normalizeUrl(url: string): string {
+    return (/^[a-z]+:\/\//i.test(url) ? url : `https://${url}`).replace(/\/+$/, '');
+  }
+
+  private async request<T = unknown>(baseUrl: string, path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'APCA-API-KEY-ID': this.config.apiKey,
+        'APCA-API-SECRET-KEY': this.config.secretKey || '',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(`Alpaca ${init.method || 'GET'} ${path.split('?')[0]} failed: ${error.message || response.statusText} (${response.status})`);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  private ensureConnected(): void {
+    if (!this.isConnected) {
+      throw new Error('Not connected to Alpaca');
+    }
+  }
+}
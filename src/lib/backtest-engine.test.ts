@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { MarketDataFeed } from '@/types/broker';
+import { findCandleIssue } from './backtest-engine';
+
+const candle = (overrides: Partial<MarketDataFeed> = {}): MarketDataFeed => ({
+  symbol: 'EURUSD',
+  bid: 1.1,
+  ask: 1.1,
+  spread: 0,
+  volume: 100,
+  timestamp: new Date('2026-03-02T09:00:00Z'),
+  open: 1.1,
+  high: 1.102,
+  low: 1.098,
+  close: 1.101,
+  ...overrides,
+});
+
+describe('findCandleIssue', () => {
+  it('accepts well-formed candles', () => {
+    expect(findCandleIssue([candle(), candle({ timestamp: new Date('2026-03-02T09:01:00Z') })])).toBeNull();
+  });
+
+  it.each([
+    ['a missing symbol', { symbol: undefined }, 'has no symbol'],
+    ['a non-numeric close', { close: '1.1' }, 'needs positive numeric open, high, low and close'],
+    ['a missing open', { open: undefined }, 'needs positive numeric open, high, low and close'],
+    ['a zero low', { low: 0 }, 'needs positive numeric open, high, low and close'],
+    ['a close above the high', { close: 1.2 }, 'has open or close outside its high-low range'],
+    ['an open below the low', { open: 1.09 }, 'has open or close outside its high-low range'],
+    ['a negative volume', { volume: -1 }, 'has an invalid volume'],
+    ['a NaN volume', { volume: NaN }, 'has an invalid volume'],
+  ])('reports the index of a candle with %s', (_, overrides, message) => {
+    const bad = candle(overrides as unknown as Partial<MarketDataFeed>);
+    expect(findCandleIssue([candle(), bad])).toBe(`Candle at index 1 ${message}`);
+  });
+
+  it('reports a candle that is not an object', () => {
+    expect(findCandleIssue([null as unknown as MarketDataFeed])).toBe('Candle at index 0 is not an object');
+  });
+});
@@ -0,0 +1,174 @@
+// Event-driven Backtesting Engine
+
+import { BotAction, BotConfig, Trade } from '@/types/trading';
+import { MarketDataFeed } from '@/types/broker';
+import { EnhancedTradingBot } from './enhanced-trading-bot';
+import { SimulatedClock } from './clock';
+import { MarketDataProvider } from './broker-integration';
+
+export interface BacktestOptions {
+  config?: Partial<BotConfig>;
+  strategy?: string; // Registered strategy id, defaults to the smart engine
+  stopOnTarget?: boolean; // Stop replaying once the profit target is hit, like the live bot
+  closeOpenPositions?: boolean; // Close anything still open on the last bar
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  balance: number;
+  equity: number;
+}
+
+export interface DrawdownPoint {
+  timestamp: Date;
+  peakEquity: number;
+  drawdown: number; // Absolute distance from the running peak
+  drawdownPercent: number; // 0-100
+}
+
+export interface BacktestResult {
+  symbol: string;
+  startTime: Date;
+  endTime: Date;
+  barsProcessed: number;
+  config: BotConfig;
+  initialCapital: number;
+  finalBalance: number;
+  totalProfit: number;
+  returnPercent: number;
+  winRate: number;
+  maxDrawdown: number; // 0-1, peak-to-trough on the equity curve
+  targetReached: boolean;
+  trades: Trade[];
+  equityCurve: EquityPoint[];
+  drawdownSeries: DrawdownPoint[];
+  actions: BotAction[]; // Chronological
+  durationMs: number; // Wall-clock time spent replaying
+}
+
+// Describes the first candle that cannot be replayed, or returns null when all of them can
+export function findCandleIssue(candles: MarketDataFeed[]): string | null {
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    if (typeof candle !== 'object' || candle === null) {
+      return `Candle at index ${i} is not an object`;
+    }
+    if (typeof candle.symbol !== 'string' || candle.symbol.trim() === '') {
+      return `Candle at index ${i} has no symbol`;
+    }
+    const prices = [candle.open, candle.high, candle.low, candle.close];
+    if (!prices.every(price => typeof price === 'number' && Number.isFinite(price) && price > 0)) {
+      return `Candle at index ${i} needs positive numeric open, high, low and close`;
+    }
+    if (candle.low > Math.min(candle.open, candle.close) || candle.high < Math.max(candle.open, candle.close)) {
+      return `Candle at index ${i} has open or close outside its high-low range`;
+    }
+    if (typeof candle.volume !== 'number' || !Number.isFinite(candle.volume) || candle.volume < 0) {
+      return `Candle at index ${i} has an invalid volume`;
+    }
+    if (!(candle.timestamp instanceof Date) || isNaN(candle.timestamp.getTime())) {
+      return `Candle at index ${i} has an invalid timestamp`;
+    }
+    if (i > 0 && candles[i].timestamp.getTime() < candles[i - 1].timestamp.getTime()) {
+      return `Candles must be in chronological order (index ${i})`;
+    }
+  }
+  return null;
+}
+
+export class BacktestEngine {
+  private options: BacktestOptions;
+
+  constructor(options: BacktestOptions = {}) {
+    this.options = options;
+  }
+
+  async run(candles: MarketDataFeed[]): Promise<BacktestResult> {
+    if (candles.length === 0) {
+      throw new Error('Backtest requires at least one candle');
+    }
+
+    const issue = findCandleIssue(candles);
+    if (issue) {
+      throw new Error(issue);
+    }
+
+    const startedAt = Date.now();
+    const stopOnTarget = this.options.stopOnTarget ?? true;
+    const closeOpenPositions = this.options.closeOpenPositions ?? true;
+
+    const clock = new SimulatedClock(candles[0].timestamp);
+    const bot = new EnhancedTradingBot({
+      clock,
+      config: this.options.config,
+      strategy: this.options.strategy,
+      watchlist: Array.from(new Set(candles.map(candle => candle.symbol))),
+      maxActions: Infinity,
+      marketDataProvider: new MarketDataProvider(clock),
+    });
+
+    const equityCurve: EquityPoint[] = [];
+    const drawdownSeries: DrawdownPoint[] = [];
+    let peakEquity = bot.getState().config.initialCapital;
+    let maxDrawdown = 0;
+    let barsProcessed = 0;
+
+    const recordEquity = (timestamp: Date) => {
+      const state = bot.getState();
+      const unrealized = state.positions
+        .filter(p => p.status === 'OPEN')
+        .reduce((sum, p) => sum + p.unrealizedPnL, 0);
+      const equity = state.status.currentBalance + unrealized;
+
+      peakEquity = Math.max(peakEquity, equity);
+      const drawdown = peakEquity - equity;
+      const drawdownRatio = peakEquity > 0 ? drawdown / peakEquity : 0;
+      maxDrawdown = Math.max(maxDrawdown, drawdownRatio);
+
+      equityCurve.push({ timestamp, balance: state.status.currentBalance, equity });
+      drawdownSeries.push({ timestamp, peakEquity, drawdown, drawdownPercent: drawdownRatio * 100 });
+    };
+
+    for (const candle of candles) {
+      clock.setTime(candle.timestamp);
+      await bot.processMarketData(candle);
+      barsProcessed++;
+      recordEquity(candle.timestamp);
+
+      if (stopOnTarget && bot.getStatus().targetReached) {
+        break;
+      }
+    }
+
+    const lastTimestamp = clock.now();
+    if (closeOpenPositions && bot.getState().positions.some(p => p.status === 'OPEN')) {
+      await bot.closeAllPositions('End of backtest', 'END_OF_DATA');
+      recordEquity(lastTimestamp);
+    }
+
+    const state = bot.getState();
+    const initialCapital = state.config.initialCapital;
+    const finalBalance = state.status.currentBalance;
+    const winningTrades = state.trades.filter(t => t.profit > 0).length;
+
+    return {
+      symbol: candles[0].symbol,
+      startTime: candles[0].timestamp,
+      endTime: lastTimestamp,
+      barsProcessed,
+      config: { ...state.config },
+      initialCapital,
+      finalBalance,
+      totalProfit: finalBalance - initialCapital,
+      returnPercent: ((finalBalance - initialCapital) / initialCapital) * 100,
+      winRate: state.trades.length > 0 ? (winningTrades / state.trades.length) * 100 : 0,
+      maxDrawdown,
+      targetReached: state.status.targetReached,
+      trades: [...state.trades],
+      equityCurve,
+      drawdownSeries,
+      actions: [...state.actions].reverse(),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
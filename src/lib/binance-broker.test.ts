@@ -0,0 +1,371 @@
+import { createHmac } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrokerConfig } from '@/types/broker';
+import { MockHttpServer, MockRequest } from '@/test/mock-http-server';
+import { BinanceAdapter, BinanceMarket } from './binance-broker';
+
+interface StandInOrder {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  cummulativeQuoteQty?: string;
+  avgPrice?: string;
+  status: string;
+  type: string;
+  side: 'BUY' | 'SELL';
+  stopPrice?: string;
+  time: number;
+  updateTime: number;
+  orderListId: number;
+  listClientOrderId?: string;
+}
+
+const SECRET = 'stand-in-secret';
+const NOW = Date.parse('2026-03-02T15:00:00Z');
+const PRICE = 60000;
+
+// Binance Spot (/api/v3) or USD-M Futures (/fapi/v1) REST: signed endpoints check the HMAC-SHA256 signature,
+// market orders fill at once at PRICE and everything else works until the test fills it
+function createBinanceStandIn(server: MockHttpServer, market: BinanceMarket = 'SPOT') {
+  const api = market === 'SPOT' ? '/api/v3' : '/fapi/v1';
+  const account = market === 'SPOT' ? '/api/v3/account' : '/fapi/v2/account';
+  const orders: StandInOrder[] = [];
+  let nextId = 1001;
+  let nextListId = 1;
+
+  const fill = (order: StandInOrder, price = parseFloat(order.price) || parseFloat(order.stopPrice || '0') || PRICE) => {
+    order.status = 'FILLED';
+    order.executedQty = order.origQty;
+    if (market === 'SPOT') order.cummulativeQuoteQty = (price * parseFloat(order.origQty)).toString();
+    else order.avgPrice = price.toString();
+    order.updateTime = NOW;
+  };
+
+  const newOrder = (query: Record<string, string>, listClientOrderId?: string): StandInOrder => {
+    const order: StandInOrder = {
+      symbol: query.symbol,
+      orderId: nextId++,
+      clientOrderId: query.newClientOrderId || query.clientOrderId || `auto-${nextId}`,
+      price: query.price || '0',
+      origQty: query.quantity,
+      executedQty: '0',
+      status: 'NEW',
+      type: query.type,
+      side: query.side as 'BUY' | 'SELL',
+      stopPrice: query.stopPrice,
+      time: NOW,
+      updateTime: NOW,
+      orderListId: listClientOrderId ? nextListId : -1,
+      listClientOrderId,
+    };
+    if (order.type === 'MARKET') fill(order);
+    orders.push(order);
+    return order;
+  };
+
+  // Rejects requests whose signature is not the HMAC of the rest of the query string
+  const signed = (handler: (query: Record<string, string>, request: MockRequest) => unknown) => (request: MockRequest) => {
+    const unsigned = new URLSearchParams(request.query);
+    unsigned.delete('signature');
+    const expected = createHmac('sha256', SECRET).update(unsigned.toString()).digest('hex');
+    if (request.query.get('signature') !== expected || request.headers['x-mbx-apikey'] !== 'api-key') {
+      return { status: 401, body: { code: -1022, msg: 'Signature for this request is not valid.' } };
+    }
+    return { body: handler(Object.fromEntries(request.query), request) };
+  };
+
+  server
+    .route('GET', `${api}/time`, () => ({ body: { serverTime: NOW } }))
+    .route('GET', account, signed(() => market === 'SPOT'
+      ? { uid: 42, balances: [{ asset: 'USDT', free: '900', locked: '100' }, { asset: 'BTC', free: '0.1', locked: '0' }] }
+      : { totalWalletBalance: '1000', totalMarginBalance: '1050', totalInitialMargin: '210', availableBalance: '840' }))
+    .route('GET', `${api}/exchangeInfo`, ({ query }) => ({
+      body: {
+        symbols: [{
+          symbol: query.get('symbol'),
+          baseAsset: 'BTC',
+          quoteAsset: 'USDT',
+          filters: [
+            { filterType: 'PRICE_FILTER', tickSize: '0.01000000' },
+            { filterType: 'LOT_SIZE', stepSize: '0.00010000', minQty: '0.00010000' },
+            { filterType: market === 'SPOT' ? 'NOTIONAL' : 'MIN_NOTIONAL', [market === 'SPOT' ? 'minNotional' : 'notional']: '10' },
+          ],
+        }],
+      },
+    }))
+    .route('GET', `${api}/ticker/price`, () => ({ body: { price: PRICE.toString() } }))
+    .route('GET', `${api}/ticker/bookTicker`, () => ({ body: { bidPrice: '59999.50', askPrice: '60000.50' } }))
+    .route('GET', `${api}/klines`, () => ({ body: [[NOW, '59990', '60010', '59980', '60000', '12.5', NOW + 59999]] }))
+    .route('POST', `${api}/order`, signed(query => newOrder(query)))
+    .route('DELETE', `${api}/order`, signed(query => {
+      const order = orders.find(o => o.orderId === Number(query.orderId))!;
+      order.status = 'CANCELED';
+      return order;
+    }))
+    .route('GET', `${api}/allOrders`, signed(query => orders.filter(o => o.symbol === query.symbol)))
+    .route('POST', `${api}/orderList/oco`, signed(query => {
+      const leg = (side: 'above' | 'below') => newOrder({
+        symbol: query.symbol,
+        side: query.side,
+        quantity: query.quantity,
+        type: query[`${side}Type`],
+        price: query[`${side}Price`],
+        stopPrice: query[`${side}StopPrice`],
+        newClientOrderId: query[`${side}ClientOrderId`],
+      }, query.listClientOrderId);
+      const legs = [leg('above'), leg('below')];
+      return { orderListId: nextListId++, listClientOrderId: query.listClientOrderId, orders: legs };
+    }))
+    .route('DELETE', `${api}/orderList`, signed(query => {
+      const legs = orders.filter(o => o.listClientOrderId === query.listClientOrderId);
+      legs.forEach(o => { o.status = 'CANCELED'; });
+      return { listClientOrderId: query.listClientOrderId, orders: legs };
+    }));
+
+  const byClientId = (clientOrderId: string) => orders.find(o => o.clientOrderId === clientOrderId);
+  return { orders, fill, byClientId };
+}
+
+const config = (serverUrl: string, secretKey = SECRET): BrokerConfig => ({
+  id: 'binance',
+  name: 'Binance',
+  type: 'BINANCE',
+  apiKey: 'api-key',
+  secretKey,
+  serverUrl,
+  testMode: true,
+  maxLeverage: 5,
+  minOrderSize: 0.0001,
+  supportedSymbols: ['BTC/USD'],
+});
+
+const orderIdOf = (ticket: string) => Number(ticket.split('-')[1]);
+
+describe('BinanceAdapter against a local spot stand-in', () => {
+  let server: MockHttpServer;
+  let standIn: ReturnType<typeof createBinanceStandIn>;
+  let dir: string;
+  let exitsPath: string;
+  let adapter: BinanceAdapter;
+
+  const connect = async () => {
+    const connected = new BinanceAdapter(config(server.url), { exitsPath });
+    expect(await connected.connect()).toBe(true);
+    return connected;
+  };
+
+  beforeEach(async () => {
+    server = new MockHttpServer();
+    standIn = createBinanceStandIn(server);
+    await server.listen();
+    dir = await mkdtemp(join(tmpdir(), 'binance-exits-'));
+    exitsPath = join(dir, 'exits.json');
+    adapter = await connect();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter.disconnect();
+    await server.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('signs requests with an HMAC-SHA256 of the query string and the server clock', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW - 1500); // Local clock 1.5s behind Binance
+    const skewed = await connect();
+    const account = await skewed.getAccountInfo();
+
+    const [request] = server.find('GET', '/api/v3/account').slice(-1);
+    expect(request.headers['x-mbx-apikey']).toBe('api-key');
+    expect(request.query.get('omitZeroBalances')).toBe('true');
+    expect(request.query.get('recvWindow')).toBe('5000');
+    expect(request.query.get('timestamp')).toBe(String(NOW));
+    expect(request.query.get('signature')).toMatch(/^[0-9a-f]{64}$/);
+    expect(account).toMatchObject({ balance: 1000, equity: 1000, freeMargin: 900, currency: 'USDT', accountNumber: '42' });
+  });
+
+  it('does not connect when Binance rejects the signature', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const wrongSecret = new BinanceAdapter(config(server.url, 'wrong-secret'), { exitsPath });
+
+    expect(await wrongSecret.connect()).toBe(false);
+    expect(console.error).toHaveBeenCalledWith('Binance connection failed:', expect.objectContaining({
+      message: 'Binance GET /api/v3/account failed: Signature for this request is not valid. (-1022)',
+    }));
+  });
+
+  it('maps bot symbols to Binance symbols and back', () => {
+    expect(adapter.toBinanceSymbol('BTC/USD')).toBe('BTCUSDT');
+    expect(adapter.toBinanceSymbol('eth/btc')).toBe('ETHBTC');
+    expect(adapter.toBinanceSymbol('SOL')).toBe('SOLUSDT');
+    expect(adapter.fromBinanceSymbol('BTCUSDT')).toBe('BTC/USD');
+    expect(adapter.fromBinanceSymbol('ETHBTC')).toBe('eth/btc');
+    expect(adapter.fromBinanceSymbol('XRPEUR')).toBe('XRPEUR');
+  });
+
+  it('reads the book ticker and the latest kline', async () => {
+    expect(await adapter.getMarketData('BTC/USD')).toMatchObject({
+      symbol: 'BTC/USD', bid: 59999.5, ask: 60000.5, spread: 1, open: 59990, high: 60010, low: 59980, close: 60000, volume: 12.5,
+    });
+    expect(server.find('GET', '/api/v3/klines')[0].query.get('symbol')).toBe('BTCUSDT');
+  });
+
+  it('rounds quantity down to the LOT_SIZE step and prices to the tick size', async () => {
+    await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY_LIMIT', volume: 0.123456789, price: 59999.987 });
+
+    const query = server.find('POST', '/api/v3/order')[0].query;
+    expect(query.get('symbol')).toBe('BTCUSDT');
+    expect(query.get('side')).toBe('BUY');
+    expect(query.get('type')).toBe('LIMIT');
+    expect(query.get('timeInForce')).toBe('GTC');
+    expect(query.get('quantity')).toBe('0.1234');
+    expect(query.get('price')).toBe('59999.99');
+    expect(query.get('newClientOrderId')).toMatch(/^bot-/);
+  });
+
+  it('rejects orders below the minimum quantity or notional before sending them', async () => {
+    await expect(adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY', volume: 0.00009 }))
+      .rejects.toThrow('Order rejected: quantity 0 below BTCUSDT minimum 0.0001');
+    await expect(adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY_LIMIT', volume: 0.0001, price: 50000 }))
+      .rejects.toThrow('Order rejected: notional 5.00 below BTCUSDT minimum 10');
+    expect(server.find('POST', '/api/v3/order')).toHaveLength(0);
+  });
+
+  it('protects a filled long with an OCO: take-profit above, stop-limit below', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY', volume: 0.01, stopLoss: 58000, takeProfit: 63000.004 });
+    const id = orderIdOf(ticket);
+
+    const oco = Object.fromEntries(server.find('POST', '/api/v3/orderList/oco')[0].query);
+    expect(oco).toMatchObject({
+      symbol: 'BTCUSDT',
+      side: 'SELL',
+      quantity: '0.0100',
+      listClientOrderId: `oco-${id}`,
+      aboveType: 'LIMIT_MAKER',
+      abovePrice: '63000.00',
+      aboveClientOrderId: `tp-${id}`,
+      belowType: 'STOP_LOSS_LIMIT',
+      belowStopPrice: '58000.00',
+      belowPrice: '57710.00',
+      belowTimeInForce: 'GTC',
+      belowClientOrderId: `sl-${id}`,
+    });
+    expect(server.find('POST', '/api/v3/order')[0].query.get('newOrderRespType')).toBe('FULL');
+
+    const [order] = await adapter.getOpenOrders();
+    expect(order).toMatchObject({ ticket, symbol: 'BTC/USD', type: 'BUY', filledVolume: 0.01, openPrice: 60000, stopLoss: 58000, takeProfit: 63000, status: 'OPEN' });
+  });
+
+  it('mirrors the OCO for a short: stop-limit above, take-profit below', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'SELL', volume: 0.01, stopLoss: 62000, takeProfit: 57000 });
+    const id = orderIdOf(ticket);
+
+    expect(Object.fromEntries(server.find('POST', '/api/v3/orderList/oco')[0].query)).toMatchObject({
+      side: 'BUY',
+      aboveType: 'STOP_LOSS_LIMIT',
+      aboveStopPrice: '62000.00',
+      abovePrice: '62310.00',
+      aboveClientOrderId: `sl-${id}`,
+      belowType: 'LIMIT_MAKER',
+      belowPrice: '57000.00',
+      belowClientOrderId: `tp-${id}`,
+    });
+  });
+
+  it('closes a filled entry by cancelling the OCO list and flattening at market', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY', volume: 0.01, stopLoss: 58000, takeProfit: 63000 });
+    const id = orderIdOf(ticket);
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+
+    expect(server.find('DELETE', '/api/v3/orderList')[0].query.get('listClientOrderId')).toBe(`oco-${id}`);
+    const close = server.find('POST', '/api/v3/order')[1].query;
+    expect(close.get('side')).toBe('SELL');
+    expect(close.get('type')).toBe('MARKET');
+    expect(close.get('quantity')).toBe('0.0100');
+    expect(close.get('newClientOrderId')).toBe(`close-${id}`);
+    expect(await adapter.getOpenOrders()).toEqual([]);
+    expect(await adapter.getOrderHistory()).toEqual([expect.objectContaining({ ticket, status: 'CLOSED', currentPrice: 60000 })]);
+  });
+
+  it('cancels a working entry without sending exits', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY_LIMIT', volume: 0.01, price: 59000, stopLoss: 58000 });
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+    expect(server.find('DELETE', '/api/v3/order')[0].query.get('orderId')).toBe(String(orderIdOf(ticket)));
+    expect(server.find('POST', '/api/v3/orderList/oco')).toHaveLength(0);
+    expect((await adapter.getOrderHistory())[0]).toMatchObject({ ticket, status: 'CANCELLED', filledVolume: 0 });
+  });
+
+  it('places the exits of an entry that fills after a restart', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY_LIMIT', volume: 0.01, price: 59000, stopLoss: 58000, takeProfit: 63000 });
+    expect(JSON.parse(await readFile(exitsPath, 'utf8'))).toEqual({ [ticket]: { stopLoss: 58000, takeProfit: 63000 } });
+    await adapter.disconnect();
+
+    adapter = await connect();
+    standIn.fill(standIn.orders[0]);
+    const [order] = await adapter.getOpenOrders();
+
+    expect(server.find('POST', '/api/v3/orderList/oco')).toHaveLength(1);
+    expect(order).toMatchObject({ ticket, openPrice: 59000, stopLoss: 58000, takeProfit: 63000, status: 'OPEN' });
+    expect(JSON.parse(await readFile(exitsPath, 'utf8'))).toEqual({});
+  });
+
+  it('forgets saved exits once Binance cancels the entry', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY_LIMIT', volume: 0.01, price: 59000, takeProfit: 63000 });
+    standIn.orders[0].status = 'EXPIRED';
+
+    expect((await adapter.getOrderHistory())[0]).toMatchObject({ ticket, status: 'EXPIRED', takeProfit: undefined });
+    expect(JSON.parse(await readFile(exitsPath, 'utf8'))).toEqual({});
+  });
+});
+
+describe('BinanceAdapter against a local futures stand-in', () => {
+  let server: MockHttpServer;
+  let standIn: ReturnType<typeof createBinanceStandIn>;
+  let adapter: BinanceAdapter;
+
+  beforeEach(async () => {
+    server = new MockHttpServer();
+    standIn = createBinanceStandIn(server, 'FUTURES');
+    await server.listen();
+    adapter = new BinanceAdapter(config(server.url), { market: 'FUTURES', exitsPath: 'none' });
+    expect(await adapter.connect()).toBe(true);
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await server.close();
+  });
+
+  it('maps the futures account margin', async () => {
+    expect(await adapter.getAccountInfo()).toMatchObject({
+      balance: 1000, equity: 1050, margin: 210, freeMargin: 840, marginLevel: 500, leverage: 5, serverName: 'Binance Futures Testnet',
+    });
+  });
+
+  it('emulates OCO with reduce-only legs and cancels the survivor once one fills', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'BTC/USD', type: 'BUY', volume: 0.01, stopLoss: 58000, takeProfit: 63000 });
+    const id = orderIdOf(ticket);
+
+    const legs = server.find('POST', '/fapi/v1/order').slice(1).map(request => Object.fromEntries(request.query));
+    expect(legs).toEqual([
+      expect.objectContaining({ side: 'SELL', type: 'STOP_MARKET', stopPrice: '58000.00', quantity: '0.0100', reduceOnly: 'true', newClientOrderId: `sl-${id}` }),
+      expect.objectContaining({ side: 'SELL', type: 'TAKE_PROFIT_MARKET', stopPrice: '63000.00', quantity: '0.0100', reduceOnly: 'true', newClientOrderId: `tp-${id}` }),
+    ]);
+
+    standIn.fill(standIn.byClientId(`tp-${id}`)!, 63000);
+    expect(await adapter.getOpenOrders()).toEqual([]);
+
+    expect(standIn.byClientId(`sl-${id}`)!.status).toBe('CANCELED');
+    expect(await adapter.getOrderHistory()).toEqual([
+      expect.objectContaining({ ticket, status: 'CLOSED', openPrice: 60000, currentPrice: 63000, profit: 30 }),
+    ]);
+  });
+});
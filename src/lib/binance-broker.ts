@@ -0,0 +1,622 @@
+// Binance Broker Adapter (Spot and USD-M Futures, HMAC-SHA256 signed REST)
+
+import { createHmac } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BrokerAccountInfo, BrokerConfig, BrokerOrder, MarketDataFeed, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+
+export type BinanceMarket = 'SPOT' | 'FUTURES';
+
+const ENDPOINTS: Record<BinanceMarket, { live: string; testnet: string; api: string; account: string }> = {
+  SPOT: { live: 'https://api.binance.com', testnet: 'https://testnet.binance.vision', api: '/api/v3', account: '/api/v3/account' },
+  FUTURES: { live: 'https://fapi.binance.com', testnet: 'https://testnet.binancefuture.com', api: '/fapi/v1', account: '/fapi/v2/account' },
+};
+
+// Client order id prefixes tie exits back to their entry, so the order book can be rebuilt from Binance alone
+const ENTRY_PREFIX = 'bot-';
+const EXIT_PREFIXES = ['tp-', 'sl-', 'close-'];
+const WORKING_STATUSES = ['NEW', 'PARTIALLY_FILLED', 'PENDING_NEW'];
+const STOP_LIMIT_BAND = 0.005; // Spot stop-limit exits may fill up to 0.5% beyond the stop
+const QUOTE_ALIASES: Record<string, string> = { USD: 'USDT' }; // Binance quotes dollars in USDT
+
+interface BinanceOrder {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  cummulativeQuoteQty?: string; // Spot
+  avgPrice?: string; // Futures
+  status: string;
+  type: string;
+  side: 'BUY' | 'SELL';
+  stopPrice?: string;
+  time?: number;
+  transactTime?: number;
+  updateTime?: number;
+}
+
+interface SymbolFilters {
+  baseAsset: string;
+  quoteAsset: string;
+  stepSize: number;
+  minQty: number;
+  tickSize: number;
+  minNotional: number;
+}
+
+interface PendingExits {
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+export interface BinanceAdapterOptions {
+  market?: BinanceMarket; // Defaults to FUTURES for fapi hosts, otherwise SPOT
+  recvWindow?: number;
+  pollInterval?: number;
+  exitsPath?: string; // JSON file keeping SL/TP for unfilled entries across restarts; 'none' keeps them in memory
+}
+
+export class BinanceAdapter implements BrokerAdapter {
+  private config: BrokerConfig;
+  private market: BinanceMarket;
+  private baseUrl: string;
+  private recvWindow: number;
+  private pollInterval: number;
+  private timeOffset = 0; // Server time minus local time, so signed requests stay inside recvWindow
+  private isConnected = false;
+  private filters: Map<string, SymbolFilters> = new Map();
+  private symbols: Map<string, string> = new Map(); // Binance symbol -> bot symbol
+  private pendingExits: Map<string, PendingExits> = new Map(); // SL/TP waiting for their entry to fill
+  private exitsPath?: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private subscriptions: Map<string, ReturnType<typeof setInterval>> = new Map();
+
+  constructor(config: BrokerConfig, options: BinanceAdapterOptions = {}) {
+    this.config = config;
+
+    // serverUrl may name a Binance host (as the login form suggests) or a stand-in such as a local mock
+    const server = config.serverUrl ? (/^[a-z]+:\/\//i.test(config.serverUrl) ? config.serverUrl : `https://${config.serverUrl}`).replace(/\/+$/, '') : '';
+    const host = server ? new URL(server).hostname : '';
+    this.market = options.market || (/^fapi\.|binancefuture/.test(host) ? 'FUTURES' : 'SPOT');
+    const isBinanceHost = !server || /(^|\.)(binance\.com|binance\.vision|binancefuture\.com)$/.test(host);
+    const endpoints = ENDPOINTS[this.market];
+    this.baseUrl = isBinanceHost ? (config.testMode ? endpoints.testnet : endpoints.live) : server;
+    this.recvWindow = options.recvWindow ?? 5000;
+    this.pollInterval = options.pollInterval ?? 1000;
+    // Binance has nowhere to keep SL/TP for an entry that has not filled, so they are saved beside the bot state
+    const exitsPath = options.exitsPath || process.env.BINANCE_EXITS_PATH ||
+      `.data/binance-exits-${this.market.toLowerCase()}${config.testMode ? '-testnet' : ''}.json`;
+    this.exitsPath = exitsPath === 'none' ? undefined : exitsPath;
+    config.supportedSymbols.forEach(symbol => this.toBinanceSymbol(symbol));
+  }
+
+  async connect(): Promise<boolean> {
+    try {
+      const { serverTime } = await this.request<{ serverTime: number }>('GET', `${this.api}/time`);
+      this.timeOffset = serverTime - Date.now();
+      await this.request('GET', ENDPOINTS[this.market].account, {}, true); // Verifies the key and signature
+      await this.loadPendingExits();
+      this.isConnected = true;
+      return true;
+    } catch (error) {
+      console.error('Binance connection failed:', error);
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<boolean> {
+    this.subscriptions.forEach(interval => clearInterval(interval));
+    this.subscriptions.clear();
+    this.isConnected = false;
+    return true;
+  }
+
+  async getAccountInfo(): Promise<BrokerAccountInfo> {
+    this.ensureConnected();
+
+    if (this.market === 'FUTURES') {
+      const account = await this.request<Record<string, string>>('GET', ENDPOINTS.FUTURES.account, {}, true);
+      const equity = parseFloat(account.totalMarginBalance);
+      const margin = parseFloat(account.totalInitialMargin);
+      return {
+        balance: parseFloat(account.totalWalletBalance),
+        equity,
+        margin,
+        freeMargin: parseFloat(account.availableBalance),
+        marginLevel: margin > 0 ? (equity / margin) * 100 : 0,
+        currency: 'USDT',
+        leverage: this.config.maxLeverage,
+        accountNumber: this.config.accountId || 'FUTURES',
+        serverName: this.config.testMode ? 'Binance Futures Testnet' : 'Binance Futures',
+      };
+    }
+
+    // Spot has no margin; the balance is the free plus locked USDT
+    const account = await this.request<{ uid?: number; balances: { asset: string; free: string; locked: string }[] }>(
+      'GET', ENDPOINTS.SPOT.account, { omitZeroBalances: 'true' }, true
+    );
+    const usdt = account.balances.find(b => b.asset === 'USDT');
+    const balance = usdt ? parseFloat(usdt.free) + parseFloat(usdt.locked) : 0;
+    return {
+      balance,
+      equity: balance,
+      margin: 0,
+      freeMargin: usdt ? parseFloat(usdt.free) : 0,
+      marginLevel: 0,
+      currency: 'USDT',
+      leverage: 1,
+      accountNumber: String(account.uid ?? this.config.accountId ?? 'SPOT'),
+      serverName: this.config.testMode ? 'Binance Spot Testnet' : 'Binance Spot',
+    };
+  }
+
+  async getMarketData(symbol: string): Promise<MarketDataFeed> {
+    this.ensureConnected();
+
+    const binanceSymbol = this.toBinanceSymbol(symbol);
+    const [book, klines] = await Promise.all([
+      this.request<{ bidPrice: string; askPrice: string }>('GET', `${this.api}/ticker/bookTicker`, { symbol: binanceSymbol }),
+      this.request<(string | number)[][]>('GET', `${this.api}/klines`, { symbol: binanceSymbol, interval: '1m', limit: 1 }),
+    ]);
+    const kline = klines[0];
+    if (!kline) {
+      throw new Error(`No Binance market data for ${symbol}`);
+    }
+
+    const bid = parseFloat(book.bidPrice);
+    const ask = parseFloat(book.askPrice);
+    return {
+      symbol,
+      bid,
+      ask,
+      spread: ask - bid,
+      volume: parseFloat(String(kline[5])),
+      timestamp: new Date(Number(kline[0])),
+      open: parseFloat(String(kline[1])),
+      high: parseFloat(String(kline[2])),
+      low: parseFloat(String(kline[3])),
+      close: parseFloat(String(kline[4])),
+    };
+  }
+
+  // Quantity and prices are snapped to the symbol's LOT_SIZE and PRICE_FILTER; SL/TP go out once the entry fills
+  async placeOrder(order: OrderRequest): Promise<string> {
+    this.ensureConnected();
+
+    const symbol = this.toBinanceSymbol(order.symbol);
+    const filters = await this.getFilters(symbol);
+    const isMarket = order.type === 'BUY' || order.type === 'SELL';
+    const isStop = order.type.endsWith('STOP');
+    if (!isMarket && !(order.price && order.price > 0)) {
+      throw new Error(`Order rejected: ${order.type} requires a price`);
+    }
+
+    const quantity = this.roundQuantity(order.volume, filters);
+    const referencePrice = order.price || await this.getPrice(symbol);
+    this.checkFilters(symbol, quantity, referencePrice, filters);
+
+    const params: Record<string, string | number | boolean> = {
+      symbol,
+      side: order.type.startsWith('BUY') ? 'BUY' : 'SELL',
+      quantity: this.formatQuantity(quantity, filters),
+      newClientOrderId: `${ENTRY_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).substr(2, 6)}`,
+    };
+    if (isMarket) {
+      params.type = 'MARKET';
+    } else if (!isStop) {
+      Object.assign(params, { type: 'LIMIT', timeInForce: 'GTC', price: this.formatPrice(order.price!, filters) });
+    } else if (this.market === 'FUTURES') {
+      Object.assign(params, { type: 'STOP_MARKET', stopPrice: this.formatPrice(order.price!, filters) });
+    } else {
+      const price = this.formatPrice(order.price!, filters);
+      Object.assign(params, { type: 'STOP_LOSS_LIMIT', timeInForce: 'GTC', stopPrice: price, price });
+    }
+    if (this.market === 'SPOT') params.newOrderRespType = 'FULL';
+
+    const result = await this.request<BinanceOrder>('POST', `${this.api}/order`, params, true);
+    if ((result.status === 'REJECTED' || result.status === 'EXPIRED') && parseFloat(result.executedQty) === 0) {
+      throw new Error(`Binance ${result.status.toLowerCase()} order for ${order.symbol}`);
+    }
+
+    const ticket = `${symbol}-${result.orderId}`;
+    if (order.stopLoss || order.takeProfit) {
+      this.pendingExits.set(ticket, { stopLoss: order.stopLoss, takeProfit: order.takeProfit });
+      await this.savePendingExits();
+      if (result.status === 'FILLED') {
+        await this.placeExits(result, filters);
+      }
+    }
+    return ticket;
+  }
+
+  // Cancels a working entry, or cancels its exits and flattens the filled quantity at market
+  async closeOrder(ticket: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const { symbol, orderId } = this.parseTicket(ticket);
+    const orders = await this.getAllOrders(symbol);
+    const entry = orders.find(o => o.orderId === orderId);
+    if (!entry) return false;
+
+    const executed = parseFloat(entry.executedQty);
+    if (this.pendingExits.delete(ticket)) await this.savePendingExits();
+    if (WORKING_STATUSES.includes(entry.status)) {
+      await this.request('DELETE', `${this.api}/order`, { symbol, orderId }, true);
+    }
+    if (executed === 0) {
+      return WORKING_STATUSES.includes(entry.status);
+    }
+    if (this.getExitPrice(entry, orders) !== null) return false; // Already exited at Binance
+
+    await this.cancelExits(entry, orders);
+    const filters = await this.getFilters(symbol);
+    await this.request<BinanceOrder>('POST', `${this.api}/order`, {
+      symbol,
+      side: entry.side === 'BUY' ? 'SELL' : 'BUY',
+      type: 'MARKET',
+      quantity: this.formatQuantity(executed, filters),
+      newClientOrderId: `close-${entry.orderId}`,
+      ...(this.market === 'FUTURES' ? { reduceOnly: 'true' } : {}),
+    }, true);
+    return true;
+  }
+
+  // Working entries plus filled entries that have not exited yet
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const book = await this.loadOrderBook();
+    const open: BrokerOrder[] = [];
+    for (const { symbol, entries, orders } of book) {
+      const price = await this.getPrice(symbol);
+      entries
+        .filter(entry => WORKING_STATUSES.includes(entry.status) ||
+          (parseFloat(entry.executedQty) > 0 && this.getExitPrice(entry, orders) === null))
+        .forEach(entry => open.push(this.toBrokerOrder(entry, orders, price)));
+    }
+    return open;
+  }
+
+  async getOrderHistory(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const book = await this.loadOrderBook();
+    return book.flatMap(({ entries, orders }) => entries
+      .filter(entry => !WORKING_STATUSES.includes(entry.status))
+      .flatMap(entry => {
+        if (parseFloat(entry.executedQty) === 0) return [this.toBrokerOrder(entry, orders)];
+        const exitPrice = this.getExitPrice(entry, orders);
+        return exitPrice === null ? [] : [this.toBrokerOrder(entry, orders, exitPrice, true)];
+      }));
+  }
+
+  subscribeToMarketData(symbol: string, callback: (data: MarketDataFeed) => void): void {
+    const existing = this.subscriptions.get(symbol);
+    if (existing) clearInterval(existing);
+
+    const interval = setInterval(async () => {
+      try {
+        callback(await this.getMarketData(symbol));
+      } catch (error) {
+        console.error('Binance market data error:', error);
+      }
+    }, this.pollInterval);
+    this.subscriptions.set(symbol, interval);
+  }
+
+  // BTC/USD -> BTCUSDT; the reverse mapping is remembered for orders coming back from Binance
+  toBinanceSymbol(symbol: string): string {
+    const [base, quote = 'USD'] = symbol.toUpperCase().split('/');
+    const binanceSymbol = `${base}${QUOTE_ALIASES[quote] || quote}`;
+    if (!this.symbols.has(binanceSymbol)) {
+      this.symbols.set(binanceSymbol, symbol);
+    }
+    return binanceSymbol;
+  }
+
+  fromBinanceSymbol(binanceSymbol: string): string {
+    const known = this.symbols.get(binanceSymbol);
+    if (known) return known;
+    const filters = this.filters.get(binanceSymbol);
+    if (filters) {
+      const quote = Object.keys(QUOTE_ALIASES).find(alias => QUOTE_ALIASES[alias] === filters.quoteAsset) || filters.quoteAsset;
+      return `${filters.baseAsset}/${quote}`;
+    }
+    return binanceSymbol;
+  }
+
+  // Binance has no position-per-order model, so entries are rebuilt from the bot's own tagged orders
+  private async loadOrderBook(): Promise<{ symbol: string; entries: BinanceOrder[]; orders: BinanceOrder[] }[]> {
+    const book = [];
+    for (const symbol of Array.from(this.symbols.keys())) {
+      let orders = await this.getAllOrders(symbol);
+      if (await this.maintainExits(symbol, orders.filter(o => o.clientOrderId.startsWith(ENTRY_PREFIX)), orders)) {
+        orders = await this.getAllOrders(symbol); // Pick up the exits just placed or cancelled
+      }
+      const entries = orders.filter(o => o.clientOrderId.startsWith(ENTRY_PREFIX));
+      book.push({ symbol, entries, orders });
+    }
+    return book;
+  }
+
+  // Places exits for entries that filled since the last look, and emulates OCO on futures; true if orders changed
+  private async maintainExits(symbol: string, entries: BinanceOrder[], orders: BinanceOrder[]): Promise<boolean> {
+    let changed = false;
+    for (const entry of entries) {
+      const ticket = `${symbol}-${entry.orderId}`;
+      if (entry.status === 'FILLED' && this.pendingExits.has(ticket)) {
+        await this.placeExits(entry, await this.getFilters(symbol));
+        changed = true;
+      } else if (!WORKING_STATUSES.includes(entry.status) && parseFloat(entry.executedQty) === 0 && this.pendingExits.delete(ticket)) {
+        await this.savePendingExits(); // Cancelled or expired at Binance before filling
+      }
+      if (this.market === 'FUTURES' && this.getExitPrice(entry, orders) !== null) {
+        await this.cancelExits(entry, orders);
+      }
+    }
+    return changed;
+  }
+
+  // Spot uses a native OCO order list; futures get a reduce-only stop and take-profit pair
+  private async placeExits(entry: BinanceOrder, filters: SymbolFilters): Promise<void> {
+    const ticket = `${entry.symbol}-${entry.orderId}`;
+    const exits = this.pendingExits.get(ticket);
+    if (!exits) return;
+    this.pendingExits.delete(ticket);
+    await this.savePendingExits();
+
+    const side = entry.side === 'BUY' ? 'SELL' : 'BUY';
+    const quantity = this.formatQuantity(parseFloat(entry.executedQty), filters);
+    const symbol = entry.symbol;
+
+    if (this.market === 'FUTURES') {
+      const legs: [string, string, number | undefined][] = [['sl-', 'STOP_MARKET', exits.stopLoss], ['tp-', 'TAKE_PROFIT_MARKET', exits.takeProfit]];
+      for (const [prefix, type, price] of legs) {
+        if (!price) continue;
+        await this.request('POST', `${this.api}/order`, {
+          symbol, side, type, quantity, reduceOnly: 'true',
+          stopPrice: this.formatPrice(price, filters),
+          newClientOrderId: `${prefix}${entry.orderId}`,
+        }, true);
+      }
+      return;
+    }
+
+    const stopLimit = (stop: number) => this.formatPrice(side === 'SELL' ? stop * (1 - STOP_LIMIT_BAND) : stop * (1 + STOP_LIMIT_BAND), filters);
+    if (exits.stopLoss && exits.takeProfit) {
+      // Selling out of a long: take-profit above, stop below; buying back a short is the mirror image
+      const takeProfit = { type: 'LIMIT_MAKER', price: this.formatPrice(exits.takeProfit, filters), clientOrderId: `tp-${entry.orderId}` };
+      const stopLoss = {
+        type: 'STOP_LOSS_LIMIT',
+        price: stopLimit(exits.stopLoss),
+        stopPrice: this.formatPrice(exits.stopLoss, filters),
+        timeInForce: 'GTC',
+        clientOrderId: `sl-${entry.orderId}`,
+      };
+      const [above, below] = side === 'SELL' ? [takeProfit, stopLoss] : [stopLoss, takeProfit];
+      const params: Record<string, string> = { symbol, side, quantity, listClientOrderId: `oco-${entry.orderId}` };
+      Object.entries(above).forEach(([key, value]) => { params[`above${key[0].toUpperCase()}${key.slice(1)}`] = value; });
+      Object.entries(below).forEach(([key, value]) => { params[`below${key[0].toUpperCase()}${key.slice(1)}`] = value; });
+      await this.request('POST', `${this.api}/orderList/oco`, params, true);
+      return;
+    }
+
+    if (exits.takeProfit) {
+      await this.request('POST', `${this.api}/order`, {
+        symbol, side, quantity, type: 'LIMIT', timeInForce: 'GTC',
+        price: this.formatPrice(exits.takeProfit, filters),
+        newClientOrderId: `tp-${entry.orderId}`,
+      }, true);
+    } else if (exits.stopLoss) {
+      await this.request('POST', `${this.api}/order`, {
+        symbol, side, quantity, type: 'STOP_LOSS_LIMIT', timeInForce: 'GTC',
+        stopPrice: this.formatPrice(exits.stopLoss, filters),
+        price: stopLimit(exits.stopLoss),
+        newClientOrderId: `sl-${entry.orderId}`,
+      }, true);
+    }
+  }
+
+  private async cancelExits(entry: BinanceOrder, orders: BinanceOrder[]): Promise<void> {
+    const working = orders.filter(o => WORKING_STATUSES.includes(o.status) &&
+      (o.clientOrderId === `tp-${entry.orderId}` || o.clientOrderId === `sl-${entry.orderId}`));
+    if (working.length === 0) return;
+
+    if (this.market === 'SPOT' && working.length === 2) {
+      // Cancelling the list takes both OCO legs down together
+      await this.request('DELETE', `${this.api}/orderList`, { symbol: entry.symbol, listClientOrderId: `oco-${entry.orderId}` }, true);
+      return;
+    }
+    for (const order of working) {
+      await this.request('DELETE', `${this.api}/order`, { symbol: entry.symbol, orderId: order.orderId }, true);
+    }
+  }
+
+  // Average price of the filled exit (take-profit, stop-loss or close), or null while the entry is still held
+  private getExitPrice(entry: BinanceOrder, orders: BinanceOrder[]): number | null {
+    const exitIds = EXIT_PREFIXES.map(prefix => `${prefix}${entry.orderId}`);
+    const exit = orders.find(o => exitIds.includes(o.clientOrderId) && parseFloat(o.executedQty) > 0);
+    return exit ? this.getFillPrice(exit) : null;
+  }
+
+  private getFillPrice(order: BinanceOrder): number {
+    const executed = parseFloat(order.executedQty);
+    if (order.avgPrice && parseFloat(order.avgPrice) > 0) return parseFloat(order.avgPrice);
+    if (executed > 0 && order.cummulativeQuoteQty) return parseFloat(order.cummulativeQuoteQty) / executed;
+    return parseFloat(order.price) || parseFloat(order.stopPrice || '0');
+  }
+
+  private toBrokerOrder(entry: BinanceOrder, orders: BinanceOrder[], price?: number, closed = false): BrokerOrder {
+    const executed = parseFloat(entry.executedQty);
+    const openPrice = this.getFillPrice(entry);
+    const currentPrice = price ?? openPrice;
+    const direction = entry.side === 'BUY' ? 1 : -1;
+    const leg = (prefix: string) => orders.find(o => o.clientOrderId === `${prefix}${entry.orderId}`);
+    const stopLeg = leg('sl-');
+    const profitLeg = leg('tp-');
+    const pending = this.pendingExits.get(`${entry.symbol}-${entry.orderId}`);
+
+    let status: BrokerOrder['status'] = closed ? 'CLOSED' : executed > 0 ? 'OPEN' : 'PENDING';
+    if (!closed && executed === 0 && !WORKING_STATUSES.includes(entry.status)) {
+      status = entry.status === 'EXPIRED' ? 'EXPIRED' : 'CANCELLED';
+    }
+
+    return {
+      ticket: `${entry.symbol}-${entry.orderId}`,
+      symbol: this.fromBinanceSymbol(entry.symbol),
+      type: entry.side,
+      volume: parseFloat(entry.origQty),
+      filledVolume: executed,
+      openPrice,
+      currentPrice,
+      stopLoss: stopLeg ? parseFloat(stopLeg.stopPrice || stopLeg.price) : pending?.stopLoss,
+      takeProfit: profitLeg ? parseFloat(profitLeg.price) || parseFloat(profitLeg.stopPrice || '0') : pending?.takeProfit,
+      profit: (currentPrice - openPrice) * executed * direction,
+      commission: 0, // Reported per fill in trade history, not on the order
+      swap: 0,
+      comment: entry.clientOrderId,
+      openTime: new Date(entry.time ?? entry.transactTime ?? Date.now()),
+      closeTime: status !== 'OPEN' && status !== 'PENDING' && entry.updateTime ? new Date(entry.updateTime) : undefined,
+      status,
+    };
+  }
+
+  private async loadPendingExits(): Promise<void> {
+    if (!this.exitsPath) return;
+    try {
+      const saved: Record<string, PendingExits> = JSON.parse(await readFile(this.exitsPath, 'utf8'));
+      Object.entries(saved).forEach(([ticket, exits]) => {
+        if (!this.pendingExits.has(ticket)) this.pendingExits.set(ticket, exits);
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Writes are queued and go through a temp file, as with the bot state snapshot
+  private savePendingExits(): Promise<void> {
+    const path = this.exitsPath;
+    if (!path) return Promise.resolve();
+    const write = async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(Object.fromEntries(this.pendingExits)), 'utf8');
+      await rename(`${path}.tmp`, path);
+    };
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(write);
+    return this.pendingWrite;
+  }
+
+  private async getAllOrders(symbol: string): Promise<BinanceOrder[]> {
+    return this.request<BinanceOrder[]>('GET', `${this.api}/allOrders`, { symbol, limit: 500 }, true);
+  }
+
+  private async getPrice(symbol: string): Promise<number> {
+    const ticker = await this.request<{ price: string }>('GET', `${this.api}/ticker/price`, { symbol });
+    return parseFloat(ticker.price);
+  }
+
+  private async getFilters(symbol: string): Promise<SymbolFilters> {
+    const cached = this.filters.get(symbol);
+    if (cached) return cached;
+
+    const info = await this.request<{ symbols: { symbol: string; baseAsset: string; quoteAsset: string; filters: Record<string, string>[] }[] }>(
+      'GET', `${this.api}/exchangeInfo`, { symbol }
+    );
+    const entry = info.symbols.find(s => s.symbol === symbol);
+    if (!entry) {
+      throw new Error(`Unknown Binance symbol: ${symbol}`);
+    }
+
+    const filter = (type: string) => entry.filters.find(f => f.filterType === type) || {};
+    const lotSize = filter('LOT_SIZE');
+    const priceFilter = filter('PRICE_FILTER');
+    const notional = entry.filters.find(f => f.filterType === 'NOTIONAL' || f.filterType === 'MIN_NOTIONAL') || {};
+    const filters: SymbolFilters = {
+      baseAsset: entry.baseAsset,
+      quoteAsset: entry.quoteAsset,
+      stepSize: parseFloat(lotSize.stepSize || '0'),
+      minQty: parseFloat(lotSize.minQty || '0'),
+      tickSize: parseFloat(priceFilter.tickSize || '0'),
+      minNotional: parseFloat(notional.minNotional || notional.notional || '0'),
+    };
+    this.filters.set(symbol, filters);
+    return filters;
+  }
+
+  private roundQuantity(quantity: number, filters: SymbolFilters): number {
+    if (filters.stepSize <= 0) return quantity;
+    // Round down so the order never exceeds what was asked for; the epsilon absorbs float noise
+    return Math.floor(quantity / filters.stepSize + 1e-9) * filters.stepSize;
+  }
+
+  private checkFilters(symbol: string, quantity: number, price: number, filters: SymbolFilters): void {
+    if (quantity <= 0 || quantity < filters.minQty) {
+      throw new Error(`Order rejected: quantity ${quantity} below ${symbol} minimum ${filters.minQty}`);
+    }
+    if (quantity * price < filters.minNotional) {
+      throw new Error(`Order rejected: notional ${(quantity * price).toFixed(2)} below ${symbol} minimum ${filters.minNotional}`);
+    }
+  }
+
+  private formatQuantity(quantity: number, filters: SymbolFilters): string {
+    return this.roundQuantity(quantity, filters).toFixed(this.decimals(filters.stepSize));
+  }
+
+  private formatPrice(price: number, filters: SymbolFilters): string {
+    if (filters.tickSize <= 0) return price.toString();
+    return (Math.round(price / filters.tickSize) * filters.tickSize).toFixed(this.decimals(filters.tickSize));
+  }
+
+  private decimals(step: number): number {
+    if (step <= 0 || step >= 1) return 0;
+    return Math.max(0, Math.round(-Math.log10(step)));
+  }
+
+  private parseTicket(ticket: string): { symbol: string; orderId: number } {
+    const separator = ticket.lastIndexOf('-');
+    if (separator <= 0) {
+      throw new Error(`Invalid Binance ticket: ${ticket}`);
+    }
+    return { symbol: ticket.slice(0, separator), orderId: parseInt(ticket.slice(separator + 1)) };
+  }
+
+  private get api(): string {
+    return ENDPOINTS[this.market].api;
+  }
+
+  // Signed requests carry a timestamp and an HMAC-SHA256 of the query string keyed with the secret
+  private async request<T = unknown>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    params: Record<string, string | number | boolean> = {},
+    signed = false
+  ): Promise<T> {
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+    if (signed) {
+      query.set('recvWindow', String(this.recvWindow));
+      query.set('timestamp', String(Date.now() + this.timeOffset));
+      query.set('signature', createHmac('sha256', this.config.secretKey || '').update(query.toString()).digest('hex'));
+    }
+
+    const queryString = query.toString();
+    const response = await fetch(`${this.baseUrl}${path}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: { 'X-MBX-APIKEY': this.config.apiKey },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(`Binance ${method} ${path} failed: ${error.msg || response.statusText} (${error.code ?? response.status})`);
+    }
+    return response.json();
+  }
+
+  private ensureConnected(): void {
+    if (!this.isConnected) {
+      throw new Error('Not connected to Binance');
+    }
+  }
+}
@@ -0,0 +1,174 @@
+// Bot Action Log
+//
+// Turns bot events into the human-readable entries shown in the dashboard's action log.
+// Notifications reuse the same wording.
+
+import { BotAction, BotConfig } from '@/types/trading';
+import { BotEvent, BotEventListener, PositionSource } from './bot-events';
+
+export type ActionLogEntry = Omit<BotAction, 'timestamp'>;
+
+const SOURCE_LABELS: Record<PositionSource, string> = {
+  STRATEGY: 'Smart',
+  MANUAL: 'Manual',
+  BROKER: 'Broker',
+};
+
+const entry = (type: BotAction['type'], details: string, success: boolean = true): ActionLogEntry => ({ type, details, success });
+
+// Null for events that are state updates rather than something to log (ticks, analysis, status, checkpoints)
+export function describeBotEvent(event: BotEvent): ActionLogEntry | null {
+  switch (event.type) {
+    case 'bot.started':
+      return entry('START', event.resumed ? 'Trading loop resumed after restart' : 'Enhanced AI trading bot started successfully');
+    case 'bot.start_failed':
+      return entry('START', `Cannot start: ${event.reason}`, false);
+    case 'bot.stopped':
+      return entry('STOP', `Enhanced trading bot stopped (${event.reason})`);
+    case 'bot.reset':
+      return entry('RESET', 'Enhanced trading bot reset to initial state');
+    case 'state.restored':
+      return entry(
+        'RESTORE',
+        `Restored state saved at ${new Date(event.savedAt).toISOString()}: ` +
+        `${event.openPositions} open position(s), ${event.openTickets} broker ticket(s)`
+      );
+    case 'watchlist.changed':
+      return entry('UPDATE', `Watchlist set to ${event.watchlist.join(', ')}`);
+    case 'strategy.changed':
+      return entry('UPDATE', `Strategy switched to ${event.name}`);
+    case 'config.changed':
+      return entry(
+        'UPDATE',
+        `Config v${event.version} by ${event.changedBy}: ` + Object.entries(event.previous)
+          .map(([key, value]) => `${key} ${value} → ${event.config[key as keyof BotConfig]}`)
+          .join(', ')
+      );
+    case 'config.profile_saved':
+      return entry('UPDATE', `Config profile "${event.name}" saved by ${event.changedBy}`);
+    case 'config.profile_deleted':
+      return entry('UPDATE', `Config profile "${event.name}" deleted by ${event.changedBy}`);
+    case 'config.profile_applied':
+      return entry('UPDATE', `Config profile "${event.name}" applied by ${event.changedBy} (v${event.version})`);
+    case 'target.reached':
+      return entry('TARGET_REACHED', `Target profit of ${event.targetProfit} reached!`);
+    case 'daily_loss.tripped': {
+      const { ledger } = event;
+      return entry(
+        'CIRCUIT_BREAKER',
+        `Daily loss limit hit: P&L $${(ledger.realizedPnL + ledger.unrealizedPnL).toFixed(2)} ` +
+        `exceeds -$${ledger.limit.toFixed(2)}. New entries halted until ${new Date(ledger.sessionEnd).toISOString()}`,
+        false
+      );
+    }
+    case 'daily_loss.overridden':
+      return entry('CIRCUIT_BREAKER', 'Daily loss breaker overridden for the rest of the trading day');
+    case 'daily_loss.reset':
+      return entry('CIRCUIT_BREAKER', 'New trading day - daily loss breaker reset');
+
+    case 'order.updated': {
+      const { order, previous, reason } = event;
+      const change = previous ? `${previous} → ${order.status}` : order.status;
+      return entry(
+        'ORDER_UPDATE',
+        `Order ${order.side} ${order.quantity} ${order.symbol}: ${change}${reason ? ` (${reason})` : ''}`,
+        order.status !== 'REJECTED'
+      );
+    }
+    case 'order.rejected':
+      return entry('OPEN_POSITION', `${SOURCE_LABELS[event.source]} ${event.symbol} ${event.side} order rejected: ${event.reason}`, false);
+    case 'position.pending': {
+      const { position } = event;
+      return entry('OPEN_POSITION', `${SOURCE_LABELS[event.source]} ${position.symbol} ${position.type} order accepted, awaiting fill`);
+    }
+    case 'position.opened': {
+      const { position } = event;
+      if (event.source === 'BROKER') {
+        return entry(
+          'OPEN_POSITION',
+          `Adopted ${position.symbol} ${position.type} position opened outside the bot. Ticket: ${position.brokerTicket}`
+        );
+      }
+      return entry(
+        'OPEN_POSITION',
+        `${SOURCE_LABELS[event.source]} ${position.symbol} ${position.type} position opened: Entry ${position.entryPrice.toFixed(2)}, ` +
+        `SL ${position.stopLoss.toFixed(2)}, TP ${position.takeProfit.toFixed(2)}${event.detail ? ` (${event.detail})` : ''}`
+      );
+    }
+    case 'position.resized': {
+      const { position, previous, trade } = event;
+      if (trade) {
+        return entry(
+          'CLOSE_POSITION',
+          `Partially closed ${trade.quantity} of ${position.symbol} ${position.type} position. P&L: $${trade.profit.toFixed(2)}`
+        );
+      }
+      return entry('UPDATE', `${position.symbol} ${position.type} size ${previous} → ${position.quantity} (${event.reason})`);
+    }
+    case 'sl.updated':
+      return entry(
+        'UPDATE_SL',
+        `Stop loss for ${event.position.symbol} ${event.position.type}: ` +
+        `${event.previous.toFixed(2)} → ${event.position.stopLoss.toFixed(2)} (${event.reason})`
+      );
+    case 'tp.updated':
+      return entry(
+        'UPDATE_TP',
+        `Take profit for ${event.position.symbol} ${event.position.type}: ` +
+        `${event.previous.toFixed(2)} → ${event.position.takeProfit.toFixed(2)} (${event.reason})`
+      );
+    case 'position.closed': {
+      const { position, trade } = event;
+      return entry(
+        'CLOSE_POSITION',
+        `Closed ${position.symbol} ${position.type} position. P&L: $${trade.profit.toFixed(2)} (Reason: ${event.reason})`
+      );
+    }
+    case 'position.cancelled':
+      return entry('CLOSE_POSITION', `Cancelled pending ${event.position.symbol} ${event.position.type} entry (Reason: ${event.reason})`);
+
+    case 'broker.connected':
+      return entry('BROKER_CONNECTED', `Connected to ${event.name} - Balance: $${event.balance}`);
+    case 'broker.connect_failed':
+      return entry('BROKER_ERROR', `Failed to connect to ${event.name}${event.error ? `: ${event.error}` : ''}`, false);
+    case 'broker.disconnected':
+      return entry('BROKER_ERROR', `Broker ${event.brokerId} unreachable, trading paused: ${event.error}`, false);
+    case 'broker.reconnect_failed':
+      return entry(
+        'BROKER_ERROR',
+        `Reconnect attempt ${event.attempt} to ${event.brokerId} failed; retrying at ${new Date(event.nextAttemptAt).toISOString()}`,
+        false
+      );
+    case 'broker.reconnected':
+      return entry('BROKER_CONNECTED', `Reconnected to ${event.brokerId} after ${event.attempts} attempt(s), trading resumed`);
+    case 'broker.failed_over':
+      return entry(
+        'BROKER_CONNECTED',
+        `Failed over from ${event.from} to ${event.to}, trading resumed; positions opened on ${event.from} must be managed there`
+      );
+    case 'broker.order_closed':
+      return entry(
+        'BROKER_CLOSE',
+        event.quantity === undefined ? `Broker order closed. Ticket: ${event.ticket}` : `Broker closed ${event.quantity} of ticket ${event.ticket}`
+      );
+    case 'broker.error':
+      return entry('BROKER_ERROR', `Failed to ${event.operation}: ${event.error}`, false);
+
+    case 'cycle.error':
+      return entry('UPDATE', `Smart trading cycle error${event.symbol ? ` for ${event.symbol}` : ''}: ${event.error}`, false);
+    case 'bot.log':
+      return entry(event.action, event.message, event.success);
+    default:
+      return null;
+  }
+}
+
+// Records a log entry for every event that describes one
+export function createActionLogSubscriber(record: (action: BotAction) => void): BotEventListener {
+  return (event) => {
+    const described = describeBotEvent(event);
+    if (described) {
+      record({ ...described, timestamp: event.timestamp });
+    }
+  };
+}
@@ -0,0 +1,111 @@
+// Bot Configuration Schema
+//
+// Validates runtime changes to BotConfig. The config API and the dashboard settings form share it,
+// so both report the same message for the same field.
+
+import { z } from 'zod';
+import { BotConfig } from '@/types/trading';
+import { parseTradingDayStart } from './daily-loss-guard';
+import { getZoneOffset } from './timezone';
+
+export const DEFAULT_BOT_CONFIG: BotConfig = {
+  initialCapital: 50,
+  targetProfit: 100,
+  maxRiskPerTrade: 0.01, // Ultra-conservative 1% risk per trade
+  maxDailyLoss: 0.05, // Ultra-safe 5% max daily loss
+  riskRewardRatio: 3.0, // Enhanced 3:1 risk-reward ratio
+  maxOpenPositions: 3,
+  maxPositionsPerSymbol: 1,
+  maxPortfolioRisk: 0.03, // At most 3% of the balance at risk across all open positions
+  tradingDayStart: '00:00',
+  tradingDayTimezone: 'UTC',
+  flattenOnDailyLoss: true,
+  minConfidence: 85, // Strategy signals below 85% confidence are ignored
+  minProbability: 0.8,
+  maxDrawdown: 0.1, // Max 10% drawdown
+};
+
+const number = () => z.number({ required_error: 'Required', invalid_type_error: 'Must be a number' });
+const fraction = (max: number) => number().gt(0, 'Must be greater than 0').max(max, `Must be at most ${max}`);
+const count = () => number().int('Must be a whole number').min(1, 'Must be at least 1');
+
+const isValid = (check: () => unknown) => {
+  try {
+    check();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const botConfigShape = z.object({
+  initialCapital: number().gt(0, 'Must be greater than 0'),
+  targetProfit: number().gt(0, 'Must be greater than 0'),
+  maxRiskPerTrade: fraction(0.1),
+  maxDailyLoss: fraction(0.5),
+  riskRewardRatio: number().min(0.5, 'Must be at least 0.5').max(20, 'Must be at most 20'),
+  maxOpenPositions: count().max(50, 'Must be at most 50'),
+  maxPositionsPerSymbol: count(),
+  maxPortfolioRisk: fraction(0.5),
+  tradingDayStart: z.string().refine(value => isValid(() => parseTradingDayStart(value)), 'Must be a time as HH:mm'),
+  tradingDayTimezone: z.string().refine(
+    value => isValid(() => getZoneOffset(Date.now(), value)),
+    "Must be 'UTC', an offset like '-05:00' or an IANA zone"
+  ),
+  flattenOnDailyLoss: z.boolean({ invalid_type_error: 'Must be true or false' }),
+  minConfidence: number().min(0, 'Must be at least 0').max(100, 'Must be at most 100'),
+  minProbability: number().min(0, 'Must be at least 0').max(1, 'Must be at most 1'),
+  maxDrawdown: fraction(1),
+}).strict();
+
+// Rules between fields only hold for a complete config
+export const botConfigSchema = botConfigShape.superRefine((config, context) => {
+  if (config.maxPositionsPerSymbol > config.maxOpenPositions) {
+    context.addIssue({ code: 'custom', path: ['maxPositionsPerSymbol'], message: 'Must not exceed max open positions' });
+  }
+  if (config.maxRiskPerTrade > config.maxPortfolioRisk) {
+    context.addIssue({ code: 'custom', path: ['maxRiskPerTrade'], message: 'Must not exceed max portfolio risk' });
+  }
+});
+
+export const botConfigUpdateSchema = botConfigShape.partial();
+
+export type BotConfigErrors = z.typeToFlattenedError<Partial<BotConfig>>;
+
+export type BotConfigValidation =
+  | { success: true; changes: Partial<BotConfig> }
+  | { success: false; errors: BotConfigErrors };
+
+// Checks a partial update on its own and then merged into the current config; changes holds only keys whose value differs
+export function validateBotConfigUpdate(current: BotConfig, update: unknown): BotConfigValidation {
+  const parsed = botConfigUpdateSchema.safeParse(update);
+  if (!parsed.success) {
+    return { success: false, errors: parsed.error.flatten() };
+  }
+
+  const merged = botConfigSchema.safeParse({ ...current, ...parsed.data });
+  if (!merged.success) {
+    return { success: false, errors: merged.error.flatten() };
+  }
+
+  const changes: Partial<BotConfig> = {};
+  (Object.keys(parsed.data) as (keyof BotConfig)[])
+    .filter(key => parsed.data[key] !== current[key])
+    .forEach(key => Object.assign(changes, { [key]: parsed.data[key] }));
+  return { success: true, changes };
+}
+
+// One line per failing field, for logs and plain error messages
+export function formatBotConfigErrors(errors: BotConfigErrors): string {
+  return [
+    ...errors.formErrors,
+    ...Object.entries(errors.fieldErrors).map(([field, messages]) => `${field}: ${(messages as string[]).join(', ')}`),
+  ].join('; ');
+}
+
+// Config API callers name themselves in this header; there is no server-side login to take it from
+export const CHANGED_BY_HEADER = 'x-changed-by';
+
+export function getChangedBy(headers: Headers): string {
+  return headers.get(CHANGED_BY_HEADER)?.trim().slice(0, 64) || 'api';
+}
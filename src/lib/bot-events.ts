@@ -0,0 +1,228 @@
+// Bot Event Bus
+//
+// The bot announces everything it does as typed events and leaves the side effects to
+// subscribers: the action log, state persistence, the SSE stream and notifications.
+// Recent events are buffered so a reconnecting stream client can resume from its last
+// event id instead of reloading the full state.
+
+import {
+  BotAction, BotConfig, BotState, BotStatus, DailyLossLedger, ManagedOrder, MarketAnalysis, MarketData, OrderStatus, Position,
+  RiskMetrics, TechnicalIndicators, Trade,
+} from '@/types/trading';
+import { Clock, systemClock } from './clock';
+import type { ExitTrigger } from './trade-journal';
+
+export type PositionSource = 'STRATEGY' | 'MANUAL' | 'BROKER';
+
+export interface BotEventMap {
+  // Lifecycle
+  'bot.started': { resumed: boolean }; // resumed: the loop restarted after a process restart
+  'bot.start_failed': { reason: string };
+  'bot.stopped': { reason: string };
+  'bot.reset': Record<string, never>;
+  'state.restored': { savedAt: Date; openPositions: number; openTickets: number };
+  'state.committed': Record<string, never>; // Checkpoint after a batch of changes
+  'status.changed': { status: BotStatus; dailyLoss?: DailyLossLedger };
+  'watchlist.changed': { watchlist: string[] };
+  'strategy.changed': { strategyId: string; name: string };
+  'config.changed': { config: BotConfig; previous: Partial<BotConfig>; version: number; changedBy: string }; // previous holds only the changed keys
+  'config.profile_saved': { name: string; changedBy: string };
+  'config.profile_deleted': { name: string; changedBy: string };
+  'config.profile_applied': { name: string; version: number; changedBy: string };
+  'target.reached': { targetProfit: number; totalProfit: number };
+  'daily_loss.tripped': { ledger: DailyLossLedger };
+  'daily_loss.overridden': Record<string, never>;
+  'daily_loss.reset': Record<string, never>;
+
+  // Market data and analysis
+  'market.tick': { marketData: MarketData };
+  'analysis.updated': { symbol: string; analysis: MarketAnalysis; indicators: TechnicalIndicators; riskMetrics: RiskMetrics };
+
+  // Orders and positions; positions are copies taken when the event was raised
+  'order.updated': { order: ManagedOrder; previous?: OrderStatus; reason?: string };
+  'order.rejected': { symbol: string; side: Position['type']; source: PositionSource; reason: string };
+  'position.pending': { position: Position; source: PositionSource; detail?: string };
+  'position.opened': { position: Position; source: PositionSource; detail?: string };
+  'position.resized': { position: Position; previous: number; reason: string; trade?: Trade };
+  'sl.updated': { position: Position; previous: number; reason: string };
+  'tp.updated': { position: Position; previous: number; reason: string };
+  'position.closed': { position: Position; trade: Trade; trigger: ExitTrigger; reason: string };
+  'position.cancelled': { position: Position; reason: string };
+
+  // Broker
+  'broker.connected': { name: string; balance: number };
+  'broker.connect_failed': { name: string; error?: string };
+  'broker.disconnected': { brokerId: string; error: string };
+  'broker.reconnect_failed': { brokerId: string; attempt: number; nextAttemptAt: Date };
+  'broker.reconnected': { brokerId: string; attempts: number };
+  'broker.failed_over': { from: string; to: string };
+  'broker.order_closed': { ticket: string; quantity?: number };
+  'broker.error': { operation: string; error: string };
+
+  'cycle.error': { symbol?: string; error: string };
+
+  // Free-form action log entries, and every entry once the action log has recorded it
+  'bot.log': { action: BotAction['type']; message: string; success: boolean };
+  'action.logged': { action: BotAction };
+}
+
+export type BotEventType = keyof BotEventMap;
+
+export type BotEvent<K extends BotEventType = BotEventType> = K extends BotEventType
+  ? { type: K; id: string; timestamp: Date } & BotEventMap[K]
+  : never;
+
+export type BotEventListener<K extends BotEventType = BotEventType> = (event: BotEvent<K>) => void;
+
+// Events after which a client's copy of the state can no longer be patched and must be reloaded
+export const STATE_REPLACING_EVENTS: BotEventType[] = ['bot.reset', 'watchlist.changed'];
+
+// Events applyBotEvent folds into a client's copy of the state; the rest stay on the server
+export const CLIENT_STATE_EVENTS: BotEventType[] = [
+  'market.tick', 'analysis.updated', 'order.updated', 'action.logged', 'status.changed', 'config.changed',
+  'position.pending', 'position.opened', 'position.resized', 'sl.updated', 'tp.updated', 'position.closed', 'position.cancelled',
+];
+
+export interface BotEventBusOptions {
+  clock?: Clock;
+  bufferSize?: number; // Events kept for resuming clients
+}
+
+export class BotEventBus {
+  private clock: Clock;
+  private listeners: Set<BotEventListener> = new Set();
+  private buffer: BotEvent[] = [];
+  private bufferSize: number;
+  private sequence = 0;
+  // Ids from before a server restart must not resume against the new sequence
+  private epoch = Date.now().toString(36);
+  private queue: BotEvent[] = [];
+  private dispatching = false;
+
+  constructor(options: BotEventBusOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.bufferSize = options.bufferSize ?? 500;
+  }
+
+  // Events raised by a subscriber are delivered after the current one, so every listener sees ids in order
+  emit<K extends BotEventType>(type: K, data: BotEventMap[K]): BotEvent<K> {
+    const event = { ...data, type, id: `${this.epoch}-${++this.sequence}`, timestamp: this.clock.now() } as BotEvent<K>;
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    this.queue.push(event);
+    if (!this.dispatching) {
+      this.dispatching = true;
+      try {
+        for (let next = this.queue.shift(); next; next = this.queue.shift()) {
+          this.dispatch(next);
+        }
+      } finally {
+        this.dispatching = false;
+      }
+    }
+    return event;
+  }
+
+  subscribe(listener: BotEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  on<K extends BotEventType>(type: K, listener: BotEventListener<K>): () => void {
+    return this.subscribe(event => {
+      if (event.type === type) listener(event as BotEvent<K>);
+    });
+  }
+
+  // Id of the newest event, or null before anything was emitted
+  getLastEventId(): string | null {
+    return this.sequence > 0 ? `${this.epoch}-${this.sequence}` : null;
+  }
+
+  // Events after lastEventId, or null when they are no longer buffered and the client must resync
+  getEventsSince(lastEventId: string): BotEvent[] | null {
+    const [epoch, rawSequence] = lastEventId.split('-');
+    const sequence = Number(rawSequence);
+    if (epoch !== this.epoch || !Number.isInteger(sequence) || sequence > this.sequence) return null;
+
+    const oldest = this.buffer.length > 0 ? this.sequence - this.buffer.length + 1 : this.sequence + 1;
+    if (sequence < oldest - 1) return null;
+    return this.buffer.slice(sequence - oldest + 1);
+  }
+
+  private dispatch(event: BotEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Bot event listener failed on ${event.type}:`, error);
+      }
+    });
+  }
+}
+
+// Folds an event into a copy of a client-side state (the status payload), mirroring what the bot did
+export function applyBotEvent<T extends BotState>(state: T, event: BotEvent): T {
+  const isPrimary = (symbol: string) => symbol === state.watchlist[0];
+  const upsertPosition = (position: Position): Position[] => (
+    state.positions.some(p => p.id === position.id)
+      ? state.positions.map(p => (p.id === position.id ? position : p))
+      : [...state.positions, position]
+  );
+
+  switch (event.type) {
+    case 'market.tick': {
+      const { symbol } = event.marketData;
+      const symbolState = state.symbols[symbol];
+      if (!symbolState) return state;
+      return {
+        ...state,
+        symbols: { ...state.symbols, [symbol]: { ...symbolState, marketData: event.marketData } },
+        marketData: isPrimary(symbol) ? event.marketData : state.marketData,
+      };
+    }
+    case 'analysis.updated': {
+      const symbolState = state.symbols[event.symbol];
+      if (!symbolState) return state;
+      const { analysis, indicators, riskMetrics } = event;
+      return {
+        ...state,
+        symbols: { ...state.symbols, [event.symbol]: { ...symbolState, analysis, indicators, riskMetrics } },
+        ...(isPrimary(event.symbol) ? { analysis, indicators, riskMetrics } : {}),
+      };
+    }
+    case 'position.pending':
+    case 'position.opened':
+    case 'sl.updated':
+    case 'tp.updated':
+      return { ...state, positions: upsertPosition(event.position) };
+    case 'position.resized':
+    case 'position.closed':
+      return {
+        ...state,
+        positions: upsertPosition(event.position),
+        trades: event.trade ? [...state.trades, event.trade].slice(-10) : state.trades,
+      };
+    case 'position.cancelled':
+      // A pending entry that is cancelled or rolled back never became a position
+      return { ...state, positions: state.positions.filter(p => p.id !== event.position.id) };
+    case 'order.updated':
+      return {
+        ...state,
+        orders: [...state.orders.filter(o => o.id !== event.order.id), event.order].slice(-20),
+      };
+    case 'action.logged':
+      return { ...state, actions: [event.action, ...state.actions].slice(0, 10) };
+    case 'status.changed':
+      return { ...state, status: event.status, dailyLoss: event.dailyLoss };
+    case 'config.changed':
+      return { ...state, config: event.config };
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,77 @@
+// Bot Notifications (webhook)
+//
+// Posts selected bot events to a webhook as `{ text, event, timestamp, data }`. `text` is the
+// action log wording, so Slack- and Discord-style incoming webhooks render it as is.
+
+import { describeBotEvent } from './bot-action-log';
+import { BotEvent, BotEventListener, BotEventType } from './bot-events';
+
+export const DEFAULT_NOTIFY_EVENTS: BotEventType[] = [
+  'bot.stopped',
+  'target.reached',
+  'daily_loss.tripped',
+  'position.opened',
+  'position.closed',
+  'order.rejected',
+  'broker.disconnected',
+  'broker.reconnected',
+  'broker.failed_over',
+  'cycle.error',
+];
+
+export interface WebhookNotifierOptions {
+  url: string;
+  events?: BotEventType[]; // Defaults to DEFAULT_NOTIFY_EVENTS
+  fetch?: typeof fetch;
+}
+
+export class WebhookNotifier {
+  private url: string;
+  private events: Set<BotEventType>;
+  private fetch: typeof fetch;
+
+  constructor(options: WebhookNotifierOptions) {
+    this.url = options.url;
+    this.events = new Set(options.events ?? DEFAULT_NOTIFY_EVENTS);
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  // Delivery is fire-and-forget; a failing webhook is logged and never reaches the bot
+  readonly listener: BotEventListener = (event) => {
+    if (!this.events.has(event.type)) return;
+    this.send(event).catch(error => console.error(`Failed to deliver ${event.type} notification:`, error));
+  };
+
+  private async send(event: BotEvent): Promise<void> {
+    const { type, timestamp } = event;
+    const data: Record<string, unknown> = { ...event };
+    delete data.id;
+    delete data.type;
+    delete data.timestamp;
+    const response = await this.fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: describeBotEvent(event)?.details ?? type,
+        event: type,
+        timestamp,
+        data,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+// BOT_NOTIFY_WEBHOOK_URL enables notifications; BOT_NOTIFY_EVENTS overrides the events sent (comma separated)
+export function createNotifierFromEnv(env: NodeJS.ProcessEnv = process.env): WebhookNotifier | undefined {
+  if (!env.BOT_NOTIFY_WEBHOOK_URL) return undefined;
+
+  // Unknown event names are kept; they simply never match
+  const events = env.BOT_NOTIFY_EVENTS
+    ?.split(',')
+    .map(type => type.trim())
+    .filter(type => type !== '') as BotEventType[] | undefined;
+  return new WebhookNotifier({ url: env.BOT_NOTIFY_WEBHOOK_URL, events: events?.length ? events : undefined });
+}
@@ -0,0 +1,38 @@
+// Bot Status Payload
+//
+// The dashboard's view of the bot, served by /api/bot/status and sent as the
+// snapshot that opens every /api/bot/stream connection.
+
+import { EnhancedTradingBot, enhancedTradingBot } from './enhanced-trading-bot';
+
+export async function getBotStatusPayload(bot: EnhancedTradingBot = enhancedTradingBot) {
+  await bot.whenReady();
+  const state = bot.getState();
+  const brokerConnected = bot.getBrokerConnection();
+  const accountInfo = brokerConnected ? await bot.getBrokerAccountInfo() : null;
+
+  return {
+    status: state.status,
+    positions: state.positions,
+    orders: state.orders.slice(-20), // Last 20 orders
+    trades: state.trades.slice(-10), // Last 10 trades
+    marketData: state.marketData,
+    analysis: state.analysis,
+    indicators: state.indicators,
+    riskMetrics: state.riskMetrics,
+    watchlist: state.watchlist,
+    symbols: state.symbols,
+    dailyLoss: state.dailyLoss,
+    actions: state.actions.slice(0, 10), // Last 10 actions
+    config: state.config, // Add config to response
+    brokerConnected,
+    brokerHealth: bot.getBrokerHealth(),
+    paperTrading: bot.isPaperTrading(),
+    accountInfo,
+    simulation: bot.getSimulationInfo(),
+    strategy: bot.getStrategy(),
+    lastEventId: bot.getEventBus().getLastEventId(), // Stream events after this one are not reflected yet
+  };
+}
+
+export type BotStatusPayload = Awaited<ReturnType<typeof getBotStatusPayload>>;
@@ -0,0 +1,188 @@
+// Broker Connection Health Monitor
+
+import { BrokerConnection } from '@/types/broker';
+import { BrokerManager } from './broker-integration';
+import { Clock, systemClock } from './clock';
+
+export type BrokerHealthStatus = 'HEALTHY' | 'RECONNECTING';
+
+export interface BrokerHealth {
+  brokerId: string | null;
+  status: BrokerHealthStatus;
+  connection: BrokerConnection | null;
+  consecutiveFailures: number;
+  reconnectAttempts: number;
+  nextReconnectAt?: Date;
+  failedOverFrom?: string; // Set once trading has moved to the failover broker
+  lastError?: string;
+}
+
+export type BrokerHealthEvent =
+  | { type: 'DISCONNECTED'; brokerId: string; error: string }
+  | { type: 'RECONNECT_FAILED'; brokerId: string; attempt: number; nextAttemptAt: Date }
+  | { type: 'RECONNECTED'; brokerId: string; attempts: number }
+  | { type: 'FAILED_OVER'; from: string; to: string };
+
+export interface BrokerHealthMonitorOptions {
+  clock?: Clock;
+  heartbeatInterval?: number; // Time between pings while healthy
+  failureThreshold?: number; // Consecutive failed pings or broker calls before the broker counts as down
+  initialBackoff?: number; // First reconnect delay; doubles on every failed attempt
+  maxBackoff?: number;
+  failoverAfter?: number; // Failed reconnect attempts before switching to the failover broker
+  failoverBrokerId?: string;
+  onEvent?: (event: BrokerHealthEvent) => void;
+}
+
+// Driven from the trading cycle rather than its own timer, so it follows the bot's clock
+export class BrokerHealthMonitor {
+  private manager: BrokerManager;
+  private clock: Clock;
+  private options: Required<Omit<BrokerHealthMonitorOptions, 'clock' | 'failoverBrokerId' | 'onEvent'>>;
+  private failoverBrokerId?: string;
+  private onEvent?: (event: BrokerHealthEvent) => void;
+  private brokerId: string | null = null;
+  private status: BrokerHealthStatus = 'HEALTHY';
+  private consecutiveFailures = 0;
+  private reconnectAttempts = 0;
+  private lastHeartbeat = -Infinity;
+  private nextReconnectAt = 0;
+  private failedOverFrom?: string;
+  private lastError?: string;
+
+  constructor(manager: BrokerManager, options: BrokerHealthMonitorOptions = {}) {
+    this.manager = manager;
+    this.clock = options.clock || systemClock;
+    this.options = {
+      heartbeatInterval: options.heartbeatInterval ?? 15000,
+      failureThreshold: options.failureThreshold ?? 2,
+      initialBackoff: options.initialBackoff ?? 1000,
+      maxBackoff: options.maxBackoff ?? 60000,
+      failoverAfter: options.failoverAfter ?? 3,
+    };
+    this.failoverBrokerId = options.failoverBrokerId;
+    this.onEvent = options.onEvent;
+  }
+
+  setFailoverBroker(brokerId?: string): void {
+    this.failoverBrokerId = brokerId;
+  }
+
+  // Forgets failures and failover history, e.g. after a broker was configured by hand
+  reset(): void {
+    this.brokerId = this.manager.getActiveBrokerId();
+    this.status = 'HEALTHY';
+    this.consecutiveFailures = 0;
+    this.reconnectAttempts = 0;
+    this.lastHeartbeat = -Infinity;
+    this.failedOverFrom = undefined;
+    this.lastError = undefined;
+  }
+
+  isHealthy(): boolean {
+    return this.status === 'HEALTHY';
+  }
+
+  getHealth(): BrokerHealth {
+    return {
+      brokerId: this.brokerId,
+      status: this.status,
+      connection: this.manager.getConnection(this.brokerId),
+      consecutiveFailures: this.consecutiveFailures,
+      reconnectAttempts: this.reconnectAttempts,
+      nextReconnectAt: this.status === 'RECONNECTING' ? new Date(this.nextReconnectAt) : undefined,
+      failedOverFrom: this.failedOverFrom,
+      lastError: this.lastError,
+    };
+  }
+
+  // Pings when a heartbeat is due (or a failure is pending confirmation) and reconnects when down; true while healthy
+  async check(): Promise<boolean> {
+    const now = this.clock.now().getTime();
+
+    if (this.status === 'RECONNECTING') {
+      return now >= this.nextReconnectAt ? this.attemptReconnect(now) : false;
+    }
+
+    const activeId = this.manager.getActiveBrokerId();
+    if (!activeId) return true; // Nothing to monitor
+    this.brokerId = activeId;
+
+    if (this.consecutiveFailures === 0 && now - this.lastHeartbeat < this.options.heartbeatInterval) {
+      return true;
+    }
+
+    this.lastHeartbeat = now;
+    try {
+      await this.manager.pingActiveBroker();
+      this.consecutiveFailures = 0;
+      return true;
+    } catch (error) {
+      this.recordFailure(error, now);
+      return this.isHealthy();
+    }
+  }
+
+  // Broker calls made while trading count towards the failure threshold
+  reportFailure(error: unknown): void {
+    if (this.status !== 'HEALTHY' || !this.manager.getActiveBrokerId()) return;
+    this.brokerId = this.manager.getActiveBrokerId();
+    this.recordFailure(error, this.clock.now().getTime());
+  }
+
+  private recordFailure(error: unknown, now: number): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.consecutiveFailures < this.options.failureThreshold) return;
+
+    this.status = 'RECONNECTING';
+    this.reconnectAttempts = 0;
+    this.nextReconnectAt = now;
+    this.onEvent?.({ type: 'DISCONNECTED', brokerId: this.brokerId!, error: this.lastError });
+  }
+
+  private async attemptReconnect(now: number): Promise<boolean> {
+    const brokerId = this.brokerId!;
+    this.reconnectAttempts++;
+
+    if (await this.tryConnect(brokerId)) {
+      this.onEvent?.({ type: 'RECONNECTED', brokerId, attempts: this.reconnectAttempts });
+      this.markHealthy(now);
+      return true;
+    }
+
+    const failover = this.failoverBrokerId;
+    if (failover && failover !== brokerId && this.reconnectAttempts >= this.options.failoverAfter &&
+      this.manager.hasBroker(failover) && await this.tryConnect(failover)) {
+      this.brokerId = failover;
+      this.failedOverFrom = brokerId;
+      this.onEvent?.({ type: 'FAILED_OVER', from: brokerId, to: failover });
+      this.markHealthy(now);
+      return true;
+    }
+
+    const delay = Math.min(this.options.initialBackoff * 2 ** (this.reconnectAttempts - 1), this.options.maxBackoff);
+    this.nextReconnectAt = now + delay;
+    this.onEvent?.({ type: 'RECONNECT_FAILED', brokerId, attempt: this.reconnectAttempts, nextAttemptAt: new Date(this.nextReconnectAt) });
+    return false;
+  }
+
+  // A broker only counts as back once it answers a ping, not just when connect() succeeds
+  private async tryConnect(brokerId: string): Promise<boolean> {
+    try {
+      if (!await this.manager.connectToBroker(brokerId)) return false;
+      await this.manager.pingActiveBroker();
+      return true;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      return false;
+    }
+  }
+
+  private markHealthy(now: number): void {
+    this.status = 'HEALTHY';
+    this.consecutiveFailures = 0;
+    this.lastHeartbeat = now;
+    this.lastError = undefined;
+  }
+}
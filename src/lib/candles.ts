@@ -0,0 +1,158 @@
+// OHLC Candle Aggregation
+
+import { Candle, MultiTimeframeCandles, Timeframe } from '@/types/trading';
+import { MarketDataFeed } from '@/types/broker';
+
+export const TIMEFRAMES: Timeframe[] = ['M1', 'M5', 'M15', 'H1', 'H4', 'D1'];
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  M1: 60 * 1000,
+  M5: 5 * 60 * 1000,
+  M15: 15 * 60 * 1000,
+  H1: 60 * 60 * 1000,
+  H4: 4 * 60 * 60 * 1000,
+  D1: 24 * 60 * 60 * 1000,
+};
+
+// Buckets are aligned to UTC boundaries (H4 at 00/04/08..., D1 at midnight UTC)
+export function getCandleStart(time: Date | number, timeframe: Timeframe): number {
+  const ms = typeof time === 'number' ? time : time.getTime();
+  const size = TIMEFRAME_MS[timeframe];
+  return Math.floor(ms / size) * size;
+}
+
+export function candleToMarketDataFeed(candle: Candle, spread: number = 0): MarketDataFeed {
+  return {
+    symbol: candle.symbol,
+    bid: candle.close - spread / 2,
+    ask: candle.close + spread / 2,
+    spread,
+    volume: candle.volume,
+    timestamp: candle.end,
+    high: candle.high,
+    low: candle.low,
+    open: candle.open,
+    close: candle.close,
+  };
+}
+
+// A feed bar is the candle that ends at its timestamp
+export function marketDataFeedToCandle(bar: MarketDataFeed, timeframe: Timeframe = 'M1'): Candle {
+  return {
+    symbol: bar.symbol,
+    timeframe,
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume,
+    start: new Date(bar.timestamp.getTime() - TIMEFRAME_MS[timeframe]),
+    end: bar.timestamp,
+  };
+}
+
+export interface CandleAggregatorOptions {
+  timeframes?: Timeframe[];
+  maxCandles?: number; // Closed candles kept per timeframe
+}
+
+export class CandleAggregator {
+  private symbol: string;
+  private timeframes: Timeframe[];
+  private maxCandles: number;
+  private closed: Map<Timeframe, Candle[]> = new Map();
+  private current: Map<Timeframe, Candle> = new Map();
+
+  constructor(symbol: string, options: CandleAggregatorOptions = {}) {
+    this.symbol = symbol;
+    this.timeframes = options.timeframes || TIMEFRAMES;
+    this.maxCandles = options.maxCandles ?? 500;
+    this.timeframes.forEach(tf => this.closed.set(tf, []));
+  }
+
+  // Adds a single trade/quote; returns any candles closed by it
+  addTick(price: number, volume: number, timestamp: Date): Candle[] {
+    return this.merge(price, price, price, price, volume, timestamp);
+  }
+
+  // Adds a feed update, keeping its intrabar high/low
+  addFeed(feed: MarketDataFeed): Candle[] {
+    if (feed.symbol !== this.symbol) {
+      throw new Error(`Aggregator for ${this.symbol} received ${feed.symbol}`);
+    }
+    return this.merge(feed.open, feed.high, feed.low, feed.close, feed.volume, feed.timestamp);
+  }
+
+  getCandles(timeframe: Timeframe, includeCurrent: boolean = true): Candle[] {
+    const candles = [...(this.closed.get(timeframe) || [])];
+    const current = this.current.get(timeframe);
+    if (includeCurrent && current) {
+      candles.push({ ...current });
+    }
+    return candles;
+  }
+
+  getCurrentCandle(timeframe: Timeframe): Candle | null {
+    const current = this.current.get(timeframe);
+    return current ? { ...current } : null;
+  }
+
+  getMultiTimeframeCandles(includeCurrent: boolean = true): MultiTimeframeCandles {
+    return {
+      m1: this.getCandles('M1', includeCurrent),
+      m5: this.getCandles('M5', includeCurrent),
+      m15: this.getCandles('M15', includeCurrent),
+      h1: this.getCandles('H1', includeCurrent),
+      h4: this.getCandles('H4', includeCurrent),
+      d1: this.getCandles('D1', includeCurrent),
+    };
+  }
+
+  private merge(open: number, high: number, low: number, close: number, volume: number, timestamp: Date): Candle[] {
+    const completed: Candle[] = [];
+
+    for (const timeframe of this.timeframes) {
+      const start = getCandleStart(timestamp, timeframe);
+      const current = this.current.get(timeframe);
+
+      if (current && start < current.start.getTime()) {
+        // Late update for an already closed bucket - ignore rather than rewrite history
+        continue;
+      }
+
+      if (!current || start > current.start.getTime()) {
+        if (current) {
+          this.pushClosed(timeframe, current);
+          completed.push(current);
+        }
+        this.current.set(timeframe, {
+          symbol: this.symbol,
+          timeframe,
+          open,
+          high,
+          low,
+          close,
+          volume,
+          start: new Date(start),
+          end: new Date(start + TIMEFRAME_MS[timeframe]),
+        });
+        continue;
+      }
+
+      current.high = Math.max(current.high, high);
+      current.low = Math.min(current.low, low);
+      current.close = close;
+      current.volume += volume;
+    }
+
+    return completed;
+  }
+
+  private pushClosed(timeframe: Timeframe, candle: Candle): void {
+    const candles = this.closed.get(timeframe)!;
+    candles.push(candle);
+    if (candles.length > this.maxCandles) {
+      candles.shift();
+    }
+  }
+}
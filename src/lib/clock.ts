@@ -0,0 +1,50 @@
+// Clock abstraction for time-dependent trading logic
+
+export interface Clock {
+  now(): Date;
+}
+
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+export class FixedClock implements Clock {
+  private readonly time: number;
+
+  constructor(time: Date | number) {
+    this.time = typeof time === 'number' ? time : time.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+}
+
+export class SimulatedClock implements Clock {
+  private currentTime: number;
+
+  constructor(start: Date | number = 0) {
+    this.currentTime = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.currentTime);
+  }
+
+  setTime(time: Date | number): void {
+    const next = typeof time === 'number' ? time : time.getTime();
+    if (next < this.currentTime) {
+      throw new Error('Simulated clock cannot move backwards');
+    }
+    this.currentTime = next;
+  }
+
+  advance(milliseconds: number): void {
+    this.setTime(this.currentTime + milliseconds);
+  }
+}
+
+// Shared wall-clock instance used when no clock is injected
+export const systemClock = new SystemClock();
@@ -0,0 +1,198 @@
+// Configuration Profiles and Version History
+//
+// Every change to the bot's settings (config and strategy) becomes a numbered version with who, when
+// and a per-field diff. Named profiles hold a complete set of trading settings that can be switched to.
+// Trades carry the version they were opened under, so results can be compared across versions.
+
+import { BotConfig, Trade } from '@/types/trading';
+import { Clock, systemClock } from './clock';
+
+export interface ConfigSettings {
+  config: BotConfig;
+  strategyId: string;
+}
+
+// The account's initial capital is not a trading setting and stays out of profiles
+export type ProfileConfig = Omit<BotConfig, 'initialCapital'>;
+
+export interface ConfigFieldChange {
+  field: keyof BotConfig | 'strategyId';
+  previous?: BotConfig[keyof BotConfig] | string; // Undefined for the first version
+  value: BotConfig[keyof BotConfig] | string;
+}
+
+export interface ConfigVersion extends ConfigSettings {
+  version: number;
+  changedAt: Date;
+  changedBy: string;
+  reason: string;
+  profile?: string; // Set when the version came from applying a profile
+  changes: ConfigFieldChange[];
+}
+
+export interface ConfigProfile {
+  name: string;
+  description?: string;
+  config: ProfileConfig;
+  strategyId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+export interface ConfigVersionPerformance {
+  version: number;
+  trades: number;
+  wins: number;
+  winRate: number; // Percent
+  totalProfit: number;
+  averageProfit: number;
+}
+
+export interface ConfigHistoryState {
+  versions: ConfigVersion[];
+  profiles: ConfigProfile[];
+}
+
+export interface ConfigHistoryOptions {
+  clock?: Clock;
+  maxVersions?: number; // Oldest versions are dropped beyond this; numbering never restarts
+}
+
+export function diffConfigSettings(previous: ConfigSettings | undefined, next: ConfigSettings): ConfigFieldChange[] {
+  const changes: ConfigFieldChange[] = (Object.keys(next.config) as (keyof BotConfig)[])
+    .filter(field => previous?.config[field] !== next.config[field])
+    .map(field => ({ field, previous: previous?.config[field], value: next.config[field] }));
+  if (previous?.strategyId !== next.strategyId) {
+    changes.push({ field: 'strategyId', previous: previous?.strategyId, value: next.strategyId });
+  }
+  return changes;
+}
+
+export function toProfileConfig(config: BotConfig): ProfileConfig {
+  const profileConfig: Partial<BotConfig> = { ...config };
+  delete profileConfig.initialCapital;
+  return profileConfig as ProfileConfig;
+}
+
+// Groups trades by the config version they were opened under; trades from before versioning are left out
+export function summarizeConfigPerformance(trades: Trade[]): ConfigVersionPerformance[] {
+  const byVersion = new Map<number, Trade[]>();
+  trades.forEach(trade => {
+    if (trade.configVersion === undefined) return;
+    byVersion.set(trade.configVersion, [...(byVersion.get(trade.configVersion) || []), trade]);
+  });
+
+  return Array.from(byVersion.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([version, versionTrades]) => {
+      const wins = versionTrades.filter(t => t.profit > 0).length;
+      const totalProfit = versionTrades.reduce((sum, t) => sum + t.profit, 0);
+      return {
+        version,
+        trades: versionTrades.length,
+        wins,
+        winRate: (wins / versionTrades.length) * 100,
+        totalProfit,
+        averageProfit: totalProfit / versionTrades.length,
+      };
+    });
+}
+
+export class ConfigHistory {
+  private clock: Clock;
+  private maxVersions: number;
+  private versions: ConfigVersion[] = [];
+  private profiles: Map<string, ConfigProfile> = new Map();
+
+  constructor(options: ConfigHistoryOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.maxVersions = options.maxVersions ?? 500;
+  }
+
+  getCurrentVersion(): ConfigVersion | undefined {
+    return this.versions[this.versions.length - 1];
+  }
+
+  // Newest first
+  getVersions(limit?: number): ConfigVersion[] {
+    const versions = [...this.versions].reverse();
+    return limit === undefined ? versions : versions.slice(0, limit);
+  }
+
+  getVersion(version: number): ConfigVersion | undefined {
+    return this.versions.find(v => v.version === version);
+  }
+
+  // Adds a version when the settings differ from the current one, or a different profile was applied;
+  // returns null when nothing changed
+  record(settings: ConfigSettings, meta: { changedBy: string; reason: string; profile?: string }): ConfigVersion | null {
+    const current = this.getCurrentVersion();
+    const changes = diffConfigSettings(current, settings);
+    if (current && changes.length === 0 && (!meta.profile || meta.profile === current.profile)) return null;
+
+    const version: ConfigVersion = {
+      version: (current?.version ?? 0) + 1,
+      config: { ...settings.config },
+      strategyId: settings.strategyId,
+      changedAt: this.clock.now(),
+      changedBy: meta.changedBy,
+      reason: meta.reason,
+      profile: meta.profile,
+      changes,
+    };
+    this.versions.push(version);
+    if (this.versions.length > this.maxVersions) {
+      this.versions.shift();
+    }
+    return version;
+  }
+
+  getProfiles(): ConfigProfile[] {
+    return Array.from(this.profiles.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getProfile(name: string): ConfigProfile | undefined {
+    return this.profiles.get(name);
+  }
+
+  // Creates or overwrites the named profile
+  saveProfile(
+    name: string,
+    settings: { config: ProfileConfig; strategyId: string; description?: string },
+    changedBy: string
+  ): ConfigProfile {
+    const now = this.clock.now();
+    const profile: ConfigProfile = {
+      name,
+      description: settings.description,
+      config: { ...settings.config },
+      strategyId: settings.strategyId,
+      createdAt: this.profiles.get(name)?.createdAt ?? now,
+      updatedAt: now,
+      updatedBy: changedBy,
+    };
+    this.profiles.set(name, profile);
+    return profile;
+  }
+
+  deleteProfile(name: string): boolean {
+    return this.profiles.delete(name);
+  }
+
+  exportState(): ConfigHistoryState {
+    return {
+      versions: this.versions.map(v => ({ ...v, config: { ...v.config }, changes: [...v.changes] })),
+      profiles: this.getProfiles().map(p => ({ ...p, config: { ...p.config } })),
+    };
+  }
+
+  // Accepts state straight from JSON, with dates as ISO strings
+  importState(state: ConfigHistoryState): void {
+    this.versions = state.versions.map(v => ({ ...v, changedAt: new Date(v.changedAt) }));
+    this.profiles = new Map(state.profiles.map(p => [
+      p.name,
+      { ...p, createdAt: new Date(p.createdAt), updatedAt: new Date(p.updatedAt) },
+    ]));
+  }
+}
@@ -0,0 +1,104 @@
+// Daily Loss Circuit Breaker
+
+import { BotConfig, DailyLossLedger, Position, Trade } from '@/types/trading';
+import { utcToZonedWallClock, zonedWallClockToUtc } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TradingDayConfig = Pick<BotConfig, 'tradingDayStart' | 'tradingDayTimezone'>;
+
+// Minutes after local midnight at which the trading day starts
+export function parseTradingDayStart(value: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) {
+    throw new Error(`Invalid trading day start: ${value}`);
+  }
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+// Start (inclusive) and end (exclusive) of the trading day containing the given instant
+export function getTradingDayBounds(time: Date, config: TradingDayConfig): { start: Date; end: Date } {
+  const startOffset = parseTradingDayStart(config.tradingDayStart) * 60000;
+  const wallClock = utcToZonedWallClock(time.getTime(), config.tradingDayTimezone);
+  const dayStart = Math.floor((wallClock - startOffset) / DAY_MS) * DAY_MS + startOffset;
+
+  return {
+    start: new Date(zonedWallClockToUtc(dayStart, config.tradingDayTimezone)),
+    end: new Date(zonedWallClockToUtc(dayStart + DAY_MS, config.tradingDayTimezone)),
+  };
+}
+
+export class DailyLossGuard {
+  private ledger?: DailyLossLedger;
+
+  getLedger(): DailyLossLedger | undefined {
+    return this.ledger;
+  }
+
+  restore(ledger?: DailyLossLedger): void {
+    this.ledger = ledger;
+  }
+
+  isHalted(): boolean {
+    return this.ledger?.halted ?? false;
+  }
+
+  // Opens a fresh ledger once the current trading day is over; returns the ledger it replaced
+  roll(config: BotConfig, balance: number, now: Date): DailyLossLedger | undefined {
+    if (this.ledger && now >= this.ledger.sessionStart && now < this.ledger.sessionEnd) {
+      return undefined;
+    }
+
+    const previous = this.ledger;
+    const { start, end } = getTradingDayBounds(now, config);
+    this.ledger = {
+      sessionStart: start,
+      sessionEnd: end,
+      startingBalance: balance,
+      realizedPnL: 0,
+      unrealizedPnL: 0,
+      limit: balance * config.maxDailyLoss,
+      halted: false,
+      overridden: false,
+    };
+    return previous;
+  }
+
+  // Applies a changed limit or trading day to the open ledger; the day's P&L and halt carry over
+  reconfigure(config: BotConfig, now: Date): void {
+    if (!this.ledger) return;
+    const { start, end } = getTradingDayBounds(now, config);
+    this.ledger.sessionStart = start;
+    this.ledger.sessionEnd = end;
+    this.ledger.limit = this.ledger.startingBalance * config.maxDailyLoss;
+  }
+
+  // Recomputes the day's P&L; returns true when this update trips the breaker
+  update(trades: Trade[], positions: Position[], now: Date): boolean {
+    const ledger = this.ledger;
+    if (!ledger) return false;
+
+    ledger.realizedPnL = trades
+      .filter(t => t.timestamp >= ledger.sessionStart && t.timestamp < ledger.sessionEnd)
+      .reduce((sum, t) => sum + t.profit, 0);
+    ledger.unrealizedPnL = positions
+      .filter(p => p.status === 'OPEN')
+      .reduce((sum, p) => sum + p.unrealizedPnL, 0);
+
+    if (ledger.halted || ledger.overridden) return false;
+
+    if (ledger.realizedPnL + ledger.unrealizedPnL <= -ledger.limit) {
+      ledger.halted = true;
+      ledger.haltedAt = now;
+      return true;
+    }
+    return false;
+  }
+
+  // Explicitly resumes trading; the breaker stays disarmed until the next trading day
+  override(): void {
+    if (!this.ledger) return;
+    this.ledger.halted = false;
+    this.ledger.overridden = true;
+  }
+}
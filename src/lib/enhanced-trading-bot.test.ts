@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Position, Trade } from '@/types/trading';
+import { BrokerAdapter, brokerManager } from './broker-integration';
+import { SimulatedClock } from './clock';
+import { EnhancedTradingBot } from './enhanced-trading-bot';
+import { BotStateSnapshot, BotStateStore, SNAPSHOT_VERSION } from './state-store';
+
+describe('manual position changes while the broker is slow', () => {
+  let bot: EnhancedTradingBot;
+  let position: Position;
+  let releaseBroker: () => void;
+
+  // Holds every broker close until the test releases it, so concurrent requests overlap
+  const holdBrokerCloses = () => {
+    const broker = brokerManager.getActiveBroker() as Required<BrokerAdapter>;
+    const held = new Promise<void>(resolve => { releaseBroker = resolve; });
+    const closeOrder = broker.closeOrder.bind(broker);
+    const closeOrderPartial = broker.closeOrderPartial.bind(broker);
+    vi.spyOn(broker, 'closeOrderPartial').mockImplementation(async (ticket, volume) => {
+      await held;
+      return closeOrderPartial(ticket, volume);
+    });
+    return vi.spyOn(broker, 'closeOrder').mockImplementation(async ticket => {
+      await held;
+      return closeOrder(ticket);
+    });
+  };
+
+  beforeEach(async () => {
+    bot = new EnhancedTradingBot({
+      clock: new SimulatedClock(new Date('2026-03-02T15:00:00Z')),
+      config: { initialCapital: 10000 },
+      paperTrading: true,
+    });
+    position = await bot.openManualPosition({ symbol: 'BTC/USD', side: 'LONG', quantity: 0.01 });
+    expect(position.status).toBe('OPEN');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('books a double close once', async () => {
+    const closeOrder = holdBrokerCloses();
+    const first = bot.closePositionById(position.id);
+    const second = bot.closePositionById(position.id);
+    await expect(second).rejects.toThrow(`Position ${position.id} is already being closed`);
+
+    releaseBroker();
+    await first;
+
+    expect(closeOrder).toHaveBeenCalledTimes(1);
+    expect(bot.getState().trades).toHaveLength(1);
+    expect(bot.getState().positions.find(p => p.id === position.id)?.status).toBe('CLOSED');
+  });
+
+  it('refuses to change or close a position while a partial close is in flight', async () => {
+    holdBrokerCloses();
+    const partial = bot.closePositionById(position.id, 0.004);
+
+    await expect(bot.closePositionById(position.id)).rejects.toThrow('is already being closed');
+    await expect(bot.modifyPosition(position.id, { takeProfit: position.takeProfit * 1.01 })).rejects.toThrow('is already being closed');
+
+    releaseBroker();
+    await partial;
+
+    expect(bot.getState().trades).toHaveLength(1);
+    expect(bot.getState().positions.find(p => p.id === position.id)?.quantity).toBeCloseTo(0.006);
+  });
+
+  it('keeps a position open when the broker refuses to close it', async () => {
+    const broker = brokerManager.getActiveBroker()!;
+    vi.spyOn(broker, 'closeOrder').mockResolvedValue(false);
+
+    await expect(bot.closePositionById(position.id)).rejects.toThrow(`Ticket ${position.brokerTicket} is still open at the broker`);
+
+    expect(bot.getState().trades).toHaveLength(0);
+    expect(bot.getState().positions.find(p => p.id === position.id)?.status).toBe('OPEN');
+  });
+
+  it('books a position the broker already closed at the broker exit price', async () => {
+    const broker = brokerManager.getActiveBroker()!;
+    const brokerOrder = (await broker.getOpenOrders()).find(order => order.ticket === position.brokerTicket)!;
+    vi.spyOn(broker, 'closeOrder').mockRejectedValue(new Error('Position not found'));
+    vi.spyOn(broker, 'getOrderHistory').mockResolvedValue([{ ...brokerOrder, status: 'CLOSED', currentPrice: 61234 }]);
+
+    await bot.closePositionById(position.id);
+
+    expect(bot.getState().trades).toHaveLength(1);
+    expect(bot.getState().trades[0].exitPrice).toBe(61234);
+    expect(bot.getState().positions.find(p => p.id === position.id)?.status).toBe('CLOSED');
+  });
+});
+
+describe('reset', () => {
+  it('waits for the running cycle and for the reset state to be saved', async () => {
+    const saved: BotStateSnapshot[] = [];
+    const store: BotStateStore = {
+      load: async () => null,
+      save: async snapshot => {
+        const copy = JSON.parse(JSON.stringify(snapshot)); // As written when the save was requested
+        await new Promise(resolve => setTimeout(resolve, 20));
+        saved.push(copy);
+      },
+      clear: async () => undefined,
+    };
+    const clock = new SimulatedClock(new Date('2026-03-02T15:00:00Z'));
+    const bot = new EnhancedTradingBot({ clock, stateStore: store });
+    await bot.whenReady();
+
+    const order: string[] = [];
+    const cycle = bot.processMarketData({
+      symbol: 'BTC/USD', bid: 59990, ask: 60010, spread: 20, volume: 5, timestamp: clock.now(), open: 60000, high: 60050, low: 59950, close: 60000,
+    }).then(() => order.push('cycle'));
+    await bot.reset();
+    order.push('reset');
+    await cycle;
+
+    expect(order).toEqual(['cycle', 'reset']);
+    const last = saved[saved.length - 1];
+    expect(last.state.trades).toEqual([]);
+    expect(last.state.actions.some((action: { type: string }) => action.type === 'RESET')).toBe(true);
+  });
+});
+
+describe('manual changes during a trading cycle', () => {
+  it('waits for the running cycle before opening or closing everything', async () => {
+    const clock = new SimulatedClock(new Date('2026-03-02T15:00:00Z'));
+    const bot = new EnhancedTradingBot({ clock, config: { initialCapital: 10000, maxOpenPositions: 1 }, paperTrading: true });
+    await bot.whenReady();
+    const bar = { symbol: 'BTC/USD', bid: 59990, ask: 60010, spread: 20, volume: 5, timestamp: clock.now(), open: 60000, high: 60050, low: 59950, close: 60000 };
+
+    const order: string[] = [];
+    const firstCycle = bot.processMarketData(bar).then(() => order.push('cycle'));
+    await bot.openManualPosition({ symbol: 'BTC/USD', side: 'LONG', quantity: 0.01 });
+    order.push('open');
+    const secondCycle = bot.processMarketData(bar).then(() => order.push('cycle'));
+    await bot.closeAllPositions('Manual close all');
+    order.push('close all');
+    await Promise.all([firstCycle, secondCycle]);
+
+    expect(order).toEqual(['cycle', 'open', 'cycle', 'close all']);
+  });
+
+  it('waits for the running cycle before dropping a symbol from the watchlist', async () => {
+    const clock = new SimulatedClock(new Date('2026-03-02T15:00:00Z'));
+    const bot = new EnhancedTradingBot({ clock, watchlist: ['BTC/USD', 'ETH/USD'] });
+    await bot.whenReady();
+
+    const order: string[] = [];
+    const cycle = bot.processMarketData({
+      symbol: 'ETH/USD', bid: 2999, ask: 3001, spread: 2, volume: 5, timestamp: clock.now(), open: 3000, high: 3005, low: 2995, close: 3000,
+    }).then(() => order.push('cycle'));
+    await bot.setWatchlist(['BTC/USD']);
+    order.push('watchlist');
+    await cycle;
+
+    expect(order).toEqual(['cycle', 'watchlist']);
+    expect(bot.getState().watchlist).toEqual(['BTC/USD']);
+  });
+});
+
+describe('drawdown gate', () => {
+  const NOW = new Date('2026-03-02T15:00:00Z');
+
+  const closedTrade = (id: string, profit: number, timestamp: string): Trade => ({
+    id, symbol: 'BTC/USD', type: 'LONG', entryPrice: 60000, exitPrice: 60000, quantity: 0.01, profit, duration: 60, timestamp: new Date(timestamp), reason: 'Take profit',
+  });
+
+  // Restores a bot that already booked these trades the day before
+  const botWithTrades = async (trades: Trade[]) => {
+    const state = new EnhancedTradingBot({ clock: new SimulatedClock(NOW), config: { initialCapital: 10000 } }).getState();
+    const balance = trades.reduce((sum, trade) => sum + trade.profit, 10000);
+    const snapshot: BotStateSnapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: NOW,
+      state: { ...state, trades, status: { ...state.status, currentBalance: balance, tradesCount: trades.length } },
+      openTickets: [],
+    };
+    const store: BotStateStore = { load: async () => snapshot, save: async () => undefined, clear: async () => undefined };
+    const bot = new EnhancedTradingBot({ clock: new SimulatedClock(NOW), stateStore: store, paperTrading: true });
+    await bot.whenReady();
+    return bot;
+  };
+
+  it('lets entries resume once equity recovers from a deep dip', async () => {
+    const bot = await botWithTrades([
+      closedTrade('trade_1', -1500, '2026-03-01T10:00:00Z'),
+      closedTrade('trade_2', 1600, '2026-03-01T12:00:00Z'),
+    ]);
+
+    expect(bot.getState().status.maxDrawdown).toBeCloseTo(0.15);
+    expect(bot.getState().status.currentDrawdown).toBe(0);
+    const position = await bot.openManualPosition({ symbol: 'BTC/USD', side: 'LONG', quantity: 0.01 });
+    expect(position.status).toBe('OPEN');
+  });
+
+  it('blocks entries while equity sits the configured fraction below its peak', async () => {
+    const bot = await botWithTrades([
+      closedTrade('trade_1', 2000, '2026-03-01T10:00:00Z'),
+      closedTrade('trade_2', -1200, '2026-03-01T12:00:00Z'),
+    ]);
+
+    expect(bot.getState().status.currentDrawdown).toBeCloseTo(0.1);
+    await expect(bot.openManualPosition({ symbol: 'BTC/USD', side: 'LONG', quantity: 0.01 })).rejects.toThrow('Drawdown: 10.0%');
+  });
+});
@@ -1,39 +1,176 @@
 // Enhanced AI Trading Bot with Broker Integration
 
-import { BotState, BotConfig, BotStatus, Position, Trade, BotAction } from '@/types/trading';
-import { BrokerConfig, OrderRequest } from '@/types/broker';
-import { AdvancedAIAnalyzer, AIAnalysisResult } from './advanced-ai-analysis';
-import { SmartTradingEngine, SmartAnalysisResult } from './smart-trading-engine';
-import { brokerManager, marketDataProvider } from './broker-integration';
+import { BotState, BotConfig, BotStatus, Position, Trade, BotAction, MultiTimeframeCandles, SymbolState, ManagedOrder, ManualPositionRequest } from '@/types/trading';
+import { BrokerConfig, BrokerOrder, MarketDataFeed, OrderRequest } from '@/types/broker';
+import { AdvancedAIAnalyzer, AIAnalysisResult, MultiTimeframeAnalysis } from './advanced-ai-analysis';
+import { SmartAnalysisResult } from './smart-trading-engine';
+import { BrokerAdapter, brokerManager, marketDataProvider, MarketDataProvider } from './broker-integration';
 import { MarketAnalyzer } from './market-analysis';
 import { RiskManager } from './risk-management';
+import { Clock, systemClock } from './clock';
+import { SimulatedMarketFeed, deriveSeed, generateSeed, getDefaultBasePrice } from './market-simulator';
+import { BotStateSnapshot, BotStateStore, SNAPSHOT_VERSION, StatePersistence, createStateStoreFromEnv } from './state-store';
+import { ExitTrigger, JournalDecision, TradeJournal, createTradeJournalFromEnv } from './trade-journal';
+import { DEFAULT_STRATEGY_ID, Strategy, StrategySignal, signalToMarketAnalysis, strategyRegistry } from './strategies';
+import { DailyLossGuard } from './daily-loss-guard';
+import { PaperBrokerAdapter, PaperBrokerOptions } from './paper-broker';
+import { OrderManager, isTerminalOrderStatus } from './order-manager';
+import { PositionReconciler, ReconciliationMismatch, ReconciliationReport } from './position-reconciler';
+import { BrokerHealth, BrokerHealthEvent, BrokerHealthMonitor, BrokerHealthMonitorOptions } from './broker-health-monitor';
+import { BotEventBus, BotEventListener, PositionSource } from './bot-events';
+import { DEFAULT_BOT_CONFIG, formatBotConfigErrors, validateBotConfigUpdate } from './bot-config';
+import { ConfigHistory, ConfigProfile, ConfigVersion, ConfigVersionPerformance, ProfileConfig, summarizeConfigPerformance, toProfileConfig } from './config-history';
+import { createActionLogSubscriber } from './bot-action-log';
+import { createNotifierFromEnv } from './bot-notifier';
+import { PerformanceAnalytics, buildEquityCurve, computePerformanceAnalytics } from './performance-analytics';
+
+export interface EnhancedTradingBotOptions {
+  clock?: Clock;
+  seed?: number; // Seed for the simulated market feed
+  marketDataProvider?: MarketDataProvider;
+  config?: Partial<BotConfig>;
+  maxActions?: number; // Size of the in-memory action log
+  stateStore?: BotStateStore; // Snapshots state after each cycle and restores it on boot
+  journal?: TradeJournal; // Defaults to an in-memory journal
+  strategy?: string; // Registered strategy id, defaults to the smart engine
+  watchlist?: string[]; // Symbols traded by the bot, defaults to BTC/USD
+  paperTrading?: boolean | PaperBrokerOptions; // Route simulated trading through a paper broker
+  reconcileInterval?: number; // Minimum ms between broker position reconciliations, defaults to one minute
+  brokerHealth?: Omit<BrokerHealthMonitorOptions, 'clock' | 'onEvent'>;
+  subscribers?: BotEventListener[]; // Extra event subscribers, e.g. notifications
+}
+
+export interface StartOptions {
+  overrideDailyLoss?: boolean; // Resume trading today even though the daily loss limit was hit
+}
+
+interface ExitDecision {
+  trigger: ExitTrigger;
+  reason: string;
+}
+
+const PAPER_BROKER_CONFIG: BrokerConfig = {
+  id: 'paper',
+  name: 'Paper Trading',
+  type: 'PAPER',
+  apiKey: '',
+  serverUrl: '',
+  testMode: true,
+  maxLeverage: 100,
+  minOrderSize: 0,
+  supportedSymbols: [],
+};
+
+// Each symbol keeps its own strategy history and simulated price path
+interface SymbolContext {
+  strategy: Strategy;
+  feed: SimulatedMarketFeed;
+}
 
 export class EnhancedTradingBot {
   private state: BotState;
   private aiAnalyzer: AdvancedAIAnalyzer;
   private marketAnalyzer: MarketAnalyzer;
   private riskManager: RiskManager;
-  private smartEngine: SmartTradingEngine;
+  private strategyId: string;
+  private symbolContexts: Map<string, SymbolContext> = new Map();
   private intervalId?: ReturnType<typeof setInterval>;
   private brokerConfig?: BrokerConfig;
   private isConnectedToBroker: boolean = false;
-
-  constructor() {
-    this.state = this.initializeState();
-    this.aiAnalyzer = new AdvancedAIAnalyzer();
+  private clock: Clock;
+  private configOverrides: Partial<BotConfig>;
+  private maxActions: number;
+  private simulationSeed: number;
+  private simulationStart: Date;
+  private marketDataProvider: MarketDataProvider;
+  private stateStore?: BotStateStore;
+  private persistence?: StatePersistence;
+  private journal: TradeJournal;
+  private dailyLossGuard = new DailyLossGuard();
+  private paperBroker?: PaperBrokerAdapter;
+  private orderManager: OrderManager;
+  private pendingDecisions: Map<string, JournalDecision> = new Map(); // Journaled once a pending entry first fills
+  private reconciler = new PositionReconciler();
+  private reconcileInterval: number;
+  private lastReconcileAttempt = -Infinity;
+  private lastReconciliation?: ReconciliationReport;
+  private brokerMonitor: BrokerHealthMonitor;
+  private events: BotEventBus;
+  private cycleInFlight?: Promise<void>;
+  private closingPositions: Set<string> = new Set(); // Closes and partial closes waiting on the broker
+  private configHistory: ConfigHistory;
+  private lastPublishedStatus?: string;
+  private idSequence = 0; // With the clock time, keeps ids unique and identical across replays
+  private ready: Promise<void>;
+
+  constructor(options: EnhancedTradingBotOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.events = new BotEventBus({ clock: this.clock });
+    this.configOverrides = options.config || {};
+    this.maxActions = options.maxActions ?? 50;
+    this.reconcileInterval = options.reconcileInterval ?? 60000;
+    this.brokerMonitor = new BrokerHealthMonitor(brokerManager, {
+      ...options.brokerHealth,
+      clock: this.clock,
+      onEvent: event => this.emitBrokerHealthEvent(event),
+    });
+    this.marketDataProvider = options.marketDataProvider || marketDataProvider;
+    this.state = this.initializeState(options.watchlist || ['BTC/USD']);
+    this.orderManager = new OrderManager({
+      clock: this.clock,
+      onTransition: (order, previous, reason) => this.events.emit('order.updated', { order: { ...order }, previous, reason }),
+      onSyncError: error => this.events.emit('broker.error', { operation: 'sync orders', error: String(error) }),
+    });
+    this.orderManager.restore(this.state.orders);
+    this.simulationSeed = options.seed ?? generateSeed();
+    this.simulationStart = this.clock.now();
+    this.aiAnalyzer = new AdvancedAIAnalyzer(this.clock);
     this.marketAnalyzer = new MarketAnalyzer();
     this.riskManager = new RiskManager();
-    this.smartEngine = new SmartTradingEngine();
+    this.strategyId = options.strategy || DEFAULT_STRATEGY_ID;
+    this.rebuildSymbolContexts();
+    this.configHistory = new ConfigHistory({ clock: this.clock });
+    this.recordConfigVersion('system', 'Initial configuration');
+    this.events.subscribe(createActionLogSubscriber(action => this.recordAction(action)));
+    this.stateStore = options.stateStore;
+    if (this.stateStore) {
+      this.persistence = new StatePersistence(this.stateStore, () => this.createSnapshot());
+      this.events.subscribe(this.persistence.listener);
+    }
+    options.subscribers?.forEach(listener => this.events.subscribe(listener));
+    this.journal = options.journal || new TradeJournal({ clock: this.clock });
+    if (options.paperTrading) {
+      // Paper fills are priced off the bot's own seeded feeds, so simulation takes the live order path
+      this.paperBroker = new PaperBrokerAdapter(PAPER_BROKER_CONFIG, {
+        ...(typeof options.paperTrading === 'object' ? options.paperTrading : {}),
+        initialBalance: this.state.status.currentBalance,
+        seed: this.simulationSeed,
+        clock: this.clock,
+        priceSource: symbol => this.getSymbolContext(symbol).feed.next(),
+      });
+    }
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.stateStore) {
+      await this.restoreState();
+    }
+    if (this.paperBroker) {
+      brokerManager.registerAdapter('paper', this.paperBroker);
+      this.isConnectedToBroker = await brokerManager.connectToBroker('paper');
+    }
   }
 
-  private initializeState(): BotState {
-    const config: BotConfig = {
-      initialCapital: 50,
-      targetProfit: 100,
-      maxRiskPerTrade: 0.01, // Ultra-conservative 1% risk per trade
-      maxDailyLoss: 0.05, // Ultra-safe 5% max daily loss
-      riskRewardRatio: 3.0, // Enhanced 3:1 risk-reward ratio
+  private createConfig(): BotConfig {
+    return {
+      ...DEFAULT_BOT_CONFIG,
+      ...this.configOverrides,
     };
+  }
+
+  private initializeState(watchlist: string[]): BotState {
+    const config = this.createConfig();
 
     const status: BotStatus = {
       isRunning: false,
@@ -43,19 +180,40 @@ export class EnhancedTradingBot {
       tradesCount: 0,
       winRate: 0,
       maxDrawdown: 0,
+      currentDrawdown: 0,
       lastAction: 'Ultra-smart AI bot initialized with advanced algorithms',
     };
 
+    const symbols: Record<string, SymbolState> = {};
+    watchlist.forEach(symbol => {
+      symbols[symbol] = this.createSymbolState(symbol, config);
+    });
+    const primary = symbols[watchlist[0]];
+
     return {
       config,
       status,
       positions: [],
+      orders: [],
       trades: [],
+      marketData: primary.marketData,
+      analysis: primary.analysis,
+      indicators: primary.indicators,
+      riskMetrics: primary.riskMetrics,
+      watchlist: [...watchlist],
+      symbols,
+      actions: [],
+    };
+  }
+
+  private createSymbolState(symbol: string, config: BotConfig): SymbolState {
+    return {
+      symbol,
       marketData: {
-        symbol: 'BTC/USD',
+        symbol,
         price: 0,
         volume: 0,
-        timestamp: new Date(),
+        timestamp: this.clock.now(),
         high24h: 0,
         low24h: 0,
         change24h: 0,
@@ -90,7 +248,6 @@ export class EnhancedTradingBot {
         riskRewardRatio: config.riskRewardRatio,
         volatility: 0,
       },
-      actions: [],
     };
   }
 
@@ -103,109 +260,200 @@ export class EnhancedTradingBot {
       this.isConnectedToBroker = connected;
       
       if (connected) {
+        this.brokerMonitor.reset();
         const accountInfo = await brokerManager.getAccountInfo();
         if (accountInfo) {
+          const previousCapital = this.state.config.initialCapital;
           this.state.status.currentBalance = accountInfo.balance;
           this.state.config.initialCapital = accountInfo.balance;
-          this.addAction('BROKER_CONNECTED', `Connected to ${config.name} - Balance: $${accountInfo.balance}`, true);
+          if (previousCapital !== accountInfo.balance) {
+            this.publishConfigChange({ initialCapital: previousCapital }, 'system', `Initial capital from ${config.name} account`);
+          }
+          this.events.emit('broker.connected', { name: config.name, balance: accountInfo.balance });
+        }
+
+        // Trade the broker's instruments unless that would orphan open positions
+        if (config.supportedSymbols.length > 0) {
+          try {
+            await this.setWatchlist(config.supportedSymbols);
+          } catch (error) {
+            this.log('UPDATE', `Kept current watchlist: ${error}`, false);
+          }
         }
       } else {
-        this.addAction('BROKER_ERROR', `Failed to connect to ${config.name}`, false);
+        this.events.emit('broker.connect_failed', { name: config.name });
       }
       
       return connected;
     } catch (error) {
-      this.addAction('BROKER_ERROR', `Broker configuration failed: ${error}`, false);
+      this.events.emit('broker.connect_failed', { name: config.name, error: String(error) });
       return false;
     }
   }
 
-  async start(): Promise<boolean> {
+  async start(options: StartOptions = {}): Promise<boolean> {
+    await this.ready;
+
     try {
       if (this.state.status.targetReached) {
-        this.addAction('START', 'Cannot start: Target already reached. Reset required.', false);
+        this.events.emit('bot.start_failed', { reason: 'Target already reached. Reset required.' });
         return false;
       }
 
+      this.rollDailyLossSession();
+      if (this.dailyLossGuard.isHalted()) {
+        if (!options.overrideDailyLoss) {
+          this.events.emit('bot.start_failed', {
+            reason: `Daily loss limit reached. Trading resumes at ${this.state.dailyLoss!.sessionEnd.toISOString()} or with an explicit override.`,
+          });
+          return false;
+        }
+        this.dailyLossGuard.override();
+        this.events.emit('daily_loss.overridden', {});
+      }
+
       if (this.brokerConfig && !this.isConnectedToBroker) {
         const connected = await this.configureBroker(this.brokerConfig);
         if (!connected) {
-          this.addAction('START', 'Cannot start: Broker connection required', false);
+          this.events.emit('bot.start_failed', { reason: 'Broker connection required' });
           return false;
         }
       }
 
       this.state.status.isRunning = true;
-      this.state.status.startTime = new Date();
-      this.addAction('START', 'Enhanced AI trading bot started successfully', true);
+      this.state.status.startTime = this.clock.now();
+      this.events.emit('bot.started', { resumed: false });
 
-      // Start the ultra-smart trading loop with optimal cycles
-      this.intervalId = setInterval(() => {
-        this.runSmartTradingCycle();
-      }, 1500); // Run every 1.5 seconds for maximum responsiveness
+      this.startTradingLoop();
+      await this.commitState();
 
       return true;
     } catch (error) {
-      this.addAction('START', `Failed to start bot: ${error}`, false);
+      this.events.emit('bot.start_failed', { reason: String(error) });
       return false;
     }
   }
 
-  async stop(): Promise<boolean> {
+  async stop(reason: string = 'stop requested'): Promise<boolean> {
+    await this.ready;
+
     try {
       this.state.status.isRunning = false;
-      
-      if (this.intervalId) {
-        clearInterval(this.intervalId);
-        this.intervalId = undefined;
-      }
+      this.stopTradingLoop();
 
       // Close all open positions
-      await this.closeAllPositions('Manual stop');
+      await this.closeOpenPositions('Manual stop', 'MANUAL'); // Also reached from inside a cycle
       
-      this.addAction('STOP', 'Enhanced trading bot stopped successfully', true);
+      this.events.emit('bot.stopped', { reason });
+      await this.commitState();
       return true;
     } catch (error) {
-      this.addAction('STOP', `Failed to stop bot: ${error}`, false);
+      this.log('STOP', `Failed to stop bot: ${error}`, false);
       return false;
     }
   }
 
-  private async runSmartTradingCycle(): Promise<void> {
+  private stopTradingLoop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
+  private startTradingLoop(): void {
+    // Start the ultra-smart trading loop with optimal cycles
+    this.intervalId = setInterval(() => {
+      if (!this.cycleInFlight) this.runSmartTradingCycle(); // A slow cycle is skipped over rather than overlapped
+    }, 1500); // Run every 1.5 seconds for maximum responsiveness
+  }
+
+  // Runs one full trading cycle against an externally supplied bar (used for replay and backtesting)
+  async processMarketData(feed: MarketDataFeed): Promise<void> {
+    if (!this.symbolContexts.has(feed.symbol)) {
+      throw new Error(`Symbol not on watchlist: ${feed.symbol}`);
+    }
+    await this.runSmartTradingCycle(feed);
+  }
+
+  // Tracks the running cycle so config changes can wait for it to finish
+  private runSmartTradingCycle(feed?: MarketDataFeed): Promise<void> {
+    const cycle = this.executeSmartTradingCycle(feed).finally(() => {
+      if (this.cycleInFlight === cycle) this.cycleInFlight = undefined;
+    });
+    this.cycleInFlight = cycle;
+    return cycle;
+  }
+
+  private async executeSmartTradingCycle(feed?: MarketDataFeed): Promise<void> {
     try {
       // Check if target is reached
       if (this.state.status.totalProfit >= this.state.config.targetProfit) {
         this.state.status.targetReached = true;
-        await this.stop();
-        this.addAction('TARGET_REACHED', `Target profit of ${this.state.config.targetProfit} reached!`, true);
+        await this.stop('target profit reached');
+        this.events.emit('target.reached', { targetProfit: this.state.config.targetProfit, totalProfit: this.state.status.totalProfit });
         return;
       }
 
-      // Update market data from broker or enhanced simulation
-      await this.updateSmartMarketData();
-      
-      // Update smart trading engine with latest data
-      this.smartEngine.updateMarketData(this.state.marketData);
-      
-      // Perform ultra-smart analysis
-      const smartAnalysis = await this.smartEngine.analyzeMarket(this.state.marketData);
-      
-      // Update state with smart analysis results
-      this.updateStateWithSmartAnalysis(smartAnalysis);
-
-      // Manage existing positions with smart insights
-      await this.manageSmartPositions(smartAnalysis);
+      // Trading pauses while the broker is unreachable; quotes are never faked for a live account
+      if (!feed && !(await this.brokerMonitor.check())) {
+        await this.commitState();
+        return;
+      }
 
-      // Check for new trading opportunities with smart engine
-      if (await this.shouldOpenSmartPosition(smartAnalysis)) {
-        await this.openSmartPosition(smartAnalysis);
+      // A supplied bar only advances its own symbol; live cycles walk the whole watchlist
+      const symbols = feed ? [feed.symbol] : [...this.state.watchlist];
+      for (const symbol of symbols) {
+        try {
+          await this.runSymbolCycle(symbol, feed);
+        } catch (error) {
+          console.error(`Smart trading cycle error (${symbol}):`, error);
+          this.events.emit('cycle.error', { symbol, error: String(error) });
+        }
       }
 
+      // Pick up fills and expiries the broker processed on this cycle's quotes
+      await this.syncOrders();
+      await this.reconcileIfDue();
+
       this.updateSmartBotMetrics();
+      await this.commitState();
       
     } catch (error) {
       console.error('Smart trading cycle error:', error);
-      this.addAction('UPDATE', `Smart trading cycle error: ${error}`, false);
+      this.events.emit('cycle.error', { error: String(error) });
+    }
+  }
+
+  private async runSymbolCycle(symbol: string, feed?: MarketDataFeed): Promise<void> {
+    const context = this.getSymbolContext(symbol);
+
+    // Use the supplied bar, otherwise update from broker or enhanced simulation
+    let bar: MarketDataFeed;
+    if (feed) {
+      this.applyMarketDataFeed(feed);
+      bar = feed;
+    } else {
+      bar = await this.updateSmartMarketData(symbol);
+    }
+
+    // Let this symbol's strategy analyze the new bar
+    const smartAnalysis = await context.strategy.onBar(bar, {
+      balance: this.state.status.currentBalance,
+      config: this.state.config,
+    });
+
+    // Update state with smart analysis results
+    this.updateStateWithSmartAnalysis(symbol, smartAnalysis);
+
+    // Manage existing positions with smart insights
+    await this.manageSmartPositions(symbol, smartAnalysis);
+
+    // Trip the circuit breaker before considering new entries
+    await this.enforceDailyLoss();
+
+    // Check for new trading opportunities with smart engine
+    if (await this.shouldOpenSmartPosition(symbol, smartAnalysis)) {
+      await this.openSmartPosition(symbol, smartAnalysis);
     }
   }
 
@@ -229,51 +477,11 @@ export class EnhancedTradingBot {
         }
       }
       
-      // Fallback to enhanced simulation with more realistic price movement
-      this.generateEnhancedSimulatedData();
+      // Fallback to seeded simulation
+      this.generateSimulatedData(this.state.marketData.symbol);
     } catch (error) {
       console.error('Market data update error:', error);
-      this.generateEnhancedSimulatedData();
-    }
-  }
-
-  private generateEnhancedSimulatedData(): void {
-    const basePrice = 45000; // Base BTC price
-    const timeOfDay = new Date().getHours();
-    
-    // Adjust volatility based on time of day (higher during trading hours)
-    let volatilityMultiplier = 1.0;
-    if (timeOfDay >= 8 && timeOfDay <= 16) { // Trading hours
-      volatilityMultiplier = 1.5;
-    } else if (timeOfDay >= 20 || timeOfDay <= 6) { // Asian session
-      volatilityMultiplier = 1.2;
-    }
-    
-    const volatility = 0.015 * volatilityMultiplier; // Enhanced volatility
-    const randomWalk = (Math.random() - 0.5) * 2 * volatility;
-    
-    // Add some trend persistence
-    const previousChange = this.state.marketData.change24h || 0;
-    const trendPersistence = previousChange * 0.1; // 10% trend continuation
-    
-    const totalChange = randomWalk + trendPersistence;
-    const currentPrice = this.state.marketData.price || basePrice;
-    const newPrice = currentPrice * (1 + totalChange);
-
-    this.state.marketData = {
-      ...this.state.marketData,
-      price: newPrice,
-      volume: Math.floor(Math.random() * 2000000) + 500000, // 500K - 2.5M volume
-      timestamp: new Date(),
-      change24h: totalChange * 100,
-    };
-
-    // Update high/low
-    if (newPrice > this.state.marketData.high24h || this.state.marketData.high24h === 0) {
-      this.state.marketData.high24h = newPrice;
-    }
-    if (newPrice < this.state.marketData.low24h || this.state.marketData.low24h === 0) {
-      this.state.marketData.low24h = newPrice;
+      this.generateSimulatedData(this.state.marketData.symbol);
     }
   }
 
@@ -388,7 +596,7 @@ export class EnhancedTradingBot {
     const goodRiskReward = this.state.riskMetrics.riskRewardRatio >= 2.0;
 
     // Additional safety checks
-    const notMaxDrawdown = this.state.status.maxDrawdown < 0.15; // Max 15% drawdown
+    const notMaxDrawdown = this.state.status.currentDrawdown < 0.15; // Max 15% drawdown
     const accountHealth = this.state.status.currentBalance > this.state.config.initialCapital * 0.9; // Not lost more than 10%
 
     return {
@@ -411,7 +619,7 @@ export class EnhancedTradingBot {
       
       // Create position
       const position: Position = {
-        id: `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: this.nextId('pos'),
         symbol: this.state.marketData.symbol,
         type: isLong ? 'LONG' : 'SHORT',
         entryPrice: this.state.marketData.price,
@@ -420,24 +628,25 @@ export class EnhancedTradingBot {
         stopLoss: this.calculateEnhancedStopLoss(isLong),
         takeProfit: this.calculateEnhancedTakeProfit(isLong),
         unrealizedPnL: 0,
-        timestamp: new Date(),
-        status: 'OPEN',
+        timestamp: this.clock.now(),
+        status: 'PENDING',
       };
 
-      // Place order with broker if connected
-      if (this.isConnectedToBroker) {
-        await this.placeRealOrder(position);
+      const order = await this.submitEntryOrder(position, `AI Bot - Confidence: ${analysis.confidence.toFixed(1)}%`);
+      if (order.status === 'REJECTED') {
+        this.events.emit('order.rejected', { symbol: position.symbol, side: position.type, source: 'STRATEGY', reason: order.rejectReason ?? 'unknown' });
+        return;
       }
 
       this.state.positions.push(position);
-      this.addAction(
-        'OPEN_POSITION',
-        `Opened ${position.type} position at $${position.entryPrice.toFixed(2)} (Confidence: ${analysis.confidence.toFixed(1)}%)`,
-        true
-      );
+      this.events.emit(position.status === 'PENDING' ? 'position.pending' : 'position.opened', {
+        position: { ...position },
+        source: 'STRATEGY',
+        detail: `Confidence: ${analysis.confidence.toFixed(1)}%`,
+      });
 
     } catch (error) {
-      this.addAction('OPEN_POSITION', `Failed to open position: ${error}`, false);
+      this.log('OPEN_POSITION', `Failed to open position: ${error}`, false);
     }
   }
 
@@ -471,28 +680,245 @@ export class EnhancedTradingBot {
     }
   }
 
-  private async placeRealOrder(position: Position): Promise<void> {
+  // Sends the entry order for a new position and sizes the position from whatever has filled so far
+  private async submitEntryOrder(position: Position, comment: string): Promise<ManagedOrder> {
+    const orderRequest: OrderRequest = {
+      symbol: position.symbol,
+      type: position.type === 'LONG' ? 'BUY' : 'SELL',
+      volume: position.quantity,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      comment,
+    };
+
+    // Without a broker the order fills in full at the signal's entry price
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    const order = await this.orderManager.submit(orderRequest, position.id, broker, position.entryPrice);
+    position.orderId = order.id;
+    position.brokerTicket = order.brokerTicket;
+    position.configVersion = this.configHistory.getCurrentVersion()?.version;
+    position.initialStopLoss = position.stopLoss;
+    this.applyFills(position, order);
+    return order;
+  }
+
+  // Position quantity and entry price always reflect actual fills; nothing filled means still PENDING
+  private applyFills(position: Position, order: ManagedOrder): void {
+    position.quantity = order.filledQuantity;
+    if (order.filledQuantity > 0) {
+      position.entryPrice = order.averageFillPrice;
+      position.status = 'OPEN';
+    }
+    position.unrealizedPnL = this.calculateUnrealizedPnL(position);
+  }
+
+  private async syncOrders(): Promise<void> {
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    if (!broker) return;
+
     try {
-      const broker = brokerManager.getActiveBroker();
-      if (!broker) return;
+      const changed = await this.orderManager.sync(broker);
+      for (const order of changed) {
+        await this.applyOrderUpdate(order);
+      }
+    } catch (error) {
+      this.events.emit('broker.error', { operation: 'sync orders', error: String(error) });
+    }
+  }
 
-      const orderRequest: OrderRequest = {
-        symbol: position.symbol,
-        type: position.type === 'LONG' ? 'BUY' : 'SELL',
-        volume: position.quantity,
-        stopLoss: position.stopLoss,
-        takeProfit: position.takeProfit,
-        comment: `AI Bot - Confidence: ${this.state.analysis.confidence.toFixed(1)}%`,
-      };
+  private async applyOrderUpdate(order: ManagedOrder): Promise<void> {
+    const position = this.state.positions.find(p => p.id === order.positionId);
+    if (!position || position.status === 'CLOSED') return;
 
-      const ticket = await broker.placeOrder(orderRequest);
-      if (ticket) {
-        // Store the broker ticket ID for tracking
-        (position as any).brokerTicket = ticket;
-        this.addAction('BROKER_ORDER', `Order placed with broker. Ticket: ${ticket}`, true);
+    if (order.filledQuantity === 0) {
+      if (isTerminalOrderStatus(order.status)) {
+        // Entry never filled - roll the position back
+        this.state.positions = this.state.positions.filter(p => p !== position);
+        this.pendingDecisions.delete(position.id);
+        this.events.emit('position.cancelled', { position: { ...position }, reason: `Entry order ${order.status.toLowerCase()}` });
       }
+      return;
+    }
+
+    const wasPending = position.status === 'PENDING';
+    const previousQuantity = position.quantity;
+    this.applyFills(position, order);
+
+    if (wasPending) {
+      const decision = this.pendingDecisions.get(position.id);
+      this.pendingDecisions.delete(position.id);
+      if (decision) await this.journalOpen(position, decision);
+      this.events.emit('position.opened', { position: { ...position }, source: this.getPositionSource(position), detail: 'entry filled' });
+    } else if (position.quantity !== previousQuantity) {
+      await this.journal.append({
+        event: 'MODIFY',
+        positionId: position.id,
+        symbol: position.symbol,
+        field: 'QUANTITY',
+        previous: previousQuantity,
+        value: position.quantity,
+        marketPrice: this.getMarketPrice(position),
+        reason: `Entry order ${order.status === 'FILLED' ? 'filled' : 'partially filled'}`,
+      });
+      this.events.emit('position.resized', {
+        position: { ...position },
+        previous: previousQuantity,
+        reason: `entry order ${order.status === 'FILLED' ? 'filled' : 'partially filled'}`,
+      });
+    }
+  }
+
+  private async journalOpen(position: Position, decision: JournalDecision): Promise<void> {
+    await this.journal.append({
+      event: 'OPEN',
+      positionId: position.id,
+      symbol: position.symbol,
+      side: position.type,
+      entryPrice: position.entryPrice,
+      quantity: position.quantity,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      decision: { ...decision, configVersion: position.configVersion },
+    });
+  }
+
+  private getPositionSource(position: Position): PositionSource {
+    if (position.manual) return 'MANUAL';
+    return position.id.startsWith('broker_pos_') ? 'BROKER' : 'STRATEGY';
+  }
+
+  private async reconcileIfDue(): Promise<void> {
+    if (!this.isConnectedToBroker) return;
+    // Tickets opened on the primary broker do not exist on the failover one and would all look vanished
+    if (this.brokerMonitor.getHealth().failedOverFrom) return;
+    const now = this.clock.now().getTime();
+    if (now - this.lastReconcileAttempt < this.reconcileInterval) return;
+
+    this.lastReconcileAttempt = now;
+    try {
+      await this.reconcilePositions();
     } catch (error) {
-      this.addAction('BROKER_ERROR', `Failed to place broker order: ${error}`, false);
+      this.events.emit('broker.error', { operation: 'reconcile positions', error: String(error) });
+    }
+  }
+
+  // Brings local positions in line with what the broker actually holds
+  async reconcilePositions(): Promise<ReconciliationReport> {
+    await this.ready;
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    if (!broker) {
+      throw new Error('No broker connected');
+    }
+
+    const [openOrders, history] = await Promise.all([broker.getOpenOrders(), broker.getOrderHistory()]);
+    const diff = this.reconciler.diff(this.state.positions, openOrders, history);
+    const report: ReconciliationReport = {
+      timestamp: this.clock.now(),
+      brokerOpenOrders: openOrders.filter(o => o.status === 'OPEN').length,
+      localOpenPositions: this.state.positions.filter(p => p.status === 'OPEN').length,
+      matched: diff.matched.length,
+      adopted: [],
+      closed: [],
+      mismatches: diff.mismatches,
+    };
+
+    for (const { position, brokerOrder } of diff.vanished) {
+      const ticket = position.brokerTicket!;
+      const exitPrice = brokerOrder ? brokerOrder.currentPrice : this.getMarketPrice(position);
+      if (!brokerOrder) {
+        this.log('BROKER_ERROR', `Ticket ${ticket} (${position.symbol}) not found at broker; closing locally at market`, false);
+      }
+      await this.closePosition(position.id, brokerOrder ? 'Closed at broker' : 'Missing at broker', 'BROKER', exitPrice);
+      report.closed.push({
+        positionId: position.id,
+        ticket,
+        symbol: position.symbol,
+        exitPrice,
+        source: brokerOrder ? 'BROKER_HISTORY' : 'MARKET',
+      });
+    }
+
+    for (const order of diff.adopt) {
+      const position = this.adoptBrokerPosition(order);
+      this.state.positions.push(position);
+      report.adopted.push({ positionId: position.id, ticket: order.ticket, symbol: order.symbol });
+      this.events.emit('position.opened', { position: { ...position }, source: 'BROKER' });
+    }
+
+    // Mismatches are logged when first seen rather than on every pass
+    const mismatchKey = (m: ReconciliationMismatch) => `${m.ticket}:${m.field}`;
+    const known = new Set((this.lastReconciliation?.mismatches || []).map(mismatchKey));
+    diff.mismatches
+      .filter(m => !known.has(mismatchKey(m)))
+      .forEach(m => this.log(
+        'BROKER_ERROR',
+        `Reconciliation mismatch on ticket ${m.ticket}: ${m.field} is ${m.local} locally but ${m.broker} at the broker`,
+        false
+      ));
+
+    this.lastReconciliation = report;
+    if (report.adopted.length > 0 || report.closed.length > 0) {
+      this.updateSmartBotMetrics();
+      await this.commitState();
+    }
+    return report;
+  }
+
+  // Broker positions may lack SL/TP; fall back to the default 2% stop and the configured risk-reward
+  private adoptBrokerPosition(order: BrokerOrder): Position {
+    const isLong = order.type === 'BUY';
+    const stopDistance = order.openPrice * 0.02;
+    const position: Position = {
+      id: `broker_pos_${order.ticket}`,
+      symbol: order.symbol,
+      type: isLong ? 'LONG' : 'SHORT',
+      entryPrice: order.openPrice,
+      currentPrice: order.currentPrice,
+      quantity: order.filledVolume ?? order.volume,
+      stopLoss: order.stopLoss || (isLong ? order.openPrice - stopDistance : order.openPrice + stopDistance),
+      takeProfit: order.takeProfit || (isLong
+        ? order.openPrice + stopDistance * this.state.config.riskRewardRatio
+        : order.openPrice - stopDistance * this.state.config.riskRewardRatio),
+      unrealizedPnL: 0,
+      timestamp: new Date(order.openTime),
+      status: 'OPEN',
+      brokerTicket: order.ticket,
+      configVersion: this.configHistory.getCurrentVersion()?.version,
+    };
+    position.initialStopLoss = position.stopLoss;
+    position.unrealizedPnL = this.calculateUnrealizedPnL(position);
+    return position;
+  }
+
+  getReconciliationReport(): ReconciliationReport | undefined {
+    return this.lastReconciliation;
+  }
+
+  getBrokerHealth(): BrokerHealth {
+    return this.brokerMonitor.getHealth();
+  }
+
+  // Used when the primary broker stays unreachable; see BrokerHealthMonitorOptions.failoverAfter
+  configureFailoverBroker(config: BrokerConfig): void {
+    brokerManager.addBroker('failover', config);
+    this.brokerMonitor.setFailoverBroker('failover');
+    this.log('UPDATE', `Failover broker set to ${config.name}`, true);
+  }
+
+  private emitBrokerHealthEvent(event: BrokerHealthEvent): void {
+    switch (event.type) {
+      case 'DISCONNECTED':
+        this.events.emit('broker.disconnected', { brokerId: event.brokerId, error: event.error });
+        break;
+      case 'RECONNECT_FAILED':
+        this.events.emit('broker.reconnect_failed', { brokerId: event.brokerId, attempt: event.attempt, nextAttemptAt: event.nextAttemptAt });
+        break;
+      case 'RECONNECTED':
+        this.events.emit('broker.reconnected', { brokerId: event.brokerId, attempts: event.attempts });
+        break;
+      case 'FAILED_OVER':
+        this.events.emit('broker.failed_over', { from: event.from, to: event.to });
+        break;
     }
   }
 
@@ -507,8 +933,9 @@ export class EnhancedTradingBot {
         await this.updateTrailingStop(position);
 
         // Check exit conditions
-        if (this.shouldCloseEnhancedPosition(position)) {
-          await this.closePosition(position.id, 'Enhanced exit condition met');
+        const exit = this.shouldCloseEnhancedPosition(position);
+        if (exit) {
+          await this.tryClosePosition(position.id, exit.reason, exit.trigger);
         }
       }
     }
@@ -525,47 +952,53 @@ export class EnhancedTradingBot {
       const newStopLoss = currentPrice - trailDistance;
       if (newStopLoss > position.stopLoss) {
         position.stopLoss = newStopLoss;
-        this.addAction('UPDATE_SL', `Trailing stop updated for ${position.type} position to ${newStopLoss.toFixed(2)}`, true);
+        this.log('UPDATE_SL', `Trailing stop updated for ${position.type} position to ${newStopLoss.toFixed(2)}`, true);
       }
     } else {
       const newStopLoss = currentPrice + trailDistance;
       if (newStopLoss < position.stopLoss) {
         position.stopLoss = newStopLoss;
-        this.addAction('UPDATE_SL', `Trailing stop updated for ${position.type} position to ${newStopLoss.toFixed(2)}`, true);
+        this.log('UPDATE_SL', `Trailing stop updated for ${position.type} position to ${newStopLoss.toFixed(2)}`, true);
       }
     }
   }
 
-  private shouldCloseEnhancedPosition(position: Position): boolean {
-    const currentPrice = this.state.marketData.price;
-    
+  private shouldCloseEnhancedPosition(position: Position): ExitDecision | null {
     // Standard stop loss and take profit checks
-    if (position.type === 'LONG') {
-      if (currentPrice <= position.stopLoss || currentPrice >= position.takeProfit) {
-        return true;
-      }
-    } else {
-      if (currentPrice >= position.stopLoss || currentPrice <= position.takeProfit) {
-        return true;
-      }
+    const levelExit = this.checkStopAndTarget(position);
+    if (levelExit) {
+      return levelExit;
     }
 
     // Enhanced exit conditions based on AI analysis
     const analysisChanged = this.hasAnalysisSignificantlyChanged(position);
     if (analysisChanged) {
-      this.addAction('UPDATE', 'Market analysis changed significantly - considering early exit', true);
-      return true;
+      this.log('UPDATE', 'Market analysis changed significantly - considering early exit', true);
+      return { trigger: 'ANALYSIS_CHANGE', reason: 'Market analysis changed significantly' };
     }
 
     // Time-based exit (don't hold positions too long)
-    const positionAge = Date.now() - position.timestamp.getTime();
+    const positionAge = this.clock.now().getTime() - position.timestamp.getTime();
     const maxHoldTime = 30 * 60 * 1000; // 30 minutes max
     
     if (positionAge > maxHoldTime) {
-      return true;
+      return { trigger: 'TIME_LIMIT', reason: `Position held for ${Math.floor(positionAge / 60000)} minutes` };
     }
 
-    return false;
+    return null;
+  }
+
+  private checkStopAndTarget(position: Position): ExitDecision | null {
+    const currentPrice = this.getMarketPrice(position);
+    const isLong = position.type === 'LONG';
+
+    if (isLong ? currentPrice <= position.stopLoss : currentPrice >= position.stopLoss) {
+      return { trigger: 'STOP_LOSS', reason: `Stop loss ${position.stopLoss.toFixed(2)} hit at ${currentPrice.toFixed(2)}` };
+    }
+    if (isLong ? currentPrice >= position.takeProfit : currentPrice <= position.takeProfit) {
+      return { trigger: 'TAKE_PROFIT', reason: `Take profit ${position.takeProfit.toFixed(2)} hit at ${currentPrice.toFixed(2)}` };
+    }
+    return null;
   }
 
   private hasAnalysisSignificantlyChanged(position: Position): boolean {
@@ -587,251 +1020,522 @@ export class EnhancedTradingBot {
     return false;
   }
 
-  private async closePosition(positionId: string, reason: string): Promise<void> {
+  // A position already being closed is left to that close, so it is never booked twice
+  private async closePosition(positionId: string, reason: string, trigger: ExitTrigger = 'MANUAL', brokerExitPrice?: number): Promise<void> {
+    if (this.closingPositions.has(positionId)) return;
+    this.closingPositions.add(positionId);
+    try {
+      await this.executeClose(positionId, reason, trigger, brokerExitPrice);
+    } finally {
+      this.closingPositions.delete(positionId);
+    }
+  }
+
+  // brokerExitPrice is set when the broker already closed the position; it is booked at that price
+  private async executeClose(positionId: string, reason: string, trigger: ExitTrigger, brokerExitPrice?: number): Promise<void> {
     const position = this.state.positions.find(p => p.id === positionId);
-    if (!position || position.status !== 'OPEN') return;
+    if (!position || position.status === 'CLOSED') return;
 
-    // Close with broker if connected
-    if (this.isConnectedToBroker && (position as any).brokerTicket) {
-      try {
-        const broker = brokerManager.getActiveBroker();
-        if (broker) {
-          await broker.closeOrder((position as any).brokerTicket);
-          this.addAction('BROKER_CLOSE', `Broker order closed. Ticket: ${(position as any).brokerTicket}`, true);
-        }
-      } catch (error) {
-        this.addAction('BROKER_ERROR', `Failed to close broker order: ${error}`, false);
-      }
+    // Close with broker if connected; a position the broker still holds stays open here too
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    if (broker && position.brokerTicket && brokerExitPrice === undefined) {
+      brokerExitPrice = await this.closeBrokerOrder(broker, position.brokerTicket);
+    }
+
+    // Any unfilled remainder of the entry order dies with the position
+    if (position.orderId) {
+      this.orderManager.cancel(position.orderId, reason);
+    }
+    if (position.status === 'PENDING') {
+      this.state.positions = this.state.positions.filter(p => p !== position);
+      this.pendingDecisions.delete(position.id);
+      this.events.emit('position.cancelled', { position: { ...position }, reason });
+      return;
     }
 
     position.status = 'CLOSED';
-    position.currentPrice = this.state.marketData.price;
-    
-    const profit = this.calculateRealizedPnL(position);
+    position.currentPrice = brokerExitPrice ?? this.getMarketPrice(position);
     
-    // Create trade record
+    const trade = this.recordTrade(position, position.quantity, reason);
+    const profit = trade.profit;
+    await this.journal.append({
+      event: 'CLOSE',
+      positionId: position.id,
+      symbol: position.symbol,
+      tradeId: trade.id,
+      exitPrice: trade.exitPrice,
+      profit,
+      trigger,
+      reason,
+    });
+    this.events.emit('position.closed', { position: { ...position }, trade, trigger, reason });
+  }
+
+  // Returns the broker's exit price when it had already closed the order, undefined when closed just now
+  private async closeBrokerOrder(broker: BrokerAdapter, ticket: string): Promise<number | undefined> {
+    let failure = 'Broker refused the close';
+    try {
+      if (await broker.closeOrder(ticket)) {
+        this.events.emit('broker.order_closed', { ticket });
+        return undefined;
+      }
+    } catch (error) {
+      failure = String(error);
+    }
+
+    // The close may have failed because the broker got there first, e.g. its own stop loss
+    const finished = await broker.getOrderHistory()
+      .then(history => history.find(order => order.ticket === ticket && order.status !== 'OPEN' && order.status !== 'PENDING'))
+      .catch(() => undefined);
+    if (finished) {
+      return finished.status === 'CLOSED' ? finished.currentPrice : undefined;
+    }
+
+    this.events.emit('broker.error', { operation: 'close broker order', error: failure });
+    throw new Error(`Ticket ${ticket} is still open at the broker: ${failure}`);
+  }
+
+  // Automated exits leave a position the broker would not close open; the next cycle tries again
+  private async tryClosePosition(positionId: string, reason: string, trigger: ExitTrigger): Promise<void> {
+    try {
+      await this.closePosition(positionId, reason, trigger);
+    } catch {
+      // Already reported as broker.error
+    }
+  }
+
+  // Books quantity of the position at its current price as a trade and credits the P&L
+  private recordTrade(position: Position, quantity: number, reason: string): Trade {
+    const profit = this.calculateRealizedPnL({ ...position, quantity });
     const trade: Trade = {
-      id: `trade_${Date.now()}`,
+      id: this.nextId('trade'),
       symbol: position.symbol,
       type: position.type,
       entryPrice: position.entryPrice,
       exitPrice: position.currentPrice,
-      quantity: position.quantity,
+      quantity,
       profit,
-      duration: Math.floor((new Date().getTime() - position.timestamp.getTime()) / 60000),
-      timestamp: new Date(),
+      duration: Math.floor((this.clock.now().getTime() - position.timestamp.getTime()) / 60000),
+      timestamp: this.clock.now(),
+      openedAt: position.timestamp,
       reason,
+      risk: position.initialStopLoss === undefined
+        ? undefined
+        : Math.abs(this.calculateRealizedPnL({ ...position, quantity, currentPrice: position.initialStopLoss })),
+      configVersion: position.configVersion,
     };
 
     this.state.trades.push(trade);
     this.state.status.currentBalance += profit;
     this.state.status.totalProfit = this.state.status.currentBalance - this.state.config.initialCapital;
     this.state.status.tradesCount++;
+    return trade;
+  }
 
-    this.addAction(
-      'CLOSE_POSITION',
-      `Closed ${position.type} position. P&L: $${profit.toFixed(2)} (Reason: ${reason})`,
-      true
-    );
+  // Runs between cycles; the cycle itself flattens through closeOpenPositions
+  async closeAllPositions(reason: string, trigger: ExitTrigger = 'MANUAL'): Promise<void> {
+    await this.ready;
+    await this.waitForCycle();
+    await this.closeOpenPositions(reason, trigger);
   }
 
-  private async closeAllPositions(reason: string): Promise<void> {
-    const openPositions = this.state.positions.filter(p => p.status === 'OPEN');
+  // Tries every position, then fails listing the ones the broker would not close
+  private async closeOpenPositions(reason: string, trigger: ExitTrigger): Promise<void> {
+    const openPositions = this.state.positions.filter(p => p.status !== 'CLOSED');
+    const failures: string[] = [];
     for (const position of openPositions) {
-      await this.closePosition(position.id, reason);
+      try {
+        await this.closePosition(position.id, reason, trigger);
+      } catch (error) {
+        failures.push(`${position.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} position${failures.length === 1 ? '' : 's'} left open (${failures.join('; ')})`);
     }
   }
 
-  private calculateUnrealizedPnL(position: Position): number {
-    const currentPrice = position.currentPrice;
-    const entryPrice = position.entryPrice;
-    const quantity = position.quantity;
+  // Manual entries pass the same limits and risk checks as strategy entries and go through the same order path
+  async openManualPosition(request: ManualPositionRequest): Promise<Position> {
+    await this.ready;
+    await this.waitForCycle(); // Limits are checked against the positions the cycle has opened
+    const { symbol, side, quantity } = request;
+    const symbolState = this.getSymbolState(symbol);
+    if (!(quantity > 0)) {
+      throw new Error('Quantity must be positive');
+    }
+    if (this.isConnectedToBroker && !this.brokerMonitor.isHealthy()) {
+      throw new Error('Broker connection is down; new orders are paused');
+    }
 
-    if (position.type === 'LONG') {
-      return (currentPrice - entryPrice) * quantity;
+    let price = symbolState.marketData.price;
+    if (!(price > 0)) {
+      if (!this.isConnectedToBroker) throw new Error(`No market price for ${symbol} yet`);
+      price = (await this.updateSmartMarketData(symbol)).close;
+    }
+
+    // Same defaults as adopted broker positions: 2% stop and the configured reward ratio
+    const isLong = side === 'LONG';
+    const stopLoss = request.stopLoss ?? (isLong ? price * 0.98 : price * 1.02);
+    const rewardDistance = Math.abs(price - stopLoss) * this.state.config.riskRewardRatio;
+    const takeProfit = request.takeProfit ?? (isLong ? price + rewardDistance : price - rewardDistance);
+    this.validateExitLevels(side, price, stopLoss, takeProfit);
+
+    const block = this.getEntryBlock(symbol);
+    const failures = block ? [block] : this.getAccountRiskFailures(price, stopLoss, quantity);
+    if (failures.length > 0) {
+      this.events.emit('order.rejected', { symbol, side, source: 'MANUAL', reason: `Risk check failed: ${failures.join(', ')}` });
+      throw new Error(`Risk check failed: ${failures.join(', ')}`);
+    }
+
+    const position: Position = {
+      id: this.nextId('manual_pos'),
+      symbol,
+      type: side,
+      entryPrice: price,
+      currentPrice: price,
+      quantity,
+      stopLoss,
+      takeProfit,
+      unrealizedPnL: 0,
+      timestamp: this.clock.now(),
+      status: 'PENDING',
+      manual: true,
+    };
+
+    const order = await this.submitEntryOrder(position, 'Manual order');
+    if (order.status === 'REJECTED') {
+      this.events.emit('order.rejected', { symbol, side, source: 'MANUAL', reason: order.rejectReason ?? 'unknown' });
+      throw new Error(`Order rejected: ${order.rejectReason}`);
+    }
+
+    this.state.positions.push(position);
+    const decision: JournalDecision = {
+      strategyId: 'manual',
+      signal: isLong ? 'BUY' : 'SELL',
+      confidence: 100,
+      probability: 1,
+      riskLevel: 'MANUAL',
+      direction: isLong ? 'BULLISH' : 'BEARISH',
+      strength: 1,
+      reasoning: ['Manual order'],
+      timeframe: 0,
+    };
+
+    if (position.status === 'PENDING') {
+      this.pendingDecisions.set(position.id, decision);
+      this.events.emit('position.pending', { position: { ...position }, source: 'MANUAL' });
     } else {
-      return (entryPrice - currentPrice) * quantity;
+      await this.journalOpen(position, decision);
+      this.events.emit('position.opened', { position: { ...position }, source: 'MANUAL' });
     }
+    await this.commitState();
+    return position;
   }
 
-  private calculateRealizedPnL(position: Position): number {
-    return this.calculateUnrealizedPnL(position);
-  }
+  // Moves stop loss and/or take profit between cycles; the broker's levels are updated first when it supports it
+  async modifyPosition(positionId: string, changes: { stopLoss?: number; takeProfit?: number }): Promise<Position> {
+    await this.ready;
+    await this.waitForCycle();
 
-  // New smart methods
-  private async updateSmartMarketData(): Promise<void> {
-    try {
-      if (this.isConnectedToBroker) {
-        // Get real market data from broker
-        const broker = brokerManager.getActiveBroker();
-        if (broker) {
-          const realData = await broker.getMarketData(this.state.marketData.symbol);
-          this.state.marketData = {
-            symbol: realData.symbol,
-            price: realData.close,
-            volume: realData.volume,
-            timestamp: realData.timestamp,
-            high24h: realData.high,
-            low24h: realData.low,
-            change24h: ((realData.close - realData.open) / realData.open) * 100,
-          };
-          return;
+    const position = this.getManualTarget(positionId);
+
+    const stopLoss = changes.stopLoss ?? position.stopLoss;
+    const takeProfit = changes.takeProfit ?? position.takeProfit;
+    const price = position.status === 'OPEN' ? this.getMarketPrice(position) : position.entryPrice;
+    this.validateExitLevels(position.type, price, stopLoss, takeProfit);
+
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    if (broker && position.brokerTicket) {
+      if (broker.modifyOrder) {
+        if (!await broker.modifyOrder(position.brokerTicket, { stopLoss, takeProfit })) {
+          throw new Error(`Broker has no open order for ticket ${position.brokerTicket}`);
         }
+      } else {
+        // The bot still enforces the levels itself each cycle
+        this.log('UPDATE', `Broker cannot modify ticket ${position.brokerTicket}; levels are tracked locally`, true);
       }
-      
-      // Enhanced simulation with more realistic patterns
-      this.generateUltraRealisticData();
-    } catch (error) {
-      console.error('Smart market data update error:', error);
-      this.generateUltraRealisticData();
     }
-  }
+    if (position.status === 'CLOSED') {
+      throw new Error(`Position ${positionId} was closed while its levels were being changed`);
+    }
 
-  private generateUltraRealisticData(): void {
-    const basePrice = 45000;
-    const currentPrice = this.state.marketData.price || basePrice;
-    
-    // Time-based volatility
-    const now = new Date();
-    const hour = now.getHours();
-    let volatilityMultiplier = 1.0;
-    
-    // London session (8-17 GMT)
-    if (hour >= 8 && hour <= 17) volatilityMultiplier = 1.8;
-    // NY session (13-22 GMT) 
-    else if (hour >= 13 && hour <= 22) volatilityMultiplier = 2.2;
-    // Asian session (22-8 GMT)
-    else if (hour >= 22 || hour <= 8) volatilityMultiplier = 1.3;
-    // Weekend/Low activity
-    else volatilityMultiplier = 0.8;
-
-    // Market regime simulation
-    const marketRegime = Math.random();
-    let priceChange = 0;
-    
-    if (marketRegime < 0.3) {
-      // Trending market (30% chance)
-      const trendDirection = Math.random() > 0.5 ? 1 : -1;
-      priceChange = (Math.random() * 0.02 + 0.005) * trendDirection * volatilityMultiplier;
-    } else if (marketRegime < 0.8) {
-      // Ranging market (50% chance)
-      priceChange = (Math.random() - 0.5) * 0.01 * volatilityMultiplier;
-    } else {
-      // Breakout market (20% chance)
-      const breakoutDirection = Math.random() > 0.5 ? 1 : -1;
-      priceChange = (Math.random() * 0.03 + 0.01) * breakoutDirection * volatilityMultiplier;
+    const updates = [
+      { field: 'STOP_LOSS' as const, event: 'sl.updated' as const, previous: position.stopLoss, value: stopLoss },
+      { field: 'TAKE_PROFIT' as const, event: 'tp.updated' as const, previous: position.takeProfit, value: takeProfit },
+    ].filter(update => update.value !== update.previous);
+
+    position.stopLoss = stopLoss;
+    position.takeProfit = takeProfit;
+    for (const update of updates) {
+      await this.journal.append({
+        event: 'MODIFY',
+        positionId: position.id,
+        symbol: position.symbol,
+        field: update.field,
+        previous: update.previous,
+        value: update.value,
+        marketPrice: price,
+        reason: 'Manual change',
+      });
+      this.events.emit(update.event, { position: { ...position }, previous: update.previous, reason: 'manual change' });
     }
+    await this.commitState();
+    return position;
+  }
 
-    // Add some noise and momentum persistence
-    const previousChange = this.state.marketData.change24h || 0;
-    const momentum = previousChange * 0.15; // 15% momentum continuation
-    const noise = (Math.random() - 0.5) * 0.005; // Small random noise
-    
-    const totalChange = priceChange + momentum + noise;
-    const newPrice = currentPrice * (1 + totalChange);
-
-    // Realistic volume based on price movement
-    const priceMovementAbs = Math.abs(totalChange);
-    const baseVolume = 800000;
-    const volumeMultiplier = 1 + (priceMovementAbs * 50); // Higher volume with larger moves
-    const newVolume = Math.floor(baseVolume * volumeMultiplier * volatilityMultiplier);
-
-    this.state.marketData = {
-      ...this.state.marketData,
-      price: newPrice,
-      volume: newVolume,
-      timestamp: new Date(),
-      change24h: totalChange * 100,
-    };
+  // Closes the whole position, or only quantity of it once the entry order has fully filled; runs between cycles
+  async closePositionById(positionId: string, quantity?: number): Promise<void> {
+    await this.ready;
+    await this.waitForCycle();
 
-    // Update high/low
-    if (newPrice > this.state.marketData.high24h || this.state.marketData.high24h === 0) {
-      this.state.marketData.high24h = newPrice;
-    }
-    if (newPrice < this.state.marketData.low24h || this.state.marketData.low24h === 0) {
-      this.state.marketData.low24h = newPrice;
-    }
-  }
-
-  private updateStateWithSmartAnalysis(smartAnalysis: SmartAnalysisResult): void {
-    // Convert smart analysis to standard format
-    this.state.analysis = {
-      trend: smartAnalysis.direction,
-      strength: smartAnalysis.strength,
-      signals: {
-        rsi: smartAnalysis.signal === 'STRONG_BUY' || smartAnalysis.signal === 'BUY' ? 'BUY' :
-             smartAnalysis.signal === 'STRONG_SELL' || smartAnalysis.signal === 'SELL' ? 'SELL' : 'NEUTRAL',
-        macd: smartAnalysis.signal === 'STRONG_BUY' || smartAnalysis.signal === 'BUY' ? 'BUY' :
-              smartAnalysis.signal === 'STRONG_SELL' || smartAnalysis.signal === 'SELL' ? 'SELL' : 'NEUTRAL',
-        bollinger: smartAnalysis.signal === 'STRONG_BUY' || smartAnalysis.signal === 'BUY' ? 'BUY' :
-                   smartAnalysis.signal === 'STRONG_SELL' || smartAnalysis.signal === 'SELL' ? 'SELL' : 'NEUTRAL',
-        trend: smartAnalysis.signal === 'STRONG_BUY' || smartAnalysis.signal === 'BUY' ? 'BUY' :
-               smartAnalysis.signal === 'STRONG_SELL' || smartAnalysis.signal === 'SELL' ? 'SELL' : 'NEUTRAL',
-      },
-      confidence: smartAnalysis.confidence,
-      recommendation: smartAnalysis.signal,
+    const position = this.getManualTarget(positionId);
+
+    if (quantity === undefined || quantity >= position.quantity) {
+      await this.closePosition(position.id, 'Manual close', 'MANUAL');
+      await this.commitState();
+      return;
+    }
+
+    if (!(quantity > 0)) {
+      throw new Error('Quantity must be positive');
+    }
+    const order = position.orderId ? this.orderManager.getOrder(position.orderId) : undefined;
+    if (position.status !== 'OPEN' || (order && order.status !== 'FILLED')) {
+      throw new Error(`Position ${positionId} cannot be partially closed until its entry order has filled`);
+    }
+
+    this.closingPositions.add(position.id);
+    try {
+      await this.closePartially(position, quantity);
+    } finally {
+      this.closingPositions.delete(position.id);
+    }
+    await this.commitState();
+  }
+
+  private async closePartially(position: Position, quantity: number): Promise<void> {
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    if (broker && position.brokerTicket) {
+      if (!broker.closeOrderPartial) {
+        throw new Error('The connected broker does not support partial closes');
+      }
+      if (!await broker.closeOrderPartial(position.brokerTicket, quantity)) {
+        throw new Error(`Broker has no open position for ticket ${position.brokerTicket}`);
+      }
+      this.events.emit('broker.order_closed', { ticket: position.brokerTicket, quantity });
+    }
+
+    position.currentPrice = this.getMarketPrice(position);
+    const trade = this.recordTrade(position, quantity, 'Manual partial close');
+    const previousQuantity = position.quantity;
+    position.quantity -= quantity;
+    position.unrealizedPnL = this.calculateUnrealizedPnL(position);
+
+    await this.journal.append({
+      event: 'MODIFY',
+      positionId: position.id,
+      symbol: position.symbol,
+      field: 'QUANTITY',
+      previous: previousQuantity,
+      value: position.quantity,
+      marketPrice: position.currentPrice,
+      reason: `Manual partial close (trade ${trade.id}, P&L ${trade.profit.toFixed(2)})`,
+    });
+    this.events.emit('position.resized', { position: { ...position }, previous: previousQuantity, reason: 'manual partial close', trade });
+  }
+
+  // Open or pending positions that no close is already under way for
+  private getManualTarget(positionId: string): Position {
+    const position = this.state.positions.find(p => p.id === positionId && p.status !== 'CLOSED');
+    if (!position) {
+      throw new Error(`Position ${positionId} not found`);
+    }
+    if (this.closingPositions.has(positionId)) {
+      throw new Error(`Position ${positionId} is already being closed`);
+    }
+    return position;
+  }
+
+  // Stop loss must sit on the losing side of the reference price and take profit on the winning side
+  private validateExitLevels(side: Position['type'], price: number, stopLoss: number, takeProfit: number): void {
+    if (!(stopLoss > 0) || !(takeProfit > 0)) {
+      throw new Error('Stop loss and take profit must be positive prices');
+    }
+    const isLong = side === 'LONG';
+    if (isLong ? stopLoss >= price : stopLoss <= price) {
+      throw new Error(`Stop loss ${stopLoss} must be ${isLong ? 'below' : 'above'} the price ${price.toFixed(2)}`);
+    }
+    if (isLong ? takeProfit <= price : takeProfit >= price) {
+      throw new Error(`Take profit ${takeProfit} must be ${isLong ? 'above' : 'below'} the price ${price.toFixed(2)}`);
+    }
+  }
+
+  private calculateUnrealizedPnL(position: Position): number {
+    const currentPrice = position.currentPrice;
+    const entryPrice = position.entryPrice;
+    const quantity = position.quantity;
+
+    if (position.type === 'LONG') {
+      return (currentPrice - entryPrice) * quantity;
+    } else {
+      return (entryPrice - currentPrice) * quantity;
+    }
+  }
+
+  private calculateRealizedPnL(position: Position): number {
+    return this.calculateUnrealizedPnL(position);
+  }
+
+  // New smart methods
+  // Broker failures propagate so the symbol is skipped this cycle instead of trading on simulated prices
+  private async updateSmartMarketData(symbol: string): Promise<MarketDataFeed> {
+    const broker = this.isConnectedToBroker ? brokerManager.getActiveBroker() : null;
+    if (!broker) {
+      // Seeded simulation with trending/ranging/breakout regimes
+      return this.generateSimulatedData(symbol);
+    }
+
+    try {
+      const realData = await broker.getMarketData(symbol);
+      this.applyMarketDataFeed(realData);
+      return realData;
+    } catch (error) {
+      this.brokerMonitor.reportFailure(error);
+      throw error;
+    }
+  }
+
+  private applyMarketDataFeed(feed: MarketDataFeed): void {
+    this.marketDataProvider.recordMarketData(feed);
+    this.getSymbolState(feed.symbol).marketData = {
+      symbol: feed.symbol,
+      price: feed.close,
+      volume: feed.volume,
+      timestamp: feed.timestamp,
+      high24h: feed.high,
+      low24h: feed.low,
+      change24h: ((feed.close - feed.open) / feed.open) * 100,
     };
+    this.syncPrimarySymbol();
+    this.events.emit('market.tick', { marketData: { ...this.getSymbolState(feed.symbol).marketData } });
+  }
+
+  private generateSimulatedData(symbol: string): MarketDataFeed {
+    const bar = this.getSymbolContext(symbol).feed.next();
+    this.applyMarketDataFeed(bar);
+    return bar;
+  }
+
+  private updateStateWithSmartAnalysis(symbol: string, smartAnalysis: StrategySignal): void {
+    const symbolState = this.getSymbolState(symbol);
+
+    // Convert the strategy signal to standard format
+    symbolState.analysis = signalToMarketAnalysis(smartAnalysis);
+    if (smartAnalysis.indicators) {
+      symbolState.indicators = smartAnalysis.indicators;
+    }
 
     // Update risk metrics with smart analysis insights
-    this.state.riskMetrics = {
-      ...this.state.riskMetrics,
+    symbolState.riskMetrics = {
+      ...symbolState.riskMetrics,
       positionSize: smartAnalysis.positionSize,
       stopLossDistance: Math.abs(smartAnalysis.entryPrice - smartAnalysis.stopLoss),
       takeProfitDistance: Math.abs(smartAnalysis.entryPrice - smartAnalysis.takeProfit),
       riskRewardRatio: Math.abs(smartAnalysis.entryPrice - smartAnalysis.takeProfit) / 
                        Math.abs(smartAnalysis.entryPrice - smartAnalysis.stopLoss),
     };
+    this.syncPrimarySymbol();
+    this.events.emit('analysis.updated', {
+      symbol,
+      analysis: symbolState.analysis,
+      indicators: symbolState.indicators,
+      riskMetrics: symbolState.riskMetrics,
+    });
+  }
+
+  // Position limits and the daily loss breaker; strategy entries skip silently while one applies
+  private getEntryBlock(symbol: string): string | null {
+    const { maxOpenPositions, maxPositionsPerSymbol } = this.state.config;
+    const openPositions = this.state.positions.filter(p => p.status !== 'CLOSED'); // Pending entries count too
+
+    if (openPositions.length >= maxOpenPositions) {
+      return `Max open positions (${maxOpenPositions}) reached`;
+    }
+    if (openPositions.filter(p => p.symbol === symbol).length >= maxPositionsPerSymbol) {
+      return `Max positions for ${symbol} (${maxPositionsPerSymbol}) reached`;
+    }
+    if (this.dailyLossGuard.isHalted()) {
+      return 'Daily loss limit reached; new entries are blocked until the next trading day';
+    }
+    return null;
   }
 
-  private async shouldOpenSmartPosition(smartAnalysis: SmartAnalysisResult): Promise<boolean> {
+  // Account-level checks every entry must pass, strategy or manual; returns the failed ones
+  private getAccountRiskFailures(entryPrice: number, stopLoss: number, quantity: number): string[] {
+    const { maxPortfolioRisk, maxDrawdown } = this.state.config;
+    const failures: string[] = [];
+
+    if (this.state.status.currentDrawdown >= maxDrawdown) {
+      failures.push(`Drawdown: ${(this.state.status.currentDrawdown * 100).toFixed(1)}%`);
+    }
+    if (this.state.status.currentBalance <= this.state.config.initialCapital * 0.95) { // Not lost more than 5%
+      failures.push('Account health concern');
+    }
+
+    // Portfolio check: combined stop-loss risk including the new position
+    const newRisk = Math.abs(entryPrice - stopLoss) * quantity;
+    if (this.getPortfolioRisk() + newRisk > this.state.status.currentBalance * maxPortfolioRisk) {
+      failures.push(`Portfolio risk limit ${(maxPortfolioRisk * 100).toFixed(1)}%`);
+    }
+    return failures;
+  }
+
+  private async shouldOpenSmartPosition(symbol: string, smartAnalysis: SmartAnalysisResult): Promise<boolean> {
     // Ultra-conservative position opening with smart analysis
-    const hasOpenPositions = this.state.positions.some(p => p.status === 'OPEN');
-    
-    if (hasOpenPositions) {
-      return false; // Only one position at a time for safety
+    if (this.getEntryBlock(symbol)) {
+      return false;
     }
 
     // Ultra-strict requirements for opening positions
-    const ultraHighConfidence = smartAnalysis.confidence >= 85; // Increased from 75
+    const { minConfidence, minProbability } = this.state.config;
+    const ultraHighConfidence = smartAnalysis.confidence >= minConfidence;
     const strongSignal = smartAnalysis.signal === 'STRONG_BUY' || smartAnalysis.signal === 'STRONG_SELL';
     const lowRisk = smartAnalysis.riskLevel === 'VERY_LOW' || smartAnalysis.riskLevel === 'LOW';
-    const goodProbability = smartAnalysis.probability >= 0.8;
-    
-    // Account health checks
-    const notMaxDrawdown = this.state.status.maxDrawdown < 0.1; // Max 10% drawdown
-    const accountHealth = this.state.status.currentBalance > this.state.config.initialCapital * 0.95; // Not lost more than 5%
+    const goodProbability = smartAnalysis.probability >= minProbability;
     
     // Market condition checks
-    const sufficientData = this.smartEngine['priceHistory'].length >= 50;
+    const sufficientData = this.getSymbolContext(symbol).strategy.isReady();
+
+    const riskFailures = this.getAccountRiskFailures(smartAnalysis.entryPrice, smartAnalysis.stopLoss, smartAnalysis.positionSize);
     
     const shouldOpen = ultraHighConfidence && strongSignal && lowRisk && goodProbability && 
-                      notMaxDrawdown && accountHealth && sufficientData;
+                      sufficientData && riskFailures.length === 0;
 
     if (!shouldOpen) {
-      let reason = 'Waiting for optimal conditions: ';
+      const reason = `${symbol} waiting for optimal conditions: `;
       const reasons = [];
-      if (!ultraHighConfidence) reasons.push(`Confidence ${smartAnalysis.confidence}% < 85%`);
+      if (!ultraHighConfidence) reasons.push(`Confidence ${smartAnalysis.confidence}% < ${minConfidence}%`);
       if (!strongSignal) reasons.push(`Signal: ${smartAnalysis.signal}`);
       if (!lowRisk) reasons.push(`Risk: ${smartAnalysis.riskLevel}`);
       if (!goodProbability) reasons.push(`Probability: ${(smartAnalysis.probability * 100).toFixed(1)}%`);
-      if (!notMaxDrawdown) reasons.push(`Drawdown: ${(this.state.status.maxDrawdown * 100).toFixed(1)}%`);
-      if (!accountHealth) reasons.push('Account health concern');
       if (!sufficientData) reasons.push('Insufficient market data');
+      reasons.push(...riskFailures);
       
-      this.addAction('ANALYSIS', reason + reasons.join(', '), true);
+      this.log('ANALYSIS', reason + reasons.join(', '), true);
     }
 
     return shouldOpen;
   }
 
-  private async openSmartPosition(smartAnalysis: SmartAnalysisResult): Promise<void> {
+  private async openSmartPosition(symbol: string, smartAnalysis: StrategySignal): Promise<void> {
     try {
       const isLong = smartAnalysis.signal === 'STRONG_BUY' || smartAnalysis.signal === 'BUY';
       
       // Use smart analysis for position parameters
       const position: Position = {
-        id: `smart_pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        symbol: this.state.marketData.symbol,
+        id: this.nextId('smart_pos'),
+        symbol,
         type: isLong ? 'LONG' : 'SHORT',
         entryPrice: smartAnalysis.entryPrice,
         currentPrice: smartAnalysis.entryPrice,
@@ -839,50 +1543,74 @@ export class EnhancedTradingBot {
         stopLoss: smartAnalysis.stopLoss,
         takeProfit: smartAnalysis.takeProfit,
         unrealizedPnL: 0,
-        timestamp: new Date(),
-        status: 'OPEN',
+        timestamp: this.clock.now(),
+        status: 'PENDING',
       };
 
-      // Place order with broker if connected
-      if (this.isConnectedToBroker) {
-        await this.placeRealOrder(position);
+      const order = await this.submitEntryOrder(position, `AI Bot - Confidence: ${smartAnalysis.confidence.toFixed(1)}%`);
+      if (order.status === 'REJECTED') {
+        this.events.emit('order.rejected', { symbol, side: position.type, source: 'STRATEGY', reason: order.rejectReason ?? 'unknown' });
+        return;
       }
 
       this.state.positions.push(position);
+      const decision: JournalDecision = {
+        strategyId: smartAnalysis.strategyId,
+        signal: smartAnalysis.signal,
+        confidence: smartAnalysis.confidence,
+        probability: smartAnalysis.probability,
+        riskLevel: smartAnalysis.riskLevel,
+        direction: smartAnalysis.direction,
+        strength: smartAnalysis.strength,
+        reasoning: [...smartAnalysis.reasoning],
+        timeframe: smartAnalysis.timeframe,
+      };
+
+      if (position.status === 'PENDING') {
+        this.pendingDecisions.set(position.id, decision);
+        this.events.emit('position.pending', { position: { ...position }, source: 'STRATEGY' });
+        return;
+      }
+      await this.journalOpen(position, decision);
       
-      this.addAction(
-        'OPEN_POSITION',
-        `Smart ${position.type} position opened: Entry ${position.entryPrice.toFixed(2)}, ` +
-        `SL ${position.stopLoss.toFixed(2)}, TP ${position.takeProfit.toFixed(2)} ` +
-        `(Confidence: ${smartAnalysis.confidence.toFixed(1)}%, Risk: ${smartAnalysis.riskLevel})`,
-        true
-      );
+      this.events.emit('position.opened', {
+        position: { ...position },
+        source: 'STRATEGY',
+        detail: `Confidence: ${smartAnalysis.confidence.toFixed(1)}%, Risk: ${smartAnalysis.riskLevel}`,
+      });
 
     } catch (error) {
-      this.addAction('OPEN_POSITION', `Failed to open smart position: ${error}`, false);
+      this.log('OPEN_POSITION', `Failed to open smart position: ${error}`, false);
     }
   }
 
-  private async manageSmartPositions(smartAnalysis: SmartAnalysisResult): Promise<void> {
+  private async manageSmartPositions(symbol: string, smartAnalysis: SmartAnalysisResult): Promise<void> {
     for (const position of this.state.positions) {
-      if (position.status === 'OPEN') {
+      if (position.status === 'OPEN' && position.symbol === symbol) {
         // Update position current price
-        position.currentPrice = this.state.marketData.price;
+        position.currentPrice = this.getMarketPrice(position);
         position.unrealizedPnL = this.calculateUnrealizedPnL(position);
 
+        if (position.manual) {
+          const exit = this.checkStopAndTarget(position);
+          if (exit) await this.tryClosePosition(position.id, exit.reason, exit.trigger);
+          continue;
+        }
+
         // Smart trailing stop management
         await this.updateSmartTrailingStop(position, smartAnalysis);
 
         // Enhanced exit condition checking
-        if (await this.shouldCloseSmartPosition(position, smartAnalysis)) {
-          await this.closePosition(position.id, 'Smart exit condition triggered');
+        const exit = await this.shouldCloseSmartPosition(position, smartAnalysis);
+        if (exit) {
+          await this.tryClosePosition(position.id, exit.reason, exit.trigger);
         }
       }
     }
   }
 
   private async updateSmartTrailingStop(position: Position, smartAnalysis: SmartAnalysisResult): Promise<void> {
-    const currentPrice = this.state.marketData.price;
+    const currentPrice = this.getMarketPrice(position);
     const entryPrice = position.entryPrice;
     
     // Calculate profit percentage
@@ -900,45 +1628,53 @@ export class EnhancedTradingBot {
         if (newStopLoss > position.stopLoss) {
           const oldStopLoss = position.stopLoss;
           position.stopLoss = newStopLoss;
-          this.addAction('UPDATE_SL', 
-            `Smart trailing stop: ${oldStopLoss.toFixed(2)} → ${newStopLoss.toFixed(2)} ` +
-            `(Profit: ${(profitPercent * 100).toFixed(1)}%)`, true);
+          await this.journalStopLossChange(position, oldStopLoss, profitPercent);
         }
       } else {
         const newStopLoss = currentPrice + trailDistance;
         if (newStopLoss < position.stopLoss) {
           const oldStopLoss = position.stopLoss;
           position.stopLoss = newStopLoss;
-          this.addAction('UPDATE_SL', 
-            `Smart trailing stop: ${oldStopLoss.toFixed(2)} → ${newStopLoss.toFixed(2)} ` +
-            `(Profit: ${(profitPercent * 100).toFixed(1)}%)`, true);
+          await this.journalStopLossChange(position, oldStopLoss, profitPercent);
         }
       }
     }
   }
 
-  private async shouldCloseSmartPosition(position: Position, smartAnalysis: SmartAnalysisResult): Promise<boolean> {
-    const currentPrice = this.state.marketData.price;
-    
+  private async journalStopLossChange(position: Position, previous: number, profitPercent: number): Promise<void> {
+    await this.journal.append({
+      event: 'MODIFY',
+      positionId: position.id,
+      symbol: position.symbol,
+      field: 'STOP_LOSS',
+      previous,
+      value: position.stopLoss,
+      marketPrice: this.getMarketPrice(position),
+      reason: `Smart trailing stop (Profit: ${(profitPercent * 100).toFixed(1)}%)`,
+    });
+    this.events.emit('sl.updated', {
+      position: { ...position },
+      previous,
+      reason: `smart trailing stop at ${(profitPercent * 100).toFixed(1)}% profit`,
+    });
+  }
+
+  private async shouldCloseSmartPosition(position: Position, smartAnalysis: SmartAnalysisResult): Promise<ExitDecision | null> {
     // Standard stop loss and take profit checks
-    if (position.type === 'LONG') {
-      if (currentPrice <= position.stopLoss || currentPrice >= position.takeProfit) {
-        return true;
-      }
-    } else {
-      if (currentPrice >= position.stopLoss || currentPrice <= position.takeProfit) {
-        return true;
-      }
+    const levelExit = this.checkStopAndTarget(position);
+    if (levelExit) {
+      return levelExit;
     }
 
     // Smart exit conditions
-    const positionAge = Date.now() - position.timestamp.getTime();
+    const positionAge = this.clock.now().getTime() - position.timestamp.getTime();
     const maxHoldTime = smartAnalysis.timeframe * 60 * 1000; // Convert minutes to milliseconds
     
     // Time-based exit
     if (positionAge > maxHoldTime) {
-      this.addAction('ANALYSIS', `Position held for ${Math.floor(positionAge / 60000)} minutes - time limit reached`, true);
-      return true;
+      const reason = `Position held for ${Math.floor(positionAge / 60000)} minutes - time limit reached`;
+      this.log('ANALYSIS', reason, true);
+      return { trigger: 'TIME_LIMIT', reason };
     }
 
     // Smart analysis reversal detection
@@ -947,23 +1683,55 @@ export class EnhancedTradingBot {
     
     if ((positionDirection === 'LONG' && (currentSignal === 'STRONG_SELL' || currentSignal === 'SELL')) ||
         (positionDirection === 'SHORT' && (currentSignal === 'STRONG_BUY' || currentSignal === 'BUY'))) {
-      this.addAction('ANALYSIS', `Smart exit: Market analysis reversed (Signal: ${currentSignal})`, true);
-      return true;
+      const reason = `Smart exit: Market analysis reversed (Signal: ${currentSignal})`;
+      this.log('ANALYSIS', reason, true);
+      return { trigger: 'SIGNAL_REVERSAL', reason };
     }
 
     // Risk level escalation
     if (smartAnalysis.riskLevel === 'EXTREME' || smartAnalysis.riskLevel === 'HIGH') {
-      this.addAction('ANALYSIS', `Smart exit: Risk level escalated to ${smartAnalysis.riskLevel}`, true);
-      return true;
+      const reason = `Smart exit: Risk level escalated to ${smartAnalysis.riskLevel}`;
+      this.log('ANALYSIS', reason, true);
+      return { trigger: 'RISK_ESCALATION', reason };
     }
 
     // Confidence drop
     if (smartAnalysis.confidence < 50) {
-      this.addAction('ANALYSIS', `Smart exit: Confidence dropped to ${smartAnalysis.confidence.toFixed(1)}%`, true);
-      return true;
+      const reason = `Smart exit: Confidence dropped to ${smartAnalysis.confidence.toFixed(1)}%`;
+      this.log('ANALYSIS', reason, true);
+      return { trigger: 'CONFIDENCE_DROP', reason };
     }
 
-    return false;
+    return null;
+  }
+
+  // Starts a new daily loss ledger at the trading-day boundary
+  private rollDailyLossSession(): void {
+    const previous = this.dailyLossGuard.roll(this.state.config, this.state.status.currentBalance, this.clock.now());
+    this.state.dailyLoss = this.dailyLossGuard.getLedger();
+    if (previous?.halted) {
+      this.events.emit('daily_loss.reset', {});
+    }
+  }
+
+  private async enforceDailyLoss(): Promise<void> {
+    this.rollDailyLossSession();
+    const tripped = this.dailyLossGuard.update(this.state.trades, this.state.positions, this.clock.now());
+    if (!tripped) return;
+
+    this.events.emit('daily_loss.tripped', { ledger: { ...this.state.dailyLoss! } });
+
+    if (this.state.config.flattenOnDailyLoss) {
+      try {
+        await this.closeOpenPositions('Daily loss limit reached', 'DAILY_LOSS');
+      } catch {
+        // Positions the broker would not close were reported as broker.error; the bot stops regardless
+      }
+      this.dailyLossGuard.update(this.state.trades, this.state.positions, this.clock.now());
+      this.stopTradingLoop();
+      this.state.status.isRunning = false;
+      this.events.emit('bot.stopped', { reason: 'daily loss breaker' });
+    }
   }
 
   private updateSmartBotMetrics(): void {
@@ -972,24 +1740,20 @@ export class EnhancedTradingBot {
       const winningTrades = this.state.trades.filter(t => t.profit > 0).length;
       this.state.status.winRate = (winningTrades / this.state.trades.length) * 100;
       
-      // Record results in smart engine for learning
+      // Record results in the symbol's strategy for learning
       this.state.trades.forEach(trade => {
-        this.smartEngine.recordTradeResult(trade, trade.profit > 0);
+        this.symbolContexts.get(trade.symbol)?.strategy.recordTradeResult?.(trade, trade.profit > 0);
       });
     }
 
-    // Update max drawdown
-    const currentDrawdown = Math.max(0, (this.state.config.initialCapital - this.state.status.currentBalance) / this.state.config.initialCapital);
-    if (currentDrawdown > this.state.status.maxDrawdown) {
-      this.state.status.maxDrawdown = currentDrawdown;
-    }
+    this.updateDrawdown();
 
-    // Get performance metrics from smart engine
-    const smartMetrics = this.smartEngine.getPerformanceMetrics();
+    // Get performance metrics from the primary symbol's strategy, if it tracks any
+    const smartMetrics = this.getSymbolContext(this.state.watchlist[0]).strategy.getPerformanceMetrics?.();
     
     // Add smart metrics to actions log
-    if (this.state.trades.length > 0 && this.state.trades.length % 5 === 0) { // Every 5 trades
-      this.addAction('ANALYSIS', 
+    if (smartMetrics && this.state.trades.length > 0 && this.state.trades.length % 5 === 0) { // Every 5 trades
+      this.log('ANALYSIS', 
         `Smart metrics: Win rate ${smartMetrics.winRate.toFixed(1)}%, ` +
         `Profit factor ${smartMetrics.profitFactor.toFixed(2)}, ` +
         `Learning rate ${(smartMetrics.learningRate * 100).toFixed(1)}%`, true);
@@ -1000,21 +1764,26 @@ export class EnhancedTradingBot {
     this.updateSmartBotMetrics();
   }
 
-  private addAction(type: BotAction['type'], details: string, success: boolean, error?: string): void {
-    this.state.actions.unshift({
-      type,
-      timestamp: new Date(),
-      details,
-      success,
-      error,
-    });
+  private nextId(prefix: string): string {
+    return `${prefix}_${this.clock.now().getTime()}_${++this.idSequence}`;
+  }
 
-    // Keep only last 50 actions
-    if (this.state.actions.length > 50) {
-      this.state.actions = this.state.actions.slice(0, 50);
+  // Action log entry that no typed event describes
+  private log(action: BotAction['type'], message: string, success: boolean): void {
+    this.events.emit('bot.log', { action, message, success });
+  }
+
+  // Action log subscriber
+  private recordAction(action: BotAction): void {
+    this.state.actions.unshift(action);
+
+    // Keep only the most recent actions
+    if (this.state.actions.length > this.maxActions) {
+      this.state.actions = this.state.actions.slice(0, this.maxActions);
     }
 
-    this.state.status.lastAction = details;
+    this.state.status.lastAction = action.details;
+    this.events.emit('action.logged', { action });
   }
 
   // Public getters
@@ -1026,25 +1795,519 @@ export class EnhancedTradingBot {
     return { ...this.state.status };
   }
 
+  async getMultiTimeframeAnalysis(symbol: string = this.state.watchlist[0]): Promise<{ candles: MultiTimeframeCandles; analysis: MultiTimeframeAnalysis }> {
+    const candles = await this.marketDataProvider.getMultiTimeframeData(symbol);
+    const analysis = await this.aiAnalyzer.analyzeMultiTimeframe(candles);
+    return { candles, analysis };
+  }
+
+  getSimulationInfo(): { seed: number; startTime: Date } {
+    return {
+      seed: this.simulationSeed,
+      startTime: new Date(this.simulationStart),
+    };
+  }
+
+  // Restarts the simulated price paths from the given seed (e.g. to reproduce a reported session)
+  setSimulationSeed(seed: number): void {
+    this.simulationSeed = seed;
+    this.simulationStart = this.clock.now();
+    this.rebuildSymbolContexts();
+    this.log('RESET', `Simulation seed set to ${seed}`, true);
+  }
+
+  getWatchlist(): string[] {
+    return [...this.state.watchlist];
+  }
+
+  // Replaces the traded symbols; the first one is mirrored in the top-level market data and analysis
+  async setWatchlist(symbols: string[]): Promise<void> {
+    await this.ready;
+
+    const watchlist = Array.from(new Set(symbols.map(s => s.trim()).filter(s => s !== '')));
+    if (watchlist.length === 0) {
+      throw new Error('Watchlist must contain at least one symbol');
+    }
+
+    await this.waitForCycle(); // A running cycle may still open a position on a symbol being removed
+    const orphaned = this.state.positions.filter(p => p.status !== 'CLOSED' && !watchlist.includes(p.symbol));
+    if (orphaned.length > 0) {
+      const orphanedSymbols = Array.from(new Set(orphaned.map(p => p.symbol)));
+      throw new Error(`Close open positions on ${orphanedSymbols.join(', ')} before removing them from the watchlist`);
+    }
+
+    // Added symbols join the simulation at the current bar so all feeds stay in step
+    const currentBar = Math.max(0, ...Array.from(this.symbolContexts.values()).map(c => c.feed.getBarCount()));
+    const symbolStates: Record<string, SymbolState> = {};
+    const contexts = new Map<string, SymbolContext>();
+    for (const symbol of watchlist) {
+      symbolStates[symbol] = this.state.symbols[symbol] || this.createSymbolState(symbol, this.state.config);
+      contexts.set(symbol, this.symbolContexts.get(symbol) || this.createSymbolContext(symbol, currentBar));
+    }
+
+    this.state.watchlist = watchlist;
+    this.state.symbols = symbolStates;
+    this.symbolContexts = contexts;
+    this.syncPrimarySymbol();
+
+    this.events.emit('watchlist.changed', { watchlist: [...watchlist] });
+    await this.commitState();
+  }
+
+  private createMarketFeed(symbol: string): SimulatedMarketFeed {
+    return new SimulatedMarketFeed({
+      symbol,
+      seed: deriveSeed(this.simulationSeed, symbol),
+      basePrice: getDefaultBasePrice(symbol),
+      startTime: this.simulationStart,
+      intervalMs: 1500, // Matches the trading cycle interval
+    }, this.clock);
+  }
+
+  private createSymbolContext(symbol: string, barsGenerated: number = 0): SymbolContext {
+    const feed = this.createMarketFeed(symbol);
+    feed.skip(barsGenerated);
+    return { strategy: strategyRegistry.create(this.strategyId, this.clock), feed };
+  }
+
+  // Fresh strategies and feeds for every watchlist symbol, optionally resuming the feeds
+  private rebuildSymbolContexts(barsGenerated: Record<string, number> = {}): void {
+    this.symbolContexts = new Map(
+      this.state.watchlist.map(symbol => [symbol, this.createSymbolContext(symbol, barsGenerated[symbol])])
+    );
+  }
+
+  private getSymbolContext(symbol: string): SymbolContext {
+    const context = this.symbolContexts.get(symbol);
+    if (!context) {
+      throw new Error(`Symbol not on watchlist: ${symbol}`);
+    }
+    return context;
+  }
+
+  private getSymbolState(symbol: string): SymbolState {
+    const symbolState = this.state.symbols[symbol];
+    if (!symbolState) {
+      throw new Error(`Symbol not on watchlist: ${symbol}`);
+    }
+    return symbolState;
+  }
+
+  private syncPrimarySymbol(): void {
+    const primary = this.getSymbolState(this.state.watchlist[0]);
+    this.state.marketData = primary.marketData;
+    this.state.analysis = primary.analysis;
+    this.state.indicators = primary.indicators;
+    this.state.riskMetrics = primary.riskMetrics;
+  }
+
+  private getMarketPrice(position: Position): number {
+    return this.state.symbols[position.symbol]?.marketData.price ?? position.currentPrice;
+  }
+
+  // Loss to stop across open positions; stops trailed past entry count as zero risk
+  private getPortfolioRisk(): number {
+    return this.state.positions
+      .filter(p => p.status === 'OPEN')
+      .reduce((total, p) => {
+        const stopDistance = p.type === 'LONG' ? p.entryPrice - p.stopLoss : p.stopLoss - p.entryPrice;
+        return total + Math.max(0, stopDistance) * p.quantity;
+      }, 0);
+  }
+
+  // Resolves once any persisted state has been restored
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  private createSnapshot(): BotStateSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: this.clock.now(),
+      state: this.state,
+      openTickets: this.state.positions
+        .filter(p => p.status === 'OPEN' && p.brokerTicket)
+        .map(p => ({ positionId: p.id, ticket: p.brokerTicket! })),
+      strategyId: this.strategyId,
+      paperBroker: this.paperBroker?.exportState(),
+      configHistory: this.configHistory.exportState(),
+      simulation: {
+        seed: this.simulationSeed,
+        startTime: new Date(this.simulationStart),
+        barsGenerated: Object.fromEntries(
+          Array.from(this.symbolContexts.entries()).map(([symbol, context]) => [symbol, context.feed.getBarCount()])
+        ),
+      },
+    };
+  }
+
+  // Every committed change passes through here, so it is also where status changes are published
+  // Checkpoint after a batch of changes: publishes the status and waits for the snapshot to be saved
+  private async commitState(): Promise<void> {
+    this.publishStatus();
+    this.events.emit('state.committed', {});
+    await this.persistence?.flush();
+  }
+
+  // Both read off the realized equity curve; entries are gated on the current one
+  private updateDrawdown(): void {
+    const curve = buildEquityCurve(this.state.trades, this.state.config.initialCapital);
+    this.state.status.maxDrawdown = curve.reduce((max, point) => Math.max(max, point.drawdownPercent / 100), 0);
+    this.state.status.currentDrawdown = curve.length > 0 ? curve[curve.length - 1].drawdownPercent / 100 : 0;
+  }
+
+  private async restoreState(): Promise<void> {
+    try {
+      const snapshot = await this.stateStore?.load();
+      if (!snapshot) return;
+
+      this.state = snapshot.state;
+      this.state.config = { ...this.createConfig(), ...this.state.config };
+      this.updateDrawdown(); // Snapshots written before currentDrawdown existed lack it
+      if (snapshot.strategyId && strategyRegistry.has(snapshot.strategyId)) {
+        this.strategyId = snapshot.strategyId;
+      }
+      if (snapshot.simulation) {
+        this.simulationSeed = snapshot.simulation.seed;
+        this.simulationStart = snapshot.simulation.startTime;
+      }
+      this.rebuildSymbolContexts(snapshot.simulation?.barsGenerated);
+      this.orderManager.restore(this.state.orders);
+      this.dailyLossGuard.restore(this.state.dailyLoss);
+      if (snapshot.paperBroker) {
+        this.paperBroker?.importState(snapshot.paperBroker);
+      }
+      // Snapshots from before versioning start a fresh history at the restored settings
+      this.configHistory.importState(snapshot.configHistory ?? { versions: [], profiles: [] });
+      this.recordConfigVersion('system', 'Restored configuration');
+
+      const openPositions = this.state.positions.filter(p => p.status === 'OPEN');
+      this.events.emit('state.restored', {
+        savedAt: snapshot.savedAt,
+        openPositions: openPositions.length,
+        openTickets: snapshot.openTickets.length,
+      });
+
+      await this.revalidateOpenPositions();
+
+      if (this.state.status.isRunning && !this.state.status.targetReached) {
+        this.startTradingLoop();
+        this.events.emit('bot.started', { resumed: true });
+      } else {
+        this.state.status.isRunning = false;
+      }
+
+      await this.commitState();
+    } catch (error) {
+      console.error('Failed to restore bot state:', error);
+      this.log('RESTORE', `Failed to restore persisted state: ${error}`, false);
+    }
+  }
+
+  // Prices may have moved while the bot was down - close anything whose stop or target was crossed
+  private async revalidateOpenPositions(): Promise<void> {
+    const openPositions = this.state.positions.filter(p => p.status === 'OPEN');
+    if (openPositions.length === 0) return;
+
+    const symbols = Array.from(new Set(openPositions.map(p => p.symbol))).filter(s => this.symbolContexts.has(s));
+    const quoted = new Set<string>();
+    for (const symbol of symbols) {
+      try {
+        await this.updateSmartMarketData(symbol);
+        quoted.add(symbol);
+      } catch (error) {
+        this.log('BROKER_ERROR', `Could not revalidate ${symbol} positions: ${error}`, false);
+      }
+    }
+
+    for (const position of openPositions.filter(p => quoted.has(p.symbol))) {
+      const currentPrice = this.getMarketPrice(position);
+      position.currentPrice = currentPrice;
+      position.unrealizedPnL = this.calculateUnrealizedPnL(position);
+
+      const isLong = position.type === 'LONG';
+      const stopHit = isLong ? currentPrice <= position.stopLoss : currentPrice >= position.stopLoss;
+      const targetHit = isLong ? currentPrice >= position.takeProfit : currentPrice <= position.takeProfit;
+
+      if (stopHit) {
+        await this.tryClosePosition(position.id, 'Stop loss crossed while offline', 'STOP_LOSS');
+      } else if (targetHit) {
+        await this.tryClosePosition(position.id, 'Take profit crossed while offline', 'TAKE_PROFIT');
+      }
+    }
+  }
+
+  getStrategy(): { id: string; name: string } {
+    const { strategy } = this.getSymbolContext(this.state.watchlist[0]);
+    return { id: strategy.id, name: strategy.name };
+  }
+
+  // Swaps the analysis engine; the new strategy starts with an empty history
+  async setStrategy(strategyId: string, changedBy: string = 'system'): Promise<void> {
+    await this.ready;
+    await this.waitForCycle(); // Every symbol in a cycle runs the same strategy
+
+    if (this.state.positions.some(p => p.status !== 'CLOSED')) {
+      throw new Error('Close open positions before switching strategy');
+    }
+
+    strategyRegistry.create(strategyId, this.clock); // Throws for an unknown id before anything changes
+    this.switchStrategy(strategyId);
+    this.recordConfigVersion(changedBy, 'Strategy switch');
+    this.events.emit('strategy.changed', { strategyId, name: this.getStrategy().name });
+    await this.commitState();
+  }
+
+  private switchStrategy(strategyId: string): void {
+    this.strategyId = strategyId;
+    this.symbolContexts.forEach(context => {
+      context.strategy = strategyRegistry.create(strategyId, this.clock);
+    });
+  }
+
+  getConfig(): BotConfig {
+    return { ...this.state.config };
+  }
+
+  // Applies validated changes between trading cycles; they also survive a reset
+  async updateConfig(update: Partial<BotConfig>, changedBy: string = 'system'): Promise<BotConfig> {
+    await this.ready;
+    await this.waitForCycle();
+
+    const changes = this.validateConfigChanges(update);
+    if (Object.keys(changes).length === 0) return this.getConfig();
+
+    const previous = this.applyConfigChanges(changes);
+    this.publishConfigChange(previous, changedBy, 'Config update');
+    await this.commitState();
+    return this.getConfig();
+  }
+
+  private async waitForCycle(): Promise<void> {
+    while (this.cycleInFlight) {
+      await this.cycleInFlight;
+    }
+  }
+
+  private validateConfigChanges(update: unknown): Partial<BotConfig> {
+    const result = validateBotConfigUpdate(this.state.config, update);
+    if (!result.success) {
+      throw new Error(`Invalid configuration: ${formatBotConfigErrors(result.errors)}`);
+    }
+    const { changes } = result;
+    if (changes.initialCapital !== undefined && (this.state.trades.length > 0 || this.state.positions.some(p => p.status !== 'CLOSED'))) {
+      throw new Error('Initial capital can only change before the first trade; reset the bot first');
+    }
+    return changes;
+  }
+
+  // Returns the previous values of the changed keys
+  private applyConfigChanges(changes: Partial<BotConfig>): Partial<BotConfig> {
+    const capitalChanged = changes.initialCapital !== undefined;
+    const previous: Partial<BotConfig> = {};
+    (Object.keys(changes) as (keyof BotConfig)[]).forEach(key => Object.assign(previous, { [key]: this.state.config[key] }));
+    this.state.config = { ...this.state.config, ...changes };
+    this.configOverrides = { ...this.configOverrides, ...changes };
+
+    if (capitalChanged) {
+      // Nothing was traded yet, so the account simply starts over with the new capital
+      this.state.status.currentBalance = this.state.config.initialCapital;
+      this.state.status.totalProfit = 0;
+      if (this.paperBroker) {
+        this.paperBroker.importState({ ...this.paperBroker.exportState(), balance: this.state.status.currentBalance });
+      }
+      this.dailyLossGuard.restore(undefined);
+      this.rollDailyLossSession();
+    } else {
+      this.dailyLossGuard.reconfigure(this.state.config, this.clock.now());
+      this.state.dailyLoss = this.dailyLossGuard.getLedger();
+    }
+    return previous;
+  }
+
+  private publishConfigChange(previous: Partial<BotConfig>, changedBy: string, reason: string, profile?: string): void {
+    const version = this.recordConfigVersion(changedBy, reason, profile);
+    this.events.emit('config.changed', {
+      config: this.getConfig(),
+      previous,
+      version: version?.version ?? this.configHistory.getCurrentVersion()!.version,
+      changedBy,
+    });
+  }
+
+  private recordConfigVersion(changedBy: string, reason: string, profile?: string): ConfigVersion | null {
+    return this.configHistory.record({ config: this.state.config, strategyId: this.strategyId }, { changedBy, reason, profile });
+  }
+
+  // Newest first
+  getConfigVersions(limit?: number): ConfigVersion[] {
+    return this.configHistory.getVersions(limit);
+  }
+
+  getCurrentConfigVersion(): ConfigVersion {
+    return this.configHistory.getCurrentVersion()!;
+  }
+
+  // Closed trades grouped by the config version their position was opened under
+  getConfigPerformance(): ConfigVersionPerformance[] {
+    return summarizeConfigPerformance(this.state.trades);
+  }
+
+  getPerformanceAnalytics(): PerformanceAnalytics {
+    return computePerformanceAnalytics(this.state.trades, {
+      initialCapital: this.state.config.initialCapital,
+      openPositions: this.state.positions,
+      startTime: this.state.status.startTime,
+      now: this.clock.now(),
+    });
+  }
+
+  getConfigProfiles(): ConfigProfile[] {
+    return this.configHistory.getProfiles();
+  }
+
+  // Saves the current settings under name, with any given overrides; an existing profile is replaced
+  async saveConfigProfile(
+    name: string,
+    input: { description?: string; config?: Partial<ProfileConfig>; strategyId?: string } = {},
+    changedBy: string = 'system'
+  ): Promise<ConfigProfile> {
+    await this.ready;
+
+    const profileName = name.trim();
+    if (profileName === '' || profileName.length > 64) {
+      throw new Error('Profile name must be 1-64 characters');
+    }
+    const strategyId = input.strategyId ?? this.strategyId;
+    if (!strategyRegistry.has(strategyId)) {
+      throw new Error(`Unknown strategy: ${strategyId}`);
+    }
+    const result = validateBotConfigUpdate(this.state.config, { ...toProfileConfig(this.state.config), ...input.config });
+    if (!result.success) {
+      throw new Error(`Invalid configuration: ${formatBotConfigErrors(result.errors)}`);
+    }
+
+    const profile = this.configHistory.saveProfile(profileName, {
+      config: toProfileConfig({ ...this.state.config, ...result.changes }),
+      strategyId,
+      description: input.description,
+    }, changedBy);
+    this.events.emit('config.profile_saved', { name: profileName, changedBy });
+    await this.commitState();
+    return profile;
+  }
+
+  async deleteConfigProfile(name: string, changedBy: string = 'system'): Promise<void> {
+    await this.ready;
+    if (!this.configHistory.deleteProfile(name)) {
+      throw new Error(`Profile ${name} not found`);
+    }
+    this.events.emit('config.profile_deleted', { name, changedBy });
+    await this.commitState();
+  }
+
+  // Switches config and strategy to the profile's between trading cycles; the initial capital is kept
+  async applyConfigProfile(name: string, changedBy: string = 'system'): Promise<ConfigVersion> {
+    await this.ready;
+    await this.waitForCycle();
+
+    const profile = this.configHistory.getProfile(name);
+    if (!profile) {
+      throw new Error(`Profile ${name} not found`);
+    }
+    const strategyChanged = profile.strategyId !== this.strategyId;
+    if (strategyChanged) {
+      if (!strategyRegistry.has(profile.strategyId)) {
+        throw new Error(`Profile ${name} uses unknown strategy ${profile.strategyId}`);
+      }
+      if (this.state.positions.some(p => p.status !== 'CLOSED')) {
+        throw new Error(`Close open positions before applying profile ${name}; it switches strategy`);
+      }
+    }
+    const changes = this.validateConfigChanges(profile.config);
+
+    const previous = this.applyConfigChanges(changes);
+    if (strategyChanged) {
+      this.switchStrategy(profile.strategyId);
+    }
+    const reason = `Applied profile ${name}`;
+    if (Object.keys(changes).length > 0) {
+      this.publishConfigChange(previous, changedBy, reason, name);
+    } else {
+      this.recordConfigVersion(changedBy, reason, name);
+    }
+    if (strategyChanged) {
+      this.events.emit('strategy.changed', { strategyId: this.strategyId, name: this.getStrategy().name });
+    }
+
+    const version = this.getCurrentConfigVersion();
+    this.events.emit('config.profile_applied', { name, version: version.version, changedBy });
+    await this.commitState();
+    return version;
+  }
+
+  getEventBus(): BotEventBus {
+    return this.events;
+  }
+
+  private publishStatus(): void {
+    const { status, dailyLoss } = this.state;
+    const serialized = JSON.stringify({ status, dailyLoss });
+    if (serialized === this.lastPublishedStatus) return;
+    this.lastPublishedStatus = serialized;
+    this.events.emit('status.changed', { status: { ...status }, dailyLoss: dailyLoss && { ...dailyLoss } });
+  }
+
+  getJournal(): TradeJournal {
+    return this.journal;
+  }
+
   getBrokerConnection(): boolean {
     return this.isConnectedToBroker;
   }
 
+  // True while orders go to the built-in paper broker rather than a real one
+  isPaperTrading(): boolean {
+    return this.isConnectedToBroker && !!this.paperBroker && brokerManager.getActiveBroker() === this.paperBroker;
+  }
+
   async getBrokerAccountInfo(): Promise<any> {
     if (!this.isConnectedToBroker) return null;
+    if (!this.brokerMonitor.isHealthy()) {
+      return brokerManager.getConnection()?.accountInfo ?? null; // Last known values rather than a failing call
+    }
     return await brokerManager.getAccountInfo();
   }
 
-  reset(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = undefined;
+  // Starts over from a fresh account once the running cycle is done; resolves after the reset state is saved
+  async reset(): Promise<void> {
+    await this.ready;
+    this.stopTradingLoop();
+    await this.waitForCycle();
+
+    this.state = this.initializeState(this.state.watchlist);
+    this.recordConfigVersion('system', 'Reset');
+    this.orderManager.restore(this.state.orders);
+    this.pendingDecisions.clear();
+    this.lastReconciliation = undefined;
+    this.lastReconcileAttempt = -Infinity;
+    this.dailyLossGuard = new DailyLossGuard();
+    if (this.paperBroker) {
+      this.paperBroker.importState({ ...this.paperBroker.exportState(), balance: this.state.status.currentBalance, orders: [] });
     }
-    
-    this.state = this.initializeState();
-    this.addAction('RESET', 'Enhanced trading bot reset to initial state', true);
+    this.simulationStart = this.clock.now();
+    this.rebuildSymbolContexts();
+    this.events.emit('bot.reset', {});
+    await this.commitState();
   }
 }
 
+const notifier = createNotifierFromEnv();
+
 // Export enhanced singleton instance
-export const enhancedTradingBot = new EnhancedTradingBot();
\ No newline at end of file
+export const enhancedTradingBot = new EnhancedTradingBot({
+  stateStore: createStateStoreFromEnv(),
+  journal: createTradeJournalFromEnv(),
+  paperTrading: process.env.PAPER_TRADING !== 'false', // Set PAPER_TRADING=false to bypass the paper broker in simulation
+  subscribers: notifier ? [notifier.listener] : [],
+});
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonLinesCandles } from './historical-data';
+
+describe('parseJsonLinesCandles', () => {
+  it('reports lines that are not JSON objects by line number and keeps the rest', () => {
+    const text = [
+      '{"timestamp":"2026-03-02T09:00:00Z","open":1.1,"high":1.102,"low":1.098,"close":1.101,"volume":100}',
+      'null',
+      '42',
+      '[1.1, 1.102, 1.098, 1.101]',
+      '{"timestamp":"2026-03-02T09:01:00Z","open":1.101,"high":1.103,"low":1.1,"close":1.102,"volume":120}',
+    ].join('\n');
+
+    const dataset = parseJsonLinesCandles(text, { symbol: 'EUR/USD', timeframe: 'M1' });
+
+    expect(dataset.candles).toHaveLength(2);
+    expect(dataset.issues).toEqual([
+      { type: 'INVALID_ROW', line: 2, message: 'Missing or non-numeric OHLCV value' },
+      { type: 'INVALID_ROW', line: 3, message: 'Missing or non-numeric OHLCV value' },
+      { type: 'INVALID_ROW', line: 4, message: 'Missing or non-numeric OHLCV value' },
+    ]);
+  });
+});
@@ -0,0 +1,320 @@
+// Historical Market Data Import (CSV / JSON lines)
+
+import { parse as parseDate } from 'date-fns';
+import { Candle, Timeframe } from '@/types/trading';
+import { MarketDataFeed } from '@/types/broker';
+import { TIMEFRAMES, TIMEFRAME_MS, candleToMarketDataFeed } from './candles';
+import { zonedWallClockToUtc } from './timezone';
+
+export type TimestampFormat = 'iso' | 'unix' | 'unix_ms' | string; // Any other value is a date-fns pattern, e.g. 'yyyy.MM.dd HH:mm'
+
+export interface ColumnMapping {
+  timestamp: string | number; // Header name or zero-based column index
+  open: string | number;
+  high: string | number;
+  low: string | number;
+  close: string | number;
+  volume?: string | number;
+}
+
+export interface HistoricalImportOptions {
+  symbol: string;
+  timeframe: Timeframe;
+  timezone?: string; // 'UTC', an offset like '+02:00', or an IANA zone; used when timestamps carry no offset
+  timestampFormat?: TimestampFormat;
+  columns?: Partial<ColumnMapping>;
+}
+
+export interface CsvImportOptions extends HistoricalImportOptions {
+  delimiter?: string;
+  hasHeader?: boolean;
+}
+
+export interface DataValidationIssue {
+  type: 'INVALID_ROW' | 'DUPLICATE' | 'OUT_OF_ORDER' | 'GAP';
+  line?: number;
+  timestamp?: Date;
+  message: string;
+}
+
+export interface HistoricalDataset {
+  symbol: string;
+  timeframe: Timeframe;
+  candles: Candle[]; // Sorted, de-duplicated
+  issues: DataValidationIssue[];
+}
+
+const DEFAULT_COLUMNS: ColumnMapping = {
+  timestamp: 'timestamp',
+  open: 'open',
+  high: 'high',
+  low: 'low',
+  close: 'close',
+  volume: 'volume',
+};
+
+// Headerless files are read as timestamp, open, high, low, close, volume
+const POSITIONAL_COLUMNS: ColumnMapping = {
+  timestamp: 0,
+  open: 1,
+  high: 2,
+  low: 3,
+  close: 4,
+  volume: 5,
+};
+
+interface RawRow {
+  line: number;
+  get(field: string | number | undefined): string | number | undefined;
+}
+
+export function parseCsvCandles(text: string, options: CsvImportOptions): HistoricalDataset {
+  const delimiter = options.delimiter || ',';
+  const hasHeader = options.hasHeader ?? true;
+  const lines = text.split(/\r?\n/);
+
+  let header: string[] = [];
+  const rows: RawRow[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+    const cells = splitCsvLine(line, delimiter);
+
+    if (hasHeader && header.length === 0) {
+      header = cells.map(cell => cell.trim().toLowerCase());
+      return;
+    }
+
+    rows.push({
+      line: index + 1,
+      get: (field) => {
+        if (field === undefined) return undefined;
+        const column = typeof field === 'number' ? field : header.indexOf(field.toLowerCase());
+        return column >= 0 ? cells[column]?.trim() : undefined;
+      },
+    });
+  });
+
+  return buildDataset(rows, options, hasHeader ? DEFAULT_COLUMNS : POSITIONAL_COLUMNS);
+}
+
+export function parseJsonLinesCandles(text: string, options: HistoricalImportOptions): HistoricalDataset {
+  const rows: RawRow[] = [];
+  const issues: DataValidationIssue[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      const record = JSON.parse(line);
+      if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+        issues.push({ type: 'INVALID_ROW', line: index + 1, message: 'Missing or non-numeric OHLCV value' });
+        return;
+      }
+      rows.push({
+        line: index + 1,
+        get: (field) => field === undefined ? undefined : record[field],
+      });
+    } catch {
+      issues.push({ type: 'INVALID_ROW', line: index + 1, message: 'Malformed JSON' });
+    }
+  });
+
+  const dataset = buildDataset(rows, options, DEFAULT_COLUMNS);
+  dataset.issues.unshift(...issues);
+  return dataset;
+}
+
+// Reads a .csv, .jsonl or .ndjson file from disk (server-side only)
+export async function loadHistoricalFile(path: string, options: CsvImportOptions): Promise<HistoricalDataset> {
+  const { readFile } = await import('fs/promises');
+  const text = await readFile(path, 'utf8');
+
+  if (/\.(jsonl|ndjson)$/i.test(path)) {
+    return parseJsonLinesCandles(text, options);
+  }
+  if (/\.csv$/i.test(path)) {
+    return parseCsvCandles(text, options);
+  }
+  throw new Error(`Unsupported historical data file: ${path}`);
+}
+
+// Replayable feed over an imported dataset
+export class HistoricalDataFeed {
+  private candles: Candle[];
+  private position = 0;
+
+  constructor(candles: Candle[]) {
+    this.candles = candles;
+  }
+
+  get length(): number {
+    return this.candles.length;
+  }
+
+  hasNext(): boolean {
+    return this.position < this.candles.length;
+  }
+
+  // Bars are emitted at their close time, as the bot would see them live
+  next(): MarketDataFeed | null {
+    if (!this.hasNext()) return null;
+    return candleToMarketDataFeed(this.candles[this.position++]);
+  }
+
+  reset(): void {
+    this.position = 0;
+  }
+
+  toMarketDataFeeds(): MarketDataFeed[] {
+    return this.candles.map(candle => candleToMarketDataFeed(candle));
+  }
+}
+
+function buildDataset(rows: RawRow[], options: HistoricalImportOptions, defaultColumns: ColumnMapping): HistoricalDataset {
+  if (!TIMEFRAMES.includes(options.timeframe)) {
+    throw new Error(`Unsupported timeframe: ${options.timeframe}`);
+  }
+  const columns = { ...defaultColumns, ...options.columns };
+  const interval = TIMEFRAME_MS[options.timeframe];
+  const issues: DataValidationIssue[] = [];
+  const parsed: { line: number; candle: Candle }[] = [];
+
+  for (const row of rows) {
+    const start = parseTimestamp(row.get(columns.timestamp), options);
+    const open = toNumber(row.get(columns.open));
+    const high = toNumber(row.get(columns.high));
+    const low = toNumber(row.get(columns.low));
+    const close = toNumber(row.get(columns.close));
+    // Volume is optional; a missing column or empty cell counts as zero
+    const rawVolume = row.get(columns.volume);
+    const volume = rawVolume === undefined || rawVolume === '' ? 0 : toNumber(rawVolume);
+
+    if (start === null) {
+      issues.push({ type: 'INVALID_ROW', line: row.line, message: 'Unparseable timestamp' });
+      continue;
+    }
+    if ([open, high, low, close].some(v => v === null) || volume === null) {
+      issues.push({ type: 'INVALID_ROW', line: row.line, timestamp: new Date(start), message: 'Missing or non-numeric OHLCV value' });
+      continue;
+    }
+    if (high! < Math.max(open!, close!, low!) || low! > Math.min(open!, close!)) {
+      issues.push({ type: 'INVALID_ROW', line: row.line, timestamp: new Date(start), message: 'High/low inconsistent with open/close' });
+      continue;
+    }
+
+    parsed.push({
+      line: row.line,
+      candle: {
+        symbol: options.symbol,
+        timeframe: options.timeframe,
+        open: open!,
+        high: high!,
+        low: low!,
+        close: close!,
+        volume: volume!,
+        start: new Date(start),
+        end: new Date(start + interval),
+      },
+    });
+  }
+
+  // Out-of-order rows are reported, then the series is sorted
+  let latest = -Infinity;
+  for (const { line, candle } of parsed) {
+    const time = candle.start.getTime();
+    if (time < latest) {
+      issues.push({ type: 'OUT_OF_ORDER', line, timestamp: candle.start, message: 'Row is earlier than a preceding row' });
+    }
+    latest = Math.max(latest, time);
+  }
+  parsed.sort((a, b) => a.candle.start.getTime() - b.candle.start.getTime() || a.line - b.line);
+
+  // Duplicates keep the first occurrence in file order
+  const candles: Candle[] = [];
+  for (const { line, candle } of parsed) {
+    const previous = candles[candles.length - 1];
+    if (previous && previous.start.getTime() === candle.start.getTime()) {
+      issues.push({ type: 'DUPLICATE', line, timestamp: candle.start, message: 'Duplicate timestamp dropped' });
+      continue;
+    }
+    candles.push(candle);
+  }
+
+  for (let i = 1; i < candles.length; i++) {
+    const gap = candles[i].start.getTime() - candles[i - 1].start.getTime();
+    if (gap > interval) {
+      issues.push({
+        type: 'GAP',
+        timestamp: candles[i - 1].end,
+        message: `${Math.round(gap / interval) - 1} missing ${options.timeframe} bar(s) before ${candles[i].start.toISOString()}`,
+      });
+    }
+  }
+
+  return { symbol: options.symbol, timeframe: options.timeframe, candles, issues };
+}
+
+function toNumber(value: string | number | undefined): number | null {
+  if (value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function parseTimestamp(value: string | number | undefined, options: HistoricalImportOptions): number | null {
+  if (value === undefined || value === '') return null;
+  const format = options.timestampFormat || 'iso';
+  const timezone = options.timezone || 'UTC';
+
+  if (format === 'unix' || format === 'unix_ms') {
+    const num = toNumber(value);
+    if (num === null) return null;
+    return format === 'unix' ? num * 1000 : num;
+  }
+
+  const text = String(value).trim();
+  let wallClock: number;
+
+  if (format === 'iso') {
+    // Explicit offsets win over the configured timezone
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+      const time = Date.parse(text);
+      return Number.isNaN(time) ? null : time;
+    }
+    wallClock = Date.parse(`${text.replace(' ', 'T')}Z`);
+  } else {
+    const local = parseDate(text, format, new Date(0));
+    if (Number.isNaN(local.getTime())) return null;
+    wallClock = Date.UTC(
+      local.getFullYear(), local.getMonth(), local.getDate(),
+      local.getHours(), local.getMinutes(), local.getSeconds(), local.getMilliseconds()
+    );
+  }
+
+  if (Number.isNaN(wallClock)) return null;
+  return zonedWallClockToUtc(wallClock, timezone);
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
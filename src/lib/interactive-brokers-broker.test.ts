@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrokerConfig } from '@/types/broker';
+import { MockHttpServer } from '@/test/mock-http-server';
+import fixtures from '@/test/fixtures/interactive-brokers.json';
+import { InteractiveBrokersAdapter } from './interactive-brokers-broker';
+
+interface GatewayOrder {
+  orderId: number;
+  conid: number;
+  ticker: string;
+  side: 'BUY' | 'SELL';
+  orderType: string;
+  totalSize: number;
+  filledQuantity: number;
+  avgPrice?: string;
+  price?: string;
+  auxPrice?: string;
+  status: string;
+  order_ref: string;
+  parentId?: number;
+  lastExecutionTime_r: number;
+}
+
+interface SubmittedOrder {
+  conid: number;
+  cOID: string;
+  parentId?: string;
+  orderType: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number;
+  auxPrice?: number;
+}
+
+const ACCOUNT = 'DU1234567';
+const API = '/v1/api';
+const EXECUTED_AT = 1772463600000;
+const TICKERS: Record<number, string> = { 265598: 'AAPL', 12087792: 'EUR.USD' };
+
+// Client Portal gateway replaying recorded responses; orders, trades and positions are kept as the gateway would
+function createGatewayStandIn(server: MockHttpServer) {
+  const orders: GatewayOrder[] = [];
+  const trades: { execution_id: string; order_ref: string; side: string; size: number; price: string; trade_time_r: number }[] = [];
+  const positions = new Map<number, number>();
+  let nextOrderId = 1876543210;
+  let snapshotsServed = 0;
+  let confirmStops = true;
+  let session: object = fixtures.tickle;
+
+  const fill = (order: GatewayOrder, price: number) => {
+    order.status = 'Filled';
+    order.filledQuantity = order.totalSize;
+    order.avgPrice = price.toString();
+    trades.push({ execution_id: `0000e0d5.${order.orderId}`, order_ref: order.order_ref, side: order.side === 'BUY' ? 'B' : 'S', size: order.totalSize, price: price.toString(), trade_time_r: EXECUTED_AT });
+    positions.set(order.conid, (positions.get(order.conid) || 0) + order.totalSize * (order.side === 'BUY' ? 1 : -1));
+  };
+
+  const accept = (submitted: SubmittedOrder[]) => {
+    const ids = new Map<string, number>();
+    const replies = submitted.map(request => {
+      const order: GatewayOrder = {
+        orderId: nextOrderId++,
+        conid: request.conid,
+        ticker: TICKERS[request.conid],
+        side: request.side,
+        orderType: request.orderType,
+        totalSize: request.quantity,
+        filledQuantity: 0,
+        price: request.price?.toString(),
+        auxPrice: request.auxPrice?.toString(),
+        status: request.parentId ? 'PreSubmitted' : 'Submitted',
+        order_ref: request.cOID,
+        parentId: request.parentId ? ids.get(request.parentId) : undefined,
+        lastExecutionTime_r: EXECUTED_AT,
+      };
+      ids.set(request.cOID, order.orderId);
+      orders.push(order);
+      if (order.orderType === 'MKT') fill(order, 200.1);
+      return { order_id: String(order.orderId), order_status: order.status, local_order_id: request.cOID };
+    });
+    return { body: replies };
+  };
+
+  let awaitingConfirmation: SubmittedOrder[] | null = null;
+
+  server
+    .route('POST', `${API}/iserver/auth/status`, () => ({ body: fixtures.authStatus }))
+    .route('POST', `${API}/tickle`, () => ({ body: session }))
+    .route('POST', `${API}/iserver/reauthenticate`, () => {
+      session = fixtures.tickle;
+      return { body: fixtures.reauthenticate };
+    })
+    .route('GET', `${API}/iserver/accounts`, () => ({ body: fixtures.accounts }))
+    .route('GET', `${API}/portfolio/:account/summary`, () => ({ body: fixtures.portfolioSummary }))
+    .route('POST', `${API}/iserver/secdef/search`, ({ body }) => ({
+      body: fixtures.secdefSearch[(body as { symbol: string }).symbol as keyof typeof fixtures.secdefSearch] || [],
+    }))
+    .route('GET', `${API}/iserver/marketdata/snapshot`, () => ({ body: snapshotsServed++ === 0 ? fixtures.snapshotWarmingUp : fixtures.snapshot }))
+    .route('POST', `${API}/iserver/account/:account/orders`, ({ body }) => {
+      const submitted = (body as { orders: SubmittedOrder[] }).orders;
+      if (confirmStops && submitted.some(order => order.orderType === 'STP')) {
+        awaitingConfirmation = submitted;
+        return { body: fixtures.orderConfirmation };
+      }
+      return accept(submitted);
+    })
+    .route('POST', `${API}/iserver/reply/:id`, ({ params }) => {
+      if (!awaitingConfirmation || params.id !== fixtures.orderConfirmation[0].id) return { status: 400, body: { error: 'unknown reply id' } };
+      const submitted = awaitingConfirmation;
+      awaitingConfirmation = null;
+      return accept(submitted);
+    })
+    .route('DELETE', `${API}/iserver/account/:account/order/:id`, ({ params }) => {
+      const order = orders.find(o => String(o.orderId) === params.id);
+      if (!order) return { status: 404, body: { error: 'OrderID not found' } };
+      order.status = 'Cancelled';
+      return { body: { msg: 'Request was submitted', order_id: order.orderId, conid: order.conid, account: ACCOUNT } };
+    })
+    .route('GET', `${API}/iserver/account/orders`, () => ({ body: { orders: [...orders].reverse(), snapshot: true } }))
+    .route('GET', `${API}/iserver/account/trades`, () => ({ body: trades }))
+    .route('GET', `${API}/portfolio/:account/positions/0`, () => ({
+      body: Array.from(positions.entries())
+        .filter(([, position]) => position !== 0)
+        .map(([conid, position]) => ({ acctId: ACCOUNT, conid, position, mktPrice: 201.5, avgPrice: 200.1, currency: 'USD' })),
+    }));
+
+  return {
+    orders,
+    fill,
+    expireSession: () => { session = fixtures.tickleExpired; },
+    skipConfirmations: () => { confirmStops = false; },
+  };
+}
+
+const config = (serverUrl: string, overrides: Partial<BrokerConfig> = {}): BrokerConfig => ({
+  id: 'ibkr',
+  name: 'Interactive Brokers',
+  type: 'INTERACTIVE_BROKERS',
+  apiKey: '',
+  serverUrl,
+  testMode: true,
+  maxLeverage: 4,
+  minOrderSize: 1,
+  supportedSymbols: ['AAPL', 'EUR/USD'],
+  ...overrides,
+});
+
+describe('InteractiveBrokersAdapter against a recorded gateway', () => {
+  let server: MockHttpServer;
+  let gateway: ReturnType<typeof createGatewayStandIn>;
+  let adapter: InteractiveBrokersAdapter;
+
+  beforeEach(async () => {
+    server = new MockHttpServer();
+    gateway = createGatewayStandIn(server);
+    await server.listen();
+    adapter = new InteractiveBrokersAdapter(config(server.url), { retryDelay: 1 });
+    expect(await adapter.connect()).toBe(true);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter.disconnect();
+    await server.close();
+  });
+
+  it('checks the session and lists accounts before trading', () => {
+    expect(server.requests.map(request => `${request.method} ${request.path}`).slice(0, 2)).toEqual([
+      `POST ${API}/iserver/auth/status`,
+      `GET ${API}/iserver/accounts`,
+    ]);
+  });
+
+  it('keeps the session alive and reauthenticates once the brokerage session lapses', async () => {
+    await adapter.disconnect();
+    adapter = new InteractiveBrokersAdapter(config(server.url), { keepaliveInterval: 20 });
+    await adapter.connect();
+    await vi.waitFor(() => expect(server.find('POST', `${API}/tickle`).length).toBeGreaterThan(0));
+    expect(server.find('POST', `${API}/iserver/reauthenticate`)).toHaveLength(0);
+
+    gateway.expireSession();
+    await vi.waitFor(() => expect(server.find('POST', `${API}/iserver/reauthenticate`)).toHaveLength(1));
+
+    await adapter.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 30)); // Lets a tickle already in flight land
+    const tickles = server.find('POST', `${API}/tickle`).length;
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(server.find('POST', `${API}/tickle`)).toHaveLength(tickles);
+  });
+
+  it('refuses a gateway that is not logged in', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    server.route('POST', `${API}/iserver/auth/status`, () => ({ body: fixtures.authStatusLoggedOut }));
+
+    expect(await new InteractiveBrokersAdapter(config(server.url)).connect()).toBe(false);
+    expect(console.error).toHaveBeenCalledWith('Interactive Brokers connection failed:', expect.objectContaining({
+      message: 'Client Portal session is not authenticated; log in through the gateway first',
+    }));
+  });
+
+  it('requires a paper account in test mode', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    server.route('GET', `${API}/iserver/accounts`, () => ({ body: { ...fixtures.accounts, accounts: ['U7654321'], selectedAccount: 'U7654321' } }));
+
+    expect(await new InteractiveBrokersAdapter(config(server.url)).connect()).toBe(false);
+    const live = new InteractiveBrokersAdapter(config(server.url, { testMode: false }));
+    expect(await live.connect()).toBe(true);
+    await live.disconnect();
+  });
+
+  it('maps the portfolio summary to account info', async () => {
+    expect(await adapter.getAccountInfo()).toEqual({
+      balance: 95120.5,
+      equity: 100251,
+      margin: 19000.25,
+      freeMargin: 81250.75,
+      marginLevel: (100251 / 19000.25) * 100,
+      currency: 'USD',
+      leverage: 4,
+      accountNumber: ACCOUNT,
+      serverName: 'IBKR Paper',
+    });
+    expect(server.find('GET', `${API}/portfolio/${ACCOUNT}/summary`)).toHaveLength(1);
+  });
+
+  it('looks up contract ids by security type and caches them', async () => {
+    expect(await adapter.getConid('AAPL')).toBe(265598);
+    expect(await adapter.getConid('AAPL')).toBe(265598);
+    expect(await adapter.getConid('EUR/USD')).toBe(12087792);
+    expect(await adapter.getConid('BTC/USD')).toBe(479624278); // Skips the CME index with the same symbol
+    expect(await adapter.getConid('XAU/USD')).toBe(69067924);
+
+    expect(server.find('POST', `${API}/iserver/secdef/search`).map(request => request.body)).toEqual([
+      { symbol: 'AAPL', secType: 'STK' },
+      { symbol: 'EUR.USD', secType: 'CASH' },
+      { symbol: 'BTC', secType: 'CRYPTO' },
+      { symbol: 'XAU', secType: 'CMDTY' },
+    ]);
+    await expect(adapter.getConid('TSLA')).rejects.toThrow('No Interactive Brokers contract found for TSLA (STK)');
+  });
+
+  it('retries the snapshot until the gateway has quotes', async () => {
+    const data = await adapter.getMarketData('AAPL');
+
+    expect(server.find('GET', `${API}/iserver/marketdata/snapshot`)).toHaveLength(2);
+    expect(data).toMatchObject({ symbol: 'AAPL', bid: 200.05, ask: 200.15, close: 200.1, open: 198.5, high: 201.3, low: 197.8, volume: 48200000 });
+    expect(data.timestamp).toEqual(new Date(1772463601000));
+  });
+
+  it('sends SL and TP as child orders of the entry and confirms the gateway warning', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY_LIMIT', volume: 10, price: 199, stopLoss: 190, takeProfit: 215 });
+
+    const [submission] = server.find('POST', `${API}/iserver/account/${ACCOUNT}/orders`);
+    const [entry, takeProfit, stopLoss] = (submission.body as { orders: Record<string, unknown>[] }).orders;
+    expect(entry).toEqual({ acctId: ACCOUNT, conid: 265598, cOID: expect.stringMatching(/^bot-/), orderType: 'LMT', side: 'BUY', quantity: 10, tif: 'GTC', price: 199 });
+    expect(takeProfit).toEqual({ acctId: ACCOUNT, conid: 265598, cOID: `${entry.cOID}-tp`, parentId: entry.cOID, orderType: 'LMT', side: 'SELL', quantity: 10, price: 215, tif: 'GTC' });
+    expect(stopLoss).toEqual({ acctId: ACCOUNT, conid: 265598, cOID: `${entry.cOID}-sl`, parentId: entry.cOID, orderType: 'STP', side: 'SELL', quantity: 10, auxPrice: 190, tif: 'GTC' });
+    expect(server.find('POST', `${API}/iserver/reply/${fixtures.orderConfirmation[0].id}`)[0].body).toEqual({ confirmed: true });
+
+    expect(ticket).toBe(String(gateway.orders[0].orderId));
+    expect(await adapter.getOpenOrders()).toEqual([
+      expect.objectContaining({ ticket, symbol: 'AAPL', type: 'BUY', volume: 10, filledVolume: 0, openPrice: 199, stopLoss: 190, takeProfit: 215, status: 'PENDING' }),
+    ]);
+  });
+
+  it('closes a filled bracket by cancelling its legs and selling at market', async () => {
+    gateway.skipConfirmations();
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY', volume: 10, stopLoss: 190, takeProfit: 215 });
+    const [entry, takeProfit, stopLoss] = gateway.orders;
+    expect(await adapter.getOpenOrders()).toEqual([expect.objectContaining({ ticket, filledVolume: 10, openPrice: 200.1, currentPrice: 201.5, status: 'OPEN' })]);
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+
+    expect(server.find('DELETE', `${API}/iserver/account/${ACCOUNT}/order/${takeProfit.orderId}`)).toHaveLength(1);
+    expect(server.find('DELETE', `${API}/iserver/account/${ACCOUNT}/order/${stopLoss.orderId}`)).toHaveLength(1);
+    const close = server.find('POST', `${API}/iserver/account/${ACCOUNT}/orders`)[1].body as { orders: Record<string, unknown>[] };
+    expect(close.orders).toEqual([{ acctId: ACCOUNT, conid: 265598, cOID: `${entry.order_ref}-close`, orderType: 'MKT', side: 'SELL', quantity: 10, tif: 'DAY' }]);
+    expect(await adapter.getOpenOrders()).toEqual([]);
+    expect(await adapter.getOrderHistory()).toEqual([expect.objectContaining({ ticket, status: 'CLOSED', openPrice: 200.1, currentPrice: 200.1 })]);
+  });
+
+  it('reports a bracket closed by its take-profit at the exit price', async () => {
+    gateway.skipConfirmations();
+    const ticket = await adapter.placeOrder({ symbol: 'AAPL', type: 'BUY', volume: 10, stopLoss: 190, takeProfit: 215 });
+    const [, takeProfit, stopLoss] = gateway.orders;
+    gateway.fill(takeProfit, 215);
+    stopLoss.status = 'Cancelled';
+
+    expect(await adapter.closeOrder(ticket)).toBe(false);
+    const [order] = await adapter.getOrderHistory();
+    expect(order).toMatchObject({ ticket, status: 'CLOSED', currentPrice: 215, stopLoss: 190, takeProfit: 215 });
+    expect(order.profit).toBeCloseTo(149);
+  });
+});
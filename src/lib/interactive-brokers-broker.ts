@@ -0,0 +1,431 @@
+// Interactive Brokers Adapter (Client Portal Web API gateway)
+
+import { BrokerAccountInfo, BrokerConfig, BrokerOrder, MarketDataFeed, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+
+// The gateway runs next to the app and serves a self-signed certificate; see IBKR's Client Portal docs
+const DEFAULT_GATEWAY_URL = 'https://localhost:5000';
+const API_PREFIX = '/v1/api';
+
+const WORKING_STATUSES = ['PendingSubmit', 'PreSubmitted', 'Submitted', 'PendingCancel', 'ApiPending'];
+const ENTRY_PREFIX = 'bot-';
+const CRYPTO_ASSETS = ['BTC', 'ETH', 'LTC', 'BCH'];
+const METALS = ['XAU', 'XAG'];
+
+// Snapshot field ids: last, bid, ask, open, high, low, volume
+const SNAPSHOT_FIELDS = { last: '31', bid: '84', ask: '86', open: '7295', high: '70', low: '71', volume: '87' };
+const VOLUME_UNITS: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9 }; // Volume comes formatted, e.g. "48.2M"
+
+interface IbOrder {
+  orderId: number;
+  conid: number;
+  ticker: string;
+  side: 'BUY' | 'SELL';
+  orderType: string;
+  totalSize: number;
+  filledQuantity: number;
+  avgPrice?: string;
+  price?: string;
+  auxPrice?: string;
+  status: string;
+  order_ref?: string;
+  parentId?: number;
+  lastExecutionTime_r?: number;
+}
+
+interface IbPosition {
+  conid: number;
+  position: number;
+  mktPrice: number;
+  avgPrice: number;
+}
+
+interface IbTrade {
+  execution_id: string;
+  order_ref?: string;
+  side: string;
+  size: number;
+  price: string;
+  trade_time_r: number;
+}
+
+type IbOrderReply = { id: string; message: string[] } | { order_id: string; order_status: string; local_order_id?: string };
+
+export interface InteractiveBrokersOptions {
+  keepaliveInterval?: number; // The gateway drops idle sessions after ~5 minutes
+  snapshotRetries?: number; // The first snapshot for a contract usually comes back empty
+  retryDelay?: number;
+  pollInterval?: number;
+}
+
+export class InteractiveBrokersAdapter implements BrokerAdapter {
+  private config: BrokerConfig;
+  private baseUrl: string;
+  private options: Required<InteractiveBrokersOptions>;
+  private accountId?: string;
+  private isConnected = false;
+  private keepalive?: ReturnType<typeof setInterval>;
+  private keepaliveRunning = false; // A slow tickle is skipped over, so one lapse triggers one reauthentication
+  private conids: Map<string, number> = new Map();
+  private symbolsByConid: Map<number, string> = new Map();
+  private subscriptions: Map<string, ReturnType<typeof setInterval>> = new Map();
+
+  constructor(config: BrokerConfig, options: InteractiveBrokersOptions = {}) {
+    this.config = config;
+
+    // The login preset names IBKR's public host, which is not where the gateway lives
+    const server = config.serverUrl && !/interactivebrokers\.com/.test(config.serverUrl) ? config.serverUrl : '';
+    this.baseUrl = server ? (/^[a-z]+:\/\//i.test(server) ? server : `https://${server}`).replace(/\/+$/, '') : DEFAULT_GATEWAY_URL;
+    this.options = {
+      keepaliveInterval: options.keepaliveInterval ?? 60000,
+      snapshotRetries: options.snapshotRetries ?? 3,
+      retryDelay: options.retryDelay ?? 500,
+      pollInterval: options.pollInterval ?? 1000,
+    };
+  }
+
+  async connect(): Promise<boolean> {
+    try {
+      const status = await this.request<{ authenticated: boolean; connected: boolean }>('POST', '/iserver/auth/status');
+      if (!status.authenticated) {
+        throw new Error('Client Portal session is not authenticated; log in through the gateway first');
+      }
+
+      // Brokerage accounts must be listed once per session before orders are accepted
+      const { accounts, selectedAccount } = await this.request<{ accounts: string[]; selectedAccount?: string }>('GET', '/iserver/accounts');
+      const accountId = this.config.accountId || selectedAccount || accounts[0];
+      if (!accountId || !accounts.includes(accountId)) {
+        throw new Error(`Account ${accountId || '(none)'} is not available in this session`);
+      }
+      if (this.config.testMode && !accountId.startsWith('DU')) {
+        throw new Error(`Test mode requires a paper account (DU...), got ${accountId}`);
+      }
+
+      this.accountId = accountId;
+      this.isConnected = true;
+      this.startKeepalive();
+      return true;
+    } catch (error) {
+      console.error('Interactive Brokers connection failed:', error);
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<boolean> {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = undefined;
+    }
+    this.subscriptions.forEach(interval => clearInterval(interval));
+    this.subscriptions.clear();
+    this.isConnected = false;
+    return true;
+  }
+
+  async getAccountInfo(): Promise<BrokerAccountInfo> {
+    const accountId = this.ensureConnected();
+
+    const summary = await this.request<Record<string, { amount: number; currency?: string } | undefined>>(
+      'GET', `/portfolio/${accountId}/summary`
+    );
+    const amount = (key: string) => summary[key]?.amount ?? 0;
+    const equity = amount('netliquidation');
+    const margin = amount('initmarginreq');
+
+    return {
+      balance: amount('totalcashvalue'),
+      equity,
+      margin,
+      freeMargin: amount('availablefunds'),
+      marginLevel: margin > 0 ? (equity / margin) * 100 : 0,
+      currency: summary.netliquidation?.currency || 'USD',
+      leverage: this.config.maxLeverage,
+      accountNumber: accountId,
+      serverName: this.config.testMode ? 'IBKR Paper' : 'IBKR',
+    };
+  }
+
+  async getMarketData(symbol: string): Promise<MarketDataFeed> {
+    this.ensureConnected();
+
+    const conid = await this.getConid(symbol);
+    const fields = Object.values(SNAPSHOT_FIELDS).join(',');
+
+    for (let attempt = 0; attempt < this.options.snapshotRetries; attempt++) {
+      const [snapshot] = await this.request<Record<string, string | number>[]>('GET', `/iserver/marketdata/snapshot?conids=${conid}&fields=${fields}`);
+      const value = (field: string) => parseFloat(String(snapshot?.[field] ?? '').replace(/^[CH]/, '')); // C/H prefix marks closing/halted prices
+      const bid = value(SNAPSHOT_FIELDS.bid);
+      const ask = value(SNAPSHOT_FIELDS.ask);
+
+      if (bid > 0 && ask > 0) {
+        const last = value(SNAPSHOT_FIELDS.last) || (bid + ask) / 2;
+        return {
+          symbol,
+          bid,
+          ask,
+          spread: ask - bid,
+          volume: (value(SNAPSHOT_FIELDS.volume) || 0) * (VOLUME_UNITS[String(snapshot[SNAPSHOT_FIELDS.volume] ?? '').slice(-1)] ?? 1),
+          timestamp: new Date(Number(snapshot._updated) || Date.now()),
+          open: value(SNAPSHOT_FIELDS.open) || last,
+          high: value(SNAPSHOT_FIELDS.high) || last,
+          low: value(SNAPSHOT_FIELDS.low) || last,
+          close: last,
+        };
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.retryDelay));
+    }
+    throw new Error(`No Interactive Brokers market data for ${symbol}`);
+  }
+
+  // SL/TP are attached as child orders of the entry, forming a bracket
+  async placeOrder(order: OrderRequest): Promise<string> {
+    const accountId = this.ensureConnected();
+
+    const conid = await this.getConid(order.symbol);
+    const side = order.type.startsWith('BUY') ? 'BUY' : 'SELL';
+    const exitSide = side === 'BUY' ? 'SELL' : 'BUY';
+    const reference = `${ENTRY_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).substr(2, 6)}`;
+    const isLimit = order.type.endsWith('LIMIT');
+    const isStop = order.type.endsWith('STOP');
+    if ((isLimit || isStop) && !(order.price && order.price > 0)) {
+      throw new Error(`Order rejected: ${order.type} requires a price`);
+    }
+
+    const orders: Record<string, unknown>[] = [{
+      acctId: accountId,
+      conid,
+      cOID: reference,
+      orderType: isLimit ? 'LMT' : isStop ? 'STP' : 'MKT',
+      side,
+      quantity: order.volume,
+      tif: 'GTC',
+      ...(isLimit ? { price: order.price } : {}),
+      ...(isStop ? { auxPrice: order.price } : {}),
+    }];
+    if (order.takeProfit) {
+      orders.push({ acctId: accountId, conid, cOID: `${reference}-tp`, parentId: reference, orderType: 'LMT', side: exitSide, quantity: order.volume, price: order.takeProfit, tif: 'GTC' });
+    }
+    if (order.stopLoss) {
+      orders.push({ acctId: accountId, conid, cOID: `${reference}-sl`, parentId: reference, orderType: 'STP', side: exitSide, quantity: order.volume, auxPrice: order.stopLoss, tif: 'GTC' });
+    }
+
+    const placed = await this.submitOrders(`/iserver/account/${accountId}/orders`, { orders });
+    const entry = placed.find(reply => reply.local_order_id === reference) || placed[0];
+    if (!entry) {
+      throw new Error(`Interactive Brokers did not acknowledge the order for ${order.symbol}`);
+    }
+    if (entry.order_status === 'Inactive' || entry.order_status === 'Cancelled') {
+      throw new Error(`Interactive Brokers rejected the order for ${order.symbol} (${entry.order_status})`);
+    }
+    return entry.order_id;
+  }
+
+  // Cancels a working entry, or cancels its bracket and flattens the filled quantity at market
+  async closeOrder(ticket: string): Promise<boolean> {
+    const accountId = this.ensureConnected();
+
+    const { orders, trades } = await this.loadOrders();
+    const entry = orders.find(o => String(o.orderId) === ticket);
+    if (!entry) return false;
+
+    if (WORKING_STATUSES.includes(entry.status)) {
+      await this.request('DELETE', `/iserver/account/${accountId}/order/${entry.orderId}`);
+    }
+    if (entry.filledQuantity === 0) {
+      return WORKING_STATUSES.includes(entry.status);
+    }
+    if (this.getExitPrice(entry, trades) !== null) return false;
+
+    for (const child of orders.filter(o => o.order_ref?.startsWith(`${entry.order_ref}-`) && WORKING_STATUSES.includes(o.status))) {
+      await this.request('DELETE', `/iserver/account/${accountId}/order/${child.orderId}`);
+    }
+    await this.submitOrders(`/iserver/account/${accountId}/orders`, {
+      orders: [{
+        acctId: accountId,
+        conid: entry.conid,
+        cOID: `${entry.order_ref}-close`,
+        orderType: 'MKT',
+        side: entry.side === 'BUY' ? 'SELL' : 'BUY',
+        quantity: entry.filledQuantity,
+        tif: 'DAY',
+      }],
+    });
+    return true;
+  }
+
+  // The gateway only reports orders and trades from the current session, so older entries drop out
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const { orders, trades, positions } = await this.loadOrders();
+    return this.getEntries(orders)
+      .filter(entry => WORKING_STATUSES.includes(entry.status) ||
+        (entry.filledQuantity > 0 && this.getExitPrice(entry, trades) === null && this.hasPosition(entry, positions)))
+      .map(entry => this.toBrokerOrder(entry, orders, positions.get(entry.conid)?.mktPrice));
+  }
+
+  async getOrderHistory(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const { orders, trades, positions } = await this.loadOrders();
+    return this.getEntries(orders)
+      .filter(entry => !WORKING_STATUSES.includes(entry.status))
+      .flatMap(entry => {
+        if (entry.filledQuantity === 0) return [this.toBrokerOrder(entry, orders)];
+        const exitPrice = this.getExitPrice(entry, trades);
+        if (exitPrice !== null) return [this.toBrokerOrder(entry, orders, exitPrice, true)];
+        // Flattened outside the bot: the position is gone but no tagged exit traded
+        return this.hasPosition(entry, positions) ? [] : [this.toBrokerOrder(entry, orders, positions.get(entry.conid)?.mktPrice, true)];
+      });
+  }
+
+  subscribeToMarketData(symbol: string, callback: (data: MarketDataFeed) => void): void {
+    const existing = this.subscriptions.get(symbol);
+    if (existing) clearInterval(existing);
+
+    const interval = setInterval(async () => {
+      try {
+        callback(await this.getMarketData(symbol));
+      } catch (error) {
+        console.error('Interactive Brokers market data error:', error);
+      }
+    }, this.options.pollInterval);
+    this.subscriptions.set(symbol, interval);
+  }
+
+  // Resolves and caches the contract id; pairs map to CASH, crypto to CRYPTO, metals to CMDTY, the rest to STK
+  async getConid(symbol: string): Promise<number> {
+    const cached = this.conids.get(symbol);
+    if (cached) return cached;
+
+    const [base, quote] = symbol.toUpperCase().split('/');
+    const secType = !quote ? 'STK' : CRYPTO_ASSETS.includes(base) ? 'CRYPTO' : METALS.includes(base) ? 'CMDTY' : 'CASH';
+    const searchSymbol = secType === 'CASH' ? `${base}.${quote}` : base;
+
+    const results = await this.request<{ conid: string | number; symbol: string; sections?: { secType: string }[] }[]>(
+      'POST', '/iserver/secdef/search', { symbol: searchSymbol, secType }
+    );
+    const match = results.find(r => !r.sections || r.sections.some(section => section.secType === secType));
+    if (!match) {
+      throw new Error(`No Interactive Brokers contract found for ${symbol} (${secType})`);
+    }
+
+    const conid = Number(match.conid);
+    this.conids.set(symbol, conid);
+    this.symbolsByConid.set(conid, symbol);
+    return conid;
+  }
+
+  private startKeepalive(): void {
+    if (this.keepalive) clearInterval(this.keepalive);
+    this.keepalive = setInterval(async () => {
+      if (this.keepaliveRunning) return;
+      this.keepaliveRunning = true;
+      try {
+        const tickle = await this.request<{ iserver?: { authStatus?: { authenticated: boolean } } }>('POST', '/tickle');
+        if (tickle.iserver?.authStatus?.authenticated === false) {
+          await this.request('POST', '/iserver/reauthenticate');
+        }
+      } catch (error) {
+        console.error('Interactive Brokers keepalive failed:', error);
+      } finally {
+        this.keepaliveRunning = false;
+      }
+    }, this.options.keepaliveInterval);
+  }
+
+  // Order submissions may come back with warnings that must be confirmed before the order is live
+  private async submitOrders(path: string, body: unknown): Promise<{ order_id: string; order_status: string; local_order_id?: string }[]> {
+    let replies = await this.request<IbOrderReply[]>('POST', path, body);
+    for (let confirmations = 0; confirmations < 5; confirmations++) {
+      const question = replies.find((reply): reply is { id: string; message: string[] } => 'message' in reply);
+      if (!question) {
+        return replies as { order_id: string; order_status: string; local_order_id?: string }[];
+      }
+      replies = await this.request<IbOrderReply[]>('POST', `/iserver/reply/${question.id}`, { confirmed: true });
+    }
+    throw new Error('Interactive Brokers kept asking for order confirmation');
+  }
+
+  private async loadOrders(): Promise<{ orders: IbOrder[]; trades: IbTrade[]; positions: Map<number, IbPosition> }> {
+    const [{ orders }, trades, positions] = await Promise.all([
+      this.request<{ orders?: IbOrder[] }>('GET', '/iserver/account/orders'),
+      this.request<IbTrade[]>('GET', '/iserver/account/trades'),
+      this.request<IbPosition[]>('GET', `/portfolio/${this.accountId}/positions/0`),
+    ]);
+    return {
+      orders: orders || [],
+      trades,
+      positions: new Map(positions.map(position => [position.conid, position])),
+    };
+  }
+
+  // Bot entries are tagged with a cOID (order_ref); bracket legs and closes hang off it with suffixes
+  private getEntries(orders: IbOrder[]): IbOrder[] {
+    return orders.filter(o => o.order_ref?.startsWith(ENTRY_PREFIX) && !/-(tp|sl|close)$/.test(o.order_ref));
+  }
+
+  private getExitPrice(entry: IbOrder, trades: IbTrade[]): number | null {
+    const exits = trades.filter(t => t.order_ref && /-(tp|sl|close)$/.test(t.order_ref) && t.order_ref.startsWith(`${entry.order_ref}-`));
+    if (exits.length === 0) return null;
+    const size = exits.reduce((sum, t) => sum + t.size, 0);
+    return exits.reduce((sum, t) => sum + parseFloat(t.price) * t.size, 0) / size;
+  }
+
+  private hasPosition(entry: IbOrder, positions: Map<number, IbPosition>): boolean {
+    const position = positions.get(entry.conid);
+    return !!position && (entry.side === 'BUY' ? position.position > 0 : position.position < 0);
+  }
+
+  private toBrokerOrder(entry: IbOrder, orders: IbOrder[], price?: number, closed = false): BrokerOrder {
+    const openPrice = parseFloat(entry.avgPrice || entry.price || entry.auxPrice || '0');
+    const currentPrice = price ?? openPrice;
+    const child = (suffix: string) => orders.find(o => o.order_ref === `${entry.order_ref}-${suffix}`);
+    const takeProfit = child('tp');
+    const stopLoss = child('sl');
+
+    let status: BrokerOrder['status'] = closed ? 'CLOSED' : entry.filledQuantity > 0 ? 'OPEN' : 'PENDING';
+    if (!closed && entry.filledQuantity === 0 && !WORKING_STATUSES.includes(entry.status)) {
+      status = 'CANCELLED'; // Cancelled or Inactive (rejected)
+    }
+
+    return {
+      ticket: String(entry.orderId),
+      symbol: this.symbolsByConid.get(entry.conid) || entry.ticker,
+      type: entry.side,
+      volume: entry.totalSize,
+      filledVolume: entry.filledQuantity,
+      openPrice,
+      currentPrice,
+      stopLoss: stopLoss?.auxPrice ? parseFloat(stopLoss.auxPrice) : undefined,
+      takeProfit: takeProfit?.price ? parseFloat(takeProfit.price) : undefined,
+      profit: (currentPrice - openPrice) * entry.filledQuantity * (entry.side === 'BUY' ? 1 : -1),
+      commission: 0, // Reported per execution, not per order
+      swap: 0,
+      comment: entry.order_ref || '',
+      openTime: new Date(entry.lastExecutionTime_r || Date.now()),
+      status,
+    };
+  }
+
+  private async request<T = unknown>(method: 'GET' | 'POST' | 'DELETE', path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${API_PREFIX}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(`Interactive Brokers ${method} ${path.split('?')[0]} failed: ${error.error || response.statusText} (${response.status})`);
+    }
+    return response.json();
+  }
+
+  private ensureConnected(): string {
+    if (!this.isConnected || !this.accountId) {
+      throw new Error('Not connected to Interactive Brokers');
+    }
+    return this.accountId;
+  }
+}
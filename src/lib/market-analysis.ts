@@ -1,20 +1,26 @@
 // Market Analysis and Technical Indicators
 
-import { MarketData, TechnicalIndicators, MarketAnalysis } from '@/types/trading';
+import { MarketData, TechnicalIndicators, MarketAnalysis, Candle } from '@/types/trading';
 
 export class MarketAnalyzer {
   private priceHistory: number[] = [];
+  private highHistory: number[] = [];
+  private lowHistory: number[] = [];
   private volumeHistory: number[] = [];
   private maxHistoryLength = 50;
 
-  async calculateIndicators(marketData: MarketData): Promise<TechnicalIndicators> {
-    // Add current price to history
+  async calculateIndicators(marketData: MarketData, candle?: Candle): Promise<TechnicalIndicators> {
+    // Add current price to history, using the real bar range when a candle is available
     this.priceHistory.push(marketData.price);
+    this.highHistory.push(candle ? candle.high : marketData.price);
+    this.lowHistory.push(candle ? candle.low : marketData.price);
     this.volumeHistory.push(marketData.volume);
 
     // Keep only recent history
     if (this.priceHistory.length > this.maxHistoryLength) {
       this.priceHistory.shift();
+      this.highHistory.shift();
+      this.lowHistory.shift();
       this.volumeHistory.shift();
     }
 
@@ -23,21 +29,45 @@ export class MarketAnalyzer {
       return this.getDefaultIndicators(marketData.price);
     }
 
-    const rsi = this.calculateRSI(this.priceHistory);
-    const macd = this.calculateMACD(this.priceHistory);
-    const bollingerBands = this.calculateBollingerBands(this.priceHistory);
-    const sma20 = this.calculateSMA(this.priceHistory, 20);
-    const ema20 = this.calculateEMA(this.priceHistory, 20);
-    const atr = this.calculateATR(this.priceHistory);
+    return this.computeIndicators(this.priceHistory, this.highHistory, this.lowHistory, marketData.volume);
+  }
+
+  // Stateless analysis of a complete candle series (does not touch the rolling history)
+  async analyzeCandles(candles: Candle[]): Promise<{ indicators: TechnicalIndicators; analysis: MarketAnalysis }> {
+    const last = candles[candles.length - 1];
+    const marketData: MarketData = {
+      symbol: last?.symbol || '',
+      price: last?.close || 0,
+      volume: last?.volume || 0,
+      timestamp: last?.end || new Date(0),
+      high24h: last?.high || 0,
+      low24h: last?.low || 0,
+      change24h: last ? ((last.close - last.open) / last.open) * 100 : 0,
+    };
+
+    const recent = candles.slice(-this.maxHistoryLength);
+    const indicators = recent.length < 20
+      ? this.getDefaultIndicators(marketData.price)
+      : this.computeIndicators(
+          recent.map(c => c.close),
+          recent.map(c => c.high),
+          recent.map(c => c.low),
+          marketData.volume
+        );
+
+    const analysis = await this.analyzeMarket(marketData, indicators);
+    return { indicators, analysis };
+  }
 
+  private computeIndicators(prices: number[], highs: number[], lows: number[], volume: number): TechnicalIndicators {
     return {
-      rsi,
-      macd,
-      bollingerBands,
-      sma20,
-      ema20,
-      atr,
-      volume: marketData.volume,
+      rsi: this.calculateRSI(prices),
+      macd: this.calculateMACD(prices),
+      bollingerBands: this.calculateBollingerBands(prices),
+      sma20: this.calculateSMA(prices, 20),
+      ema20: this.calculateEMA(prices, 20),
+      atr: this.calculateATR(prices, highs, lows),
+      volume,
     };
   }
 
@@ -144,14 +174,14 @@ export class MarketAnalyzer {
     return ema;
   }
 
-  private calculateATR(prices: number[], period: number = 14): number {
+  private calculateATR(prices: number[], highs: number[], lows: number[], period: number = 14): number {
     if (prices.length < 2) return 0;
 
     const trueRanges: number[] = [];
     
     for (let i = 1; i < prices.length; i++) {
-      const high = prices[i];
-      const low = prices[i] * 0.99; // Simulate low price
+      const high = highs[i];
+      const low = lows[i];
       const previousClose = prices[i - 1];
       
       const tr = Math.max(
@@ -0,0 +1,236 @@
+// Seeded, Deterministic Market Simulator
+
+import { MarketDataFeed } from '@/types/broker';
+import { Clock, systemClock } from './clock';
+
+export interface RegimeProbabilities {
+  trending: number;
+  ranging: number;
+  breakout: number;
+}
+
+export interface SessionVolatility {
+  asian: number; // 22-08 UTC
+  london: number; // 08-17 UTC
+  newYork: number; // 17-22 UTC
+  offHours: number; // Weekends
+}
+
+export interface SimulatedMarketFeedConfig {
+  symbol: string;
+  seed: number;
+  basePrice: number;
+  startTime?: Date; // Defaults to the clock time at construction
+  intervalMs: number; // Duration of each generated bar
+  regimeProbabilities: RegimeProbabilities;
+  sessionVolatility: SessionVolatility;
+  trendMove: [number, number]; // Min/max fractional move of a trending bar
+  breakoutMove: [number, number]; // Min/max fractional move of a breakout bar
+  rangeVolatility: number; // Full width of a ranging bar move
+  momentum: number; // Share of the previous move carried into the next bar
+  noise: number; // Full width of the random noise added to every bar
+  baseVolume: number;
+  spreadRatio: number; // Spread as a fraction of price
+}
+
+export type MarketRegime = 'TRENDING' | 'RANGING' | 'BREAKOUT';
+
+const DEFAULT_CONFIG: Omit<SimulatedMarketFeedConfig, 'seed'> = {
+  symbol: 'BTC/USD',
+  basePrice: 45000,
+  intervalMs: 1500,
+  regimeProbabilities: { trending: 0.3, ranging: 0.5, breakout: 0.2 },
+  sessionVolatility: { asian: 1.3, london: 1.8, newYork: 2.2, offHours: 0.8 },
+  trendMove: [0.005, 0.025],
+  breakoutMove: [0.01, 0.04],
+  rangeVolatility: 0.01,
+  momentum: 0.15,
+  noise: 0.005,
+  baseVolume: 800000,
+  spreadRatio: 0.0002,
+};
+
+// Starting prices for the simulated feed of common symbols
+export const DEFAULT_BASE_PRICES: Record<string, number> = {
+  'BTC/USD': 45000,
+  'ETH/USD': 2500,
+  'EUR/USD': 1.08,
+  'GBP/USD': 1.27,
+  'USD/JPY': 150,
+  'XAU/USD': 2000,
+};
+
+export function getDefaultBasePrice(symbol: string): number {
+  return DEFAULT_BASE_PRICES[symbol] ?? 100;
+}
+
+// Derives an independent per-symbol seed so every symbol gets its own reproducible path
+export function deriveSeed(seed: number, key: string): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash & 0x7fffffff;
+}
+
+// Mulberry32 - small, fast and good enough for price simulation
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+export class SimulatedMarketFeed {
+  private config: SimulatedMarketFeedConfig;
+  private random: () => number;
+  private startTime: number;
+  private barIndex = 0;
+  private lastClose: number;
+  private lastChange = 0;
+
+  constructor(config: Partial<SimulatedMarketFeedConfig> = {}, clock: Clock = systemClock) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      seed: config.seed ?? generateSeed(),
+    };
+    this.startTime = (config.startTime || clock.now()).getTime();
+    this.random = createSeededRandom(this.config.seed);
+    this.lastClose = this.config.basePrice;
+  }
+
+  getSeed(): number {
+    return this.config.seed;
+  }
+
+  getStartTime(): Date {
+    return new Date(this.startTime);
+  }
+
+  getBarCount(): number {
+    return this.barIndex;
+  }
+
+  getConfig(): SimulatedMarketFeedConfig {
+    return { ...this.config, startTime: new Date(this.startTime) };
+  }
+
+  // Rewinds to the first bar so the same path is produced again
+  reset(): void {
+    this.random = createSeededRandom(this.config.seed);
+    this.barIndex = 0;
+    this.lastClose = this.config.basePrice;
+    this.lastChange = 0;
+  }
+
+  // Produces the next OHLC bar; the timestamp is the bar close time
+  next(): MarketDataFeed {
+    const barStart = this.startTime + this.barIndex * this.config.intervalMs;
+    const barEnd = barStart + this.config.intervalMs;
+    this.barIndex++;
+
+    const volatilityMultiplier = this.getSessionMultiplier(new Date(barStart));
+    const regime = this.pickRegime();
+    const regimeChange = this.generateRegimeMove(regime) * volatilityMultiplier;
+
+    // Momentum persistence and noise
+    const momentum = this.lastChange * this.config.momentum;
+    const noise = (this.random() - 0.5) * this.config.noise;
+    const totalChange = regimeChange + momentum + noise;
+
+    const open = this.lastClose;
+    const close = open * (1 + totalChange);
+
+    // Wicks extend beyond the body by a fraction of the bar's range
+    const bodyHigh = Math.max(open, close);
+    const bodyLow = Math.min(open, close);
+    const wickBase = Math.max(Math.abs(close - open), open * this.config.noise * 0.1);
+    const high = bodyHigh + wickBase * this.random() * 0.5;
+    const low = bodyLow - wickBase * this.random() * 0.5;
+
+    // Realistic volume based on price movement
+    const volumeMultiplier = 1 + Math.abs(totalChange) * 50;
+    const volume = Math.floor(this.config.baseVolume * volumeMultiplier * volatilityMultiplier);
+
+    const spread = close * this.config.spreadRatio;
+
+    this.lastClose = close;
+    this.lastChange = totalChange;
+
+    return {
+      symbol: this.config.symbol,
+      bid: close - spread / 2,
+      ask: close + spread / 2,
+      spread,
+      volume,
+      timestamp: new Date(barEnd),
+      high,
+      low,
+      open,
+      close,
+    };
+  }
+
+  // Advances past bars without returning them, e.g. to resume a restored session
+  skip(count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.next();
+    }
+  }
+
+  generate(count: number): MarketDataFeed[] {
+    const bars: MarketDataFeed[] = [];
+    for (let i = 0; i < count; i++) {
+      bars.push(this.next());
+    }
+    return bars;
+  }
+
+  private pickRegime(): MarketRegime {
+    const { trending, ranging, breakout } = this.config.regimeProbabilities;
+    const total = trending + ranging + breakout;
+    const roll = this.random() * (total > 0 ? total : 1);
+
+    if (roll < trending) return 'TRENDING';
+    if (roll < trending + ranging) return 'RANGING';
+    return 'BREAKOUT';
+  }
+
+  private generateRegimeMove(regime: MarketRegime): number {
+    switch (regime) {
+      case 'TRENDING': {
+        const direction = this.random() > 0.5 ? 1 : -1;
+        const [min, max] = this.config.trendMove;
+        return (min + this.random() * (max - min)) * direction;
+      }
+      case 'BREAKOUT': {
+        const direction = this.random() > 0.5 ? 1 : -1;
+        const [min, max] = this.config.breakoutMove;
+        return (min + this.random() * (max - min)) * direction;
+      }
+      default:
+        return (this.random() - 0.5) * this.config.rangeVolatility;
+    }
+  }
+
+  // Sessions are evaluated in UTC so a seed reproduces the same path on any machine
+  private getSessionMultiplier(time: Date): number {
+    const { asian, london, newYork, offHours } = this.config.sessionVolatility;
+    const day = time.getUTCDay();
+    const hour = time.getUTCHours();
+
+    if (day === 0 || day === 6) return offHours;
+    if (hour >= 8 && hour < 17) return london;
+    if (hour >= 17 && hour < 22) return newYork;
+    return asian;
+  }
+}
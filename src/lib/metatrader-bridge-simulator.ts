@@ -0,0 +1,377 @@
+// Reference MetaTrader Bridge Simulator (serves the bridge protocol from a paper account)
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { Duplex } from 'stream';
+import { BrokerConfig, BrokerOrder, MarketDataFeed } from '@/types/broker';
+import { PaperBrokerAdapter, PaperBrokerOptions } from './paper-broker';
+import {
+  MT_BRIDGE_PROTOCOL_VERSION, MtAccount, MtCommand, MtConnectResponse, MtOrderModify, MtOrderSend, MtQuote,
+  MtStreamMessage, MtStreamRequest, MtTrade,
+} from './metatrader-bridge';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const RETCODE_INVALID_REQUEST = 10013;
+const RETCODE_NO_MONEY = 10019;
+
+export interface MetaTraderBridgeSimulatorOptions {
+  apiKey?: string; // Requests must present this bearer token; any token is accepted when unset
+  platform?: 'MT4' | 'MT5';
+  login?: string;
+  server?: string;
+  streamInterval?: number; // How often subscribed symbols are re-quoted over the stream
+  paper?: PaperBrokerOptions;
+}
+
+class BridgeError extends Error {
+  constructor(message: string, public status: number, public retcode?: number) {
+    super(message);
+  }
+}
+
+interface StreamClient {
+  socket: Duplex;
+  symbols: Set<string>;
+  buffer: Buffer;
+}
+
+export class MetaTraderBridgeSimulator {
+  private options: Required<Omit<MetaTraderBridgeSimulatorOptions, 'apiKey' | 'paper'>> & { apiKey?: string };
+  private broker: PaperBrokerAdapter;
+  private server: Server | null = null;
+  private commands: Map<string, MtCommand> = new Map(); // Paper ticket -> original command
+  private clients: Set<StreamClient> = new Set();
+  private streamTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: MetaTraderBridgeSimulatorOptions = {}) {
+    this.options = {
+      apiKey: options.apiKey,
+      platform: options.platform || 'MT5',
+      login: options.login || '5000001',
+      server: options.server || 'Simulator-Demo',
+      streamInterval: options.streamInterval ?? 1000,
+    };
+
+    const config: BrokerConfig = {
+      id: 'mt-bridge-simulator',
+      name: 'MetaTrader Bridge Simulator',
+      type: 'PAPER',
+      apiKey: '',
+      serverUrl: '',
+      accountId: this.options.login,
+      testMode: true,
+      maxLeverage: 100,
+      minOrderSize: 0.01,
+      supportedSymbols: [],
+    };
+    this.broker = new PaperBrokerAdapter(config, options.paper);
+  }
+
+  // Resolves with the base URL; pass 0 for an ephemeral port
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    await this.broker.connect();
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const bridgeError = error instanceof BridgeError ? error : new BridgeError(error instanceof Error ? error.message : 'Unknown error', 500);
+        this.send(res, bridgeError.status, { error: bridgeError.message, retcode: bridgeError.retcode });
+      });
+    });
+    server.on('upgrade', (req, socket, head) => this.upgrade(req, socket, head));
+
+    await new Promise<void>(resolve => server.listen(port, host, resolve));
+    this.server = server;
+    this.streamTimer = setInterval(() => this.broadcastQuotes(), this.options.streamInterval);
+
+    const address = server.address();
+    return `http://${host}:${typeof address === 'object' && address ? address.port : port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (this.streamTimer) clearInterval(this.streamTimer);
+    this.clients.forEach(client => client.socket.destroy());
+    this.clients.clear();
+    await this.broker.disconnect();
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const [resource, id] = url.pathname.split('/').filter(Boolean);
+
+    if (!this.isAuthorized(req.headers.authorization?.replace(/^Bearer /, ''))) {
+      throw new BridgeError('Invalid API key', 401);
+    }
+
+    if (method === 'GET' && resource === 'ping') {
+      return this.send(res, 200, { time: Date.now() });
+    }
+    if (method === 'POST' && resource === 'connect') {
+      const response: MtConnectResponse = {
+        protocol: MT_BRIDGE_PROTOCOL_VERSION,
+        platform: this.options.platform,
+        server: this.options.server,
+        account: await this.getAccount(),
+        stream: true,
+      };
+      return this.send(res, 200, response);
+    }
+    if (method === 'GET' && resource === 'account') {
+      return this.send(res, 200, await this.getAccount());
+    }
+    if (method === 'GET' && resource === 'quotes' && id) {
+      return this.send(res, 200, this.toQuote(id, await this.broker.getMarketData(this.toPaperSymbol(id))));
+    }
+    if (resource === 'orders' && !id && method === 'GET') {
+      const orders = await this.broker.getOpenOrders();
+      return this.send(res, 200, orders.map(order => this.toTrade(order)));
+    }
+    if (resource === 'orders' && !id && method === 'POST') {
+      return this.send(res, 200, await this.sendOrder(await this.readBody<MtOrderSend>(req)));
+    }
+    if (resource === 'orders' && id && method === 'PATCH') {
+      const changes = await this.readBody<MtOrderModify>(req);
+      const ticket = this.toPaperTicket(id);
+      if (!await this.broker.modifyOrder(ticket, { price: changes.price, stopLoss: changes.sl, takeProfit: changes.tp })) {
+        throw new BridgeError(`Order ${id} not found`, 404);
+      }
+      const order = (await this.broker.getOpenOrders()).find(o => o.ticket === ticket)!;
+      return this.send(res, 200, this.toTrade(order));
+    }
+    if (resource === 'orders' && id && method === 'DELETE') {
+      const ticket = this.toPaperTicket(id);
+      if (!await this.broker.closeOrder(ticket)) {
+        throw new BridgeError(`Order ${id} not found`, 404);
+      }
+      const order = (await this.broker.getOrderHistory()).find(o => o.ticket === ticket);
+      return this.send(res, 200, { ticket: Number(id), closed: true, price: order?.currentPrice });
+    }
+    if (method === 'GET' && resource === 'history') {
+      const from = Number(url.searchParams.get('from') || 0);
+      const orders = await this.broker.getOrderHistory();
+      return this.send(res, 200, orders
+        .filter(order => (order.closeTime?.getTime() ?? order.openTime.getTime()) >= from)
+        .map(order => this.toTrade(order)));
+    }
+    throw new BridgeError(`Unknown endpoint ${method} ${url.pathname}`, 404);
+  }
+
+  private async sendOrder(request: MtOrderSend): Promise<{ ticket: number }> {
+    if (!request.symbol || !request.cmd || !(request.volume > 0)) {
+      throw new BridgeError('symbol, cmd and volume are required', 400, RETCODE_INVALID_REQUEST);
+    }
+
+    try {
+      const ticket = await this.broker.placeOrder({
+        symbol: this.toPaperSymbol(request.symbol),
+        type: request.cmd,
+        volume: request.volume,
+        price: request.price,
+        stopLoss: request.sl || undefined,
+        takeProfit: request.tp || undefined,
+        comment: request.comment,
+        magic: request.magic,
+        expiration: request.expiration ? new Date(request.expiration) : undefined,
+      });
+      this.commands.set(ticket, request.cmd);
+      return { ticket: Number(ticket.replace('PAPER_', '')) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Order rejected';
+      throw new BridgeError(message, 400, message.includes('margin') ? RETCODE_NO_MONEY : RETCODE_INVALID_REQUEST);
+    }
+  }
+
+  private async getAccount(): Promise<MtAccount> {
+    const info = await this.broker.getAccountInfo();
+    return {
+      login: this.options.login,
+      server: this.options.server,
+      currency: info.currency,
+      leverage: info.leverage,
+      balance: info.balance,
+      equity: info.equity,
+      margin: info.margin,
+      freeMargin: info.freeMargin,
+      marginLevel: info.marginLevel,
+    };
+  }
+
+  private toQuote(mtSymbol: string, data: MarketDataFeed): MtQuote {
+    return {
+      symbol: mtSymbol,
+      bid: data.bid,
+      ask: data.ask,
+      time: data.timestamp.getTime(),
+      volume: data.volume,
+      open: data.open,
+      high: data.high,
+      low: data.low,
+    };
+  }
+
+  private toTrade(order: BrokerOrder): MtTrade {
+    const pending = order.status === 'PENDING' || ((order.status === 'CANCELLED' || order.status === 'EXPIRED') && !order.filledVolume);
+    const cmd = this.commands.get(order.ticket) || order.type;
+    return {
+      ticket: Number(order.ticket.replace('PAPER_', '')),
+      symbol: order.symbol.replace('/', ''),
+      cmd: pending ? cmd : order.type,
+      state: order.status,
+      volume: order.status === 'PENDING' ? order.volume : order.filledVolume ?? order.volume,
+      openPrice: order.openPrice,
+      openTime: order.openTime.getTime(),
+      currentPrice: order.currentPrice,
+      closeTime: order.closeTime?.getTime(),
+      sl: order.stopLoss || 0,
+      tp: order.takeProfit || 0,
+      profit: order.profit,
+      commission: order.commission,
+      swap: order.swap,
+      comment: order.comment,
+      magic: 0,
+    };
+  }
+
+  // Terminal symbols are the bot's pairs without the slash; six-letter names are split back into pairs
+  private toPaperSymbol(mtSymbol: string): string {
+    const symbol = mtSymbol.toUpperCase();
+    return /^[A-Z]{6}$/.test(symbol) ? `${symbol.slice(0, 3)}/${symbol.slice(3)}` : symbol;
+  }
+
+  private toPaperTicket(id: string): string {
+    if (!/^\d+$/.test(id)) throw new BridgeError(`Invalid ticket ${id}`, 400, RETCODE_INVALID_REQUEST);
+    return `PAPER_${id}`;
+  }
+
+  private isAuthorized(token?: string | null): boolean {
+    return !this.options.apiKey || token === this.options.apiKey;
+  }
+
+  private async readBody<T>(req: IncomingMessage): Promise<T> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString() || '{}');
+    } catch {
+      throw new BridgeError('Invalid JSON body', 400, RETCODE_INVALID_REQUEST);
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  // Minimal RFC 6455 server: text frames only, enough for the quote stream
+  private upgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const key = req.headers['sec-websocket-key'];
+    if (url.pathname !== '/stream' || !key || !this.isAuthorized(url.searchParams.get('token'))) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+    const client: StreamClient = { socket, symbols: new Set(), buffer: Buffer.alloc(0) };
+    this.clients.add(client);
+    socket.on('data', (data: Buffer) => this.receive(client, data));
+    socket.on('close', () => this.clients.delete(client));
+    socket.on('error', () => this.clients.delete(client));
+    if (head.length > 0) this.receive(client, head);
+  }
+
+  private receive(client: StreamClient, data: Buffer): void {
+    client.buffer = Buffer.concat([client.buffer, data]);
+
+    while (client.buffer.length >= 2) {
+      const opcode = client.buffer[0] & 0x0f;
+      const masked = (client.buffer[1] & 0x80) !== 0;
+      let length = client.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (client.buffer.length < 4) return;
+        length = client.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (client.buffer.length < 10) return;
+        length = Number(client.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (client.buffer.length < offset + length) return;
+
+      const payload = Buffer.from(client.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= client.buffer[maskOffset + (i % 4)];
+      }
+      client.buffer = client.buffer.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        client.socket.end(Buffer.from([0x88, 0x00]));
+        this.clients.delete(client);
+        return;
+      }
+      if (opcode === 0x9) {
+        this.writeFrame(client, payload, 0xa);
+      } else if (opcode === 0x1) {
+        this.handleStreamRequest(client, payload.toString());
+      }
+    }
+  }
+
+  private handleStreamRequest(client: StreamClient, text: string): void {
+    try {
+      const request: MtStreamRequest = JSON.parse(text);
+      for (const symbol of request.symbols || []) {
+        if (request.action === 'subscribe') client.symbols.add(symbol.toUpperCase());
+        else client.symbols.delete(symbol.toUpperCase());
+      }
+    } catch {
+      this.sendStream(client, { type: 'error', error: 'Invalid stream request' });
+    }
+  }
+
+  private async broadcastQuotes(): Promise<void> {
+    const symbols = new Set(Array.from(this.clients).flatMap(client => Array.from(client.symbols)));
+    for (const symbol of symbols) {
+      try {
+        const quote = this.toQuote(symbol, await this.broker.getMarketData(this.toPaperSymbol(symbol)));
+        this.clients.forEach(client => {
+          if (client.symbols.has(symbol)) this.sendStream(client, { type: 'quote', quote });
+        });
+      } catch (error) {
+        console.error('MetaTrader bridge simulator quote error:', error);
+      }
+    }
+  }
+
+  private sendStream(client: StreamClient, message: MtStreamMessage): void {
+    this.writeFrame(client, Buffer.from(JSON.stringify(message)), 0x1);
+  }
+
+  private writeFrame(client: StreamClient, payload: Buffer, opcode: number): void {
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    client.socket.write(Buffer.concat([header, payload]));
+  }
+}
@@ -0,0 +1,110 @@
+// MetaTrader Bridge Protocol (v1)
+//
+// An EA-side bridge exposes the terminal to the bot over HTTP. Every request carries
+// `Authorization: Bearer <apiKey>`; errors are non-2xx responses with an MtBridgeError body.
+//
+//   GET    /ping                 -> { time }
+//   POST   /connect              MtConnectRequest -> MtConnectResponse
+//   GET    /account              -> MtAccount
+//   GET    /quotes/:symbol       -> MtQuote
+//   GET    /orders               -> MtTrade[] (open positions and pending orders)
+//   POST   /orders               MtOrderSend -> { ticket }
+//   PATCH  /orders/:ticket       MtOrderModify -> MtTrade
+//   DELETE /orders/:ticket       -> { ticket, closed, price? } (closes at market or deletes a pending order)
+//   GET    /history?from=<ms>    -> MtTrade[] (closed, cancelled and expired)
+//
+// Bridges that set `stream` in MtConnectResponse also accept a WebSocket at /stream?token=<apiKey>.
+// The client sends MtStreamRequest messages and receives MtStreamMessage messages.
+//
+// Symbols use the terminal's names (EURUSD, XAUUSD.m); prices of 0 for sl/tp mean "not set",
+// and times are Unix milliseconds in server time.
+
+export const MT_BRIDGE_PROTOCOL_VERSION = 1;
+
+export type MtCommand = 'BUY' | 'SELL' | 'BUY_LIMIT' | 'SELL_LIMIT' | 'BUY_STOP' | 'SELL_STOP';
+export type MtTradeState = 'PENDING' | 'OPEN' | 'CLOSED' | 'CANCELLED' | 'EXPIRED';
+
+export interface MtBridgeError {
+  error: string;
+  retcode?: number; // Trade server return code, e.g. 10019 (no money) on MT5 or 134 on MT4
+}
+
+export interface MtConnectRequest {
+  account?: string;
+  password?: string;
+  server?: string;
+}
+
+export interface MtConnectResponse {
+  protocol: number;
+  platform: 'MT4' | 'MT5';
+  server: string;
+  account: MtAccount;
+  stream: boolean;
+}
+
+export interface MtAccount {
+  login: string;
+  server: string;
+  currency: string;
+  leverage: number;
+  balance: number;
+  equity: number;
+  margin: number;
+  freeMargin: number;
+  marginLevel: number; // Percent; 0 without open positions
+}
+
+export interface MtQuote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  time: number;
+  volume: number;
+  open: number; // Current bar
+  high: number;
+  low: number;
+}
+
+export interface MtTrade {
+  ticket: number;
+  symbol: string;
+  cmd: MtCommand;
+  state: MtTradeState;
+  volume: number; // Lots
+  openPrice: number; // Order price while pending
+  openTime: number;
+  currentPrice: number; // Closing side of the book, or the close price once closed
+  closeTime?: number;
+  sl: number;
+  tp: number;
+  profit: number;
+  commission: number;
+  swap: number;
+  comment: string;
+  magic: number;
+}
+
+export interface MtOrderSend {
+  symbol: string;
+  cmd: MtCommand;
+  volume: number;
+  price?: number; // Required for pending orders
+  sl?: number;
+  tp?: number;
+  comment?: string;
+  magic?: number;
+  expiration?: number;
+}
+
+export interface MtOrderModify {
+  price?: number;
+  sl?: number;
+  tp?: number;
+}
+
+export type MtStreamRequest = { action: 'subscribe' | 'unsubscribe'; symbols: string[] };
+
+export type MtStreamMessage =
+  | { type: 'quote'; quote: MtQuote }
+  | { type: 'error'; error: string };
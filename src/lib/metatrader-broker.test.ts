@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BrokerConfig, MarketDataFeed } from '@/types/broker';
+import { MockHttpServer } from '@/test/mock-http-server';
+import { MetaTraderBridgeSimulator } from './metatrader-bridge-simulator';
+import { MetaTraderAdapter } from './metatrader-broker';
+
+const API_KEY = 'bridge-token';
+
+// EUR/USD quote the test moves by hand, two pips wide
+function quote(bid: number, overrides: Partial<MarketDataFeed> = {}): MarketDataFeed {
+  const ask = bid + 0.0002;
+  return {
+    symbol: 'EUR/USD',
+    bid,
+    ask,
+    spread: ask - bid,
+    volume: 1200,
+    timestamp: new Date(),
+    open: bid + 0.0001,
+    high: bid + 0.0001,
+    low: bid + 0.0001,
+    close: bid + 0.0001,
+    ...overrides,
+  };
+}
+
+const config = (serverUrl: string, apiKey = API_KEY): BrokerConfig => ({
+  id: 'mt5',
+  name: 'MetaTrader 5',
+  type: 'MT5',
+  apiKey,
+  serverUrl,
+  accountId: '5000001',
+  testMode: true,
+  maxLeverage: 100,
+  minOrderSize: 0.01,
+  supportedSymbols: ['EUR/USD'],
+});
+
+describe('MetaTraderAdapter against the bridge simulator', () => {
+  let simulator: MetaTraderBridgeSimulator;
+  let url: string;
+  let adapter: MetaTraderAdapter;
+  let current: MarketDataFeed;
+
+  beforeEach(async () => {
+    current = quote(1.085);
+    simulator = new MetaTraderBridgeSimulator({
+      apiKey: API_KEY,
+      login: '5000001',
+      server: 'Simulator-Demo',
+      streamInterval: 60000,
+      paper: {
+        initialBalance: 10000,
+        leverage: 100,
+        slippageRatio: 0,
+        commissionRate: 0,
+        swapRatePerDay: 0,
+        priceSource: () => current,
+      },
+    });
+    url = await simulator.start();
+    adapter = new MetaTraderAdapter(config(url));
+    expect(await adapter.connect()).toBe(true);
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await simulator.stop();
+  });
+
+  it('refuses to connect with the wrong bridge token', async () => {
+    const intruder = new MetaTraderAdapter(config(url, 'wrong'));
+    expect(await intruder.connect()).toBe(false);
+    await expect(intruder.getAccountInfo()).rejects.toThrow('Not connected to broker');
+  });
+
+  it('maps the terminal account', async () => {
+    expect(await adapter.getAccountInfo()).toEqual({
+      balance: 10000,
+      equity: 10000,
+      margin: 0,
+      freeMargin: 10000,
+      marginLevel: 0,
+      currency: 'USD',
+      leverage: 100,
+      accountNumber: '5000001',
+      serverName: 'Simulator-Demo',
+    });
+  });
+
+  it('quotes terminal symbols under the bot symbol with the mid as close', async () => {
+    const data = await adapter.getMarketData('EUR/USD');
+
+    expect(data.symbol).toBe('EUR/USD');
+    expect(data.bid).toBeCloseTo(1.085);
+    expect(data.ask).toBeCloseTo(1.0852);
+    expect(data.spread).toBeCloseTo(0.0002);
+    expect(data.close).toBeCloseTo(1.0851);
+    expect(data.volume).toBe(1200);
+  });
+
+  it('sends a market order with SL/TP and lists it as an open position', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000, stopLoss: 1.08, takeProfit: 1.095, comment: 'bot' });
+
+    const [order] = await adapter.getOpenOrders();
+    expect(order).toMatchObject({
+      ticket,
+      symbol: 'EUR/USD',
+      type: 'BUY',
+      volume: 1000,
+      filledVolume: 1000,
+      stopLoss: 1.08,
+      takeProfit: 1.095,
+      comment: 'bot',
+      status: 'OPEN',
+    });
+    expect(order.openPrice).toBeCloseTo(1.0852);
+  });
+
+  it('keeps a limit order pending and rejects one without a price before sending it', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY_LIMIT', volume: 1000, price: 1.08 });
+
+    const [order] = await adapter.getOpenOrders();
+    expect(order).toMatchObject({ ticket, status: 'PENDING', filledVolume: 0 });
+    await expect(adapter.placeOrder({ symbol: 'EUR/USD', type: 'SELL_STOP', volume: 1000 })).rejects.toThrow('SELL_STOP requires a price');
+  });
+
+  it('surfaces the bridge retcode when the terminal rejects an order', async () => {
+    await expect(adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 0.001 }))
+      .rejects.toThrow(/volume 0.001 below minimum.*retcode 10013 \(400\)/);
+    await expect(adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 10000000 }))
+      .rejects.toThrow(/insufficient margin.*retcode 10019/);
+  });
+
+  it('modifies SL/TP and reports an unknown ticket as not modified', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'SELL', volume: 1000, stopLoss: 1.09 });
+
+    expect(await adapter.modifyOrder(ticket, { stopLoss: 1.088, takeProfit: 1.07 })).toBe(true);
+    const [order] = await adapter.getOpenOrders();
+    expect(order.stopLoss).toBe(1.088);
+    expect(order.takeProfit).toBe(1.07);
+    expect(await adapter.modifyOrder('999', { stopLoss: 1.1 })).toBe(false);
+  });
+
+  it('closes at the bid and moves the trade into history', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000 });
+    current = quote(1.086);
+    await adapter.getMarketData('EUR/USD');
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+    expect(await adapter.closeOrder(ticket)).toBe(false);
+    expect(await adapter.getOpenOrders()).toEqual([]);
+
+    const [closed] = await adapter.getOrderHistory();
+    expect(closed).toMatchObject({ ticket, symbol: 'EUR/USD', status: 'CLOSED' });
+    expect(closed.currentPrice).toBeCloseTo(1.086);
+    expect(closed.profit).toBeCloseTo((1.086 - 1.0852) * 1000);
+    expect(closed.closeTime).toBeInstanceOf(Date);
+    expect((await adapter.getAccountInfo()).balance).toBeCloseTo(10000 + (1.086 - 1.0852) * 1000);
+  });
+
+  it('reports a stop loss the terminal hit, and cancelled pending orders, in history', async () => {
+    const stopped = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000, stopLoss: 1.083 });
+    const pending = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'SELL_LIMIT', volume: 1000, price: 1.095 });
+    expect(await adapter.closeOrder(pending)).toBe(true);
+
+    current = quote(1.084, { low: 1.0825 });
+    await adapter.getMarketData('EUR/USD');
+
+    const history = await adapter.getOrderHistory();
+    expect(history.find(order => order.ticket === pending)).toMatchObject({ status: 'CANCELLED', filledVolume: 0 });
+    const stop = history.find(order => order.ticket === stopped)!;
+    expect(stop).toMatchObject({ status: 'CLOSED', comment: '[sl]' });
+    expect(stop.currentPrice).toBe(1.083);
+  });
+});
+
+describe('MetaTraderAdapter protocol check', () => {
+  let server: MockHttpServer;
+
+  beforeEach(async () => {
+    server = new MockHttpServer();
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('refuses a bridge that speaks another protocol version', async () => {
+    server.route('POST', '/connect', () => ({ body: { protocol: 2, platform: 'MT5', server: 'Other', stream: false } }));
+    const adapter = new MetaTraderAdapter(config(server.url));
+
+    expect(await adapter.connect()).toBe(false);
+    expect(server.find('POST', '/connect')[0].headers.authorization).toBe(`Bearer ${API_KEY}`);
+  });
+});
@@ -0,0 +1,273 @@
+// MetaTrader 4/5 Adapter (via an EA-side bridge)
+
+import { BrokerAccountInfo, BrokerConfig, BrokerConnection, BrokerOrder, MarketDataFeed, OrderModification, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+import {
+  MT_BRIDGE_PROTOCOL_VERSION, MtAccount, MtBridgeError, MtConnectResponse, MtOrderModify, MtOrderSend, MtQuote,
+  MtStreamMessage, MtTrade,
+} from './metatrader-bridge';
+
+export interface MetaTraderOptions {
+  symbolSuffix?: string; // Broker-specific suffix on terminal symbols, e.g. '.m'
+  historyDays?: number; // How far back getOrderHistory asks the bridge
+  pollInterval?: number; // Used for subscriptions when the bridge or runtime cannot stream
+}
+
+export class MetaTraderAdapter implements BrokerAdapter {
+  private config: BrokerConfig;
+  private connection: BrokerConnection;
+  private baseUrl: string;
+  private options: Required<MetaTraderOptions>;
+  private canStream = false;
+  private symbols: Map<string, string> = new Map(); // Terminal symbol -> bot symbol
+  private subscriptions: Map<string, { stop: () => void }> = new Map();
+
+  constructor(config: BrokerConfig, options: MetaTraderOptions = {}) {
+    this.config = config;
+    this.connection = {
+      isConnected: false,
+      latency: 0,
+    };
+    this.baseUrl = (/^[a-z]+:\/\//i.test(config.serverUrl) ? config.serverUrl : `https://${config.serverUrl}`).replace(/\/+$/, '');
+    this.options = {
+      symbolSuffix: options.symbolSuffix ?? '',
+      historyDays: options.historyDays ?? 30,
+      pollInterval: options.pollInterval ?? 1000,
+    };
+  }
+
+  async connect(): Promise<boolean> {
+    try {
+      const response = await this.request<MtConnectResponse>('POST', '/connect', {
+        account: this.config.accountId,
+        server: this.config.serverUrl,
+      });
+      if (response.protocol !== MT_BRIDGE_PROTOCOL_VERSION) {
+        throw new Error(`Unsupported bridge protocol ${response.protocol}, expected ${MT_BRIDGE_PROTOCOL_VERSION}`);
+      }
+
+      this.canStream = response.stream;
+      this.connection.isConnected = true;
+      this.connection.connectionTime = new Date();
+      this.connection.error = undefined;
+      this.connection.latency = await this.measureLatency();
+      return true;
+    } catch (error) {
+      this.connection.error = error instanceof Error ? error.message : 'Unknown error';
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<boolean> {
+    this.subscriptions.forEach(subscription => subscription.stop());
+    this.subscriptions.clear();
+    this.connection.isConnected = false;
+    this.connection.connectionTime = undefined;
+    return true;
+  }
+
+  async getAccountInfo(): Promise<BrokerAccountInfo> {
+    this.ensureConnected();
+
+    const account = await this.request<MtAccount>('GET', '/account');
+    return {
+      balance: account.balance,
+      equity: account.equity,
+      margin: account.margin,
+      freeMargin: account.freeMargin,
+      marginLevel: account.marginLevel,
+      currency: account.currency,
+      leverage: account.leverage,
+      accountNumber: account.login,
+      serverName: account.server,
+    };
+  }
+
+  async getMarketData(symbol: string): Promise<MarketDataFeed> {
+    this.ensureConnected();
+
+    const quote = await this.request<MtQuote>('GET', `/quotes/${encodeURIComponent(this.toMtSymbol(symbol))}`);
+    return this.toMarketData(symbol, quote);
+  }
+
+  async placeOrder(order: OrderRequest): Promise<string> {
+    this.ensureConnected();
+
+    const isMarket = order.type === 'BUY' || order.type === 'SELL';
+    if (!isMarket && !(order.price && order.price > 0)) {
+      throw new Error(`Order rejected: ${order.type} requires a price`);
+    }
+
+    const request: MtOrderSend = {
+      symbol: this.toMtSymbol(order.symbol),
+      cmd: order.type,
+      volume: order.volume,
+      price: isMarket ? undefined : order.price,
+      sl: order.stopLoss,
+      tp: order.takeProfit,
+      comment: order.comment,
+      magic: order.magic,
+      expiration: order.expiration?.getTime(),
+    };
+    const { ticket } = await this.request<{ ticket: number }>('POST', '/orders', request);
+    return String(ticket);
+  }
+
+  async modifyOrder(ticket: string, changes: OrderModification): Promise<boolean> {
+    this.ensureConnected();
+
+    const request: MtOrderModify = { price: changes.price, sl: changes.stopLoss, tp: changes.takeProfit };
+    try {
+      await this.request<MtTrade>('PATCH', `/orders/${encodeURIComponent(ticket)}`, request);
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('(404)')) return false;
+      throw error;
+    }
+  }
+
+  async closeOrder(ticket: string): Promise<boolean> {
+    this.ensureConnected();
+
+    try {
+      const { closed } = await this.request<{ closed: boolean }>('DELETE', `/orders/${encodeURIComponent(ticket)}`);
+      return closed;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('(404)')) return false;
+      throw error;
+    }
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const trades = await this.request<MtTrade[]>('GET', '/orders');
+    return trades.map(trade => this.toBrokerOrder(trade));
+  }
+
+  async getOrderHistory(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+
+    const from = Date.now() - this.options.historyDays * 24 * 60 * 60 * 1000;
+    const trades = await this.request<MtTrade[]>('GET', `/history?from=${from}`);
+    return trades.map(trade => this.toBrokerOrder(trade));
+  }
+
+  // Streams quotes from the bridge's WebSocket where both sides support it, otherwise polls
+  subscribeToMarketData(symbol: string, callback: (data: MarketDataFeed) => void): void {
+    this.subscriptions.get(symbol)?.stop();
+
+    if (!this.canStream || typeof WebSocket === 'undefined') {
+      const interval = setInterval(async () => {
+        try {
+          callback(await this.getMarketData(symbol));
+        } catch (error) {
+          console.error('MetaTrader market data error:', error);
+        }
+      }, this.options.pollInterval);
+      this.subscriptions.set(symbol, { stop: () => clearInterval(interval) });
+      return;
+    }
+
+    const mtSymbol = this.toMtSymbol(symbol);
+    const socket = new WebSocket(`${this.baseUrl.replace(/^http/, 'ws')}/stream?token=${encodeURIComponent(this.config.apiKey)}`);
+    socket.onopen = () => socket.send(JSON.stringify({ action: 'subscribe', symbols: [mtSymbol] }));
+    socket.onmessage = (event) => {
+      const message: MtStreamMessage = JSON.parse(typeof event.data === 'string' ? event.data : '{}');
+      if (message.type === 'quote' && message.quote.symbol === mtSymbol) {
+        callback(this.toMarketData(symbol, message.quote));
+      } else if (message.type === 'error') {
+        console.error(`MetaTrader stream error: ${message.error}`);
+      }
+    };
+    this.subscriptions.set(symbol, { stop: () => socket.close() });
+  }
+
+  private toMtSymbol(symbol: string): string {
+    const mtSymbol = symbol.replace('/', '').toUpperCase() + this.options.symbolSuffix;
+    this.symbols.set(mtSymbol, symbol);
+    return mtSymbol;
+  }
+
+  // Symbols never requested by the bot, e.g. trades opened by hand, are split into base/quote when they look like a pair
+  private fromMtSymbol(mtSymbol: string): string {
+    const known = this.symbols.get(mtSymbol);
+    if (known) return known;
+
+    const bare = this.options.symbolSuffix && mtSymbol.endsWith(this.options.symbolSuffix)
+      ? mtSymbol.slice(0, -this.options.symbolSuffix.length)
+      : mtSymbol;
+    return /^[A-Z]{6}$/.test(bare) ? `${bare.slice(0, 3)}/${bare.slice(3)}` : bare;
+  }
+
+  private toMarketData(symbol: string, quote: MtQuote): MarketDataFeed {
+    const mid = (quote.bid + quote.ask) / 2;
+    return {
+      symbol,
+      bid: quote.bid,
+      ask: quote.ask,
+      spread: quote.ask - quote.bid,
+      volume: quote.volume,
+      timestamp: new Date(quote.time),
+      open: quote.open || mid,
+      high: Math.max(quote.high || mid, mid),
+      low: Math.min(quote.low || mid, mid),
+      close: mid,
+    };
+  }
+
+  private toBrokerOrder(trade: MtTrade): BrokerOrder {
+    return {
+      ticket: String(trade.ticket),
+      symbol: this.fromMtSymbol(trade.symbol),
+      type: trade.cmd.startsWith('BUY') ? 'BUY' : 'SELL',
+      volume: trade.volume,
+      filledVolume: trade.state === 'PENDING' ? 0 : trade.volume,
+      openPrice: trade.openPrice,
+      currentPrice: trade.currentPrice,
+      stopLoss: trade.sl || undefined,
+      takeProfit: trade.tp || undefined,
+      profit: trade.profit,
+      commission: trade.commission,
+      swap: trade.swap,
+      comment: trade.comment,
+      openTime: new Date(trade.openTime),
+      closeTime: trade.closeTime ? new Date(trade.closeTime) : undefined,
+      status: trade.state,
+    };
+  }
+
+  private async request<T>(method: 'GET' | 'POST' | 'PATCH' | 'DELETE', path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error: Partial<MtBridgeError> = await response.json().catch(() => ({}));
+      const retcode = error.retcode !== undefined ? `, retcode ${error.retcode}` : '';
+      throw new Error(`MetaTrader bridge ${method} ${path.split('?')[0]} failed: ${error.error || response.statusText}${retcode} (${response.status})`);
+    }
+    return response.json();
+  }
+
+  private async measureLatency(): Promise<number> {
+    const start = Date.now();
+    try {
+      await this.request('GET', '/ping');
+      return Date.now() - start;
+    } catch {
+      return 999; // High latency on error
+    }
+  }
+
+  private ensureConnected(): void {
+    if (!this.connection.isConnected) {
+      throw new Error('Not connected to broker');
+    }
+  }
+}
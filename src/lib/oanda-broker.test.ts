@@ -0,0 +1,362 @@
+import { ServerResponse } from 'http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrokerConfig, MarketDataFeed } from '@/types/broker';
+import { MockHttpServer } from '@/test/mock-http-server';
+import { OandaAdapter } from './oanda-broker';
+
+interface StandInOrder {
+  id: string;
+  type: string;
+  instrument: string;
+  units: string;
+  price?: string;
+  timeInForce: string;
+  state: 'PENDING' | 'FILLED' | 'TRIGGERED' | 'CANCELLED';
+  createTime: string;
+  cancelledTime?: string;
+  gtdTime?: string;
+  clientExtensions?: { id?: string; comment?: string };
+  stopLossOnFill?: { price: string };
+  takeProfitOnFill?: { price: string };
+}
+
+interface StandInTrade {
+  id: string;
+  instrument: string;
+  price: string;
+  openTime: string;
+  state: 'OPEN' | 'CLOSED';
+  initialUnits: string;
+  currentUnits: string;
+  realizedPL: string;
+  unrealizedPL?: string;
+  financing: string;
+  averageClosePrice?: string;
+  closeTime?: string;
+  clientExtensions?: { id?: string; comment?: string };
+  stopLossOrder?: { price: string };
+  takeProfitOrder?: { price: string };
+}
+
+const ACCOUNT = '101-004-1234567-001';
+const OPENED_AT = '2026-03-02T15:00:00.000000000Z';
+const ASK = 1.0852;
+const BID = 1.085;
+
+// OANDA v20 REST and pricing stream: market orders fill at once, entry orders stay pending until the test acts
+function createOandaStandIn(server: MockHttpServer) {
+  const orders: StandInOrder[] = [];
+  const trades: StandInTrade[] = [];
+  const streams: ServerResponse[] = [];
+  let nextId = 6000;
+
+  // Trades and orders are addressed by OANDA id or by client id as "@id"
+  const bySpecifier = <T extends { id: string; clientExtensions?: { id?: string } }>(items: T[], specifier: string) =>
+    items.find(item => (specifier.startsWith('@') ? item.clientExtensions?.id === specifier.slice(1) : item.id === specifier));
+
+  const closeTrade = (trade: StandInTrade, units: number, price: number, time: string) => {
+    const direction = parseFloat(trade.currentUnits) > 0 ? 1 : -1;
+    trade.currentUnits = String(parseFloat(trade.currentUnits) - units * direction);
+    trade.realizedPL = (parseFloat(trade.realizedPL) + (price - parseFloat(trade.price)) * units * direction).toFixed(4);
+    if (parseFloat(trade.currentUnits) === 0) {
+      Object.assign(trade, { state: 'CLOSED', averageClosePrice: price.toString(), closeTime: time, unrealizedPL: undefined });
+    }
+  };
+
+  const notFound = (kind: string, specifier: string) => ({
+    status: 404,
+    body: { errorCode: `NO_SUCH_${kind}`, errorMessage: `The ${kind.toLowerCase()} ID specified does not exist: ${specifier}` },
+  });
+
+  server
+    .route('GET', '/v3/accounts', () => ({ body: { accounts: [{ id: ACCOUNT, tags: [] }] } }))
+    .route('GET', '/v3/accounts/:account/summary', () => ({
+      body: {
+        account: { id: ACCOUNT, currency: 'USD', balance: '100000.0000', NAV: '100125.5000', marginUsed: '2170.0000', marginAvailable: '97955.5000', marginRate: '0.02' },
+        lastTransactionID: String(nextId),
+      },
+    }))
+    .route('GET', '/v3/accounts/:account/instruments', ({ query }) => ({
+      body: { instruments: [{ name: query.get('instruments'), type: 'CURRENCY', displayPrecision: 5, tradeUnitsPrecision: 0, minimumTradeSize: '1' }] },
+    }))
+    .route('GET', '/v3/accounts/:account/pricing', ({ query }) => ({
+      body: { prices: [{ type: 'PRICE', instrument: query.get('instruments'), time: OPENED_AT, bids: [{ price: BID.toString() }], asks: [{ price: ASK.toString() }] }] },
+    }))
+    .route('GET', '/v3/instruments/:instrument/candles', () => ({
+      body: { candles: [{ time: '2026-03-02T14:59:00.000000000Z', volume: 42, complete: false, mid: { o: '1.08480', h: '1.08560', l: '1.08450', c: '1.08510' } }] },
+    }))
+    .route('POST', '/v3/accounts/:account/orders', ({ body }) => {
+      const { order } = body as { order: Omit<StandInOrder, 'id' | 'state' | 'createTime'> & { tradeClientExtensions?: StandInOrder['clientExtensions'] } };
+      const created: StandInOrder = { ...order, id: String(++nextId), state: 'PENDING', createTime: OPENED_AT };
+      delete (created as { tradeClientExtensions?: unknown }).tradeClientExtensions;
+      orders.push(created);
+      if (order.type !== 'MARKET') {
+        return { status: 201, body: { orderCreateTransaction: { id: created.id, type: `${order.type}_ORDER` } } };
+      }
+
+      const units = parseFloat(order.units);
+      const trade: StandInTrade = {
+        id: String(++nextId),
+        instrument: order.instrument,
+        price: (units > 0 ? ASK : BID).toString(),
+        openTime: OPENED_AT,
+        state: 'OPEN',
+        initialUnits: order.units,
+        currentUnits: order.units,
+        realizedPL: '0.0000',
+        unrealizedPL: '0.0000',
+        financing: '0.0000',
+        clientExtensions: order.tradeClientExtensions,
+        stopLossOrder: order.stopLossOnFill,
+        takeProfitOrder: order.takeProfitOnFill,
+      };
+      created.state = 'FILLED';
+      trades.push(trade);
+      return {
+        status: 201,
+        body: { orderCreateTransaction: { id: created.id }, orderFillTransaction: { id: String(nextId), tradeOpened: { tradeID: trade.id } } },
+      };
+    })
+    .route('PUT', '/v3/accounts/:account/trades/:specifier/close', ({ params, body }) => {
+      const trade = bySpecifier(trades.filter(t => t.state === 'OPEN'), params.specifier);
+      if (!trade) return notFound('TRADE', params.specifier);
+      const units = (body as { units?: string } | undefined)?.units;
+      const closePrice = parseFloat(trade.currentUnits) > 0 ? BID : ASK;
+      closeTrade(trade, units ? parseFloat(units) : Math.abs(parseFloat(trade.currentUnits)), closePrice, '2026-03-02T16:00:00.000000000Z');
+      return { body: { orderFillTransaction: { id: String(++nextId), tradesClosed: [{ tradeID: trade.id }] } } };
+    })
+    .route('PUT', '/v3/accounts/:account/orders/:specifier/cancel', ({ params }) => {
+      const order = bySpecifier(orders.filter(o => o.state === 'PENDING'), params.specifier);
+      if (!order) return notFound('ORDER', params.specifier);
+      Object.assign(order, { state: 'CANCELLED', cancelledTime: '2026-03-02T15:30:00.000000000Z' });
+      return { body: { orderCancelTransaction: { id: String(++nextId), orderID: order.id, reason: 'CLIENT_REQUEST' } } };
+    })
+    .route('GET', '/v3/accounts/:account/openTrades', () => ({
+      body: { trades: trades.filter(t => t.state === 'OPEN').map(t => ({ ...t, unrealizedPL: ((BID - parseFloat(t.price)) * parseFloat(t.currentUnits)).toFixed(4) })) },
+    }))
+    .route('GET', '/v3/accounts/:account/pendingOrders', () => ({ body: { orders: orders.filter(o => o.state === 'PENDING') } }))
+    .route('GET', '/v3/accounts/:account/trades', ({ query }) => ({
+      body: { trades: trades.filter(t => t.state === query.get('state')).reverse().slice(0, Number(query.get('count'))) },
+    }))
+    .route('GET', '/v3/accounts/:account/orders', ({ query }) => ({
+      body: { orders: orders.filter(o => o.state === query.get('state')).reverse().slice(0, Number(query.get('count'))) },
+    }))
+    .route('GET', '/v3/accounts/:account/pricing/stream', (request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      response.flushHeaders();
+      streams.push(response);
+    });
+
+  // Newline-delimited JSON, as OANDA streams it; a message may arrive split across chunks
+  const push = (message: object, stream = streams[streams.length - 1]) => {
+    const line = `${JSON.stringify(message)}\n`;
+    stream.write(line.slice(0, 20));
+    stream.write(line.slice(20));
+  };
+  const price = (time: string, bid: number, ask: number) => ({
+    type: 'PRICE', instrument: 'EUR_USD', time, bids: [{ price: bid.toFixed(5) }], asks: [{ price: ask.toFixed(5) }], tradeable: true,
+  });
+
+  return { orders, trades, streams, push, price };
+}
+
+const config = (serverUrl: string): BrokerConfig => ({
+  id: 'oanda',
+  name: 'OANDA',
+  type: 'OANDA',
+  apiKey: 'token',
+  serverUrl,
+  testMode: true,
+  maxLeverage: 50,
+  minOrderSize: 1,
+  supportedSymbols: ['EUR/USD'],
+});
+
+describe('OandaAdapter against a local stand-in', () => {
+  let server: MockHttpServer;
+  let standIn: ReturnType<typeof createOandaStandIn>;
+  let adapter: OandaAdapter;
+
+  beforeEach(async () => {
+    server = new MockHttpServer();
+    standIn = createOandaStandIn(server);
+    await server.listen();
+    adapter = new OandaAdapter(config(server.url), { heartbeatTimeout: 100, maxReconnectDelay: 10 });
+    expect(await adapter.connect()).toBe(true);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter.disconnect();
+    await server.close();
+  });
+
+  it('authenticates with the bearer token and maps the account summary', async () => {
+    expect(server.requests[0].headers.authorization).toBe('Bearer token');
+    expect(await adapter.getAccountInfo()).toEqual({
+      balance: 100000,
+      equity: 100125.5,
+      margin: 2170,
+      freeMargin: 97955.5,
+      marginLevel: (100125.5 / 2170) * 100,
+      currency: 'USD',
+      leverage: 50,
+      accountNumber: ACCOUNT,
+      serverName: server.url,
+    });
+  });
+
+  describe('pricing stream', () => {
+    let ticks: MarketDataFeed[];
+
+    beforeEach(() => {
+      ticks = [];
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      adapter.subscribeToMarketData('EUR/USD', data => ticks.push(data));
+    });
+
+    const streamRequests = () => server.find('GET', `/v3/accounts/${ACCOUNT}/pricing/stream`);
+
+    it('builds the current minute bar from streamed ticks and skips heartbeats', async () => {
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(1));
+      expect(streamRequests()[0].query.get('instruments')).toBe('EUR_USD');
+
+      standIn.push(standIn.price('2026-03-02T15:00:01.000000000Z', 1.085, 1.0852));
+      standIn.push({ type: 'HEARTBEAT', time: '2026-03-02T15:00:05.000000000Z' });
+      standIn.push(standIn.price('2026-03-02T15:00:09.000000000Z', 1.0856, 1.0858));
+      standIn.push(standIn.price('2026-03-02T15:01:00.000000000Z', 1.0846, 1.0848));
+      await vi.waitFor(() => expect(ticks).toHaveLength(3));
+
+      expect(ticks[1]).toMatchObject({ symbol: 'EUR/USD', bid: 1.0856, ask: 1.0858, open: 1.0851, high: 1.0857, low: 1.0851, volume: 2 });
+      expect(ticks[1].close).toBeCloseTo(1.0857);
+      expect(ticks[2]).toMatchObject({ open: 1.0847, high: 1.0847, low: 1.0847, volume: 1 }); // A new minute starts a new bar
+      expect(ticks[2].timestamp).toEqual(new Date('2026-03-02T15:01:00Z'));
+    });
+
+    it('reconnects after the server drops the stream', async () => {
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(1));
+      standIn.push(standIn.price('2026-03-02T15:00:01.000000000Z', 1.085, 1.0852));
+      await vi.waitFor(() => expect(ticks).toHaveLength(1));
+
+      server.dropConnections();
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(2));
+      standIn.push(standIn.price('2026-03-02T15:00:02.000000000Z', 1.0851, 1.0853));
+
+      await vi.waitFor(() => expect(ticks).toHaveLength(2));
+      expect(ticks[1].bid).toBe(1.0851);
+    });
+
+    it('reconnects when the stream goes silent past the heartbeat timeout', async () => {
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(1));
+
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(2), { timeout: 1000 });
+      expect(standIn.streams[0].destroyed || standIn.streams[0].writableEnded || standIn.streams[0].closed).toBe(true);
+      standIn.push(standIn.price('2026-03-02T15:00:03.000000000Z', 1.0852, 1.0854));
+      await vi.waitFor(() => expect(ticks).toHaveLength(1));
+    });
+
+    it('retries when the stream endpoint fails', async () => {
+      await adapter.disconnect();
+      await adapter.connect();
+      let failures = 2;
+      server.route('GET', '/v3/accounts/:account/pricing/stream', (request, response) => {
+        if (failures-- > 0) return { status: 503, body: { errorMessage: 'Service Unavailable' } };
+        response.writeHead(200);
+        response.flushHeaders();
+        standIn.streams.push(response);
+      });
+      adapter.subscribeToMarketData('EUR/USD', data => ticks.push(data));
+
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(2));
+      expect(console.error).toHaveBeenCalledWith('OANDA pricing stream error:', expect.objectContaining({
+        message: 'OANDA pricing stream failed: Service Unavailable (503)',
+      }));
+    });
+
+    it('stops reconnecting once disconnected', async () => {
+      await vi.waitFor(() => expect(standIn.streams).toHaveLength(1));
+      await adapter.disconnect();
+      server.dropConnections();
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(streamRequests()).toHaveLength(1);
+    });
+  });
+
+  it('sends a limit order with SL and TP on fill at the instrument precision', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY_LIMIT', volume: 10000.4, price: 1.08, stopLoss: 1.0750004, takeProfit: 1.09, comment: 'Pullback entry' });
+
+    const { order } = server.find('POST', `/v3/accounts/${ACCOUNT}/orders`)[0].body as { order: Record<string, unknown> };
+    expect(order).toEqual({
+      type: 'LIMIT',
+      instrument: 'EUR_USD',
+      units: '10000',
+      price: '1.08000',
+      timeInForce: 'GTC',
+      positionFill: 'DEFAULT',
+      clientExtensions: { id: ticket, tag: 'trading-bot', comment: 'Pullback entry' },
+      tradeClientExtensions: { id: ticket, tag: 'trading-bot', comment: 'Pullback entry' },
+      stopLossOnFill: { price: '1.07500' },
+      takeProfitOnFill: { price: '1.09000' },
+    });
+    expect(await adapter.getOpenOrders()).toEqual([
+      expect.objectContaining({ ticket, symbol: 'EUR/USD', type: 'BUY', volume: 10000, openPrice: 1.08, stopLoss: 1.075, takeProfit: 1.09, status: 'PENDING' }),
+    ]);
+  });
+
+  it('sends a sell stop with an expiry as a good-til-date order', async () => {
+    const expiration = new Date('2026-03-03T00:00:00Z');
+    await adapter.placeOrder({ symbol: 'EUR/USD', type: 'SELL_STOP', volume: 5000, price: 1.082, expiration });
+
+    const { order } = server.find('POST', `/v3/accounts/${ACCOUNT}/orders`)[0].body as { order: Record<string, unknown> };
+    expect(order).toMatchObject({ type: 'STOP', units: '-5000', price: '1.08200', timeInForce: 'GTD', gtdTime: '2026-03-03T00:00:00.000Z' });
+    expect(order.stopLossOnFill).toBeUndefined();
+  });
+
+  it('reports a pending order OANDA cancelled at its expiry as expired', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'SELL_STOP', volume: 5000, price: 1.082, expiration: new Date('2026-03-03T00:00:00Z') });
+    Object.assign(standIn.orders[0], { state: 'CANCELLED', cancelledTime: '2026-03-03T00:00:00.000000000Z' });
+
+    expect(await adapter.getOpenOrders()).toEqual([]);
+    expect(await adapter.getOrderHistory()).toEqual([expect.objectContaining({ ticket, type: 'SELL', volume: 5000, status: 'EXPIRED' })]);
+  });
+
+  it('cancels a pending order when there is no trade to close', async () => {
+    const ticket = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY_LIMIT', volume: 1000, price: 1.08 });
+
+    expect(await adapter.closeOrder(ticket)).toBe(true);
+    expect(server.find('PUT', `/v3/accounts/${ACCOUNT}/trades/@${ticket}/close`)).toHaveLength(1);
+    expect(server.find('PUT', `/v3/accounts/${ACCOUNT}/orders/@${ticket}/cancel`)).toHaveLength(1);
+    expect(await adapter.getOrderHistory()).toEqual([expect.objectContaining({ ticket, status: 'CANCELLED' })]);
+    expect(await adapter.closeOrder(ticket)).toBe(false);
+  });
+
+  it('rejects units below the instrument minimum before sending', async () => {
+    await expect(adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 0.4 }))
+      .rejects.toThrow('Order rejected: 0.4 units below OANDA minimum 1 for EUR_USD');
+    expect(server.find('POST', `/v3/accounts/${ACCOUNT}/orders`)).toHaveLength(0);
+  });
+
+  it('lists closed trades with their close price, realized P&L and financing', async () => {
+    const first = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 10000, stopLoss: 1.08, takeProfit: 1.09 });
+    const second = await adapter.placeOrder({ symbol: 'EUR/USD', type: 'SELL', volume: 2000 });
+    expect(await adapter.getOpenOrders()).toEqual([
+      expect.objectContaining({ ticket: first, type: 'BUY', openPrice: ASK, currentPrice: BID, stopLoss: 1.08, takeProfit: 1.09, status: 'OPEN' }),
+      expect.objectContaining({ ticket: second, type: 'SELL', openPrice: BID, status: 'OPEN' }),
+    ]);
+
+    expect(await adapter.closeOrderPartial(first, 4000)).toBe(true);
+    expect(server.find('PUT', `/v3/accounts/${ACCOUNT}/trades/@${first}/close`)[0].body).toEqual({ units: '4000' });
+    Object.assign(standIn.trades[1], { state: 'CLOSED', averageClosePrice: '1.0840', realizedPL: '2.0000', financing: '-0.1200', closeTime: '2026-03-02T15:45:00.000000000Z' });
+    expect(await adapter.closeOrder(first)).toBe(true);
+
+    const history = await adapter.getOrderHistory();
+    expect(server.find('GET', `/v3/accounts/${ACCOUNT}/trades`)[0].query.get('count')).toBe('500');
+    expect(history).toEqual([
+      expect.objectContaining({ ticket: second, type: 'SELL', volume: 2000, openPrice: BID, currentPrice: 1.084, profit: 2, swap: -0.12, status: 'CLOSED' }),
+      expect.objectContaining({ ticket: first, type: 'BUY', volume: 10000, openPrice: ASK, currentPrice: BID, status: 'CLOSED' }),
+    ]);
+    expect(history[1].profit).toBeCloseTo((BID - ASK) * 10000);
+    expect(history[1].closeTime).toEqual(new Date('2026-03-02T16:00:00Z'));
+  });
+});
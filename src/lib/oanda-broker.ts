@@ -0,0 +1,506 @@
+// OANDA v20 Adapter
+
+import { BrokerAccountInfo, BrokerConfig, BrokerConnection, BrokerOrder, MarketDataFeed, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+
+const HOSTS = {
+  live: { api: 'https://api-fxtrade.oanda.com', stream: 'https://stream-fxtrade.oanda.com' },
+  practice: { api: 'https://api-fxpractice.oanda.com', stream: 'https://stream-fxpractice.oanda.com' },
+};
+
+// Bot orders carry this prefix in clientExtensions.id; the same id is given to the resulting trade
+const CLIENT_ID_PREFIX = 'bot-';
+const ENTRY_ORDER_TYPES = ['LIMIT', 'STOP', 'MARKET_IF_TOUCHED'];
+
+interface OandaPrice {
+  type?: 'PRICE';
+  instrument: string;
+  time: string;
+  bids: { price: string }[];
+  asks: { price: string }[];
+}
+
+interface OandaCandle {
+  time: string;
+  volume: number;
+  mid: { o: string; h: string; l: string; c: string };
+}
+
+interface OandaInstrument {
+  name: string;
+  displayPrecision: number;
+  tradeUnitsPrecision: number;
+  minimumTradeSize: string;
+}
+
+interface OandaTrade {
+  id: string;
+  instrument: string;
+  price: string;
+  openTime: string;
+  state: 'OPEN' | 'CLOSED' | 'CLOSE_WHEN_TRADEABLE';
+  initialUnits: string;
+  currentUnits: string;
+  realizedPL: string;
+  unrealizedPL?: string;
+  financing: string;
+  averageClosePrice?: string;
+  closeTime?: string;
+  clientExtensions?: { id?: string; comment?: string };
+  stopLossOrder?: { price: string };
+  takeProfitOrder?: { price: string };
+}
+
+interface OandaOrder {
+  id: string;
+  type: string;
+  instrument: string;
+  units: string;
+  price?: string;
+  state: 'PENDING' | 'FILLED' | 'TRIGGERED' | 'CANCELLED';
+  createTime: string;
+  cancelledTime?: string;
+  gtdTime?: string;
+  clientExtensions?: { id?: string; comment?: string };
+  stopLossOnFill?: { price: string };
+  takeProfitOnFill?: { price: string };
+}
+
+interface OandaOrderResponse {
+  orderCreateTransaction?: { id: string };
+  orderFillTransaction?: { tradeOpened?: { tradeID: string } };
+  orderCancelTransaction?: { reason: string };
+}
+
+type OandaStreamMessage = OandaPrice | { type: 'HEARTBEAT'; time: string };
+
+export interface OandaOptions {
+  heartbeatTimeout?: number; // OANDA sends a heartbeat every 5s; a silent stream is reconnected after this
+  maxReconnectDelay?: number;
+  historyCount?: number; // Closed trades requested per history call (OANDA caps this at 500)
+}
+
+export class OandaAdapter implements BrokerAdapter {
+  private config: BrokerConfig;
+  private connection: BrokerConnection;
+  private apiUrl: string;
+  private streamUrl: string;
+  private accountId?: string;
+  private options: Required<OandaOptions>;
+  private instruments: Map<string, OandaInstrument> = new Map();
+  private subscriptions: Map<string, { stop: () => void }> = new Map();
+
+  constructor(config: BrokerConfig, options: OandaOptions = {}) {
+    this.config = config;
+    this.connection = {
+      isConnected: false,
+      latency: 0,
+    };
+
+    // An OANDA host picks live or practice (testMode always means practice); any other URL serves both APIs, e.g. a local mock
+    const server = (config.serverUrl || '').replace(/\/+$/, '');
+    if (!server || /oanda\.com/.test(server)) {
+      const hosts = config.testMode || /fxpractice/.test(server) ? HOSTS.practice : HOSTS.live;
+      this.apiUrl = hosts.api;
+      this.streamUrl = hosts.stream;
+    } else {
+      this.apiUrl = /^[a-z]+:\/\//i.test(server) ? server : `https://${server}`;
+      this.streamUrl = this.apiUrl;
+    }
+    this.accountId = config.accountId;
+    this.options = {
+      heartbeatTimeout: options.heartbeatTimeout ?? 15000,
+      maxReconnectDelay: options.maxReconnectDelay ?? 30000,
+      historyCount: options.historyCount ?? 500,
+    };
+  }
+
+  async connect(): Promise<boolean> {
+    try {
+      const start = Date.now();
+      const { accounts } = await this.request<{ accounts: { id: string }[] }>('GET', '/v3/accounts');
+      this.connection.latency = Date.now() - start;
+
+      const accountId = this.config.accountId || accounts[0]?.id;
+      if (!accountId || !accounts.some(account => account.id === accountId)) {
+        throw new Error(`OANDA account ${accountId || '(none)'} is not accessible with this token`);
+      }
+
+      this.accountId = accountId;
+      this.connection.isConnected = true;
+      this.connection.connectionTime = new Date();
+      this.connection.error = undefined;
+      return true;
+    } catch (error) {
+      this.connection.error = error instanceof Error ? error.message : 'Unknown error';
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<boolean> {
+    this.subscriptions.forEach(subscription => subscription.stop());
+    this.subscriptions.clear();
+    this.connection.isConnected = false;
+    return true;
+  }
+
+  async getAccountInfo(): Promise<BrokerAccountInfo> {
+    const accountId = this.ensureConnected();
+
+    const { account } = await this.request<{ account: Record<string, string> }>('GET', `/v3/accounts/${accountId}/summary`);
+    const equity = parseFloat(account.NAV);
+    const margin = parseFloat(account.marginUsed);
+
+    return {
+      balance: parseFloat(account.balance),
+      equity,
+      margin,
+      freeMargin: parseFloat(account.marginAvailable),
+      marginLevel: margin > 0 ? (equity / margin) * 100 : 0,
+      currency: account.currency,
+      leverage: parseFloat(account.marginRate) > 0 ? Math.round(1 / parseFloat(account.marginRate)) : this.config.maxLeverage,
+      accountNumber: account.id,
+      serverName: this.apiUrl === HOSTS.live.api ? 'OANDA' : this.apiUrl === HOSTS.practice.api ? 'OANDA Practice' : this.apiUrl,
+    };
+  }
+
+  async getMarketData(symbol: string): Promise<MarketDataFeed> {
+    const accountId = this.ensureConnected();
+
+    const instrument = this.convertToOandaSymbol(symbol);
+    const [{ prices }, { candles }] = await Promise.all([
+      this.request<{ prices: OandaPrice[] }>('GET', `/v3/accounts/${accountId}/pricing?instruments=${instrument}`),
+      this.request<{ candles: OandaCandle[] }>('GET', `/v3/instruments/${instrument}/candles?count=1&granularity=M1&price=M`),
+    ]);
+    if (!prices[0]) {
+      throw new Error(`No OANDA price for ${symbol}`);
+    }
+    return this.toMarketData(symbol, prices[0], candles[candles.length - 1]);
+  }
+
+  async placeOrder(order: OrderRequest): Promise<string> {
+    const accountId = this.ensureConnected();
+
+    const instrument = this.convertToOandaSymbol(order.symbol);
+    const spec = await this.getInstrument(instrument);
+    const units = Number(order.volume.toFixed(spec.tradeUnitsPrecision));
+    if (!(units >= parseFloat(spec.minimumTradeSize))) {
+      throw new Error(`Order rejected: ${order.volume} units below OANDA minimum ${spec.minimumTradeSize} for ${instrument}`);
+    }
+
+    const isMarket = order.type === 'BUY' || order.type === 'SELL';
+    if (!isMarket && !(order.price && order.price > 0)) {
+      throw new Error(`Order rejected: ${order.type} requires a price`);
+    }
+
+    const price = (value: number) => value.toFixed(spec.displayPrecision);
+    const clientId = `${CLIENT_ID_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).substr(2, 6)}`;
+    const extensions = { id: clientId, tag: 'trading-bot', comment: order.comment?.slice(0, 128) };
+
+    const body = {
+      order: {
+        type: isMarket ? 'MARKET' : order.type.endsWith('LIMIT') ? 'LIMIT' : 'STOP',
+        instrument,
+        units: String(order.type.startsWith('BUY') ? units : -units),
+        ...(isMarket
+          ? { timeInForce: 'FOK' }
+          : {
+            price: price(order.price!),
+            timeInForce: order.expiration ? 'GTD' : 'GTC',
+            ...(order.expiration ? { gtdTime: order.expiration.toISOString() } : {}),
+          }),
+        positionFill: 'DEFAULT',
+        clientExtensions: extensions,
+        tradeClientExtensions: extensions,
+        stopLossOnFill: order.stopLoss ? { price: price(order.stopLoss) } : undefined,
+        takeProfitOnFill: order.takeProfit ? { price: price(order.takeProfit) } : undefined,
+      },
+    };
+
+    const result = await this.request<OandaOrderResponse>('POST', `/v3/accounts/${accountId}/orders`, body);
+    if (result.orderCancelTransaction) {
+      throw new Error(`OANDA cancelled the order for ${order.symbol}: ${result.orderCancelTransaction.reason}`);
+    }
+    return clientId;
+  }
+
+  // Closes the trade opened by the order, or cancels the order while it is still pending
+  async closeOrder(ticket: string): Promise<boolean> {
+    const accountId = this.ensureConnected();
+    const specifier = this.toSpecifier(ticket);
+
+    try {
+      await this.request('PUT', `/v3/accounts/${accountId}/trades/${specifier}/close`);
+      return true;
+    } catch (error) {
+      if (!this.isNotFound(error)) throw error;
+    }
+    try {
+      await this.request('PUT', `/v3/accounts/${accountId}/orders/${specifier}/cancel`);
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  // OANDA closes the given units of the trade and leaves the rest open under the same id
+  async closeOrderPartial(ticket: string, volume: number): Promise<boolean> {
+    const accountId = this.ensureConnected();
+
+    try {
+      await this.request('PUT', `/v3/accounts/${accountId}/trades/${this.toSpecifier(ticket)}/close`, { units: String(volume) });
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    const accountId = this.ensureConnected();
+
+    const [{ trades }, { orders }] = await Promise.all([
+      this.request<{ trades: OandaTrade[] }>('GET', `/v3/accounts/${accountId}/openTrades`),
+      this.request<{ orders: OandaOrder[] }>('GET', `/v3/accounts/${accountId}/pendingOrders`),
+    ]);
+    return [
+      ...orders.filter(order => ENTRY_ORDER_TYPES.includes(order.type)).map(order => this.orderToBrokerOrder(order)),
+      ...trades.map(trade => this.tradeToBrokerOrder(trade)),
+    ];
+  }
+
+  async getOrderHistory(): Promise<BrokerOrder[]> {
+    const accountId = this.ensureConnected();
+
+    const [{ trades }, { orders }] = await Promise.all([
+      this.request<{ trades: OandaTrade[] }>('GET', `/v3/accounts/${accountId}/trades?state=CLOSED&count=${this.options.historyCount}`),
+      this.request<{ orders: OandaOrder[] }>('GET', `/v3/accounts/${accountId}/orders?state=CANCELLED&count=${this.options.historyCount}`),
+    ]);
+    return [
+      ...orders.filter(order => ENTRY_ORDER_TYPES.includes(order.type)).map(order => this.orderToBrokerOrder(order)),
+      ...trades.map(trade => this.tradeToBrokerOrder(trade)),
+    ].sort((a, b) => (a.closeTime?.getTime() || 0) - (b.closeTime?.getTime() || 0));
+  }
+
+  // Reads the newline-delimited pricing stream and reconnects with backoff when it drops or goes silent
+  subscribeToMarketData(symbol: string, callback: (data: MarketDataFeed) => void): void {
+    this.subscriptions.get(symbol)?.stop();
+
+    const accountId = this.ensureConnected();
+    const instrument = this.convertToOandaSymbol(symbol);
+    let stopped = false;
+    let controller: AbortController | undefined;
+    let bar: OandaCandle | undefined;
+    const initialDelay = Math.min(1000, this.options.maxReconnectDelay);
+    let reconnectDelay = initialDelay;
+
+    const run = async () => {
+      while (!stopped) {
+        controller = new AbortController();
+        let watchdog: ReturnType<typeof setTimeout> | undefined;
+        const resetWatchdog = () => {
+          if (watchdog) clearTimeout(watchdog);
+          watchdog = setTimeout(() => controller?.abort(), this.options.heartbeatTimeout);
+        };
+
+        try {
+          resetWatchdog();
+          const response = await fetch(`${this.streamUrl}/v3/accounts/${accountId}/pricing/stream?instruments=${instrument}`, {
+            headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`OANDA pricing stream failed: ${response.statusText} (${response.status})`);
+          }
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+          while (!stopped) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            resetWatchdog();
+            reconnectDelay = initialDelay;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines.filter(Boolean)) {
+              const message: OandaStreamMessage = JSON.parse(line);
+              if (message.type !== 'PRICE') continue;
+              bar = this.updateBar(bar, message);
+              callback(this.toMarketData(symbol, message, bar));
+            }
+          }
+        } catch (error) {
+          if (!stopped) console.error('OANDA pricing stream error:', error);
+        } finally {
+          if (watchdog) clearTimeout(watchdog);
+        }
+
+        if (stopped) break;
+        await new Promise(resolve => setTimeout(resolve, reconnectDelay));
+        reconnectDelay = Math.min(reconnectDelay * 2, this.options.maxReconnectDelay);
+      }
+    };
+
+    run();
+    this.subscriptions.set(symbol, {
+      stop: () => {
+        stopped = true;
+        controller?.abort();
+      },
+    });
+  }
+
+  // Streamed prices carry no candle, so the current minute's mid-price bar is built from the ticks
+  private updateBar(bar: OandaCandle | undefined, price: OandaPrice): OandaCandle {
+    const mid = ((parseFloat(price.bids[0].price) + parseFloat(price.asks[0].price)) / 2).toString();
+    const minute = price.time.slice(0, 16);
+    if (!bar || bar.time.slice(0, 16) !== minute) {
+      return { time: price.time, volume: 1, mid: { o: mid, h: mid, l: mid, c: mid } };
+    }
+    return {
+      time: bar.time,
+      volume: bar.volume + 1,
+      mid: {
+        o: bar.mid.o,
+        h: String(Math.max(parseFloat(bar.mid.h), parseFloat(mid))),
+        l: String(Math.min(parseFloat(bar.mid.l), parseFloat(mid))),
+        c: mid,
+      },
+    };
+  }
+
+  private toMarketData(symbol: string, price: OandaPrice, candle?: OandaCandle): MarketDataFeed {
+    const bid = parseFloat(price.bids[0].price);
+    const ask = parseFloat(price.asks[0].price);
+    const mid = (bid + ask) / 2;
+
+    return {
+      symbol,
+      bid,
+      ask,
+      spread: ask - bid,
+      volume: candle?.volume ?? 0,
+      timestamp: new Date(price.time),
+      high: Math.max(candle ? parseFloat(candle.mid.h) : mid, mid),
+      low: Math.min(candle ? parseFloat(candle.mid.l) : mid, mid),
+      open: candle ? parseFloat(candle.mid.o) : mid,
+      close: mid,
+    };
+  }
+
+  private tradeToBrokerOrder(trade: OandaTrade): BrokerOrder {
+    const isOpen = trade.state !== 'CLOSED';
+    const units = parseFloat(isOpen ? trade.currentUnits : trade.initialUnits);
+    const openPrice = parseFloat(trade.price);
+    const profit = parseFloat(isOpen ? trade.unrealizedPL || '0' : trade.realizedPL);
+
+    return {
+      ticket: trade.clientExtensions?.id || trade.id,
+      symbol: this.convertFromOandaSymbol(trade.instrument),
+      type: units > 0 ? 'BUY' : 'SELL',
+      volume: Math.abs(units),
+      filledVolume: Math.abs(units),
+      openPrice,
+      currentPrice: isOpen ? (units !== 0 ? profit / units + openPrice : openPrice) : parseFloat(trade.averageClosePrice || trade.price),
+      stopLoss: trade.stopLossOrder ? parseFloat(trade.stopLossOrder.price) : undefined,
+      takeProfit: trade.takeProfitOrder ? parseFloat(trade.takeProfitOrder.price) : undefined,
+      profit,
+      commission: 0,
+      swap: parseFloat(trade.financing),
+      comment: trade.clientExtensions?.comment || '',
+      openTime: new Date(trade.openTime),
+      closeTime: trade.closeTime ? new Date(trade.closeTime) : undefined,
+      status: isOpen ? 'OPEN' : 'CLOSED',
+    };
+  }
+
+  private orderToBrokerOrder(order: OandaOrder): BrokerOrder {
+    const units = parseFloat(order.units);
+    const price = parseFloat(order.price || '0');
+    // Compared as dates: OANDA reports nanoseconds, so the strings need not share a precision with what was sent
+    const expired = order.state === 'CANCELLED' && !!order.gtdTime && !!order.cancelledTime &&
+      new Date(order.cancelledTime).getTime() >= new Date(order.gtdTime).getTime();
+
+    return {
+      ticket: order.clientExtensions?.id || order.id,
+      symbol: this.convertFromOandaSymbol(order.instrument),
+      type: units > 0 ? 'BUY' : 'SELL',
+      volume: Math.abs(units),
+      filledVolume: 0,
+      openPrice: price,
+      currentPrice: price,
+      stopLoss: order.stopLossOnFill ? parseFloat(order.stopLossOnFill.price) : undefined,
+      takeProfit: order.takeProfitOnFill ? parseFloat(order.takeProfitOnFill.price) : undefined,
+      profit: 0,
+      commission: 0,
+      swap: 0,
+      comment: order.clientExtensions?.comment || '',
+      openTime: new Date(order.createTime),
+      closeTime: order.cancelledTime ? new Date(order.cancelledTime) : undefined,
+      status: order.state === 'PENDING' ? 'PENDING' : expired ? 'EXPIRED' : 'CANCELLED',
+    };
+  }
+
+  private async getInstrument(instrument: string): Promise<OandaInstrument> {
+    const cached = this.instruments.get(instrument);
+    if (cached) return cached;
+
+    const { instruments } = await this.request<{ instruments: OandaInstrument[] }>(
+      'GET', `/v3/accounts/${this.accountId}/instruments?instruments=${instrument}`
+    );
+    if (!instruments[0]) {
+      throw new Error(`OANDA does not offer ${instrument} on account ${this.accountId}`);
+    }
+    this.instruments.set(instrument, instruments[0]);
+    return instruments[0];
+  }
+
+  // Bot tickets are client ids, addressed as @id; numeric tickets are OANDA's own ids
+  private toSpecifier(ticket: string): string {
+    return ticket.startsWith(CLIENT_ID_PREFIX) ? `@${ticket}` : ticket;
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return error instanceof Error && error.message.endsWith('(404)');
+  }
+
+  private async request<T = unknown>(method: 'GET' | 'POST' | 'PUT', path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Accept-Datetime-Format': 'RFC3339',
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      const reason = error.orderRejectTransaction?.rejectReason || error.errorMessage || response.statusText;
+      throw new Error(`OANDA ${method} ${path.split('?')[0]} failed: ${reason} (${response.status})`);
+    }
+    return response.json();
+  }
+
+  private convertToOandaSymbol(symbol: string): string {
+    // Convert standard symbols to OANDA format
+    return symbol.replace('/', '_');
+  }
+
+  private convertFromOandaSymbol(instrument: string): string {
+    // Convert OANDA format back to standard
+    return instrument.replace('_', '/');
+  }
+
+  private ensureConnected(): string {
+    if (!this.connection.isConnected || !this.accountId) {
+      throw new Error('Not connected to OANDA');
+    }
+    return this.accountId;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BrokerOrder } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+import { SimulatedClock } from './clock';
+import { OrderManager } from './order-manager';
+
+const NOW = new Date('2026-03-02T15:00:00Z');
+
+function brokerWith(getOpenOrders: BrokerAdapter['getOpenOrders']): BrokerAdapter {
+  return {
+    connect: async () => true,
+    disconnect: async () => true,
+    getAccountInfo: async () => { throw new Error('Not used'); },
+    getMarketData: async () => { throw new Error('Not used'); },
+    placeOrder: async () => 'T1',
+    closeOrder: async () => true,
+    getOpenOrders,
+    getOrderHistory: async () => [],
+    subscribeToMarketData: () => undefined,
+  };
+}
+
+const filled: BrokerOrder = {
+  ticket: 'T1', symbol: 'EURUSD', type: 'BUY', volume: 1000, openPrice: 1.1, currentPrice: 1.1,
+  profit: 0, commission: 0, swap: 0, comment: '', openTime: NOW, status: 'OPEN',
+};
+
+describe('OrderManager.submit', () => {
+  it('keeps an accepted order when the sync after placing it fails', async () => {
+    const onSyncError = vi.fn();
+    const manager = new OrderManager({ clock: new SimulatedClock(NOW), onSyncError });
+    const getOpenOrders = vi.fn<BrokerAdapter['getOpenOrders']>()
+      .mockRejectedValueOnce(new Error('Gateway timeout'))
+      .mockResolvedValue([filled]);
+    const broker = brokerWith(getOpenOrders);
+
+    const order = await manager.submit({ symbol: 'EURUSD', type: 'BUY', volume: 1000 }, 'pos_1', broker, 1.1);
+
+    expect(order.status).toBe('ACCEPTED');
+    expect(order.brokerTicket).toBe('T1');
+    expect(onSyncError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Gateway timeout' }));
+
+    await manager.sync(broker);
+    expect(order.status).toBe('FILLED');
+    expect(order.filledQuantity).toBe(1000);
+  });
+});
@@ -0,0 +1,194 @@
+// Order Lifecycle Tracking (NEW → ACCEPTED → PARTIALLY_FILLED → FILLED / REJECTED / CANCELLED / EXPIRED)
+
+import { ManagedOrder, OrderStatus } from '@/types/trading';
+import { BrokerOrder, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+import { Clock, systemClock } from './clock';
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  NEW: ['ACCEPTED', 'REJECTED'],
+  ACCEPTED: ['PARTIALLY_FILLED', 'FILLED', 'REJECTED', 'CANCELLED', 'EXPIRED'],
+  PARTIALLY_FILLED: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'EXPIRED'],
+  FILLED: [],
+  REJECTED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+};
+
+export function isTerminalOrderStatus(status: OrderStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+export interface OrderManagerOptions {
+  clock?: Clock;
+  maxOrders?: number; // Finished orders beyond this are dropped, oldest first
+  onTransition?: (order: ManagedOrder, previous?: OrderStatus, reason?: string) => void;
+  onSyncError?: (error: unknown) => void; // The order is live but its first sync failed; the next sync picks it up
+}
+
+export class OrderManager {
+  private orders: ManagedOrder[] = [];
+  private clock: Clock;
+  private maxOrders: number;
+  private onTransition?: OrderManagerOptions['onTransition'];
+  private onSyncError?: OrderManagerOptions['onSyncError'];
+  private idSequence = 0;
+
+  constructor(options: OrderManagerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.maxOrders = options.maxOrders ?? 100;
+    this.onTransition = options.onTransition;
+    this.onSyncError = options.onSyncError;
+  }
+
+  // Tracks the given list in place, so it stays in sync with the bot state that owns it
+  restore(orders: ManagedOrder[]): void {
+    this.orders = orders;
+  }
+
+  getOrders(): ManagedOrder[] {
+    return this.orders;
+  }
+
+  getOrder(id: string): ManagedOrder | undefined {
+    return this.orders.find(order => order.id === id);
+  }
+
+  // Places the order with the broker, or fills it in full at the given price when there is none
+  async submit(request: OrderRequest, positionId: string, broker: BrokerAdapter | null, price: number): Promise<ManagedOrder> {
+    const order = this.create(request, positionId);
+
+    if (!broker) {
+      this.transition(order, 'ACCEPTED');
+      this.recordFill(order, order.quantity, price);
+      return order;
+    }
+
+    try {
+      const ticket = await broker.placeOrder(request);
+      if (!ticket) {
+        this.reject(order, 'Broker returned no ticket');
+        return order;
+      }
+      order.brokerTicket = ticket;
+      this.transition(order, 'ACCEPTED', `Ticket ${ticket}`);
+    } catch (error) {
+      this.reject(order, error instanceof Error ? error.message : String(error));
+      return order;
+    }
+
+    try {
+      await this.sync(broker);
+    } catch (error) {
+      this.onSyncError?.(error); // Still ACCEPTED, so the caller tracks it and later syncs pick up its fills
+    }
+    return order;
+  }
+
+  // Pulls fills and final states from the broker; returns the orders that changed
+  async sync(broker: BrokerAdapter): Promise<ManagedOrder[]> {
+    const active = this.orders.filter(order => order.brokerTicket && !isTerminalOrderStatus(order.status));
+    if (active.length === 0) return [];
+
+    const [openOrders, history] = await Promise.all([broker.getOpenOrders(), broker.getOrderHistory()]);
+    const byTicket = new Map([...history, ...openOrders].map(brokerOrder => [brokerOrder.ticket, brokerOrder]));
+
+    return active.filter(order => {
+      const brokerOrder = byTicket.get(order.brokerTicket!);
+      return brokerOrder ? this.apply(order, brokerOrder) : false;
+    });
+  }
+
+  // Marks a live order as cancelled locally, e.g. when its position was closed with a remainder unfilled
+  cancel(orderId: string, reason: string): ManagedOrder | undefined {
+    const order = this.getOrder(orderId);
+    if (!order || isTerminalOrderStatus(order.status)) return order;
+    this.transition(order, 'CANCELLED', reason);
+    return order;
+  }
+
+  private create(request: OrderRequest, positionId: string): ManagedOrder {
+    const now = this.clock.now();
+    const order: ManagedOrder = {
+      id: `order_${now.getTime()}_${++this.idSequence}`,
+      positionId,
+      symbol: request.symbol,
+      side: request.type.startsWith('BUY') ? 'BUY' : 'SELL',
+      type: request.type.endsWith('LIMIT') ? 'LIMIT' : request.type.endsWith('STOP') ? 'STOP' : 'MARKET',
+      quantity: request.volume,
+      filledQuantity: 0,
+      averageFillPrice: 0,
+      status: 'NEW',
+      fills: [],
+      history: [{ status: 'NEW', timestamp: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.push(order);
+    this.prune();
+    this.onTransition?.(order);
+    return order;
+  }
+
+  private apply(order: ManagedOrder, brokerOrder: BrokerOrder): boolean {
+    const { status, filledQuantity } = order;
+    const brokerFilled = brokerOrder.filledVolume ??
+      (brokerOrder.status === 'OPEN' || brokerOrder.status === 'CLOSED' ? brokerOrder.volume : 0);
+
+    const delta = brokerFilled - order.filledQuantity;
+    if (delta > 0) {
+      // The broker reports an average price; back out the price of the new fills
+      const price = (brokerOrder.openPrice * brokerFilled - order.averageFillPrice * order.filledQuantity) / delta;
+      this.recordFill(order, delta, price);
+    }
+
+    if (!isTerminalOrderStatus(order.status)) {
+      if (brokerOrder.status === 'EXPIRED') {
+        this.transition(order, 'EXPIRED');
+      } else if (brokerOrder.status === 'CANCELLED') {
+        this.transition(order, 'CANCELLED', 'Cancelled by broker');
+      } else if (brokerOrder.status === 'CLOSED') {
+        this.transition(order, 'CANCELLED', 'Position closed before the remainder filled');
+      }
+    }
+
+    return order.status !== status || order.filledQuantity !== filledQuantity;
+  }
+
+  private recordFill(order: ManagedOrder, quantity: number, price: number): void {
+    const filled = order.filledQuantity + quantity;
+    order.averageFillPrice = (order.averageFillPrice * order.filledQuantity + price * quantity) / filled;
+    order.filledQuantity = filled;
+    order.fills.push({ quantity, price, timestamp: this.clock.now() });
+    this.transition(
+      order,
+      filled >= order.quantity ? 'FILLED' : 'PARTIALLY_FILLED',
+      `${filled}/${order.quantity} @ ${order.averageFillPrice.toFixed(2)}`
+    );
+  }
+
+  private reject(order: ManagedOrder, reason: string): void {
+    order.rejectReason = reason;
+    this.transition(order, 'REJECTED', reason);
+  }
+
+  private transition(order: ManagedOrder, status: OrderStatus, reason?: string): void {
+    const previous = order.status;
+    if (!TRANSITIONS[previous].includes(status)) {
+      throw new Error(`Invalid order transition for ${order.id}: ${previous} → ${status}`);
+    }
+
+    order.status = status;
+    order.updatedAt = this.clock.now();
+    order.history.push({ status, timestamp: order.updatedAt, reason });
+    this.onTransition?.(order, previous, reason);
+  }
+
+  private prune(): void {
+    while (this.orders.length > this.maxOrders) {
+      const index = this.orders.findIndex(order => isTerminalOrderStatus(order.status));
+      if (index === -1) return;
+      this.orders.splice(index, 1);
+    }
+  }
+}
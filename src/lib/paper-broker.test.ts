@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BrokerConfig, MarketDataFeed } from '@/types/broker';
+import { SimulatedClock } from './clock';
+import { createSeededRandom } from './market-simulator';
+import { PaperBrokerAdapter, PaperBrokerOptions } from './paper-broker';
+
+const SEED = 42;
+
+const config: BrokerConfig = {
+  id: 'paper',
+  name: 'Paper',
+  type: 'PAPER',
+  apiKey: '',
+  serverUrl: '',
+  testMode: true,
+  maxLeverage: 100,
+  minOrderSize: 0.01,
+  supportedSymbols: ['EUR/USD'],
+};
+
+// One EUR/USD bar; bid and ask sit half the spread either side of the close
+function bar(close: number, range: { high?: number; low?: number } = {}, spread = 0.0002): MarketDataFeed {
+  return {
+    symbol: 'EUR/USD',
+    bid: close - spread / 2,
+    ask: close + spread / 2,
+    spread,
+    volume: 1000,
+    timestamp: new Date('2026-03-02T15:00:00Z'),
+    open: close,
+    high: range.high ?? close,
+    low: range.low ?? close,
+    close,
+  };
+}
+
+describe('PaperBrokerAdapter', () => {
+  let current: MarketDataFeed;
+  let broker: PaperBrokerAdapter;
+
+  const createBroker = async (options: PaperBrokerOptions = {}) => {
+    broker = new PaperBrokerAdapter(config, {
+      clock: new SimulatedClock(new Date('2026-03-02T15:00:00Z')),
+      seed: SEED,
+      slippageRatio: 0,
+      commissionRate: 0,
+      swapRatePerDay: 0,
+      priceSource: () => current,
+      ...options,
+    });
+    await broker.connect();
+  };
+
+  const quote = async (next: MarketDataFeed) => {
+    current = next;
+    await broker.getMarketData('EUR/USD');
+  };
+
+  const order = async (ticket: string) => {
+    const orders = [...await broker.getOpenOrders(), ...await broker.getOrderHistory()];
+    return orders.find(o => o.ticket === ticket)!;
+  };
+
+  beforeEach(() => {
+    current = bar(1.1);
+  });
+
+  describe('market fills', () => {
+    it('buys at the ask and sells at the bid, each moved against the order by seeded slippage', async () => {
+      await createBroker({ slippageRatio: 0.001 });
+      const random = createSeededRandom(SEED);
+
+      const buy = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000 });
+      const sell = await broker.placeOrder({ symbol: 'EUR/USD', type: 'SELL', volume: 1000 });
+
+      expect((await order(buy)).openPrice).toBeCloseTo(1.1001 * (1 + 0.001 * random()), 10);
+      expect((await order(sell)).openPrice).toBeCloseTo(1.0999 * (1 - 0.001 * random()), 10);
+    });
+
+    it('adds the configured spread around the close when the source quotes none', async () => {
+      await createBroker({ spreadRatio: 0.001 });
+      current = bar(1.1, {}, 0);
+
+      const data = await broker.getMarketData('EUR/USD');
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000 });
+
+      expect(data.bid).toBeCloseTo(1.1 - 0.00055, 10);
+      expect(data.ask).toBeCloseTo(1.1 + 0.00055, 10);
+      expect((await order(ticket)).openPrice).toBeCloseTo(1.1 + 0.00055, 10);
+      expect((await order(ticket)).currentPrice).toBeCloseTo(1.1 - 0.00055, 10);
+    });
+
+    it('closes a long at the bid', async () => {
+      await createBroker();
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000 });
+      await quote(bar(1.102));
+
+      expect(await broker.closeOrder(ticket)).toBe(true);
+
+      const closed = await order(ticket);
+      expect(closed.status).toBe('CLOSED');
+      expect(closed.currentPrice).toBeCloseTo(1.1019, 10);
+      expect(closed.profit).toBeCloseTo((1.1019 - 1.1001) * 1000, 10);
+    });
+  });
+
+  describe('pending orders', () => {
+    beforeEach(() => createBroker());
+
+    it('fills a buy limit when the bar low reaches it, at the limit price', async () => {
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY_LIMIT', volume: 1000, price: 1.098 });
+      await quote(bar(1.099, { low: 1.0985 }));
+      expect((await order(ticket)).status).toBe('PENDING'); // Ask low 1.0986 is still above the limit
+
+      await quote(bar(1.099, { low: 1.0975 }));
+      const filled = await order(ticket);
+      expect(filled.status).toBe('OPEN');
+      expect(filled.openPrice).toBe(1.098);
+    });
+
+    it('fills a sell limit when the bar high reaches it', async () => {
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'SELL_LIMIT', volume: 1000, price: 1.102 });
+      await quote(bar(1.1005, { high: 1.1025 }));
+
+      const filled = await order(ticket);
+      expect(filled.status).toBe('OPEN');
+      expect(filled.openPrice).toBe(1.102);
+    });
+
+    it('triggers a buy stop on the bar high and a sell stop on the bar low', async () => {
+      const buyStop = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY_STOP', volume: 1000, price: 1.102 });
+      const sellStop = await broker.placeOrder({ symbol: 'EUR/USD', type: 'SELL_STOP', volume: 1000, price: 1.097 });
+
+      await quote(bar(1.1, { high: 1.1025, low: 1.0995 }));
+      expect((await order(buyStop)).status).toBe('OPEN');
+      expect((await order(buyStop)).openPrice).toBe(1.102);
+      expect((await order(sellStop)).status).toBe('PENDING');
+
+      await quote(bar(1.098, { high: 1.098, low: 1.0965 }));
+      expect((await order(sellStop)).status).toBe('OPEN');
+      expect((await order(sellStop)).openPrice).toBe(1.097);
+    });
+
+    it('expires an order past its expiration instead of filling it', async () => {
+      const ticket = await broker.placeOrder({
+        symbol: 'EUR/USD', type: 'BUY_LIMIT', volume: 1000, price: 1.098, expiration: new Date('2026-03-02T14:00:00Z'),
+      });
+      await quote(bar(1.097));
+
+      expect((await order(ticket)).status).toBe('EXPIRED');
+    });
+  });
+
+  describe('stop loss and take profit', () => {
+    beforeEach(() => createBroker());
+
+    it('closes a long at its stop when the bar low crosses it, not at the close', async () => {
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000, stopLoss: 1.098, takeProfit: 1.104 });
+      await quote(bar(1.0995, { high: 1.1, low: 1.0975 }));
+
+      const closed = await order(ticket);
+      expect(closed.status).toBe('CLOSED');
+      expect(closed.currentPrice).toBe(1.098);
+      expect(closed.comment).toBe('[sl]');
+    });
+
+    it('closes a long at its target when the bar high crosses it, not at the close', async () => {
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000, stopLoss: 1.098, takeProfit: 1.104 });
+      await quote(bar(1.1025, { high: 1.1045, low: 1.1 }));
+
+      const closed = await order(ticket);
+      expect(closed.status).toBe('CLOSED');
+      expect(closed.currentPrice).toBe(1.104);
+      expect(closed.comment).toBe('[tp]');
+      expect(closed.profit).toBeCloseTo((1.104 - 1.1001) * 1000, 10);
+    });
+
+    it('checks a short against the ask side of the bar', async () => {
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'SELL', volume: 1000, stopLoss: 1.102, takeProfit: 1.096 });
+      await quote(bar(1.1, { high: 1.1018 }));
+      expect((await order(ticket)).status).toBe('OPEN'); // Ask high 1.1019
+
+      await quote(bar(1.1, { high: 1.10195 })); // Ask high 1.10205 reaches the stop; the bid high never does
+      expect((await order(ticket)).status).toBe('CLOSED');
+      expect((await order(ticket)).currentPrice).toBe(1.102);
+    });
+
+    it('takes the stop when both levels fall inside the same bar', async () => {
+      const ticket = await broker.placeOrder({ symbol: 'EUR/USD', type: 'BUY', volume: 1000, stopLoss: 1.098, takeProfit: 1.104 });
+      await quote(bar(1.1, { high: 1.105, low: 1.097 }));
+
+      expect((await order(ticket)).comment).toBe('[sl]');
+    });
+  });
+});
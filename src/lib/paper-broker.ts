@@ -0,0 +1,454 @@
+// Paper Trading Broker with Fill Simulation
+
+import { BrokerAccountInfo, BrokerConfig, BrokerOrder, MarketDataFeed, OrderModification, OrderRequest } from '@/types/broker';
+import { BrokerAdapter } from './broker-integration';
+import { Clock, systemClock } from './clock';
+import { SimulatedMarketFeed, createSeededRandom, deriveSeed, generateSeed, getDefaultBasePrice } from './market-simulator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PriceSource = (symbol: string) => MarketDataFeed | Promise<MarketDataFeed>;
+
+export interface PaperBrokerOptions {
+  initialBalance?: number;
+  currency?: string;
+  leverage?: number; // Margin required is notional / leverage
+  spreadRatio?: number; // Applied when the price source quotes no spread
+  slippageRatio?: number; // Maximum adverse slippage on market and stop fills, as a fraction of price
+  commissionRate?: number; // Charged on each side as a fraction of notional
+  swapRatePerDay?: number; // Charged per UTC rollover held, as a fraction of notional
+  maxFillVolume?: number; // Liquidity per quote; larger orders fill partially over several quotes
+  seed?: number; // Seeds slippage and the built-in simulated prices
+  priceSource?: PriceSource; // Defaults to one seeded simulated feed per symbol
+  clock?: Clock;
+}
+
+// Internal order record; BrokerOrder plus what is needed to trigger and settle it
+interface PaperOrder extends BrokerOrder {
+  filledVolume: number;
+  orderType: OrderRequest['type'];
+  triggerPrice?: number; // Limit or stop price of a pending order
+  expiration?: Date;
+  lastSwapTime?: Date;
+}
+
+export interface PaperAccountState {
+  balance: number;
+  nextTicket: number;
+  orders: PaperOrder[];
+}
+
+export class PaperBrokerAdapter implements BrokerAdapter {
+  private config: BrokerConfig;
+  private clock: Clock;
+  private options: Required<Omit<PaperBrokerOptions, 'priceSource' | 'clock' | 'seed'>>;
+  private priceSource: PriceSource;
+  private random: () => number;
+  private feeds: Map<string, SimulatedMarketFeed> = new Map();
+  private quotes: Map<string, MarketDataFeed> = new Map();
+  private orders: Map<string, PaperOrder> = new Map();
+  private subscriptions: Map<string, ReturnType<typeof setInterval>> = new Map();
+  private balance: number;
+  private nextTicket = 1;
+  private isConnected = false;
+
+  constructor(config: BrokerConfig, options: PaperBrokerOptions = {}) {
+    this.config = config;
+    this.clock = options.clock || systemClock;
+    this.options = {
+      initialBalance: options.initialBalance ?? 10000,
+      currency: options.currency || 'USD',
+      leverage: options.leverage ?? config.maxLeverage ?? 100,
+      spreadRatio: options.spreadRatio ?? 0.0002,
+      slippageRatio: options.slippageRatio ?? 0.0001,
+      commissionRate: options.commissionRate ?? 0.0002,
+      swapRatePerDay: options.swapRatePerDay ?? 0.0001,
+      maxFillVolume: options.maxFillVolume ?? Infinity,
+    };
+    this.balance = this.options.initialBalance;
+
+    const seed = options.seed ?? generateSeed();
+    this.random = createSeededRandom(seed);
+    this.priceSource = options.priceSource || (symbol => this.getSimulatedFeed(symbol, seed).next());
+  }
+
+  async connect(): Promise<boolean> {
+    this.isConnected = true;
+    return true;
+  }
+
+  async disconnect(): Promise<boolean> {
+    this.subscriptions.forEach(interval => clearInterval(interval));
+    this.subscriptions.clear();
+    this.isConnected = false;
+    return true;
+  }
+
+  async getAccountInfo(): Promise<BrokerAccountInfo> {
+    this.ensureConnected();
+
+    const openOrders = this.getOrdersByStatus('OPEN');
+    const floating = openOrders.reduce((sum, order) => sum + order.profit + order.swap, 0);
+    const margin = openOrders.reduce((sum, order) => sum + this.getRequiredMargin(order.openPrice, order.filledVolume), 0);
+    const equity = this.balance + floating;
+
+    return {
+      balance: this.balance,
+      equity,
+      margin,
+      freeMargin: equity - margin,
+      marginLevel: margin > 0 ? (equity / margin) * 100 : 0,
+      currency: this.options.currency,
+      leverage: this.options.leverage,
+      accountNumber: this.config.accountId || 'PAPER',
+      serverName: 'Paper Trading',
+    };
+  }
+
+  // Each quote also drives pending-order triggers, SL/TP and swap, like a broker's server would
+  async getMarketData(symbol: string): Promise<MarketDataFeed> {
+    this.ensureConnected();
+
+    const bar = await this.priceSource(symbol);
+    const quote = bar.spread > 0 ? bar : this.withSpread(bar);
+    this.quotes.set(symbol, quote);
+    this.processQuote(quote);
+    return quote;
+  }
+
+  async placeOrder(order: OrderRequest): Promise<string> {
+    this.ensureConnected();
+
+    if (!(order.volume > 0) || order.volume < this.config.minOrderSize) {
+      throw new Error(`Order rejected: volume ${order.volume} below minimum ${this.config.minOrderSize}`);
+    }
+
+    const isMarket = order.type === 'BUY' || order.type === 'SELL';
+    if (!isMarket && !(order.price && order.price > 0)) {
+      throw new Error(`Order rejected: ${order.type} requires a price`);
+    }
+
+    const quote = this.quotes.get(order.symbol) || await this.getMarketData(order.symbol);
+    const side = order.type.startsWith('BUY') ? 'BUY' : 'SELL';
+    const referencePrice = isMarket ? (side === 'BUY' ? quote.ask : quote.bid) : order.price!;
+    const requiredMargin = this.getRequiredMargin(referencePrice, order.volume);
+    const { freeMargin } = await this.getAccountInfo();
+    if (requiredMargin > freeMargin) {
+      throw new Error(`Order rejected: insufficient margin (required ${requiredMargin.toFixed(2)}, free ${freeMargin.toFixed(2)})`);
+    }
+
+    const ticket = `PAPER_${this.nextTicket++}`;
+    const paperOrder: PaperOrder = {
+      ticket,
+      symbol: order.symbol,
+      type: side,
+      volume: order.volume,
+      filledVolume: 0,
+      openPrice: referencePrice,
+      currentPrice: side === 'BUY' ? quote.bid : quote.ask,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      profit: 0,
+      commission: 0,
+      swap: 0,
+      comment: order.comment || '',
+      openTime: this.clock.now(),
+      status: 'PENDING',
+      orderType: order.type,
+      triggerPrice: isMarket ? undefined : order.price,
+      expiration: order.expiration,
+    };
+    this.orders.set(ticket, paperOrder);
+
+    if (isMarket) {
+      this.fill(paperOrder, this.applySlippage(referencePrice, side));
+    }
+    return ticket;
+  }
+
+  // Cancels a pending order or closes an open position at the current quote
+  async closeOrder(ticket: string): Promise<boolean> {
+    this.ensureConnected();
+
+    const order = this.orders.get(ticket);
+    if (!order) return false;
+
+    if (order.status === 'PENDING') {
+      order.status = 'CANCELLED';
+      order.closeTime = this.clock.now();
+      return true;
+    }
+    if (order.status !== 'OPEN') return false;
+
+    const quote = this.quotes.get(order.symbol);
+    const exitPrice = quote ? (order.type === 'BUY' ? quote.bid : quote.ask) : order.currentPrice;
+    this.settle(order, this.applySlippage(exitPrice, order.type === 'BUY' ? 'SELL' : 'BUY'));
+    return true;
+  }
+
+  // Closes part of a fully filled position at the current quote; the remainder keeps the ticket
+  async closeOrderPartial(ticket: string, volume: number): Promise<boolean> {
+    this.ensureConnected();
+
+    const order = this.orders.get(ticket);
+    if (!order || order.status !== 'OPEN') return false;
+    if (order.filledVolume < order.volume) {
+      throw new Error(`Order rejected: ${ticket} is still filling`);
+    }
+    if (!(volume > 0 && volume < order.filledVolume)) {
+      throw new Error(`Order rejected: partial close volume must be between 0 and ${order.filledVolume}`);
+    }
+
+    const quote = this.quotes.get(order.symbol);
+    const exitPrice = this.applySlippage(
+      quote ? (order.type === 'BUY' ? quote.bid : quote.ask) : order.currentPrice,
+      order.type === 'BUY' ? 'SELL' : 'BUY'
+    );
+    const direction = order.type === 'BUY' ? 1 : -1;
+    this.balance += (exitPrice - order.openPrice) * volume * direction;
+    this.chargeCommission(order, exitPrice, volume);
+    order.volume -= volume;
+    order.filledVolume -= volume;
+    return true;
+  }
+
+  async modifyOrder(ticket: string, changes: OrderModification): Promise<boolean> {
+    this.ensureConnected();
+
+    const order = this.orders.get(ticket);
+    if (!order || (order.status !== 'PENDING' && order.status !== 'OPEN')) return false;
+    if (changes.price !== undefined) {
+      if (order.status !== 'PENDING') {
+        throw new Error(`Order rejected: cannot change the price of open position ${ticket}`);
+      }
+      order.triggerPrice = changes.price;
+      order.openPrice = changes.price;
+    }
+    if (changes.stopLoss !== undefined) order.stopLoss = changes.stopLoss || undefined;
+    if (changes.takeProfit !== undefined) order.takeProfit = changes.takeProfit || undefined;
+    return true;
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+    return [...this.getOrdersByStatus('PENDING'), ...this.getOrdersByStatus('OPEN')].map(order => this.toBrokerOrder(order));
+  }
+
+  async getOrderHistory(): Promise<BrokerOrder[]> {
+    this.ensureConnected();
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'CLOSED' || order.status === 'CANCELLED' || order.status === 'EXPIRED')
+      .sort((a, b) => (a.closeTime?.getTime() || 0) - (b.closeTime?.getTime() || 0))
+      .map(order => this.toBrokerOrder(order));
+  }
+
+  subscribeToMarketData(symbol: string, callback: (data: MarketDataFeed) => void): void {
+    const existing = this.subscriptions.get(symbol);
+    if (existing) clearInterval(existing);
+
+    const interval = setInterval(async () => {
+      try {
+        callback(await this.getMarketData(symbol));
+      } catch (error) {
+        console.error('Paper market data subscription error:', error);
+      }
+    }, 1000);
+    this.subscriptions.set(symbol, interval);
+  }
+
+  // Account state for persistence; quotes and simulated feeds are not included
+  exportState(): PaperAccountState {
+    return {
+      balance: this.balance,
+      nextTicket: this.nextTicket,
+      orders: Array.from(this.orders.values()).map(order => ({ ...order })),
+    };
+  }
+
+  importState(state: PaperAccountState): void {
+    const toDate = (value?: Date | string) => value ? new Date(value) : undefined;
+    this.balance = state.balance;
+    this.nextTicket = state.nextTicket;
+    this.orders = new Map(state.orders.map(order => [order.ticket, {
+      ...order,
+      filledVolume: order.filledVolume ?? (order.status === 'OPEN' || order.status === 'CLOSED' ? order.volume : 0),
+      openTime: new Date(order.openTime),
+      closeTime: toDate(order.closeTime),
+      expiration: toDate(order.expiration),
+      lastSwapTime: toDate(order.lastSwapTime),
+    }]));
+  }
+
+  private processQuote(quote: MarketDataFeed): void {
+    const now = this.clock.now();
+    const halfSpread = quote.spread / 2;
+    // Bar extremes on each side of the book
+    const askHigh = quote.high + halfSpread;
+    const askLow = quote.low + halfSpread;
+    const bidHigh = quote.high - halfSpread;
+    const bidLow = quote.low - halfSpread;
+
+    for (const order of this.orders.values()) {
+      if (order.symbol !== quote.symbol) continue;
+
+      if (order.status === 'PENDING') {
+        if (order.expiration && now > order.expiration) {
+          order.status = 'EXPIRED';
+          order.closeTime = now;
+          continue;
+        }
+        const fillPrice = this.getTriggeredFillPrice(order, quote, askHigh, askLow, bidHigh, bidLow);
+        if (fillPrice === null) continue;
+        this.fill(order, fillPrice);
+      } else if (order.status === 'OPEN' && order.filledVolume < order.volume) {
+        // Remainder of a partially filled order takes the next quote's liquidity
+        this.fill(order, this.applySlippage(order.type === 'BUY' ? quote.ask : quote.bid, order.type));
+      }
+
+      if (order.status !== 'OPEN') continue;
+
+      this.chargeSwap(order, now);
+      order.currentPrice = order.type === 'BUY' ? quote.bid : quote.ask;
+      order.profit = this.calculateProfit(order, order.currentPrice);
+
+      // Stop loss wins when both levels fall inside the same bar
+      const isLong = order.type === 'BUY';
+      if (order.stopLoss !== undefined && (isLong ? bidLow <= order.stopLoss : askHigh >= order.stopLoss)) {
+        this.settle(order, this.applySlippage(order.stopLoss, isLong ? 'SELL' : 'BUY'), 'sl');
+      } else if (order.takeProfit !== undefined && (isLong ? bidHigh >= order.takeProfit : askLow <= order.takeProfit)) {
+        this.settle(order, order.takeProfit, 'tp');
+      }
+    }
+  }
+
+  // Limit orders fill at their price or better; stop orders at their price plus slippage
+  private getTriggeredFillPrice(
+    order: PaperOrder,
+    quote: MarketDataFeed,
+    askHigh: number,
+    askLow: number,
+    bidHigh: number,
+    bidLow: number
+  ): number | null {
+    const price = order.triggerPrice!;
+    switch (order.orderType) {
+      case 'BUY_LIMIT':
+        return askLow <= price ? Math.min(price, quote.ask) : null;
+      case 'SELL_LIMIT':
+        return bidHigh >= price ? Math.max(price, quote.bid) : null;
+      case 'BUY_STOP':
+        return askHigh >= price ? this.applySlippage(Math.max(price, askLow), 'BUY') : null;
+      case 'SELL_STOP':
+        return bidLow <= price ? this.applySlippage(Math.min(price, bidHigh), 'SELL') : null;
+      default:
+        return null;
+    }
+  }
+
+  // Fills as much as the per-quote liquidity allows, averaging the open price
+  private fill(order: PaperOrder, price: number): void {
+    const quantity = Math.min(order.volume - order.filledVolume, this.options.maxFillVolume);
+    const filled = order.filledVolume + quantity;
+    order.openPrice = order.filledVolume > 0 ? (order.openPrice * order.filledVolume + price * quantity) / filled : price;
+    order.filledVolume = filled;
+
+    if (order.status === 'PENDING') {
+      order.status = 'OPEN';
+      order.openTime = this.clock.now();
+      order.lastSwapTime = order.openTime;
+    }
+    this.chargeCommission(order, price, quantity);
+  }
+
+  // Closes the filled volume; any unfilled remainder is dropped
+  private settle(order: PaperOrder, exitPrice: number, reason?: 'sl' | 'tp'): void {
+    order.currentPrice = exitPrice;
+    order.profit = this.calculateProfit(order, exitPrice);
+    this.chargeCommission(order, exitPrice, order.filledVolume);
+    this.balance += order.profit + order.swap;
+    order.status = 'CLOSED';
+    order.closeTime = this.clock.now();
+    if (reason) {
+      order.comment = `${order.comment} [${reason}]`.trim();
+    }
+  }
+
+  private chargeCommission(order: PaperOrder, price: number, quantity: number): void {
+    const commission = price * quantity * this.options.commissionRate;
+    order.commission -= commission;
+    this.balance -= commission;
+  }
+
+  // Swap accrues once per UTC rollover and is settled with the position
+  private chargeSwap(order: PaperOrder, now: Date): void {
+    const from = order.lastSwapTime || order.openTime;
+    const rollovers = Math.floor(now.getTime() / DAY_MS) - Math.floor(from.getTime() / DAY_MS);
+    if (rollovers <= 0) return;
+
+    order.swap -= order.openPrice * order.filledVolume * this.options.swapRatePerDay * rollovers;
+    order.lastSwapTime = now;
+  }
+
+  private calculateProfit(order: PaperOrder, price: number): number {
+    const direction = order.type === 'BUY' ? 1 : -1;
+    return (price - order.openPrice) * order.filledVolume * direction;
+  }
+
+  private applySlippage(price: number, side: 'BUY' | 'SELL'): number {
+    const slippage = price * this.options.slippageRatio * this.random();
+    return side === 'BUY' ? price + slippage : price - slippage;
+  }
+
+  private withSpread(bar: MarketDataFeed): MarketDataFeed {
+    const spread = bar.close * this.options.spreadRatio;
+    return { ...bar, bid: bar.close - spread / 2, ask: bar.close + spread / 2, spread };
+  }
+
+  private getRequiredMargin(price: number, volume: number): number {
+    return (price * volume) / this.options.leverage;
+  }
+
+  private getOrdersByStatus(status: BrokerOrder['status']): PaperOrder[] {
+    return Array.from(this.orders.values()).filter(order => order.status === status);
+  }
+
+  private toBrokerOrder(order: PaperOrder): BrokerOrder {
+    return {
+      ticket: order.ticket,
+      symbol: order.symbol,
+      type: order.type,
+      volume: order.volume,
+      filledVolume: order.filledVolume,
+      openPrice: order.openPrice,
+      currentPrice: order.currentPrice,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      profit: order.profit,
+      commission: order.commission,
+      swap: order.swap,
+      comment: order.comment,
+      openTime: order.openTime,
+      closeTime: order.closeTime,
+      status: order.status,
+    };
+  }
+
+  private getSimulatedFeed(symbol: string, seed: number): SimulatedMarketFeed {
+    let feed = this.feeds.get(symbol);
+    if (!feed) {
+      feed = new SimulatedMarketFeed({
+        symbol,
+        seed: deriveSeed(seed, symbol),
+        basePrice: getDefaultBasePrice(symbol),
+      }, this.clock);
+      this.feeds.set(symbol, feed);
+    }
+    return feed;
+  }
+
+  private ensureConnected(): void {
+    if (!this.isConnected) {
+      throw new Error('Not connected to paper broker');
+    }
+  }
+}
@@ -0,0 +1,236 @@
+// Performance Analytics
+//
+// Risk-adjusted statistics over closed trades: the realized equity curve with peak-to-trough drawdown,
+// Sharpe/Sortino/Calmar, gross profit factor, expectancy, R-multiples, streaks and time in the market.
+// Sharpe and Sortino use per-trade returns on the equity before each trade, with a zero risk-free rate.
+
+import { Position, Trade } from '@/types/trading';
+
+const MINUTE_MS = 60000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const YEAR_MS = 365 * DAY_MS;
+
+export interface EquityCurvePoint {
+  timestamp: Date;
+  equity: number; // Realized: initial capital plus closed trade profits
+  peakEquity: number;
+  drawdownPercent: number; // 0-100 below the running peak
+}
+
+export interface PerformanceAnalytics {
+  periodStart: Date;
+  periodEnd: Date;
+  initialCapital: number;
+  finalEquity: number;
+  netProfit: number;
+  totalReturn: number; // Fraction of initial capital
+  annualizedReturn: number | null; // Simple annualization; null for periods under a day
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number; // Percent
+  grossProfit: number;
+  grossLoss: number; // Positive
+  profitFactor: number | null; // Gross profit / gross loss; null without losing trades
+  averageWin: number;
+  averageLoss: number; // Positive
+  largestWin: number;
+  largestLoss: number; // Positive
+  expectancy: number; // Average profit per trade
+  averageRMultiple: number | null; // Over trades with a known initial risk
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  maxDrawdown: number; // 0-1, peak-to-trough on the equity curve
+  maxDrawdownAmount: number;
+  maxDrawdownDuration: number; // Minutes from a peak until it was regained, or until now if it has not been
+  currentDrawdown: number; // 0-1
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  currentStreak: number; // Positive for wins in a row, negative for losses
+  exposureTime: number; // 0-1 share of the period with at least one position open
+  averageTradeDuration: number; // Minutes
+  equityCurve: EquityCurvePoint[];
+}
+
+export interface PerformanceAnalyticsOptions {
+  initialCapital: number;
+  openPositions?: Position[]; // Count toward exposure until now
+  startTime?: Date; // Defaults to the first entry
+  now?: Date;
+}
+
+// Trades recorded before openedAt existed only know their duration in whole minutes
+export function getTradeOpenTime(trade: Trade): Date {
+  return trade.openedAt ?? new Date(trade.timestamp.getTime() - trade.duration * MINUTE_MS);
+}
+
+export function buildEquityCurve(trades: Trade[], initialCapital: number, startTime?: Date): EquityCurvePoint[] {
+  const sorted = [...trades].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const start = startTime ?? (sorted.length > 0 ? getTradeOpenTime(sorted[0]) : undefined);
+  const curve: EquityCurvePoint[] = start
+    ? [{ timestamp: start, equity: initialCapital, peakEquity: initialCapital, drawdownPercent: 0 }]
+    : [];
+
+  let equity = initialCapital;
+  let peakEquity = initialCapital;
+  sorted.forEach(trade => {
+    equity += trade.profit;
+    peakEquity = Math.max(peakEquity, equity);
+    const drawdownPercent = peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0;
+    curve.push({ timestamp: trade.timestamp, equity, peakEquity, drawdownPercent });
+  });
+  return curve;
+}
+
+export function computePerformanceAnalytics(trades: Trade[], options: PerformanceAnalyticsOptions): PerformanceAnalytics {
+  const { initialCapital } = options;
+  const now = options.now ?? new Date();
+  const sorted = [...trades].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const openPositions = (options.openPositions ?? []).filter(p => p.status === 'OPEN');
+
+  // Holding intervals, closed and still open
+  const intervals = [
+    ...sorted.map(trade => [getTradeOpenTime(trade).getTime(), trade.timestamp.getTime()]),
+    ...openPositions.map(position => [position.timestamp.getTime(), now.getTime()]),
+  ].sort((a, b) => a[0] - b[0]);
+
+  const firstEntry = intervals.length > 0 ? intervals[0][0] : now.getTime();
+  const periodStart = new Date(Math.min(options.startTime?.getTime() ?? firstEntry, firstEntry));
+  const periodMs = now.getTime() - periodStart.getTime();
+
+  const equityCurve = buildEquityCurve(sorted, initialCapital, periodStart);
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+  const netProfit = finalEquity - initialCapital;
+  const totalReturn = initialCapital > 0 ? netProfit / initialCapital : 0;
+
+  const winning = sorted.filter(t => t.profit > 0);
+  const losing = sorted.filter(t => t.profit < 0);
+  const grossProfit = winning.reduce((sum, t) => sum + t.profit, 0);
+  const grossLoss = Math.abs(losing.reduce((sum, t) => sum + t.profit, 0));
+
+  const drawdown = measureDrawdown(equityCurve, now);
+  const annualizedReturn = periodMs >= DAY_MS ? totalReturn * (YEAR_MS / periodMs) : null;
+
+  // Per-trade returns on the equity each trade started from
+  const returns = sorted.map((trade, index) => {
+    const equityBefore = equityCurve[index].equity;
+    return equityBefore > 0 ? trade.profit / equityBefore : 0;
+  });
+
+  const rMultiples = sorted.flatMap(t => (t.risk !== undefined && t.risk > 0 ? [t.profit / t.risk] : []));
+  const streaks = measureStreaks(sorted);
+
+  return {
+    periodStart,
+    periodEnd: now,
+    initialCapital,
+    finalEquity,
+    netProfit,
+    totalReturn,
+    annualizedReturn,
+    totalTrades: sorted.length,
+    wins: winning.length,
+    losses: losing.length,
+    winRate: sorted.length > 0 ? (winning.length / sorted.length) * 100 : 0,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    averageWin: winning.length > 0 ? grossProfit / winning.length : 0,
+    averageLoss: losing.length > 0 ? grossLoss / losing.length : 0,
+    largestWin: winning.reduce((max, t) => Math.max(max, t.profit), 0),
+    largestLoss: losing.reduce((max, t) => Math.max(max, -t.profit), 0),
+    expectancy: sorted.length > 0 ? netProfit / sorted.length : 0,
+    averageRMultiple: rMultiples.length > 0 ? mean(rMultiples) : null,
+    sharpeRatio: sharpe(returns),
+    sortinoRatio: sortino(returns),
+    calmarRatio: annualizedReturn !== null && drawdown.maxDrawdown > 0 ? annualizedReturn / drawdown.maxDrawdown : null,
+    ...drawdown,
+    ...streaks,
+    exposureTime: periodMs > 0 ? Math.min(1, coveredTime(intervals) / periodMs) : 0,
+    averageTradeDuration: sorted.length > 0 ? mean(sorted.map(t => t.duration)) : 0,
+    equityCurve,
+  };
+}
+
+function measureDrawdown(curve: EquityCurvePoint[], now: Date) {
+  let maxDrawdown = 0;
+  let maxDrawdownAmount = 0;
+  let longestMs = 0;
+  let peak = curve[0];
+  let underwater = false;
+
+  curve.forEach(point => {
+    if (point.equity >= peak.equity) {
+      if (underwater) longestMs = Math.max(longestMs, point.timestamp.getTime() - peak.timestamp.getTime());
+      underwater = false;
+      peak = point;
+      return;
+    }
+    underwater = true;
+    maxDrawdown = Math.max(maxDrawdown, point.drawdownPercent / 100);
+    maxDrawdownAmount = Math.max(maxDrawdownAmount, peak.equity - point.equity);
+  });
+
+  if (underwater) {
+    longestMs = Math.max(longestMs, now.getTime() - peak.timestamp.getTime());
+  }
+
+  return {
+    maxDrawdown,
+    maxDrawdownAmount,
+    maxDrawdownDuration: longestMs / MINUTE_MS,
+    currentDrawdown: curve[curve.length - 1].drawdownPercent / 100,
+  };
+}
+
+// Breakeven trades end both kinds of streak
+function measureStreaks(trades: Trade[]) {
+  let maxConsecutiveWins = 0;
+  let maxConsecutiveLosses = 0;
+  let currentStreak = 0;
+
+  trades.forEach(trade => {
+    if (trade.profit > 0) {
+      currentStreak = currentStreak > 0 ? currentStreak + 1 : 1;
+    } else if (trade.profit < 0) {
+      currentStreak = currentStreak < 0 ? currentStreak - 1 : -1;
+    } else {
+      currentStreak = 0;
+    }
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, currentStreak);
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, -currentStreak);
+  });
+
+  return { maxConsecutiveWins, maxConsecutiveLosses, currentStreak };
+}
+
+// Overlapping positions count once; intervals must be sorted by start
+function coveredTime(intervals: number[][]): number {
+  let covered = 0;
+  let coveredUntil = -Infinity;
+  intervals.forEach(([start, end]) => {
+    if (end <= coveredUntil) return;
+    covered += end - Math.max(start, coveredUntil);
+    coveredUntil = end;
+  });
+  return covered;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sharpe(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const average = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - average) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? average / Math.sqrt(variance) : null;
+}
+
+// Downside deviation counts only losing returns, over all trades
+function sortino(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const downside = returns.reduce((sum, r) => sum + Math.min(0, r) ** 2, 0) / returns.length;
+  return downside > 0 ? mean(returns) / Math.sqrt(downside) : null;
+}
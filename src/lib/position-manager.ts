@@ -1,8 +1,16 @@
 // Position Management System
 
 import { Position, MarketData, RiskMetrics } from '@/types/trading';
+import { Clock, systemClock } from './clock';
 
 export class PositionManager {
+  private clock: Clock;
+  private idSequence = 0;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
   createPosition(
     marketData: MarketData,
     type: 'LONG' | 'SHORT',
@@ -19,7 +27,7 @@ export class PositionManager {
     );
 
     return {
-      id: `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: `pos_${this.clock.now().getTime()}_${++this.idSequence}`,
       symbol: marketData.symbol,
       type,
       entryPrice,
@@ -28,7 +36,7 @@ export class PositionManager {
       stopLoss,
       takeProfit,
       unrealizedPnL: 0,
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
       status: 'OPEN',
     };
   }
@@ -156,7 +164,7 @@ export class PositionManager {
     }
 
     // Check for emergency conditions
-    const positionAge = Date.now() - position.timestamp.getTime();
+    const positionAge = this.clock.now().getTime() - position.timestamp.getTime();
     const maxPositionAge = 24 * 60 * 60 * 1000; // 24 hours
 
     if (positionAge > maxPositionAge) {
@@ -205,7 +213,7 @@ export class PositionManager {
     const unrealizedPnL = this.calculateUnrealizedPnL(position, currentPrice);
     const positionValue = this.calculatePositionValue(position, currentPrice);
     const risk = this.calculatePositionRisk(position, currentPrice);
-    const durationMinutes = Math.floor((Date.now() - position.timestamp.getTime()) / 60000);
+    const durationMinutes = Math.floor((this.clock.now().getTime() - position.timestamp.getTime()) / 60000);
 
     return {
       id: position.id,
@@ -0,0 +1,100 @@
+// Broker Position Reconciliation
+
+import { Position } from '@/types/trading';
+import { BrokerOrder } from '@/types/broker';
+
+export interface ReconciliationMismatch {
+  positionId: string;
+  ticket: string;
+  field: 'QUANTITY' | 'ENTRY_PRICE' | 'STATUS';
+  local: number | string;
+  broker: number | string;
+}
+
+// Local positions whose ticket is no longer open at the broker
+export interface VanishedPosition {
+  position: Position;
+  brokerOrder?: BrokerOrder; // The closed order from history, when the broker still has it
+}
+
+export interface ReconciliationDiff {
+  matched: Position[];
+  adopt: BrokerOrder[]; // Open at the broker but unknown to the bot
+  vanished: VanishedPosition[];
+  mismatches: ReconciliationMismatch[];
+}
+
+export interface ReconciliationReport {
+  timestamp: Date;
+  brokerOpenOrders: number;
+  localOpenPositions: number;
+  matched: number;
+  adopted: { positionId: string; ticket: string; symbol: string }[];
+  closed: { positionId: string; ticket: string; symbol: string; exitPrice: number; source: 'BROKER_HISTORY' | 'MARKET' }[];
+  mismatches: ReconciliationMismatch[];
+}
+
+export interface PositionReconcilerOptions {
+  quantityTolerance?: number; // Relative difference tolerated before flagging a mismatch
+  priceTolerance?: number;
+}
+
+export class PositionReconciler {
+  private quantityTolerance: number;
+  private priceTolerance: number;
+
+  constructor(options: PositionReconcilerOptions = {}) {
+    this.quantityTolerance = options.quantityTolerance ?? 1e-6;
+    this.priceTolerance = options.priceTolerance ?? 1e-4;
+  }
+
+  // Matches local positions to broker orders by ticket; local positions without a ticket are left alone
+  diff(positions: Position[], openOrders: BrokerOrder[], history: BrokerOrder[]): ReconciliationDiff {
+    const result: ReconciliationDiff = { matched: [], adopt: [], vanished: [], mismatches: [] };
+    const brokerPositions = new Map(
+      openOrders.filter(order => order.status === 'OPEN').map(order => [order.ticket, order])
+    );
+    const closedOrders = new Map(history.map(order => [order.ticket, order]));
+    const knownTickets = new Set(positions.filter(p => p.brokerTicket).map(p => p.brokerTicket!));
+
+    for (const position of positions) {
+      if (!position.brokerTicket) continue;
+      const brokerOrder = brokerPositions.get(position.brokerTicket);
+
+      if (position.status === 'CLOSED') {
+        if (brokerOrder) {
+          result.mismatches.push({
+            positionId: position.id, ticket: position.brokerTicket, field: 'STATUS', local: 'CLOSED', broker: 'OPEN',
+          });
+        }
+        continue;
+      }
+      if (position.status !== 'OPEN') continue; // Pending entries are tracked by the order manager
+
+      if (!brokerOrder) {
+        result.vanished.push({ position, brokerOrder: closedOrders.get(position.brokerTicket) });
+        continue;
+      }
+
+      result.matched.push(position);
+      const brokerQuantity = brokerOrder.filledVolume ?? brokerOrder.volume;
+      if (!this.isClose(position.quantity, brokerQuantity, this.quantityTolerance)) {
+        result.mismatches.push({
+          positionId: position.id, ticket: position.brokerTicket, field: 'QUANTITY', local: position.quantity, broker: brokerQuantity,
+        });
+      }
+      if (!this.isClose(position.entryPrice, brokerOrder.openPrice, this.priceTolerance)) {
+        result.mismatches.push({
+          positionId: position.id, ticket: position.brokerTicket, field: 'ENTRY_PRICE', local: position.entryPrice, broker: brokerOrder.openPrice,
+        });
+      }
+    }
+
+    result.adopt = Array.from(brokerPositions.values()).filter(order => !knownTickets.has(order.ticket));
+    return result;
+  }
+
+  private isClose(a: number, b: number, tolerance: number): boolean {
+    return Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b), 1e-12);
+  }
+}
@@ -2,6 +2,7 @@
 
 import { MarketData, Trade } from '@/types/trading';
 import { MarketDataFeed } from '@/types/broker';
+import { Clock, systemClock } from './clock';
 
 export interface SmartAnalysisResult {
   signal: 'STRONG_BUY' | 'BUY' | 'HOLD' | 'SELL' | 'STRONG_SELL';
@@ -53,6 +54,11 @@ export class SmartTradingEngine {
   private successfulTrades: Trade[] = [];
   private failedTrades: Trade[] = [];
   private learningRate = 0.1; // Adaptive learning
+  private clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
 
   updateMarketData(data: MarketData | MarketDataFeed): void {
     const price = 'close' in data ? data.close : data.price;
@@ -506,7 +512,7 @@ export class SmartTradingEngine {
     }
 
     // Time-of-day risk (simulated)
-    const hour = new Date().getHours();
+    const hour = this.clock.now().getHours();
     if (hour < 6 || hour > 22) { // Outside major trading hours
       riskScore += 10;
       factors.push('Outside major trading hours');
@@ -934,11 +940,11 @@ export class SmartTradingEngine {
   getPerformanceMetrics() {
     const totalTrades = this.successfulTrades.length + this.failedTrades.length;
     const winRate = totalTrades > 0 ? (this.successfulTrades.length / totalTrades) * 100 : 0;
-    const avgProfit = this.successfulTrades.reduce((sum, trade) => sum + trade.profit, 0) / 
-                     Math.max(1, this.successfulTrades.length);
-    const avgLoss = this.failedTrades.reduce((sum, trade) => sum + Math.abs(trade.profit), 0) / 
-                   Math.max(1, this.failedTrades.length);
-    const profitFactor = avgLoss > 0 ? avgProfit / avgLoss : 0;
+    const grossProfit = this.successfulTrades.reduce((sum, trade) => sum + trade.profit, 0);
+    const grossLoss = this.failedTrades.reduce((sum, trade) => sum + Math.abs(trade.profit), 0);
+    const avgProfit = grossProfit / Math.max(1, this.successfulTrades.length);
+    const avgLoss = grossLoss / Math.max(1, this.failedTrades.length);
+    const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : 0;
 
     return {
       totalTrades,
@@ -0,0 +1,92 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BotConfig, Trade } from '@/types/trading';
+import { SimulatedClock } from './clock';
+import { DailyLossGuard } from './daily-loss-guard';
+import { EnhancedTradingBot } from './enhanced-trading-bot';
+import { BotStateSnapshot, JsonFileStateStore, SNAPSHOT_VERSION, deserializeSnapshot, serializeSnapshot } from './state-store';
+
+const SESSION_START = new Date('2026-03-02T00:00:00Z');
+const HALTED_AT = new Date('2026-03-02T10:00:00Z');
+
+// A ledger tripped by a losing trade ten hours into the 2 March UTC session
+function haltedLedger(config: BotConfig, balance: number) {
+  const guard = new DailyLossGuard();
+  guard.roll(config, balance, HALTED_AT);
+  const loss: Trade = {
+    id: 'trade_1',
+    symbol: 'BTC/USD',
+    type: 'LONG',
+    entryPrice: 100,
+    exitPrice: 90,
+    quantity: 1,
+    profit: -balance,
+    duration: 60,
+    timestamp: HALTED_AT,
+    reason: 'Stop loss',
+  };
+  guard.update([loss], [], HALTED_AT);
+  return guard.getLedger()!;
+}
+
+function haltedSnapshot(): BotStateSnapshot {
+  const bot = new EnhancedTradingBot({ clock: new SimulatedClock(SESSION_START) });
+  const state = bot.getState();
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: HALTED_AT,
+    state: { ...state, dailyLoss: haltedLedger(state.config, state.status.currentBalance) },
+    openTickets: [],
+  };
+}
+
+describe('deserializeSnapshot', () => {
+  it('turns the daily loss ledger dates back into Date objects', () => {
+    const { state } = deserializeSnapshot(serializeSnapshot(haltedSnapshot()));
+
+    expect(state.dailyLoss?.halted).toBe(true);
+    expect(state.dailyLoss?.sessionStart).toEqual(SESSION_START);
+    expect(state.dailyLoss?.sessionEnd).toEqual(new Date('2026-03-03T00:00:00Z'));
+    expect(state.dailyLoss?.haltedAt).toEqual(HALTED_AT);
+  });
+
+  it('keeps a restored halt for the rest of the session', () => {
+    const { state } = deserializeSnapshot(serializeSnapshot(haltedSnapshot()));
+    const guard = new DailyLossGuard();
+    guard.restore(state.dailyLoss);
+
+    expect(guard.roll(state.config, state.status.currentBalance, new Date('2026-03-02T20:00:00Z'))).toBeUndefined();
+    expect(guard.isHalted()).toBe(true);
+  });
+});
+
+describe('halted daily loss ledger across a restart', () => {
+  let dir: string;
+  let store: JsonFileStateStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'bot-state-'));
+    store = new JsonFileStateStore(join(dir, 'bot-state.json'));
+    await store.save(haltedSnapshot());
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('refuses to start until the next session', async () => {
+    const clock = new SimulatedClock(new Date('2026-03-02T12:00:00Z'));
+    const bot = new EnhancedTradingBot({ clock, stateStore: store });
+
+    expect(await bot.start()).toBe(false);
+    expect(bot.getState().dailyLoss?.halted).toBe(true);
+    expect(bot.getStatus().lastAction).toContain('Trading resumes at 2026-03-03T00:00:00.000Z');
+
+    clock.setTime(new Date('2026-03-03T00:00:01Z'));
+    expect(await bot.start()).toBe(true);
+    expect(bot.getState().dailyLoss?.halted).toBe(false);
+    await bot.stop();
+  });
+});
@@ -0,0 +1,236 @@
+// Persistent Bot State Storage (JSON file / SQLite)
+
+import { BotState } from '@/types/trading';
+import { PaperAccountState } from './paper-broker';
+import { ConfigHistoryState } from './config-history';
+import type { BotEventListener } from './bot-events';
+
+export interface BotStateSnapshot {
+  version: number;
+  savedAt: Date;
+  state: BotState;
+  openTickets: { positionId: string; ticket: string }[]; // Broker tickets of positions still open
+  strategyId?: string;
+  paperBroker?: PaperAccountState; // Paper account and orders, when simulating through the paper broker
+  configHistory?: ConfigHistoryState; // Config versions and saved profiles
+  simulation?: {
+    seed: number;
+    startTime: Date;
+    barsGenerated: Record<string, number>; // Per symbol, lets each seeded feed resume where it left off
+  };
+}
+
+export interface BotStateStore {
+  load(): Promise<BotStateSnapshot | null>;
+  save(snapshot: BotStateSnapshot): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export const SNAPSHOT_VERSION = 2;
+
+export function serializeSnapshot(snapshot: BotStateSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+// Parses a stored snapshot and turns ISO strings back into Date objects
+export function deserializeSnapshot(text: string): BotStateSnapshot {
+  const raw = JSON.parse(text);
+  if (!raw || typeof raw !== 'object' || !raw.state) {
+    throw new Error('Invalid bot state snapshot');
+  }
+  if (raw.version !== SNAPSHOT_VERSION && raw.version !== 1) {
+    throw new Error(`Unsupported bot state snapshot version: ${raw.version}`);
+  }
+
+  const state: BotState = raw.state;
+  if (raw.version === 1) {
+    // Version 1 snapshots were single-symbol
+    const { marketData, analysis, indicators, riskMetrics } = state;
+    state.watchlist = [marketData.symbol];
+    state.symbols = { [marketData.symbol]: { symbol: marketData.symbol, marketData, analysis, indicators, riskMetrics } };
+    if (raw.simulation) {
+      raw.simulation.barsGenerated = { [marketData.symbol]: raw.simulation.barsGenerated };
+    }
+  }
+  if (state.status.startTime) {
+    state.status.startTime = new Date(state.status.startTime);
+  }
+  state.marketData.timestamp = new Date(state.marketData.timestamp);
+  Object.values(state.symbols).forEach(entry => { entry.marketData.timestamp = new Date(entry.marketData.timestamp); });
+  state.positions.forEach(position => { position.timestamp = new Date(position.timestamp); });
+  state.orders = (state.orders || []).map(order => ({
+    ...order,
+    createdAt: new Date(order.createdAt),
+    updatedAt: new Date(order.updatedAt),
+    fills: order.fills.map(fill => ({ ...fill, timestamp: new Date(fill.timestamp) })),
+    history: order.history.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) })),
+  }));
+  state.trades.forEach(trade => {
+    trade.timestamp = new Date(trade.timestamp);
+    if (trade.openedAt) trade.openedAt = new Date(trade.openedAt);
+  });
+  state.actions.forEach(action => { action.timestamp = new Date(action.timestamp); });
+  if (state.dailyLoss) {
+    state.dailyLoss.sessionStart = new Date(state.dailyLoss.sessionStart);
+    state.dailyLoss.sessionEnd = new Date(state.dailyLoss.sessionEnd);
+    if (state.dailyLoss.haltedAt) state.dailyLoss.haltedAt = new Date(state.dailyLoss.haltedAt);
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date(raw.savedAt),
+    state,
+    openTickets: raw.openTickets || [],
+    strategyId: raw.strategyId,
+    paperBroker: raw.paperBroker,
+    configHistory: raw.configHistory,
+    simulation: raw.simulation ? { ...raw.simulation, startTime: new Date(raw.simulation.startTime) } : undefined,
+  };
+}
+
+export class JsonFileStateStore implements BotStateStore {
+  private filePath: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<BotStateSnapshot | null> {
+    const { readFile } = await import('fs/promises');
+    try {
+      return deserializeSnapshot(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Writes are queued and go through a temp file so a crash never leaves a half-written snapshot
+  save(snapshot: BotStateSnapshot): Promise<void> {
+    const write = async () => {
+      const { mkdir, writeFile, rename } = await import('fs/promises');
+      const { dirname } = await import('path');
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, serializeSnapshot(snapshot), 'utf8');
+      await rename(tempPath, this.filePath);
+    };
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(write);
+    return this.pendingWrite;
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await import('fs/promises');
+    await this.pendingWrite.catch(() => undefined);
+    await rm(this.filePath, { force: true });
+  }
+}
+
+export class SqliteStateStore implements BotStateStore {
+  private filePath: string;
+  private db?: import('better-sqlite3').Database;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<BotStateSnapshot | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT data FROM bot_state WHERE id = 1').get() as { data: string } | undefined;
+    return row ? deserializeSnapshot(row.data) : null;
+  }
+
+  async save(snapshot: BotStateSnapshot): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO bot_state (id, version, saved_at, data) VALUES (1, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET version = excluded.version, saved_at = excluded.saved_at, data = excluded.data`
+    ).run(snapshot.version, snapshot.savedAt.toISOString(), serializeSnapshot(snapshot));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM bot_state').run();
+  }
+
+  private async open(): Promise<import('better-sqlite3').Database> {
+    if (this.db) return this.db;
+
+    const { mkdirSync } = await import('fs');
+    const { dirname } = await import('path');
+    const { default: Database } = await import('better-sqlite3');
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const db = new Database(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`CREATE TABLE IF NOT EXISTS bot_state (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      version INTEGER NOT NULL,
+      saved_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    )`);
+    this.db = db;
+    return db;
+  }
+}
+
+// Bot event subscriber that saves a snapshot at every 'state.committed' checkpoint.
+// Saves never overlap; commits that arrive while one is running coalesce into a single follow-up save.
+export class StatePersistence {
+  private store: BotStateStore;
+  private snapshot: () => BotStateSnapshot;
+  private pending = false;
+  private saving: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(store: BotStateStore, snapshot: () => BotStateSnapshot) {
+    this.store = store;
+    this.snapshot = snapshot;
+  }
+
+  readonly listener: BotEventListener = (event) => {
+    if (event.type !== 'state.committed') return;
+    this.pending = true;
+    if (!this.running) {
+      this.saving = this.run();
+    }
+  };
+
+  // Resolves once everything committed so far has been written
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+    try {
+      while (this.pending) {
+        this.pending = false;
+        try {
+          await this.store.save(this.snapshot());
+        } catch (error) {
+          console.error('Failed to persist bot state:', error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// BOT_STATE_STORE selects 'json' (default), 'sqlite' or 'none'; BOT_STATE_PATH overrides the file location
+export function createStateStoreFromEnv(env: NodeJS.ProcessEnv = process.env): BotStateStore | undefined {
+  const kind = (env.BOT_STATE_STORE || 'json').toLowerCase();
+
+  switch (kind) {
+    case 'none':
+      return undefined;
+    case 'sqlite':
+      return new SqliteStateStore(env.BOT_STATE_PATH || '.data/bot-state.db');
+    case 'json':
+      return new JsonFileStateStore(env.BOT_STATE_PATH || '.data/bot-state.json');
+    default:
+      throw new Error(`Unknown BOT_STATE_STORE: ${kind}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MarketDataFeed } from '@/types/broker';
+import { DEFAULT_BOT_CONFIG } from './bot-config';
+import { TechnicalStrategy } from './strategies';
+
+// Flat closes inside a 10-wide range: only the bar's high and low give the true range
+function rangeBars(count: number): MarketDataFeed[] {
+  return Array.from({ length: count }, (_, i) => ({
+    symbol: 'EURUSD',
+    bid: 100,
+    ask: 100,
+    spread: 0,
+    volume: 1000,
+    timestamp: new Date(Date.UTC(2026, 2, 2, 9, i)),
+    open: 100,
+    high: 105,
+    low: 95,
+    close: 100,
+  }));
+}
+
+describe('TechnicalStrategy', () => {
+  it('measures ATR from the bar high and low, not only the closes', async () => {
+    const strategy = new TechnicalStrategy();
+    const context = { balance: 10000, config: DEFAULT_BOT_CONFIG };
+
+    let signal;
+    for (const bar of rangeBars(25)) {
+      signal = await strategy.onBar(bar, context);
+    }
+
+    expect(strategy.isReady()).toBe(true);
+    expect(signal!.indicators!.atr).toBeCloseTo(10);
+  });
+});
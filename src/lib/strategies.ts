@@ -0,0 +1,303 @@
+// Pluggable Trading Strategies
+
+import { BotConfig, MarketAnalysis, MarketData, TechnicalIndicators, Trade } from '@/types/trading';
+import { MarketDataFeed, TradingSession } from '@/types/broker';
+import { SmartTradingEngine, SmartAnalysisResult } from './smart-trading-engine';
+import { AdvancedAIAnalyzer } from './advanced-ai-analysis';
+import { MarketAnalyzer } from './market-analysis';
+import { marketDataFeedToCandle } from './candles';
+import { RiskManager } from './risk-management';
+import { Clock, systemClock } from './clock';
+
+export interface StrategySignal extends SmartAnalysisResult {
+  strategyId: string;
+  indicators?: TechnicalIndicators; // Set by strategies that compute classic indicators
+}
+
+export interface StrategyContext {
+  balance: number;
+  config: BotConfig;
+}
+
+export interface Tick {
+  symbol: string;
+  price: number;
+  volume: number;
+  timestamp: Date;
+}
+
+export interface StrategyPerformance {
+  totalTrades: number;
+  winRate: number;
+  profitFactor: number;
+  learningRate: number;
+}
+
+export interface Strategy {
+  readonly id: string;
+  readonly name: string;
+  onBar(bar: MarketDataFeed, context: StrategyContext): Promise<StrategySignal>;
+  onTick(tick: Tick, context: StrategyContext): Promise<StrategySignal>;
+  isReady(): boolean; // False while the strategy is still warming up its history
+  recordTradeResult?(trade: Trade, wasSuccessful: boolean): void;
+  getPerformanceMetrics?(): StrategyPerformance;
+}
+
+export interface StrategyDescriptor {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export type StrategyFactory = (clock: Clock) => Strategy;
+
+export const DEFAULT_STRATEGY_ID = 'smart';
+
+// Shared conversion used by the bots to display a strategy signal
+export function signalToMarketAnalysis(signal: SmartAnalysisResult): MarketAnalysis {
+  const side = signal.signal === 'STRONG_BUY' || signal.signal === 'BUY' ? 'BUY' :
+               signal.signal === 'STRONG_SELL' || signal.signal === 'SELL' ? 'SELL' : 'NEUTRAL';
+
+  return {
+    trend: signal.direction,
+    strength: signal.strength,
+    signals: { rsi: side, macd: side, bollinger: side, trend: side },
+    confidence: signal.confidence,
+    recommendation: signal.signal,
+  };
+}
+
+function barToMarketData(bar: MarketDataFeed): MarketData {
+  return {
+    symbol: bar.symbol,
+    price: bar.close,
+    volume: bar.volume,
+    timestamp: bar.timestamp,
+    high24h: bar.high,
+    low24h: bar.low,
+    change24h: ((bar.close - bar.open) / bar.open) * 100,
+  };
+}
+
+function tickToBar(tick: Tick): MarketDataFeed {
+  return {
+    symbol: tick.symbol,
+    bid: tick.price,
+    ask: tick.price,
+    spread: 0,
+    volume: tick.volume,
+    timestamp: tick.timestamp,
+    high: tick.price,
+    low: tick.price,
+    open: tick.price,
+    close: tick.price,
+  };
+}
+
+// Wraps the multi-layer SmartTradingEngine used by the enhanced bot
+export class SmartEngineStrategy implements Strategy {
+  readonly id = 'smart';
+  readonly name = 'Smart Engine';
+  private engine: SmartTradingEngine;
+  private barsSeen = 0;
+
+  constructor(clock: Clock = systemClock) {
+    this.engine = new SmartTradingEngine(clock);
+  }
+
+  async onBar(bar: MarketDataFeed): Promise<StrategySignal> {
+    this.engine.updateMarketData(bar);
+    this.barsSeen++;
+    const analysis = await this.engine.analyzeMarket(barToMarketData(bar));
+    return { ...analysis, strategyId: this.id };
+  }
+
+  onTick(tick: Tick): Promise<StrategySignal> {
+    return this.onBar(tickToBar(tick));
+  }
+
+  isReady(): boolean {
+    return this.barsSeen >= 50; // Engine falls back to a neutral analysis below 50 bars
+  }
+
+  recordTradeResult(trade: Trade, wasSuccessful: boolean): void {
+    this.engine.recordTradeResult(trade, wasSuccessful);
+  }
+
+  getPerformanceMetrics(): StrategyPerformance {
+    return this.engine.getPerformanceMetrics();
+  }
+}
+
+// Classic indicator strategy (RSI, MACD, Bollinger, trend) used by the original bot
+export class TechnicalStrategy implements Strategy {
+  readonly id = 'technical';
+  readonly name = 'Technical Indicators';
+  private analyzer = new MarketAnalyzer();
+  private riskManager = new RiskManager();
+  private barsSeen = 0;
+
+  async onBar(bar: MarketDataFeed, context: StrategyContext): Promise<StrategySignal> {
+    const marketData = barToMarketData(bar);
+    const indicators = await this.analyzer.calculateIndicators(marketData, marketDataFeedToCandle(bar));
+    const analysis = await this.analyzer.analyzeMarket(marketData, indicators);
+    this.barsSeen++;
+
+    const risk = this.riskManager.calculateRiskMetrics(marketData, indicators, context.balance, context.config.maxRiskPerTrade);
+    const marketRisk = this.riskManager.assessMarketRisk(indicators, marketData);
+    const isLong = analysis.recommendation !== 'SELL' && analysis.recommendation !== 'STRONG_SELL';
+
+    return {
+      strategyId: this.id,
+      signal: analysis.recommendation,
+      confidence: analysis.confidence,
+      probability: 0.5 + analysis.confidence / 200,
+      direction: analysis.trend,
+      strength: analysis.strength,
+      riskLevel: marketRisk.level,
+      entryPrice: marketData.price,
+      stopLoss: isLong ? marketData.price - risk.stopLossDistance : marketData.price + risk.stopLossDistance,
+      takeProfit: isLong ? marketData.price + risk.takeProfitDistance : marketData.price - risk.takeProfitDistance,
+      positionSize: risk.positionSize,
+      reasoning: [
+        `RSI ${indicators.rsi.toFixed(1)} (${analysis.signals.rsi})`,
+        `MACD histogram ${indicators.macd.histogram.toFixed(2)} (${analysis.signals.macd})`,
+        `Bollinger ${analysis.signals.bollinger}, trend ${analysis.signals.trend}`,
+        ...marketRisk.factors,
+      ],
+      timeframe: 30,
+      indicators,
+    };
+  }
+
+  onTick(tick: Tick, context: StrategyContext): Promise<StrategySignal> {
+    return this.onBar(tickToBar(tick), context);
+  }
+
+  isReady(): boolean {
+    return this.barsSeen >= 20; // Indicators are defaults below 20 bars
+  }
+}
+
+// Multi-factor AI analyzer with risk-managed levels
+export class AdvancedAIStrategy implements Strategy {
+  readonly id = 'advanced-ai';
+  readonly name = 'Advanced AI';
+  private analyzer: AdvancedAIAnalyzer;
+  private marketAnalyzer = new MarketAnalyzer();
+  private riskManager = new RiskManager();
+  private barsSeen = 0;
+
+  constructor(clock: Clock = systemClock) {
+    this.analyzer = new AdvancedAIAnalyzer(clock);
+  }
+
+  async onBar(bar: MarketDataFeed, context: StrategyContext): Promise<StrategySignal> {
+    const marketData = barToMarketData(bar);
+    const indicators = await this.marketAnalyzer.calculateIndicators(marketData, marketDataFeedToCandle(bar));
+    const result = await this.analyzer.performAdvancedAnalysis(bar, indicators, this.getSessions(bar.timestamp), [], []);
+    this.barsSeen++;
+
+    const { direction } = result.prediction;
+    const confidence = result.confidence * 100;
+    const signal: SmartAnalysisResult['signal'] =
+      direction === 'NEUTRAL' || result.confidence < 0.6 ? 'HOLD' :
+      direction === 'BULLISH' ? (result.confidence >= 0.8 ? 'STRONG_BUY' : 'BUY') :
+      (result.confidence >= 0.8 ? 'STRONG_SELL' : 'SELL');
+
+    const risk = this.riskManager.calculateRiskMetrics(marketData, indicators, context.balance, context.config.maxRiskPerTrade);
+    const isLong = direction !== 'BEARISH';
+    const sizeMultiplier = result.riskLevel === 'HIGH' || result.riskLevel === 'EXTREME' ? 0.5 : 1;
+
+    return {
+      strategyId: this.id,
+      signal,
+      confidence,
+      probability: result.prediction.probability,
+      direction,
+      strength: confidence,
+      riskLevel: result.riskLevel,
+      entryPrice: marketData.price,
+      stopLoss: isLong ? marketData.price - risk.stopLossDistance : marketData.price + risk.stopLossDistance,
+      takeProfit: isLong ? marketData.price + risk.takeProfitDistance : marketData.price - risk.takeProfitDistance,
+      positionSize: risk.positionSize * sizeMultiplier,
+      reasoning: [...result.reasoning, `Market regime: ${result.marketRegime}`],
+      timeframe: result.prediction.timeframe,
+      indicators,
+    };
+  }
+
+  onTick(tick: Tick, context: StrategyContext): Promise<StrategySignal> {
+    return this.onBar(tickToBar(tick), context);
+  }
+
+  isReady(): boolean {
+    return this.barsSeen >= 20;
+  }
+
+  private getSessions(time: Date): TradingSession[] {
+    const hour = time.getUTCHours();
+    return [
+      {
+        name: 'London',
+        startTime: '08:00',
+        endTime: '17:00',
+        timezone: 'GMT',
+        isActive: hour >= 8 && hour < 17,
+        volatility: 'MEDIUM',
+      },
+      {
+        name: 'New York',
+        startTime: '13:00',
+        endTime: '22:00',
+        timezone: 'GMT',
+        isActive: hour >= 13 && hour < 22,
+        volatility: 'HIGH',
+      },
+    ];
+  }
+}
+
+export class StrategyRegistry {
+  private factories: Map<string, { descriptor: StrategyDescriptor; create: StrategyFactory }> = new Map();
+
+  register(descriptor: StrategyDescriptor, create: StrategyFactory): void {
+    this.factories.set(descriptor.id, { descriptor, create });
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  create(id: string, clock: Clock = systemClock): Strategy {
+    const entry = this.factories.get(id);
+    if (!entry) {
+      throw new Error(`Unknown strategy: ${id}`);
+    }
+    return entry.create(clock);
+  }
+
+  list(): StrategyDescriptor[] {
+    return Array.from(this.factories.values()).map(entry => ({ ...entry.descriptor }));
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
+
+strategyRegistry.register({
+  id: 'smart',
+  name: 'Smart Engine',
+  description: 'Multi-layer technical, momentum, volume, pattern and ML scoring',
+}, clock => new SmartEngineStrategy(clock));
+
+strategyRegistry.register({
+  id: 'technical',
+  name: 'Technical Indicators',
+  description: 'RSI, MACD, Bollinger Bands and moving-average trend with ATR-based levels',
+}, () => new TechnicalStrategy());
+
+strategyRegistry.register({
+  id: 'advanced-ai',
+  name: 'Advanced AI',
+  description: 'Technical, sentiment, session and pattern analysis combined into a directional prediction',
+}, clock => new AdvancedAIStrategy(clock));
@@ -0,0 +1,40 @@
+// Timezone Helpers (UTC, fixed offsets and IANA zones)
+
+// Offset of the zone from UTC in milliseconds at the given instant
+export function getZoneOffset(instant: number, timezone: string): number {
+  if (timezone === 'UTC' || timezone === 'Z') return 0;
+
+  const offsetMatch = timezone.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === '+' ? 1 : -1;
+    return sign * (parseInt(offsetMatch[2]) * 60 + parseInt(offsetMatch[3])) * 60000;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Wall-clock time in the zone, expressed as if it were UTC
+export function utcToZonedWallClock(instant: number, timezone: string): number {
+  return instant + getZoneOffset(instant, timezone);
+}
+
+// Converts a wall-clock time (expressed as if it were UTC) in the given zone to a real UTC instant
+export function zonedWallClockToUtc(wallClock: number, timezone: string): number {
+  // Iterate once to settle DST transitions
+  const firstGuess = wallClock - getZoneOffset(wallClock, timezone);
+  const secondOffset = getZoneOffset(firstGuess, timezone);
+  return wallClock - secondOffset;
+}
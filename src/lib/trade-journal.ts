@@ -0,0 +1,235 @@
+// Append-only Trade Journal
+
+import { Clock, systemClock } from './clock';
+
+export type ExitTrigger =
+  | 'STOP_LOSS'
+  | 'TAKE_PROFIT'
+  | 'TIME_LIMIT'
+  | 'SIGNAL_REVERSAL'
+  | 'RISK_ESCALATION'
+  | 'CONFIDENCE_DROP'
+  | 'ANALYSIS_CHANGE'
+  | 'END_OF_DATA'
+  | 'DAILY_LOSS'
+  | 'BROKER' // Closed at the broker (server-side SL/TP or by hand) and picked up by reconciliation
+  | 'MANUAL';
+
+export type TradeOutcome = 'WIN' | 'LOSS' | 'BREAKEVEN' | 'OPEN';
+
+// Snapshot of the analysis that justified opening a position
+export interface JournalDecision {
+  strategyId?: string;
+  signal: string;
+  confidence: number;
+  probability: number;
+  riskLevel: string;
+  direction: string;
+  strength: number;
+  reasoning: string[];
+  timeframe: number; // Planned holding time in minutes
+  configVersion?: number; // Config version the position was opened under
+}
+
+interface JournalEntryBase {
+  sequence: number;
+  timestamp: Date;
+  positionId: string;
+  symbol: string;
+}
+
+export interface JournalOpenEntry extends JournalEntryBase {
+  event: 'OPEN';
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  quantity: number;
+  stopLoss: number;
+  takeProfit: number;
+  decision: JournalDecision;
+}
+
+export interface JournalModifyEntry extends JournalEntryBase {
+  event: 'MODIFY';
+  field: 'STOP_LOSS' | 'TAKE_PROFIT' | 'QUANTITY';
+  previous: number;
+  value: number;
+  marketPrice: number;
+  reason: string;
+}
+
+export interface JournalCloseEntry extends JournalEntryBase {
+  event: 'CLOSE';
+  tradeId: string;
+  exitPrice: number;
+  profit: number;
+  trigger: ExitTrigger;
+  reason: string;
+}
+
+export type JournalEntry = JournalOpenEntry | JournalModifyEntry | JournalCloseEntry;
+
+type NewJournalEntry =
+  | Omit<JournalOpenEntry, 'sequence' | 'timestamp'>
+  | Omit<JournalModifyEntry, 'sequence' | 'timestamp'>
+  | Omit<JournalCloseEntry, 'sequence' | 'timestamp'>;
+
+// All entries for one position folded into a single auditable record
+export interface JournalRecord {
+  positionId: string;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  openedAt: Date;
+  closedAt?: Date;
+  outcome: TradeOutcome;
+  open: JournalOpenEntry;
+  modifications: JournalModifyEntry[];
+  close?: JournalCloseEntry;
+}
+
+export interface JournalQuery {
+  from?: Date; // Inclusive, matched against the open time
+  to?: Date; // Inclusive, matched against the open time
+  symbol?: string;
+  outcome?: TradeOutcome;
+  limit?: number; // Most recent records first
+}
+
+export interface TradeJournalOptions {
+  clock?: Clock;
+  filePath?: string; // JSON-lines file; entries are only ever appended
+}
+
+export class TradeJournal {
+  private entries: JournalEntry[] = [];
+  private clock: Clock;
+  private filePath?: string;
+  private loaded?: Promise<void>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: TradeJournalOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.filePath = options.filePath;
+  }
+
+  async append(entry: NewJournalEntry): Promise<JournalEntry> {
+    await this.load();
+
+    const recorded = {
+      ...entry,
+      sequence: this.entries.length + 1,
+      timestamp: this.clock.now(),
+    } as JournalEntry;
+    this.entries.push(recorded);
+
+    if (this.filePath) {
+      const filePath = this.filePath;
+      const write = async () => {
+        const { appendFile, mkdir } = await import('fs/promises');
+        const { dirname } = await import('path');
+        await mkdir(dirname(filePath), { recursive: true });
+        await appendFile(filePath, `${JSON.stringify(recorded)}\n`, 'utf8');
+      };
+      this.pendingWrite = this.pendingWrite.catch(() => undefined).then(write);
+      try {
+        await this.pendingWrite;
+      } catch (error) {
+        console.error('Failed to write trade journal entry:', error);
+      }
+    }
+
+    return recorded;
+  }
+
+  async getEntries(positionId?: string): Promise<JournalEntry[]> {
+    await this.load();
+    return positionId ? this.entries.filter(e => e.positionId === positionId) : [...this.entries];
+  }
+
+  async getRecord(positionId: string): Promise<JournalRecord | null> {
+    const records = this.buildRecords(await this.getEntries(positionId));
+    return records[0] || null;
+  }
+
+  async query(filter: JournalQuery = {}): Promise<JournalRecord[]> {
+    await this.load();
+
+    const records = this.buildRecords(this.entries).filter(record => {
+      if (filter.symbol && record.symbol !== filter.symbol) return false;
+      if (filter.outcome && record.outcome !== filter.outcome) return false;
+      if (filter.from && record.openedAt < filter.from) return false;
+      if (filter.to && record.openedAt > filter.to) return false;
+      return true;
+    });
+
+    records.sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+    return filter.limit !== undefined ? records.slice(0, filter.limit) : records;
+  }
+
+  private buildRecords(entries: JournalEntry[]): JournalRecord[] {
+    const records = new Map<string, JournalRecord>();
+
+    for (const entry of entries) {
+      if (entry.event === 'OPEN') {
+        records.set(entry.positionId, {
+          positionId: entry.positionId,
+          symbol: entry.symbol,
+          side: entry.side,
+          openedAt: entry.timestamp,
+          outcome: 'OPEN',
+          open: entry,
+          modifications: [],
+        });
+        continue;
+      }
+
+      const record = records.get(entry.positionId);
+      if (!record) continue; // Orphaned entry, e.g. the journal was started mid-trade
+
+      if (entry.event === 'MODIFY') {
+        record.modifications.push(entry);
+      } else {
+        record.close = entry;
+        record.closedAt = entry.timestamp;
+        record.outcome = entry.profit > 0 ? 'WIN' : entry.profit < 0 ? 'LOSS' : 'BREAKEVEN';
+      }
+    }
+
+    return Array.from(records.values());
+  }
+
+  // Reads back an existing journal file once, before the first append or query
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.filePath) return;
+
+    const { readFile } = await import('fs/promises');
+    let text: string;
+    try {
+      text = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const restored = text
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => {
+        const entry = JSON.parse(line);
+        return { ...entry, timestamp: new Date(entry.timestamp) } as JournalEntry;
+      });
+    this.entries = [...restored, ...this.entries];
+  }
+}
+
+// TRADE_JOURNAL_PATH overrides the file location; 'none' keeps the journal in memory only
+export function createTradeJournalFromEnv(env: NodeJS.ProcessEnv = process.env): TradeJournal {
+  const path = env.TRADE_JOURNAL_PATH || '.data/trade-journal.jsonl';
+  return new TradeJournal({ filePath: path === 'none' ? undefined : path });
+}
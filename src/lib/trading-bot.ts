@@ -4,6 +4,11 @@ import { BotState, BotConfig, BotStatus, Position, Trade, BotAction } from '@/ty
 import { MarketAnalyzer } from './market-analysis';
 import { RiskManager } from './risk-management';
 import { PositionManager } from './position-manager';
+import { Clock, systemClock } from './clock';
+import { SimulatedMarketFeed } from './market-simulator';
+import { marketDataFeedToCandle } from './candles';
+import { Strategy, signalToMarketAnalysis, strategyRegistry } from './strategies';
+import { MarketDataFeed } from '@/types/broker';
 
 export class TradingBot {
   private state: BotState;
@@ -11,12 +16,18 @@ export class TradingBot {
   private riskManager: RiskManager;
   private positionManager: PositionManager;
   private intervalId?: ReturnType<typeof setInterval>;
+  private clock: Clock;
+  private marketFeed: SimulatedMarketFeed;
+  private strategy: Strategy;
 
-  constructor() {
+  constructor(clock: Clock = systemClock, seed?: number, strategyId: string = 'technical') {
+    this.clock = clock;
     this.state = this.initializeState();
+    this.marketFeed = this.createMarketFeed(seed);
+    this.strategy = strategyRegistry.create(strategyId, clock);
     this.marketAnalyzer = new MarketAnalyzer();
     this.riskManager = new RiskManager();
-    this.positionManager = new PositionManager();
+    this.positionManager = new PositionManager(clock);
   }
 
   private initializeState(): BotState {
@@ -26,6 +37,15 @@ export class TradingBot {
       maxRiskPerTrade: 0.02, // 2% risk per trade
       maxDailyLoss: 0.1, // 10% max daily loss
       riskRewardRatio: 2.0, // 1:2 risk reward
+      maxOpenPositions: 1, // Single-symbol bot, one position at a time
+      maxPositionsPerSymbol: 1,
+      maxPortfolioRisk: 0.02,
+      tradingDayStart: '00:00',
+      tradingDayTimezone: 'UTC',
+      flattenOnDailyLoss: false,
+      minConfidence: 70,
+      minProbability: 0.8,
+      maxDrawdown: 0.1,
     };
 
     const status: BotStatus = {
@@ -36,6 +56,7 @@ export class TradingBot {
       tradesCount: 0,
       winRate: 0,
       maxDrawdown: 0,
+      currentDrawdown: 0,
       lastAction: 'Initialized',
     };
 
@@ -43,12 +64,13 @@ export class TradingBot {
       config,
       status,
       positions: [],
+      orders: [],
       trades: [],
       marketData: {
         symbol: 'BTC/USD',
         price: 0,
         volume: 0,
-        timestamp: new Date(),
+        timestamp: this.clock.now(),
         high24h: 0,
         low24h: 0,
         change24h: 0,
@@ -83,6 +105,8 @@ export class TradingBot {
         riskRewardRatio: 2.0,
         volatility: 0,
       },
+      watchlist: ['BTC/USD'],
+      symbols: {},
       actions: [],
     };
   }
@@ -95,7 +119,7 @@ export class TradingBot {
       }
 
       this.state.status.isRunning = true;
-      this.state.status.startTime = new Date();
+      this.state.status.startTime = this.clock.now();
       this.addAction('START', 'Trading bot started successfully', true);
 
       // Start the main trading loop
@@ -141,8 +165,8 @@ export class TradingBot {
       }
 
       // Update market data and analysis
-      await this.updateMarketData();
-      await this.updateAnalysis();
+      const bar = await this.updateMarketData();
+      await this.updateAnalysis(bar);
 
       // Manage existing positions
       await this.managePositions();
@@ -159,19 +183,16 @@ export class TradingBot {
     }
   }
 
-  private async updateMarketData(): Promise<void> {
+  private async updateMarketData(): Promise<MarketDataFeed> {
     // Simulate market data - in real implementation, this would fetch from an exchange API
-    const basePrice = 45000; // Base BTC price
-    const volatility = 0.02; // 2% volatility
-    const randomChange = (Math.random() - 0.5) * 2 * volatility;
-    const newPrice = this.state.marketData.price || basePrice;
+    const bar = this.marketFeed.next();
     
     this.state.marketData = {
       ...this.state.marketData,
-      price: newPrice + (newPrice * randomChange),
-      volume: Math.floor(Math.random() * 1000000),
-      timestamp: new Date(),
-      change24h: randomChange * 100,
+      price: bar.close,
+      volume: bar.volume,
+      timestamp: bar.timestamp,
+      change24h: ((bar.close - bar.open) / bar.open) * 100,
     };
 
     // Update high/low if necessary
@@ -181,24 +202,36 @@ export class TradingBot {
     if (this.state.marketData.price < this.state.marketData.low24h || this.state.marketData.low24h === 0) {
       this.state.marketData.low24h = this.state.marketData.price;
     }
+
+    return bar;
   }
 
-  private async updateAnalysis(): Promise<void> {
+  private async updateAnalysis(bar: MarketDataFeed): Promise<void> {
+    const signal = await this.strategy.onBar(bar, {
+      balance: this.state.status.currentBalance,
+      config: this.state.config,
+    });
+
     // Update technical indicators
-    this.state.indicators = await this.marketAnalyzer.calculateIndicators(this.state.marketData);
+    this.state.indicators = signal.indicators || await this.marketAnalyzer.calculateIndicators(this.state.marketData, marketDataFeedToCandle(bar));
     
-    // Perform market analysis
-    this.state.analysis = await this.marketAnalyzer.analyzeMarket(
-      this.state.marketData,
-      this.state.indicators
-    );
+    // Market analysis comes from the active strategy
+    this.state.analysis = signalToMarketAnalysis(signal);
+
+    // Update risk metrics, sizing positions from the strategy's levels
+    this.state.riskMetrics = {
+      ...this.riskManager.calculateRiskMetrics(
+        this.state.marketData,
+        this.state.indicators,
+        this.state.status.currentBalance
+      ),
+      positionSize: signal.positionSize,
+      stopLossDistance: Math.abs(signal.entryPrice - signal.stopLoss),
+      takeProfitDistance: Math.abs(signal.takeProfit - signal.entryPrice),
+    };
 
-    // Update risk metrics
-    this.state.riskMetrics = this.riskManager.calculateRiskMetrics(
-      this.state.marketData,
-      this.state.indicators,
-      this.state.status.currentBalance
-    );
+    const { marketData, analysis, indicators, riskMetrics } = this.state;
+    this.state.symbols[marketData.symbol] = { symbol: marketData.symbol, marketData, analysis, indicators, riskMetrics };
   }
 
   private async managePositions(): Promise<void> {
@@ -225,7 +258,7 @@ export class TradingBot {
     // Check if we have a strong signal
     const analysis = this.state.analysis;
     return (
-      analysis.confidence > 70 &&
+      analysis.confidence > this.state.config.minConfidence &&
       (analysis.recommendation === 'STRONG_BUY' || analysis.recommendation === 'STRONG_SELL')
     );
   }
@@ -270,15 +303,15 @@ export class TradingBot {
     
     // Create trade record
     const trade: Trade = {
-      id: `trade_${Date.now()}`,
+      id: `trade_${this.clock.now().getTime()}`,
       symbol: position.symbol,
       type: position.type,
       entryPrice: position.entryPrice,
       exitPrice: position.currentPrice,
       quantity: position.quantity,
       profit,
-      duration: Math.floor((new Date().getTime() - position.timestamp.getTime()) / 60000),
-      timestamp: new Date(),
+      duration: Math.floor((this.clock.now().getTime() - position.timestamp.getTime()) / 60000),
+      timestamp: this.clock.now(),
       reason,
     };
 
@@ -326,6 +359,7 @@ export class TradingBot {
 
     // Update max drawdown
     const currentDrawdown = (this.state.config.initialCapital - this.state.status.currentBalance) / this.state.config.initialCapital;
+    this.state.status.currentDrawdown = Math.max(0, currentDrawdown);
     if (currentDrawdown > this.state.status.maxDrawdown) {
       this.state.status.maxDrawdown = currentDrawdown;
     }
@@ -334,7 +368,7 @@ export class TradingBot {
   private addAction(type: BotAction['type'], details: string, success: boolean, error?: string): void {
     this.state.actions.unshift({
       type,
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
       details,
       success,
       error,
@@ -348,6 +382,20 @@ export class TradingBot {
     this.state.status.lastAction = details;
   }
 
+  private createMarketFeed(seed?: number): SimulatedMarketFeed {
+    // Plain ±2% random walk, no regimes or session effects
+    return new SimulatedMarketFeed({
+      seed,
+      intervalMs: 5000,
+      regimeProbabilities: { trending: 0, ranging: 1, breakout: 0 },
+      sessionVolatility: { asian: 1, london: 1, newYork: 1, offHours: 1 },
+      rangeVolatility: 0.04,
+      momentum: 0,
+      noise: 0,
+      baseVolume: 500000,
+    }, this.clock);
+  }
+
   // Public getters
   getState(): BotState {
     return { ...this.state };
@@ -357,6 +405,18 @@ export class TradingBot {
     return { ...this.state.status };
   }
 
+  getStrategy(): { id: string; name: string } {
+    return { id: this.strategy.id, name: this.strategy.name };
+  }
+
+  setStrategy(strategyId: string): void {
+    if (this.state.positions.some(p => p.status === 'OPEN')) {
+      throw new Error('Close open positions before switching strategy');
+    }
+    this.strategy = strategyRegistry.create(strategyId, this.clock);
+    this.addAction('UPDATE', `Strategy switched to ${this.strategy.name}`, true);
+  }
+
   reset(): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -364,6 +424,7 @@ export class TradingBot {
     }
     
     this.state = this.initializeState();
+    this.strategy = strategyRegistry.create(this.strategy.id, this.clock);
     this.addAction('RESET', 'Trading bot reset to initial state', true);
   }
 }
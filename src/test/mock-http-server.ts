@@ -0,0 +1,135 @@
+// Local HTTP stand-in for broker APIs in tests
+//
+// Routes match on method and path (":name" segments become params). A handler returns the JSON reply,
+// or writes to the raw response itself (e.g. to stream) and returns nothing. Every request is recorded.
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  params: Record<string, string>;
+  headers: IncomingMessage['headers'];
+  rawBody: string;
+  body: unknown; // Parsed JSON or form body, undefined when empty
+}
+
+export interface MockReply {
+  status?: number;
+  body?: unknown;
+}
+
+export type MockHandler = (request: MockRequest, response: ServerResponse) => MockReply | void | Promise<MockReply | void>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  names: string[];
+  handler: MockHandler;
+}
+
+export class MockHttpServer {
+  readonly requests: MockRequest[] = [];
+  private routes: Route[] = [];
+  private server: Server;
+  private sockets = new Set<import('net').Socket>();
+
+  constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  route(method: string, path: string, handler: MockHandler): this {
+    const names: string[] = [];
+    const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, name) => {
+      names.push(name);
+      return '([^/]+)';
+    })}$`);
+    this.routes.unshift({ method, pattern, names, handler }); // Later routes override earlier ones
+    return this;
+  }
+
+  find(method: string, path: string): MockRequest[] {
+    return this.requests.filter(request => request.method === method && request.path === path);
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  // Drops open connections (and any stream on them) so tests can simulate a server-side disconnect
+  dropConnections(): void {
+    this.sockets.forEach(socket => socket.destroy());
+  }
+
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const rawBody = Buffer.concat(chunks).toString('utf8');
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const request: MockRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      params: {},
+      headers: req.headers,
+      rawBody,
+      body: parseBody(rawBody, req.headers['content-type']),
+    };
+    this.requests.push(request);
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (!match) continue;
+      route.names.forEach((name, index) => { request.params[name] = decodeURIComponent(match[index + 1]); });
+
+      try {
+        const reply = await route.handler(request, res);
+        if (reply) send(res, reply.status ?? 200, reply.body);
+      } catch (error) {
+        send(res, 500, { message: error instanceof Error ? error.message : String(error) });
+      }
+      return;
+    }
+    send(res, 404, { message: `No mock route for ${request.method} ${request.path}` });
+  }
+}
+
+function parseBody(rawBody: string, contentType?: string): unknown {
+  if (!rawBody) return undefined;
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return rawBody;
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  if (status === 204 || body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
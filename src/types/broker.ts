@@ -3,7 +3,7 @@
 export interface BrokerConfig {
   id: string;
   name: string;
-  type: 'MT4' | 'MT5' | 'OANDA' | 'INTERACTIVE_BROKERS' | 'ALPACA' | 'BINANCE' | 'CUSTOM';
+  type: 'MT4' | 'MT5' | 'OANDA' | 'INTERACTIVE_BROKERS' | 'ALPACA' | 'BINANCE' | 'PAPER' | 'CUSTOM';
   apiKey: string;
   secretKey?: string;
   serverUrl: string;
@@ -60,12 +60,20 @@ export interface OrderRequest {
   expiration?: Date;
 }
 
+// Fields left undefined are unchanged; price only applies to pending orders
+export interface OrderModification {
+  stopLoss?: number;
+  takeProfit?: number;
+  price?: number;
+}
+
 export interface BrokerOrder {
   ticket: string;
   symbol: string;
   type: 'BUY' | 'SELL';
   volume: number;
-  openPrice: number;
+  filledVolume?: number; // Less than volume while partially filled; defaults to volume once OPEN
+  openPrice: number; // Average fill price once filled
   currentPrice: number;
   stopLoss?: number;
   takeProfit?: number;
@@ -75,7 +83,7 @@ export interface BrokerOrder {
   comment: string;
   openTime: Date;
   closeTime?: Date;
-  status: 'PENDING' | 'OPEN' | 'CLOSED' | 'CANCELLED';
+  status: 'PENDING' | 'OPEN' | 'CLOSED' | 'CANCELLED' | 'EXPIRED';
 }
 
 export interface TradingSession {
@@ -6,6 +6,15 @@ export interface BotConfig {
   maxRiskPerTrade: number;
   maxDailyLoss: number;
   riskRewardRatio: number;
+  maxOpenPositions: number; // Across all symbols
+  maxPositionsPerSymbol: number;
+  maxPortfolioRisk: number; // Combined stop-loss risk of open positions as a fraction of balance
+  tradingDayStart: string; // 'HH:mm' at which the daily loss ledger resets
+  tradingDayTimezone: string; // 'UTC', an offset like '-05:00', or an IANA zone
+  flattenOnDailyLoss: boolean; // Close open positions when the daily loss limit is hit
+  minConfidence: number; // Strategy entries need at least this signal confidence (0-100)
+  minProbability: number; // Strategy entries need at least this win probability (0-1)
+  maxDrawdown: number; // New entries pause while realized equity sits this fraction below its peak
 }
 
 export interface BotStatus {
@@ -15,7 +24,8 @@ export interface BotStatus {
   targetReached: boolean;
   tradesCount: number;
   winRate: number;
-  maxDrawdown: number;
+  maxDrawdown: number; // 0-1, deepest peak-to-trough so far
+  currentDrawdown: number; // 0-1, below the realized equity peak right now
   lastAction: string;
   startTime?: Date;
 }
@@ -30,6 +40,29 @@ export interface MarketData {
   change24h: number;
 }
 
+export type Timeframe = 'M1' | 'M5' | 'M15' | 'H1' | 'H4' | 'D1';
+
+export interface Candle {
+  symbol: string;
+  timeframe: Timeframe;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface MultiTimeframeCandles {
+  m1: Candle[];
+  m5: Candle[];
+  m15: Candle[];
+  h1: Candle[];
+  h4: Candle[];
+  d1: Candle[];
+}
+
 export interface TechnicalIndicators {
   rsi: number;
   macd: {
@@ -70,9 +103,49 @@ export interface Position {
   quantity: number;
   stopLoss: number;
   takeProfit: number;
+  initialStopLoss?: number; // Stop loss at entry, before any trailing or manual change
   unrealizedPnL: number;
   timestamp: Date;
   status: 'OPEN' | 'CLOSED' | 'PENDING';
+  brokerTicket?: string; // Set once the order is placed with a live broker
+  orderId?: string; // Entry order; quantity and entryPrice follow its fills
+  manual?: boolean; // Opened by hand; strategy exits leave it alone, only its stop loss and take profit apply
+  configVersion?: number; // Config version active when the position was opened
+}
+
+export interface ManualPositionRequest {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
+  stopLoss?: number; // Defaults to 2% from the entry price
+  takeProfit?: number; // Defaults to the stop distance times the configured reward ratio
+}
+
+export type OrderStatus = 'NEW' | 'ACCEPTED' | 'PARTIALLY_FILLED' | 'FILLED' | 'REJECTED' | 'CANCELLED' | 'EXPIRED';
+
+export interface OrderFill {
+  quantity: number;
+  price: number;
+  timestamp: Date;
+}
+
+// An order tracked from submission to a terminal state (FILLED, REJECTED, CANCELLED or EXPIRED)
+export interface ManagedOrder {
+  id: string;
+  positionId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT' | 'STOP';
+  quantity: number; // Requested
+  filledQuantity: number;
+  averageFillPrice: number;
+  status: OrderStatus;
+  brokerTicket?: string;
+  rejectReason?: string;
+  fills: OrderFill[];
+  history: { status: OrderStatus; timestamp: Date; reason?: string }[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Trade {
@@ -85,7 +158,10 @@ export interface Trade {
   profit: number;
   duration: number; // in minutes
   timestamp: Date;
+  openedAt?: Date;
   reason: string; // Exit reason
+  risk?: number; // Loss had the initial stop loss been hit, for R-multiples
+  configVersion?: number; // Config version active when the position was opened
 }
 
 export interface RiskMetrics {
@@ -99,21 +175,48 @@ export interface RiskMetrics {
 }
 
 export interface BotAction {
-  type: 'START' | 'STOP' | 'OPEN_POSITION' | 'CLOSE_POSITION' | 'UPDATE_SL' | 'UPDATE_TP' | 'UPDATE' | 'RESET' | 'BROKER_CONNECTED' | 'BROKER_ERROR' | 'BROKER_ORDER' | 'BROKER_CLOSE' | 'TARGET_REACHED' | 'ANALYSIS';
+  type: 'START' | 'STOP' | 'OPEN_POSITION' | 'CLOSE_POSITION' | 'UPDATE_SL' | 'UPDATE_TP' | 'UPDATE' | 'RESET' | 'BROKER_CONNECTED' | 'BROKER_ERROR' | 'BROKER_ORDER' | 'BROKER_CLOSE' | 'TARGET_REACHED' | 'ANALYSIS' | 'RESTORE' | 'CIRCUIT_BREAKER' | 'ORDER_UPDATE';
   timestamp: Date;
   details: string;
   success: boolean;
   error?: string;
 }
 
+// Realized and unrealized P&L for the current trading day, checked against maxDailyLoss
+export interface DailyLossLedger {
+  sessionStart: Date;
+  sessionEnd: Date;
+  startingBalance: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  limit: number; // Loss in account currency that trips the breaker
+  halted: boolean;
+  haltedAt?: Date;
+  overridden: boolean; // Trading was explicitly resumed for the rest of this session
+}
+
+// Market data and analysis for one symbol on the watchlist
+export interface SymbolState {
+  symbol: string;
+  marketData: MarketData;
+  analysis: MarketAnalysis;
+  indicators: TechnicalIndicators;
+  riskMetrics: RiskMetrics;
+}
+
 export interface BotState {
   config: BotConfig;
   status: BotStatus;
   positions: Position[];
+  orders: ManagedOrder[];
   trades: Trade[];
+  // marketData/analysis/indicators/riskMetrics mirror the primary (first) watchlist symbol
   marketData: MarketData;
   analysis: MarketAnalysis;
   indicators: TechnicalIndicators;
   riskMetrics: RiskMetrics;
+  watchlist: string[];
+  symbols: Record<string, SymbolState>;
+  dailyLoss?: DailyLossLedger; // Set by bots that enforce maxDailyLoss
   actions: BotAction[];
 }
\ No newline at end of file
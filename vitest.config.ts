@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // The bot singleton and broker adapters must not read or write the local .data directory
+    env: { BOT_STATE_STORE: 'none', TRADE_JOURNAL_PATH: 'none', BINANCE_EXITS_PATH: 'none' },
+  },
+});